@@ -17,6 +17,7 @@ import Runs from "@/pages/runs";
 import Templates from "@/pages/templates";
 import Integrations from "@/pages/integrations";
 import Secrets from "@/pages/secrets";
+import Policies from "@/pages/policies";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
@@ -53,6 +54,7 @@ function AppRouter() {
             <Route path="/templates" component={Templates} />
             <Route path="/integrations" component={Integrations} />
             <Route path="/secrets" component={Secrets} />
+            <Route path="/policies" component={Policies} />
             <Route path="/settings" component={Settings} />
           </>
         )}
@@ -10,6 +10,8 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import KnowledgeCitations from "./knowledge-citations";
+import type { KnowledgeCitation } from "@shared/schema";
 
 interface AgentPreviewProps {
   agentData: any;
@@ -23,6 +25,7 @@ interface Message {
   role: 'user' | 'agent';
   content: string;
   timestamp: Date;
+  citations?: KnowledgeCitation[]; // Knowledge the agent's answer drew on
 }
 
 export default function AgentPreview({ agentData, isOpen, onClose, agentId }: AgentPreviewProps) {
@@ -63,7 +66,8 @@ export default function AgentPreview({ agentData, isOpen, onClose, agentId }: Ag
         id: Date.now().toString() + '-agent',
         role: 'agent',
         content: data.response || data.result || 'No response received',
-        timestamp: new Date()
+        timestamp: new Date(),
+        citations: data.citations
       };
       setMessages(prev => [...prev, agentMessage]);
       setIsExecuting(false);
@@ -219,6 +223,7 @@ export default function AgentPreview({ agentData, isOpen, onClose, agentId }: Ag
                             }`}
                           >
                             <p className="text-sm">{message.content}</p>
+                            {message.citations && <KnowledgeCitations citations={message.citations} />}
                             <p className="text-xs opacity-70 mt-1">
                               {message.timestamp.toLocaleTimeString()}
                             </p>
@@ -267,7 +272,7 @@ export default function AgentPreview({ agentData, isOpen, onClose, agentId }: Ag
             {agentId ? (
               <span className="flex items-center gap-1">
                 <i className="fas fa-check-circle text-green-500"></i>
-                Saved agent - real execution
+                Saved agent - real execution (tools are not called in previews)
               </span>
             ) : (
               <span className="flex items-center gap-1">
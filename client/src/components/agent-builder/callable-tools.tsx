@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { useFormContext } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import type { AgentToolRef, McpConfiguration, McpTool, Tool } from "@shared/schema";
+
+// Project and MCP tools the agent may call during a run (stored in allowedTools)
+export default function CallableTools() {
+  const form = useFormContext();
+  const projectId: string = form.watch("projectId");
+  const allowedTools: AgentToolRef[] = form.watch("allowedTools") || [];
+
+  const { data: tools = [] } = useQuery<Tool[]>({
+    queryKey: ["/api/projects", projectId, "tools"],
+    enabled: !!projectId,
+  });
+
+  const { data: mcpConfigurations = [] } = useQuery<McpConfiguration[]>({
+    queryKey: ["/api/projects", projectId, "mcp-configurations"],
+    enabled: !!projectId,
+  });
+
+  const isAllowed = (ref: AgentToolRef) => allowedTools.some((allowed) => sameRef(allowed, ref));
+
+  const toggle = (ref: AgentToolRef, checked: boolean) => {
+    const next = checked
+      ? [...allowedTools.filter((allowed) => !sameRef(allowed, ref)), ref]
+      : allowedTools.filter((allowed) => !sameRef(allowed, ref));
+    form.setValue("allowedTools", next.length > 0 ? next : null, { shouldDirty: true });
+  };
+
+  const clientConfigurations = mcpConfigurations.filter((config) => config.role === 'client');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <i className="fas fa-plug text-primary"></i>
+          Callable Tools ({allowedTools.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          The agent can call these tools itself while it runs. Each call shows up in the run log as a child step.
+        </p>
+
+        {!projectId ? (
+          <p className="text-sm text-muted-foreground">Save the agent to a project to choose tools.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Project tools</h4>
+              {tools.length === 0 && <p className="text-sm text-muted-foreground">No tools in this project.</p>}
+              {tools.map((tool) => {
+                const ref: AgentToolRef = { kind: "tool", id: tool.id };
+                return (
+                  <label key={tool.id} className="flex items-center gap-3 text-sm" data-testid={`checkbox-allowed-tool-${tool.id}`}>
+                    <Checkbox checked={isAllowed(ref)} onCheckedChange={(checked) => toggle(ref, checked === true)} />
+                    <span className="font-medium">{tool.name}</span>
+                    <Badge variant="outline">{tool.type}</Badge>
+                  </label>
+                );
+              })}
+            </div>
+
+            {clientConfigurations.map((config) => (
+              <McpToolOptions key={config.id} config={config} isAllowed={isAllowed} toggle={toggle} />
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function McpToolOptions({ config, isAllowed, toggle }: {
+  config: McpConfiguration;
+  isAllowed: (ref: AgentToolRef) => boolean;
+  toggle: (ref: AgentToolRef, checked: boolean) => void;
+}) {
+  const { data: mcpTools = [] } = useQuery<McpTool[]>({
+    queryKey: ["/api/mcp-configurations", config.id, "tools"],
+  });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">MCP: {config.name}</h4>
+      {mcpTools.length === 0 && <p className="text-sm text-muted-foreground">No synced tools.</p>}
+      {mcpTools.map((tool) => {
+        const ref: AgentToolRef = { kind: "mcp", mcpConfigId: config.id, name: tool.name };
+        return (
+          <label key={tool.id} className="flex items-center gap-3 text-sm" data-testid={`checkbox-allowed-mcp-tool-${tool.name}`}>
+            <Checkbox checked={isAllowed(ref)} onCheckedChange={(checked) => toggle(ref, checked === true)} />
+            <span className="font-medium">{tool.name}</span>
+            {tool.description && <span className="text-muted-foreground truncate">{tool.description}</span>}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+function sameRef(a: AgentToolRef, b: AgentToolRef): boolean {
+  if (a.kind === "tool" && b.kind === "tool") return a.id === b.id;
+  if (a.kind === "mcp" && b.kind === "mcp") return a.mcpConfigId === b.mcpConfigId && a.name === b.name;
+  return false;
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { KnowledgeCitation } from "@shared/schema";
+
+interface KnowledgeCitationsProps {
+  citations: KnowledgeCitation[];
+}
+
+// Where a cited chunk sits in its document: page and/or section heading path
+const location = (citation: KnowledgeCitation) =>
+  [citation.page !== undefined ? `page ${citation.page}` : null, citation.sectionPath]
+    .filter(Boolean)
+    .join(" • ");
+
+// Knowledge an agent answer was given, numbered like the [Knowledge N] markers the agent cites.
+// Each source opens the chunk's details; crawled pages link to the page itself.
+export default function KnowledgeCitations({ citations }: KnowledgeCitationsProps) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2" data-testid="knowledge-citations">
+      <span className="text-xs text-muted-foreground mr-1">Sources:</span>
+      {citations.map((citation) => (
+        <Popover key={`${citation.knowledgeItemId}-${citation.chunkIndex}`}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs max-w-[14rem]"
+              data-testid={`citation-${citation.index}`}
+            >
+              <i className={`fas ${citation.url ? "fa-link" : "fa-file-alt"} mr-1`}></i>
+              <span className="truncate">[{citation.index}] {citation.title}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 text-xs space-y-2">
+            <div className="font-medium text-sm break-words">{citation.title}</div>
+            <div className="text-muted-foreground">
+              {[
+                location(citation),
+                `chunk ${citation.chunkIndex + 1}`,
+                citation.similarity !== undefined ? `${Math.round(citation.similarity * 100)}% similar` : null,
+              ].filter(Boolean).join(" • ")}
+            </div>
+            {citation.filename && (
+              <div className="text-muted-foreground truncate">{citation.filename}</div>
+            )}
+            <p className="whitespace-pre-wrap break-words bg-muted/50 rounded p-2">{citation.snippet}</p>
+            {citation.url && (
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline break-all"
+                data-testid={`citation-link-${citation.index}`}
+              >
+                <i className="fas fa-external-link-alt mr-1"></i>
+                {citation.url}
+              </a>
+            )}
+          </PopoverContent>
+        </Popover>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { KnowledgeSource, KnowledgeSourceType } from "@shared/schema";
+
+const SOURCE_TYPE_LABELS: Record<KnowledgeSourceType, string> = {
+  url: "Single page",
+  sitemap: "Sitemap",
+  domain: "Whole site",
+};
+
+const RECRAWL_OPTIONS = [
+  { value: "never", label: "Never", hours: null },
+  { value: "daily", label: "Daily", hours: 24 },
+  { value: "weekly", label: "Weekly", hours: 168 },
+  { value: "monthly", label: "Monthly", hours: 720 },
+];
+
+const paths = (value: string) => value.split(",").map((path) => path.trim()).filter(Boolean);
+
+interface KnowledgeSourcesProps {
+  knowledgeBaseId: string | null;
+}
+
+// Web pages, sitemaps and sites crawled into the knowledge base; crawl progress arrives over
+// the knowledge tab's WebSocket, which refreshes the sources query
+export default function KnowledgeSources({ knowledgeBaseId }: KnowledgeSourcesProps) {
+  const [url, setUrl] = useState("");
+  const [type, setType] = useState<KnowledgeSourceType>("url");
+  const [maxDepth, setMaxDepth] = useState("");
+  const [maxPages, setMaxPages] = useState("");
+  const [includePaths, setIncludePaths] = useState("");
+  const [excludePaths, setExcludePaths] = useState("");
+  const [recrawl, setRecrawl] = useState("never");
+  const { toast } = useToast();
+
+  const sourcesKey = ["/api/knowledge-bases", knowledgeBaseId, "sources"];
+  const { data: sources = [] } = useQuery<KnowledgeSource[]>({
+    queryKey: sourcesKey,
+    enabled: !!knowledgeBaseId,
+  });
+
+  const addSourceMutation = useMutation({
+    mutationFn: async () => {
+      const config = {
+        ...(maxDepth !== "" ? { maxDepth: Number(maxDepth) } : {}),
+        ...(maxPages !== "" ? { maxPages: Number(maxPages) } : {}),
+        ...(paths(includePaths).length ? { includePaths: paths(includePaths) } : {}),
+        ...(paths(excludePaths).length ? { excludePaths: paths(excludePaths) } : {}),
+      };
+      const response = await apiRequest("POST", `/api/knowledge-bases/${knowledgeBaseId}/sources`, {
+        type,
+        url: url.trim(),
+        config,
+        recrawlIntervalHours: RECRAWL_OPTIONS.find((option) => option.value === recrawl)?.hours ?? null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+      setUrl("");
+      toast({
+        title: "Source added",
+        description: "Crawling will start shortly",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add source",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const crawlMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const response = await apiRequest("POST", `/api/knowledge-sources/${sourceId}/crawl`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start crawl",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteSourceMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const response = await apiRequest("DELETE", `/api/knowledge-sources/${sourceId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge-bases", knowledgeBaseId, "items"] });
+      toast({
+        title: "Source deleted",
+        description: "The source and its crawled pages were removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete source",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const addSource = () => {
+    try {
+      new URL(url.trim());
+    } catch {
+      toast({
+        title: "Invalid URL",
+        description: "Please enter a valid URL",
+        variant: "destructive",
+      });
+      return;
+    }
+    addSourceMutation.mutate();
+  };
+
+  const getStatusVariant = (status: string | null) => {
+    switch (status) {
+      case "crawling": return "secondary";
+      case "error": return "destructive";
+      default: return "outline";
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          placeholder={type === "sitemap" ? "https://example.com/sitemap.xml" : "https://example.com/documentation"}
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          data-testid="input-knowledge-url"
+        />
+        <Select value={type} onValueChange={(value) => setType(value as KnowledgeSourceType)}>
+          <SelectTrigger className="w-40" data-testid="select-source-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SOURCE_TYPE_LABELS) as KnowledgeSourceType[]).map((sourceType) => (
+              <SelectItem key={sourceType} value={sourceType}>{SOURCE_TYPE_LABELS[sourceType]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={addSource} disabled={!knowledgeBaseId || addSourceMutation.isPending} data-testid="button-add-url">
+          <i className="fas fa-plus mr-2"></i>
+          Add Source
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="crawl-max-depth">Link depth</Label>
+          <Input
+            id="crawl-max-depth"
+            type="number"
+            min={0}
+            max={10}
+            placeholder={type === "domain" ? "3" : "0"}
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(e.target.value)}
+            data-testid="input-crawl-max-depth"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="crawl-max-pages">Max pages</Label>
+          <Input
+            id="crawl-max-pages"
+            type="number"
+            min={1}
+            max={5000}
+            placeholder="200"
+            value={maxPages}
+            onChange={(e) => setMaxPages(e.target.value)}
+            data-testid="input-crawl-max-pages"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="crawl-include">Only paths</Label>
+          <Input
+            id="crawl-include"
+            placeholder="/docs, /guides/*"
+            value={includePaths}
+            onChange={(e) => setIncludePaths(e.target.value)}
+            data-testid="input-crawl-include"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="crawl-exclude">Skip paths</Label>
+          <Input
+            id="crawl-exclude"
+            placeholder="/blog"
+            value={excludePaths}
+            onChange={(e) => setExcludePaths(e.target.value)}
+            data-testid="input-crawl-exclude"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Re-crawl</Label>
+          <Select value={recrawl} onValueChange={setRecrawl}>
+            <SelectTrigger data-testid="select-crawl-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECRAWL_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Pages are crawled on the same site, respecting robots.txt. Only the main content is kept, duplicate pages are skipped, and re-crawls re-embed pages that changed.
+      </p>
+
+      {sources.length > 0 && (
+        <div className="space-y-2">
+          {sources.map((source) => (
+            <div key={source.id} className="flex items-center gap-3 p-3 border border-border rounded-lg" data-testid={`knowledge-source-${source.id}`}>
+              <i className={`fas ${source.type === "sitemap" ? "fa-sitemap" : source.type === "domain" ? "fa-globe" : "fa-link"} text-muted-foreground`}></i>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{source.url}</div>
+                <div className="text-sm text-muted-foreground">
+                  {SOURCE_TYPE_LABELS[source.type]} • {source.pagesCrawled ?? 0} pages
+                  {source.lastCrawledAt && ` • crawled ${new Date(source.lastCrawledAt).toLocaleString()}`}
+                  {source.nextCrawlAt && source.status !== "crawling" && ` • next ${new Date(source.nextCrawlAt).toLocaleString()}`}
+                </div>
+                {source.lastError && (
+                  <div className="text-sm text-destructive truncate">{source.lastError}</div>
+                )}
+              </div>
+              <Badge variant={getStatusVariant(source.status)}>{source.status}</Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => crawlMutation.mutate(source.id)}
+                disabled={source.status === "crawling" || crawlMutation.isPending}
+                data-testid={`button-crawl-source-${source.id}`}
+              >
+                <i className="fas fa-rotate"></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteSourceMutation.mutate(source.id)}
+                disabled={deleteSourceMutation.isPending}
+                data-testid={`button-remove-source-${source.id}`}
+              >
+                <i className="fas fa-trash text-destructive"></i>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
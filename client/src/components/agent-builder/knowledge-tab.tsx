@@ -7,10 +7,21 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import KnowledgeSources from "./knowledge-sources";
+import type { ChunkStrategy } from "@shared/schema";
+
+const CHUNK_STRATEGY_LABELS: Record<ChunkStrategy, string> = {
+  recursive: "Recursive (headings, paragraphs, sentences)",
+  token: "Token-based (embedding model tokenizer)",
+  markdown: "Markdown sections",
+  code: "Code-aware",
+  fixed: "Fixed-size windows",
+};
 
 interface KnowledgeTabProps {
   agentData: any;
@@ -18,9 +29,13 @@ interface KnowledgeTabProps {
 }
 
 export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabProps) {
-  const [newUrl, setNewUrl] = useState("");
   const [newText, setNewText] = useState("");
   const [selectedKnowledgeBase, setSelectedKnowledgeBase] = useState<string | null>(null);
+  const [chunking, setChunking] = useState<{ chunkStrategy: ChunkStrategy; chunkSize: number; chunkOverlap: number }>({
+    chunkStrategy: "recursive",
+    chunkSize: 1000,
+    chunkOverlap: 200,
+  });
   const { toast } = useToast();
 
   // Query for knowledge bases
@@ -46,12 +61,87 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
         description: "Default knowledge base for this agent",
         embeddingModel: "text-embedding-3-small",
         vectorDimensions: 1536,
+        chunkStrategy: "recursive",
         chunkSize: 1500,
         chunkOverlap: 200
       });
     }
   }, [knowledgeBases, selectedKnowledgeBase, loadingKnowledgeBases, agentData?.id]);
 
+  // Chunking settings follow the selected knowledge base
+  const currentKnowledgeBase = knowledgeBases.find((kb) => kb.id === selectedKnowledgeBase);
+  useEffect(() => {
+    if (currentKnowledgeBase) {
+      setChunking({
+        chunkStrategy: currentKnowledgeBase.chunkStrategy || "recursive",
+        chunkSize: currentKnowledgeBase.chunkSize ?? 1000,
+        chunkOverlap: currentKnowledgeBase.chunkOverlap ?? 200,
+      });
+    }
+  }, [currentKnowledgeBase?.id, currentKnowledgeBase?.chunkStrategy, currentKnowledgeBase?.chunkSize, currentKnowledgeBase?.chunkOverlap]);
+
+  // Follow ingestion over /ws: progress is patched into the items list, and the list is
+  // refetched when an item finishes so its final state comes from the server
+  useEffect(() => {
+    if (!selectedKnowledgeBase) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const itemsKey = ["/api/knowledge-bases", selectedKnowledgeBase, "items"];
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'subscribe_knowledge_base', knowledgeBaseId: selectedKnowledgeBase }));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      if (message.knowledgeBaseId !== selectedKnowledgeBase) return;
+
+      // Crawls add, update and remove items as they go
+      if (message.type === 'crawl_progress') {
+        queryClient.invalidateQueries({ queryKey: ["/api/knowledge-bases", selectedKnowledgeBase, "sources"] });
+        queryClient.invalidateQueries({ queryKey: itemsKey });
+        return;
+      }
+      if (message.type !== 'ingestion_progress') return;
+
+      const { itemId, status, chunksDone, chunksTotal, error } = message.data;
+      queryClient.setQueryData<any[]>(itemsKey, (items) => items?.map((item) => item.id === itemId
+        ? { ...item, processingStatus: status, chunksDone, chunksTotal, processingError: error ?? null }
+        : item));
+      if (status === 'completed' || status === 'error') {
+        queryClient.invalidateQueries({ queryKey: itemsKey });
+      }
+    };
+
+    return () => socket.close();
+  }, [selectedKnowledgeBase]);
+
+  // Mutation for saving chunking settings; existing items are re-indexed when they change
+  const updateChunkingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/knowledge-bases/${selectedKnowledgeBase}`, chunking);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentData.id, "knowledge-bases"] });
+      refetchKnowledgeItems();
+      toast({
+        title: "Chunking settings saved",
+        description: result.reindexQueued > 0
+          ? `Re-indexing ${result.reindexQueued} items with the new settings`
+          : "New items will be chunked with these settings",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save chunking settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Mutation for creating knowledge base
   const createKnowledgeBase = useMutation({
     mutationFn: async (data: any) => {
@@ -92,7 +182,11 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
       
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(errorText || 'Upload failed');
+        let message = errorText;
+        try {
+          message = JSON.parse(errorText).message || errorText;
+        } catch {}
+        throw new Error(message || 'Upload failed');
       }
       
       return response.json();
@@ -100,8 +194,8 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
     onSuccess: (result) => {
       refetchKnowledgeItems();
       toast({
-        title: "File uploaded successfully",
-        description: `Processed ${result.totalChunks} chunks with ${result.embeddingsCount} embeddings`,
+        title: "File uploaded",
+        description: `${result.filename} is queued for processing`,
       });
     },
     onError: (error) => {
@@ -128,7 +222,7 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
     }
   };
 
-  // Mutation for adding knowledge items (URL and text)
+  // Mutation for adding text knowledge items
   const addKnowledgeItemMutation = useMutation({
     mutationFn: async (data: { type: string, title: string, content: string, metadata?: any }) => {
       if (!selectedKnowledgeBase) {
@@ -142,7 +236,7 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
       refetchKnowledgeItems();
       toast({
         title: "Knowledge item added",
-        description: "Item added and processed successfully",
+        description: "Item added to the knowledge base",
       });
     },
     onError: (error) => {
@@ -176,26 +270,61 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
     }
   });
 
-  const addUrl = () => {
-    if (!newUrl.trim() || !selectedKnowledgeBase) return;
-    
-    try {
-      const urlObj = new URL(newUrl);
-      addKnowledgeItemMutation.mutate({
-        type: "url",
-        title: urlObj.hostname,
-        content: newUrl,
-        metadata: { originalUrl: newUrl }
+  // Mutations for the ingestion queue: retry a failed item, cancel a pending one, re-index everything
+  const retryKnowledgeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const response = await apiRequest("POST", `/api/knowledge-items/${itemId}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refetchKnowledgeItems();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to retry item",
+        description: error.message,
+        variant: "destructive",
       });
-      setNewUrl("");
-    } catch (error) {
+    }
+  });
+
+  const cancelKnowledgeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const response = await apiRequest("POST", `/api/knowledge-items/${itemId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refetchKnowledgeItems();
+    },
+    onError: (error) => {
       toast({
-        title: "Invalid URL",
-        description: "Please enter a valid URL",
+        title: "Failed to cancel item",
+        description: error.message,
         variant: "destructive",
       });
     }
-  };
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/knowledge-bases/${selectedKnowledgeBase}/reindex`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      refetchKnowledgeItems();
+      toast({
+        title: "Re-indexing started",
+        description: `${result.queued} items queued for re-indexing`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to re-index",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
 
   const addText = () => {
     if (!newText.trim() || !selectedKnowledgeBase) return;
@@ -223,7 +352,9 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
       case "processing": return "fas fa-spinner fa-spin text-yellow-500";
       case "uploading": return "fas fa-upload text-blue-500";
       case "error": return "fas fa-exclamation-circle text-red-500";
+      case "queued":
       case "pending": return "fas fa-clock text-yellow-500";
+      case "cancelled": return "fas fa-ban text-gray-400";
       default: return "fas fa-circle text-gray-400";
     }
   };
@@ -258,9 +389,7 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
             <div className="text-center">
               <div className="text-2xl font-bold text-secondary" data-testid="knowledge-chunks-count">
                 {loadingKnowledgeItems ? "..." : (knowledgeItems as any[]).reduce((sum: number, item: any) => {
-                  // Calculate chunks based on content length if not provided
-                  const chunks = item.metadata?.totalChunks || Math.ceil((item.content?.length || 0) / 1500);
-                  return sum + chunks;
+                  return sum + (item.chunksTotal || 0);
                 }, 0)}
               </div>
               <div className="text-sm text-muted-foreground">Chunks</div>
@@ -276,8 +405,7 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
             <div className="text-center">
               <div className="text-2xl font-bold text-green-500" data-testid="knowledge-embeddings-count">
                 {loadingKnowledgeItems ? "..." : (knowledgeItems as any[]).reduce((sum: number, item: any) => {
-                  const chunks = item.metadata?.totalChunks || Math.ceil((item.content?.length || 0) / 1500);
-                  return sum + chunks;
+                  return sum + (item.processingStatus === "completed" ? item.chunksTotal || 0 : 0);
                 }, 0)}
               </div>
               <div className="text-sm text-muted-foreground">Embeddings</div>
@@ -316,12 +444,12 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
                 <i className="fas fa-cloud-upload-alt text-4xl text-muted-foreground mb-4"></i>
                 <h3 className="text-lg font-medium mb-2">Upload Documents</h3>
                 <p className="text-muted-foreground mb-4">
-                  Supports PDF, TXT, DOC, CSV, and more
+                  Supports PDF, Word (.docx), HTML, Markdown, CSV, Excel, and more
                 </p>
                 <input
                   type="file"
                   multiple
-                  accept=".pdf,.txt,.doc,.docx,.csv,.md,.json"
+                  accept=".pdf,.docx,.txt,.md,.markdown,.html,.htm,.csv,.tsv,.xlsx,.json,.png,.jpg,.jpeg,.tif,.tiff"
                   onChange={handleFileUpload}
                   className="hidden"
                   id="file-upload"
@@ -336,21 +464,7 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
             </TabsContent>
 
             <TabsContent value="url" className="space-y-4">
-              <div className="flex gap-2">
-                <Input
-                  placeholder="https://example.com/documentation"
-                  value={newUrl}
-                  onChange={(e) => setNewUrl(e.target.value)}
-                  data-testid="input-knowledge-url"
-                />
-                <Button onClick={addUrl} data-testid="button-add-url">
-                  <i className="fas fa-plus mr-2"></i>
-                  Add URL
-                </Button>
-              </div>
-              <p className="text-sm text-muted-foreground">
-                We'll scrape and process the content from the provided URL.
-              </p>
+              <KnowledgeSources knowledgeBaseId={selectedKnowledgeBase} />
             </TabsContent>
 
             <TabsContent value="text" className="space-y-4">
@@ -373,9 +487,21 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
       {/* Knowledge Items List */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <i className="fas fa-list text-primary"></i>
-            Knowledge Items
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <i className="fas fa-list text-primary"></i>
+              Knowledge Items
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reindexMutation.mutate()}
+              disabled={!selectedKnowledgeBase || (knowledgeItems as any[]).length === 0 || reindexMutation.isPending}
+              data-testid="button-reindex-knowledge"
+            >
+              <i className="fas fa-rotate mr-2"></i>
+              Re-index All
+            </Button>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -400,15 +526,50 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
                       <div className="text-sm text-muted-foreground">
                         {item.type === "file" && item.metadata?.mimeType && `${item.metadata.mimeType} • `}
                         {item.content ? `${(item.content.length / 1024).toFixed(1)} KB` : "0 KB"} • 
-                        {item.metadata?.totalChunks || Math.ceil((item.content?.length || 0) / 1500)} chunks
+                        {item.chunksTotal || 0} chunks
                       </div>
+                      {item.processingStatus === "error" && item.processingError && (
+                        <div className="text-sm text-destructive" data-testid={`text-knowledge-error-${item.id}`}>
+                          {item.processingError}
+                        </div>
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-3">
+                  {item.processingStatus === "processing" && (
+                    <div className="flex-1 space-y-1" data-testid={`progress-knowledge-${item.id}`}>
+                      <Progress value={item.chunksTotal ? (item.chunksDone / item.chunksTotal) * 100 : 0} />
+                      <div className="text-xs text-muted-foreground">
+                        {item.chunksTotal ? `${item.chunksDone} / ${item.chunksTotal} chunks embedded` : "Chunking..."}
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-3 ml-auto">
                     <i className={getStatusIcon(item.processingStatus || "processed")}></i>
                     <Badge variant={item.processingStatus === "completed" || item.isProcessed ? "default" : "secondary"}>
                       {item.processingStatus || (item.isProcessed ? "processed" : "pending")}
                     </Badge>
+                    {(item.processingStatus === "error" || item.processingStatus === "cancelled") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => retryKnowledgeItemMutation.mutate(item.id)}
+                        data-testid={`button-retry-knowledge-${item.id}`}
+                        disabled={retryKnowledgeItemMutation.isPending}
+                      >
+                        <i className="fas fa-rotate-right"></i>
+                      </Button>
+                    )}
+                    {(item.processingStatus === "queued" || item.processingStatus === "processing") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelKnowledgeItemMutation.mutate(item.id)}
+                        data-testid={`button-cancel-knowledge-${item.id}`}
+                        disabled={cancelKnowledgeItemMutation.isPending}
+                      >
+                        <i className="fas fa-stop"></i>
+                      </Button>
+                    )}
                     <Button 
                       variant="ghost" 
                       size="sm"
@@ -440,26 +601,46 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
               <Label htmlFor="embedding-model">Embedding Model</Label>
               <Input 
                 id="embedding-model"
-                value="text-embedding-ada-002"
+                value={currentKnowledgeBase?.embeddingModel || "text-embedding-3-small"}
                 readOnly
                 data-testid="input-embedding-model"
               />
             </div>
             <div>
-              <Label htmlFor="chunk-size">Chunk Size (tokens)</Label>
+              <Label>Chunking Strategy</Label>
+              <Select
+                value={chunking.chunkStrategy}
+                onValueChange={(value) => setChunking({ ...chunking, chunkStrategy: value as ChunkStrategy })}
+              >
+                <SelectTrigger data-testid="select-chunk-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHUNK_STRATEGY_LABELS) as ChunkStrategy[]).map((strategy) => (
+                    <SelectItem key={strategy} value={strategy}>{CHUNK_STRATEGY_LABELS[strategy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="chunk-size">Chunk Size ({chunking.chunkStrategy === "token" ? "tokens" : "characters"})</Label>
               <Input 
                 id="chunk-size"
                 type="number"
-                defaultValue="1000"
+                min={50}
+                value={chunking.chunkSize}
+                onChange={(e) => setChunking({ ...chunking, chunkSize: Number(e.target.value) })}
                 data-testid="input-chunk-size"
               />
             </div>
             <div>
-              <Label htmlFor="chunk-overlap">Chunk Overlap (tokens)</Label>
+              <Label htmlFor="chunk-overlap">Chunk Overlap ({chunking.chunkStrategy === "token" ? "tokens" : "characters"})</Label>
               <Input 
                 id="chunk-overlap"
                 type="number"
-                defaultValue="200"
+                min={0}
+                value={chunking.chunkOverlap}
+                onChange={(e) => setChunking({ ...chunking, chunkOverlap: Number(e.target.value) })}
                 data-testid="input-chunk-overlap"
               />
             </div>
@@ -486,6 +667,16 @@ export default function KnowledgeTab({ agentData, setAgentData }: KnowledgeTabPr
             </div>
             <Switch data-testid="switch-auto-inject" />
           </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => updateChunkingMutation.mutate()}
+              disabled={!selectedKnowledgeBase || updateChunkingMutation.isPending}
+              data-testid="button-save-chunking"
+            >
+              {updateChunkingMutation.isPending ? "Saving..." : "Save Chunking Settings"}
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
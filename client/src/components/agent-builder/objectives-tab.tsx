@@ -206,6 +206,18 @@ export default function ObjectivesTab() {
           </CardTitle>
         </CardHeader>
         <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="md:col-span-2">
+            <Label htmlFor="model">Model</Label>
+            <Input
+              {...form.register("model", { setValueAs: (value) => value?.trim() || null })}
+              id="model"
+              placeholder="gpt-5, anthropic/claude-sonnet-4-5, ollama/llama3.1"
+              data-testid="input-model"
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              Leave empty to use the project's policy routing or the server default. Prefix with a provider name to pick one explicitly.
+            </p>
+          </div>
           <div>
             <Label htmlFor="max-tokens">Max Response Tokens</Label>
             <Input
@@ -0,0 +1,95 @@
+import { useFormContext } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AgentKnowledgeConfig } from "@shared/schema";
+
+// How the agent searches its knowledge bases during a run (stored in knowledgeBaseConfig)
+export default function RetrievalSettings() {
+  const form = useFormContext();
+  const config: AgentKnowledgeConfig = form.watch("knowledgeBaseConfig") || {};
+
+  const update = (patch: Partial<AgentKnowledgeConfig>) => {
+    const next: Record<string, unknown> = { ...config, ...patch };
+    Object.keys(next).forEach((key) => next[key] === undefined && delete next[key]);
+    form.setValue("knowledgeBaseConfig", next, { shouldDirty: true });
+  };
+
+  const numberOrUndefined = (value: string) => (value === "" ? undefined : Number(value));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <i className="fas fa-magnifying-glass text-primary"></i>
+          Retrieval
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          How relevant chunks are found for each message. Hybrid combines keyword and semantic matches; a reranker re-scores the best candidates.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Search mode</Label>
+            <Select value={config.mode || "hybrid"} onValueChange={(mode) => update({ mode: mode as AgentKnowledgeConfig["mode"] })}>
+              <SelectTrigger data-testid="select-retrieval-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hybrid">Hybrid (keyword + vector)</SelectItem>
+                <SelectItem value="vector">Vector only</SelectItem>
+                <SelectItem value="keyword">Keyword only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reranker</Label>
+            <Select value={config.reranker || "none"} onValueChange={(reranker) => update({ reranker: reranker === "none" ? undefined : reranker })}>
+              <SelectTrigger data-testid="select-retrieval-reranker">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="llm">LLM</SelectItem>
+                <SelectItem value="api">Rerank API</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="retrieval-limit">Chunks per message</Label>
+            <Input
+              id="retrieval-limit"
+              type="number"
+              min={1}
+              max={50}
+              placeholder="5"
+              value={config.limit ?? ""}
+              onChange={(event) => update({ limit: numberOrUndefined(event.target.value) })}
+              data-testid="input-retrieval-limit"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="retrieval-min-similarity">Minimum similarity</Label>
+            <Input
+              id="retrieval-min-similarity"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="0.3"
+              value={config.minSimilarity ?? ""}
+              onChange={(event) => update({ minSimilarity: numberOrUndefined(event.target.value) })}
+              data-testid="input-retrieval-min-similarity"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -168,7 +168,7 @@ export default function FlowCanvas({ flow, steps, onStepsChange }: FlowCanvasPro
     setEditingStep(step);
     editForm.reset({
       kind: step.kind as "agent" | "tool",
-      refId: step.refId,
+      refId: step.refId ?? "",
       idx: step.idx,
       config: step.config || {},
     });
@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import KnowledgeCitations from "@/components/agent-builder/knowledge-citations";
+import type { KnowledgeCitation } from "@shared/schema";
 
 interface RunConsoleProps {
   activeRun: string | null;
@@ -18,93 +20,142 @@ interface LogEntry {
   mcp?: string;
   message: string;
   type: 'session' | 'agent' | 'tool' | 'note';
+  citations?: KnowledgeCitation[]; // Sources of an agent answer
+}
+
+// Partial agent output of one step; a new attempt or tool-use turn starts a fresh text
+interface StepStream {
+  stepIdx: number;
+  attempt: number;
+  turn: number;
+  text: string;
+}
+
+type RunStatus = 'idle' | 'running' | 'success' | 'error';
+
+function toRunStatus(status: string): RunStatus {
+  if (status === 'completed') return 'success';
+  if (status === 'failed' || status === 'cancelled') return 'error';
+  return 'running';
+}
+
+function toLogEntry(data: any): LogEntry {
+  const tags: Record<string, string> = data.tags || {};
+  return {
+    id: data.id,
+    timestamp: new Date(data.timestamp).toLocaleTimeString(),
+    session: tags.session || '',
+    agent: tags.agent,
+    step: tags.step,
+    tool: tags.tool,
+    mcp: tags.mcp,
+    message: data.message,
+    citations: Array.isArray(data.payload?.citations) ? data.payload.citations : undefined,
+    type: tags.tool || tags.mcp ? 'tool' : tags.agent ? 'agent' : tags.session ? 'session' : 'note',
+  };
 }
 
 export default function RunConsole({ activeRun, onClose }: RunConsoleProps) {
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [runStatus, setRunStatus] = useState<'idle' | 'running' | 'success' | 'error'>('idle');
+  const [streams, setStreams] = useState<Record<number, StepStream>>({});
+  const [runStatus, setRunStatus] = useState<RunStatus>('idle');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [completedAt, setCompletedAt] = useState<Date | null>(null);
+  const [output, setOutput] = useState<any>(null);
   const [duration, setDuration] = useState('0:00');
 
-  // Simulate log streaming when there's an active run
+  // Follow the run over /ws: stored logs are replayed on subscribe, then logs, status
+  // changes and agent tokens arrive as they happen
   useEffect(() => {
     if (!activeRun) return;
 
     setRunStatus('running');
     setLogs([]);
+    setStreams({});
+    setSessionId(null);
+    setStartedAt(new Date());
+    setCompletedAt(null);
+    setOutput(null);
 
-    const mockLogs: Omit<LogEntry, 'id' | 'timestamp'>[] = [
-      {
-        session: activeRun,
-        agent: 'transcriber',
-        step: '1',
-        message: 'Processing audio transcript...',
-        type: 'agent'
-      },
-      {
-        session: activeRun,
-        agent: 'transcriber',
-        tool: 'gmeet.fetch_transcript',
-        message: 'Tool call: gmeet.fetch_transcript',
-        type: 'tool'
-      },
-      {
-        session: activeRun,
-        agent: 'summarizer',
-        step: '2', 
-        message: 'Creating meeting summary...',
-        type: 'agent'
-      },
-      {
-        session: activeRun,
-        message: 'Extracted 3 action items from transcript',
-        type: 'note'
-      },
-      {
-        session: activeRun,
-        agent: 'action_extractor',
-        step: '3',
-        message: 'Processing action items...',
-        type: 'agent'
-      },
-      {
-        session: activeRun,
-        tool: 'notion.create_tasks',
-        message: 'Creating tasks in Notion database',
-        type: 'tool'
-      }
-    ];
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
 
-    let logIndex = 0;
-    const interval = setInterval(() => {
-      if (logIndex < mockLogs.length) {
-        const logEntry = {
-          id: `${activeRun}_${logIndex}`,
-          timestamp: new Date().toLocaleTimeString(),
-          ...mockLogs[logIndex]
-        };
-        
-        setLogs(prev => [...prev, logEntry]);
-        logIndex++;
-      } else {
-        setRunStatus('success');
-        clearInterval(interval);
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'subscribe_run', runId: activeRun }));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      if (message.runId && message.runId !== activeRun) return;
+
+      switch (message.type) {
+        case 'run_status':
+          setRunStatus(toRunStatus(message.data.status));
+          setSessionId(message.data.sessionId);
+          if (message.data.createdAt) setStartedAt(new Date(message.data.createdAt));
+          if (message.data.completedAt) setCompletedAt(new Date(message.data.completedAt));
+          break;
+        case 'log': {
+          const entry = toLogEntry(message.data);
+          setLogs(prev => prev.some(log => log.id === entry.id) ? prev : [...prev, entry]);
+          break;
+        }
+        case 'token': {
+          const { stepIdx, attempt, turn, delta } = message.data;
+          setStreams(prev => {
+            const current = prev[stepIdx];
+            const sameTurn = current && current.attempt === attempt && current.turn === turn;
+            return {
+              ...prev,
+              [stepIdx]: { stepIdx, attempt, turn, text: sameTurn ? current.text + delta : delta },
+            };
+          });
+          break;
+        }
+        case 'status_update':
+          setRunStatus(toRunStatus(message.data.status));
+          if (message.data.output) setOutput(message.data.output);
+          if (message.data.completedAt) setCompletedAt(new Date(message.data.completedAt));
+          break;
+        case 'run_complete':
+          setOutput(message.data.output);
+          break;
+        case 'error':
+          setLogs(prev => [...prev, {
+            id: `error_${prev.length}`,
+            timestamp: new Date().toLocaleTimeString(),
+            session: activeRun,
+            message: message.message,
+            type: 'note',
+          }]);
+          break;
       }
-    }, 2000);
+    };
+
+    return () => {
+      socket.close();
+    };
+  }, [activeRun]);
+
+  // Duration counter
+  useEffect(() => {
+    if (!startedAt) return;
 
-    // Duration counter
-    const startTime = Date.now();
-    const durationInterval = setInterval(() => {
-      const elapsed = Date.now() - startTime;
+    const update = () => {
+      const elapsed = Math.max(0, (completedAt ?? new Date()).getTime() - startedAt.getTime());
       const minutes = Math.floor(elapsed / 60000);
       const seconds = Math.floor((elapsed % 60000) / 1000);
       setDuration(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-    }, 1000);
-
-    return () => {
-      clearInterval(interval);
-      clearInterval(durationInterval);
     };
-  }, [activeRun]);
+    update();
+    if (completedAt) return;
+
+    const durationInterval = setInterval(update, 1000);
+    return () => clearInterval(durationInterval);
+  }, [startedAt, completedAt]);
+
+  const stepStreams = Object.values(streams).sort((a, b) => a.stepIdx - b.stepIdx);
 
   const getLogStyle = (log: LogEntry) => {
     if (log.agent) return 'border-l-2 border-secondary';
@@ -163,13 +214,13 @@ export default function RunConsole({ activeRun, onClose }: RunConsoleProps) {
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Session ID:</span>
                 <span className="font-mono text-xs" data-testid="text-session-id">
-                  {activeRun || 'None'}
+                  {sessionId || activeRun || 'None'}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Started:</span>
                 <span data-testid="text-start-time">
-                  {activeRun ? new Date().toLocaleTimeString() : '--'}
+                  {activeRun && startedAt ? startedAt.toLocaleTimeString() : '--'}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -183,7 +234,7 @@ export default function RunConsole({ activeRun, onClose }: RunConsoleProps) {
           <div className="flex-1 overflow-auto">
             <div className="p-4">
               <h4 className="font-medium mb-3 text-sm">Live Logs</h4>
-              {logs.length === 0 ? (
+              {logs.length === 0 && stepStreams.length === 0 ? (
                 <div className="text-center py-8">
                   <div className="text-muted-foreground text-sm">
                     {activeRun ? 'Waiting for logs...' : 'No active run'}
@@ -223,31 +274,41 @@ export default function RunConsole({ activeRun, onClose }: RunConsoleProps) {
                         )}
                       </div>
                       <div className="text-foreground">{log.message}</div>
+                      {log.citations && <KnowledgeCitations citations={log.citations} />}
                       <div className="text-muted-foreground mt-1">{log.timestamp}</div>
                     </div>
                   ))}
+
+                  {stepStreams.map((stream) => (
+                    <div
+                      key={`stream-${stream.stepIdx}`}
+                      className="p-2 bg-muted/50 rounded border-l-2 border-secondary"
+                      data-testid={`stream-step-${stream.stepIdx}`}
+                    >
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
+                        <span className="text-muted-foreground">[#step:{stream.stepIdx}]</span>
+                        {stream.attempt > 1 && (
+                          <span className="text-muted-foreground">[#attempt:{stream.attempt}]</span>
+                        )}
+                        {runStatus === 'running' && (
+                          <Badge variant="outline" className="text-[10px]">streaming</Badge>
+                        )}
+                      </div>
+                      <div className="text-foreground whitespace-pre-wrap break-words">{stream.text}</div>
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
           </div>
 
           {/* Output Preview */}
-          {logs.length > 0 && (
+          {output && (
             <div className="border-t border-border p-4">
               <h4 className="font-medium mb-3 text-sm">Output Preview</h4>
-              <div className="bg-muted/50 rounded p-3 text-xs" data-testid="output-preview">
-                <div className="font-medium mb-2">Summary</div>
-                <div className="text-muted-foreground mb-3">
-                  Team discussed Q4 roadmap priorities and resource allocation...
-                </div>
-                
-                <div className="font-medium mb-2">Action Items</div>
-                <div className="space-y-1 text-muted-foreground">
-                  <div>• Alice: Draft product brief (Due: Sep 19)</div>
-                  <div>• Bob: Set up user interviews (Due: Sep 18)</div>
-                  <div>• Carol: Review API specs (Due: Sep 20)</div>
-                </div>
-              </div>
+              <pre className="bg-muted/50 rounded p-3 text-xs overflow-auto max-h-48 whitespace-pre-wrap" data-testid="output-preview">
+                {typeof output === 'string' ? output : JSON.stringify(output, null, 2)}
+              </pre>
             </div>
           )}
         </TabsContent>
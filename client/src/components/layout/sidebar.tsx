@@ -25,6 +25,7 @@ export default function Sidebar({ onClose }: SidebarProps) {
   const platformItems = [
     { path: "/integrations", label: "Integrations", icon: "fas fa-plug" },
     { path: "/secrets", label: "Secrets", icon: "fas fa-key" },
+    { path: "/policies", label: "Policies", icon: "fas fa-balance-scale" },
     { path: "/settings", label: "Settings", icon: "fas fa-cog" },
   ];
 
@@ -22,7 +22,9 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import ObjectivesTab from "@/components/agent-builder/objectives-tab";
 import KnowledgeTab from "@/components/agent-builder/knowledge-tab";
+import RetrievalSettings from "@/components/agent-builder/retrieval-settings";
 import ToolsTab from "@/components/agent-builder/tools-tab";
+import CallableTools from "@/components/agent-builder/callable-tools";
 import DataFabricTab from "@/components/agent-builder/data-fabric-tab";
 import FrontendTab from "@/components/agent-builder/frontend-tab";
 import TriggersTab from "@/components/agent-builder/triggers-tab";
@@ -412,10 +414,12 @@ export default function AgentBuilder() {
                 </TabsContent>
 
                 <TabsContent value="knowledge" className="space-y-4 lg:space-y-6 mt-0">
+                  <RetrievalSettings />
                   <KnowledgeTab />
                 </TabsContent>
 
                 <TabsContent value="tools" className="space-y-4 lg:space-y-6 mt-0">
+                  <CallableTools />
                   <ToolsTab />
                 </TabsContent>
 
@@ -1,9 +1,10 @@
 import { useParams } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Button } from "@/components/ui/button";
 import Sidebar from "@/components/layout/sidebar";
@@ -12,7 +13,7 @@ import ComponentLibrary from "@/components/flow/component-library";
 import FlowCanvas from "@/components/flow/flow-canvas";
 import RunConsole from "@/components/flow/run-console";
 import TextToAgentModal from "@/components/modals/text-to-agent-modal";
-import type { Flow } from "@shared/schema";
+import type { Flow, Run } from "@shared/schema";
 
 export default function FlowBuilder() {
   const { id } = useParams();
@@ -52,6 +53,28 @@ export default function FlowBuilder() {
     retry: false,
   });
 
+  // Queue a real run; the console follows it over /ws
+  const runFlowMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/flows/${id}/run`, { input: {} });
+      return await response.json() as Run;
+    },
+    onSuccess: (run) => {
+      setActiveRun(run.id);
+      toast({
+        title: "Flow Started",
+        description: "Your agent workflow is now running",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start run",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle unauthorized errors
   useEffect(() => {
     if (error && isUnauthorizedError(error)) {
@@ -158,12 +181,15 @@ export default function FlowBuilder() {
         <Header 
           onTextToAgent={() => setShowTextToAgent(true)}
           onRunFlow={() => {
-            // Start a new run
-            setActiveRun(`run_${Date.now()}`);
-            toast({
-              title: "Flow Started",
-              description: "Your agent workflow is now running",
-            });
+            if (!id) {
+              toast({
+                title: "Flow not saved",
+                description: "Save the flow before running it",
+                variant: "destructive",
+              });
+              return;
+            }
+            runFlowMutation.mutate();
           }}
           onMenuToggle={() => setSidebarCollapsed(!sidebarCollapsed)}
           showMenuButton={isMobile}
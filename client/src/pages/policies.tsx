@@ -0,0 +1,477 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PolicyRule, Project } from "@shared/schema";
+
+type PolicyAction = "abort" | "skip" | "switch_model";
+type PiiMode = "off" | "mask" | "tokenize";
+
+interface PolicyForm {
+  name: string;
+  description: string;
+  maxLatencyMs: string;
+  maxCostUsd: string;
+  disallowedTools: string;
+  latencyFallback: PolicyAction;
+  costFallback: PolicyAction;
+  guardFallback: PolicyAction;
+  fallbackModel: string;
+  piiMode: PiiMode;
+}
+
+const emptyForm: PolicyForm = {
+  name: "",
+  description: "",
+  maxLatencyMs: "",
+  maxCostUsd: "",
+  disallowedTools: "",
+  latencyFallback: "abort",
+  costFallback: "abort",
+  guardFallback: "abort",
+  fallbackModel: "",
+  piiMode: "off",
+};
+
+const actionLabels: Record<PolicyAction, string> = {
+  abort: "Abort the run",
+  skip: "Skip the step",
+  switch_model: "Switch model",
+};
+
+const piiModeLabels: Record<PiiMode, string> = {
+  off: "Off",
+  mask: "Mask (irreversible)",
+  tokenize: "Tokenize (reversible for tools)",
+};
+
+// pii_masking is a mode string, true (= mask), or an object with the mode and detector settings
+function piiModeOf(value: any): PiiMode {
+  if (value === true) return "mask";
+  if (typeof value === "string") return value as PiiMode;
+  return value?.mode ?? "off";
+}
+
+function formFromRule(rule: PolicyRule): PolicyForm {
+  const constraints = (rule.constraints as any) || {};
+  const guards = (rule.guards as any) || {};
+  const fallbacks = (rule.fallbacks as any) || {};
+  const routing = (rule.modelRouting as any) || {};
+  return {
+    name: rule.name,
+    description: rule.description || "",
+    maxLatencyMs: constraints.max_latency_ms?.toString() ?? "",
+    maxCostUsd: constraints.max_cost_usd?.toString() ?? "",
+    disallowedTools: (guards.disallowed_tools || []).join(", "),
+    latencyFallback: fallbacks.latency ?? fallbacks.default ?? "abort",
+    costFallback: fallbacks.cost ?? fallbacks.default ?? "abort",
+    guardFallback: fallbacks.guard ?? fallbacks.default ?? "abort",
+    fallbackModel: routing.fallback ?? "",
+    piiMode: piiModeOf(constraints.pii_masking),
+  };
+}
+
+// Keys the form doesn't edit (approvals, PII dictionaries, ...) are kept as they were
+function ruleFromForm(form: PolicyForm, rule?: PolicyRule) {
+  const { max_latency_ms: _latency, max_cost_usd: _cost, pii_masking: piiMasking, ...constraints } = (rule?.constraints as any) || {};
+  const { disallowed_tools: _tools, ...guards } = (rule?.guards as any) || {};
+  const { fallback: _model, ...routing } = (rule?.modelRouting as any) || {};
+  const disallowedTools = form.disallowedTools.split(",").map((tool) => tool.trim()).filter(Boolean);
+
+  return {
+    name: form.name,
+    description: form.description || null,
+    constraints: {
+      ...constraints,
+      ...(form.maxLatencyMs ? { max_latency_ms: Number(form.maxLatencyMs) } : {}),
+      ...(form.maxCostUsd ? { max_cost_usd: Number(form.maxCostUsd) } : {}),
+      ...(form.piiMode !== "off" || piiMasking !== undefined
+        ? { pii_masking: piiMasking && typeof piiMasking === "object" ? { ...piiMasking, mode: form.piiMode } : form.piiMode }
+        : {}),
+    },
+    guards: { ...guards, ...(disallowedTools.length > 0 ? { disallowed_tools: disallowedTools } : {}) },
+    fallbacks: {
+      latency: form.latencyFallback,
+      cost: form.costFallback,
+      guard: form.guardFallback,
+    },
+    modelRouting: { ...routing, ...(form.fallbackModel ? { fallback: form.fallbackModel } : {}) },
+  };
+}
+
+export default function Policies() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [editingRule, setEditingRule] = useState<PolicyRule | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+
+  // Get user's projects
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: isAuthenticated,
+  });
+
+  const projectId = projects.length > 0 ? projects[0].id : null;
+
+  const { data: rules = [], isLoading } = useQuery<PolicyRule[]>({
+    queryKey: ["/api/projects", projectId, "policies"],
+    enabled: !!projectId,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const body = ruleFromForm(form, editingRule ?? undefined);
+      const response = editingRule
+        ? await apiRequest('PUT', `/api/policies/${editingRule.id}`, body)
+        : await apiRequest('POST', `/api/projects/${projectId}/policies`, body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editingRule ? "Policy updated" : "Policy created",
+        description: `${form.name} applies to new steps immediately.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "policies"] });
+      setShowModal(false);
+    },
+    onError: onError("Failed to save policy"),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (rule: PolicyRule) => {
+      const response = await apiRequest('PUT', `/api/policies/${rule.id}`, { isActive: !rule.isActive });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "policies"] });
+    },
+    onError: onError("Failed to update policy"),
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (rule: PolicyRule) => {
+      const response = await apiRequest('DELETE', `/api/policies/${rule.id}`);
+      return await response.json();
+    },
+    onSuccess: (_data, rule) => {
+      toast({
+        title: "Policy deleted",
+        description: `${rule.name} is no longer enforced.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "policies"] });
+    },
+    onError: onError("Failed to delete policy"),
+  });
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (rule: PolicyRule) => {
+    setEditingRule(rule);
+    setForm(formFromRule(rule));
+    setShowModal(true);
+  };
+
+  const handleSave = () => {
+    if (!form.name) {
+      toast({
+        title: "Missing required fields",
+        description: "Please give the policy a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    savePolicyMutation.mutate();
+  };
+
+  const describeRule = (rule: PolicyRule) => {
+    const constraints = (rule.constraints as any) || {};
+    const guards = (rule.guards as any) || {};
+    const items: string[] = [];
+    if (constraints.max_latency_ms !== undefined) items.push(`≤ ${constraints.max_latency_ms}ms per step`);
+    if (constraints.max_cost_usd !== undefined) items.push(`≤ $${constraints.max_cost_usd} per run`);
+    if (guards.disallowed_tools?.length) items.push(`Blocks ${guards.disallowed_tools.join(", ")}`);
+    const piiMode = piiModeOf(constraints.pii_masking);
+    if (piiMode !== "off") items.push(piiMode === "mask" ? "Masks PII" : "Tokenizes PII");
+    return items;
+  };
+
+  const fallbackSelect = (label: string, key: "latencyFallback" | "costFallback" | "guardFallback") => (
+    <div>
+      <Label>{label}</Label>
+      <Select
+        value={form[key]}
+        onValueChange={(value) => setForm({ ...form, [key]: value as PolicyAction })}
+      >
+        <SelectTrigger data-testid={`select-${key}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(actionLabels) as PolicyAction[])
+            .filter((action) => key !== "guardFallback" || action !== "switch_model")
+            .map((action) => (
+              <SelectItem key={action} value={action}>
+                {actionLabels[action]}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen">
+      <Sidebar />
+      <div className="flex-1 flex flex-col">
+        <Header />
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold">Policies</h1>
+                <p className="text-muted-foreground mt-1">
+                  Latency, cost, tool and PII rules checked around every step of your runs
+                </p>
+              </div>
+              <Button
+                onClick={openCreate}
+                disabled={!projectId}
+                data-testid="button-add-policy"
+              >
+                <i className="fas fa-plus mr-2"></i>
+                Add Policy
+              </Button>
+            </div>
+
+            {/* Policies List */}
+            {isLoading ? (
+              <div className="text-muted-foreground">Loading policies...</div>
+            ) : rules.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <i className="fas fa-balance-scale text-4xl text-muted-foreground mb-4"></i>
+                  <h3 className="text-lg font-semibold mb-2">No policies yet</h3>
+                  <p className="text-muted-foreground">
+                    Add a policy to cap step latency and run cost, or to block tools.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {rules.map((rule) => (
+                  <Card key={rule.id} data-testid={`card-policy-${rule.id}`}>
+                    <CardContent className="p-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4 flex-1">
+                          <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                            <i className="fas fa-balance-scale text-primary"></i>
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{rule.name}</span>
+                              <Badge variant={rule.isActive ? "default" : "secondary"}>
+                                {rule.isActive ? "active" : "inactive"}
+                              </Badge>
+                            </div>
+                            {rule.description && (
+                              <div className="text-sm text-muted-foreground mt-1">{rule.description}</div>
+                            )}
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {describeRule(rule).map((item) => (
+                                <Badge key={item} variant="outline">{item}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                          {rule.updatedAt && (
+                            <div className="text-sm text-muted-foreground">
+                              Updated {formatDistanceToNow(new Date(rule.updatedAt), { addSuffix: true })}
+                            </div>
+                          )}
+                        </div>
+
+                        <div className="flex items-center gap-2 ml-4">
+                          <Switch
+                            checked={!!rule.isActive}
+                            onCheckedChange={() => toggleActiveMutation.mutate(rule)}
+                            data-testid={`switch-active-${rule.id}`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEdit(rule)}
+                            data-testid={`button-edit-${rule.id}`}
+                          >
+                            <i className="fas fa-edit mr-2"></i>
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deletePolicyMutation.mutate(rule)}
+                            disabled={deletePolicyMutation.isPending}
+                            data-testid={`button-delete-${rule.id}`}
+                          >
+                            <i className="fas fa-trash mr-2"></i>
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      {/* Add / Edit Policy Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent data-testid="modal-policy">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Policy" : "Add Policy"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                placeholder="e.g., Fast and cheap"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-policy-name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="policy-description">Description (Optional)</Label>
+              <Textarea
+                id="policy-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="textarea-policy-description"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="policy-latency">Max step latency (ms)</Label>
+                <Input
+                  id="policy-latency"
+                  type="number"
+                  min={1}
+                  value={form.maxLatencyMs}
+                  onChange={(e) => setForm({ ...form, maxLatencyMs: e.target.value })}
+                  data-testid="input-policy-latency"
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-cost">Max run cost (USD)</Label>
+                <Input
+                  id="policy-cost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.maxCostUsd}
+                  onChange={(e) => setForm({ ...form, maxCostUsd: e.target.value })}
+                  data-testid="input-policy-cost"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="policy-tools">Disallowed tools</Label>
+              <Input
+                id="policy-tools"
+                placeholder="Comma-separated tool names"
+                value={form.disallowedTools}
+                onChange={(e) => setForm({ ...form, disallowedTools: e.target.value })}
+                data-testid="input-policy-tools"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {fallbackSelect("On slow step", "latencyFallback")}
+              {fallbackSelect("Over budget", "costFallback")}
+              {fallbackSelect("Blocked tool", "guardFallback")}
+            </div>
+
+            <div>
+              <Label>PII in prompts, logs and outputs</Label>
+              <Select
+                value={form.piiMode}
+                onValueChange={(value) => setForm({ ...form, piiMode: value as PiiMode })}
+              >
+                <SelectTrigger data-testid="select-pii-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(piiModeLabels) as PiiMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {piiModeLabels[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="policy-model">Fallback model</Label>
+              <Input
+                id="policy-model"
+                placeholder="Used by agent steps when switching model, e.g. gpt-5-mini"
+                value={form.fallbackModel}
+                onChange={(e) => setForm({ ...form, fallbackModel: e.target.value })}
+                data-testid="input-policy-model"
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                onClick={handleSave}
+                disabled={savePolicyMutation.isPending}
+                data-testid="button-save-policy"
+              >
+                {editingRule ? "Save Policy" : "Add Policy"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowModal(false)}
+                data-testid="button-cancel-policy"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,68 +1,116 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Project, Run, RunApproval } from "@shared/schema";
+
+type ProjectRun = Run & {
+  flowName: string;
+  failedStepIdx: number | null;
+};
 
 export default function Runs() {
-  // Mock data for demonstration
-  const runs = [
-    {
-      id: "run_001",
-      agent: "Meeting Transcriber",
-      status: "completed",
-      startTime: "2 hours ago",
-      duration: "45s",
-      trigger: "webhook",
-      output: "Processed 12-minute meeting recording",
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  // Get user's projects
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: isAuthenticated,
+  });
+
+  const projectId = projects.length > 0 ? projects[0].id : null;
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery<ProjectRun[]>({
+    queryKey: ["/api/projects", projectId, "runs"],
+    enabled: !!projectId,
+    refetchInterval: 5000,
+  });
+
+  const { data: approvals = [] } = useQuery<RunApproval[]>({
+    queryKey: ["/api/projects", projectId, "approvals"],
+    enabled: !!projectId,
+    refetchInterval: 5000,
+  });
+
+  const pendingApprovalFor = (run: ProjectRun) =>
+    approvals.find((approval) => approval.runId === run.id && approval.status === 'pending');
+
+  const decideApprovalMutation = useMutation({
+    mutationFn: async ({ approval, decision }: { approval: RunApproval; decision: 'approve' | 'reject' }) => {
+      const response = await apiRequest('POST', `/api/approvals/${approval.id}/${decision}`, {});
+      return await response.json();
     },
-    {
-      id: "run_002", 
-      agent: "Action Extractor",
-      status: "running",
-      startTime: "5 minutes ago",
-      duration: "2m 15s",
-      trigger: "schedule",
-      output: "Processing action items...",
+    onSuccess: (_data, { decision }) => {
+      toast({
+        title: decision === 'approve' ? "Approved" : "Rejected",
+        description: decision === 'approve' ? "The run will continue." : "The run has been stopped.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "approvals"] });
     },
-    {
-      id: "run_003",
-      agent: "Content Summarizer", 
-      status: "failed",
-      startTime: "1 hour ago",
-      duration: "12s",
-      trigger: "manual",
-      output: "Error: File format not supported",
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record decision",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeRunMutation = useMutation({
+    mutationFn: async (run: ProjectRun) => {
+      const response = await apiRequest('POST', `/api/runs/${run.id}/resume`, {});
+      return await response.json();
     },
-    {
-      id: "run_004",
-      agent: "Meeting Transcriber",
-      status: "completed",
-      startTime: "3 hours ago", 
-      duration: "1m 23s",
-      trigger: "webhook",
-      output: "Processed 8-minute team standup",
+    onSuccess: (_data, run) => {
+      toast({
+        title: "Run resumed",
+        description: `${run.flowName} will continue from step ${run.failedStepIdx ?? 0}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "runs"] });
     },
-  ];
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resume run",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'completed': return 'default';
+      case 'success': return 'default';
       case 'running': return 'secondary';
-      case 'failed': return 'destructive';
+      case 'error': return 'destructive';
       default: return 'outline';
     }
   };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'completed': return 'fas fa-check-circle';
+      case 'success': return 'fas fa-check-circle';
       case 'running': return 'fas fa-spinner fa-spin';
-      case 'failed': return 'fas fa-times-circle';
+      case 'awaiting_approval': return 'fas fa-user-clock';
+      case 'error': return 'fas fa-times-circle';
       default: return 'fas fa-clock';
     }
   };
 
+  const formatDuration = (run: ProjectRun) => {
+    if (!run.startedAt) return '-';
+    const end = run.completedAt ? new Date(run.completedAt) : new Date();
+    const seconds = Math.max(0, Math.round((end.getTime() - new Date(run.startedAt).getTime()) / 1000));
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
   return (
     <div className="flex h-screen">
       <Sidebar />
@@ -76,7 +124,7 @@ export default function Runs() {
               <div>
                 <h1 className="text-3xl font-bold">Runs</h1>
                 <p className="text-muted-foreground mt-1">
-                  Monitor and track agent execution history
+                  Monitor flow runs and resume failed ones from their last checkpoint
                 </p>
               </div>
               <div className="flex gap-2">
@@ -114,7 +162,7 @@ export default function Runs() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-green-600" data-testid="text-successful-runs">
-                    {runs.filter(r => r.status === 'completed').length}
+                    {runs.filter(r => r.status === 'success').length}
                   </div>
                 </CardContent>
               </Card>
@@ -140,7 +188,7 @@ export default function Runs() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-red-600" data-testid="text-failed-runs">
-                    {runs.filter(r => r.status === 'failed').length}
+                    {runs.filter(r => r.status === 'error').length}
                   </div>
                 </CardContent>
               </Card>
@@ -150,7 +198,15 @@ export default function Runs() {
             <div>
               <h2 className="text-xl font-semibold mb-4">Recent Runs</h2>
               <div className="space-y-4">
-                {runs.map((run) => (
+                {runsLoading ? (
+                  <div className="text-muted-foreground">Loading runs...</div>
+                ) : runs.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      No runs yet. Run a flow to see its execution history here.
+                    </CardContent>
+                  </Card>
+                ) : runs.map((run) => (
                   <Card 
                     key={run.id} 
                     className="cursor-pointer hover:shadow-md transition-shadow"
@@ -167,26 +223,71 @@ export default function Runs() {
                           </div>
                           
                           <div className="flex-1">
-                            <div className="font-medium">{run.agent}</div>
+                            <div className="font-medium flex items-center gap-2">
+                              {run.flowName}
+                              {run.parentRunId && (
+                                <Badge variant="outline" data-testid={`badge-subflow-${run.id}`}>
+                                  sub-flow of step {run.parentStepIdx}
+                                </Badge>
+                              )}
+                            </div>
                             <div className="text-sm text-muted-foreground">
-                              {run.output}
+                              {run.status === 'awaiting_approval'
+                                ? pendingApprovalFor(run)?.title || 'Waiting for approval'
+                                : run.status === 'error' && run.failedStepIdx !== null
+                                ? `Failed at step ${run.failedStepIdx}`
+                                : run.resumeStepIdx
+                                  ? `Resumed from step ${run.resumeStepIdx}`
+                                  : run.sessionId}
                             </div>
                           </div>
                           
                           <div className="text-right text-sm space-y-1">
                             <div className="text-muted-foreground">
-                              Started {run.startTime}
-                            </div>
-                            <div className="text-muted-foreground">
-                              Duration: {run.duration}
+                              Started {formatDistanceToNow(new Date(run.startedAt || run.createdAt!), { addSuffix: true })}
                             </div>
                             <div className="text-muted-foreground">
-                              Trigger: {run.trigger}
+                              Duration: {formatDuration(run)}
                             </div>
                           </div>
                         </div>
                         
                         <div className="flex gap-2 ml-4">
+                          {run.status === 'awaiting_approval' && pendingApprovalFor(run) && (
+                            <>
+                              <Button 
+                                size="sm" 
+                                onClick={() => decideApprovalMutation.mutate({ approval: pendingApprovalFor(run)!, decision: 'approve' })}
+                                disabled={decideApprovalMutation.isPending}
+                                data-testid={`button-approve-${run.id}`}
+                              >
+                                <i className="fas fa-check mr-2"></i>
+                                Approve
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={() => decideApprovalMutation.mutate({ approval: pendingApprovalFor(run)!, decision: 'reject' })}
+                                disabled={decideApprovalMutation.isPending}
+                                data-testid={`button-reject-${run.id}`}
+                              >
+                                <i className="fas fa-times mr-2"></i>
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                          {run.status === 'error' && !run.parentRunId && (
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => resumeRunMutation.mutate(run)}
+                              disabled={resumeRunMutation.isPending}
+                              data-testid={`button-resume-${run.id}`}
+                            >
+                              <i className="fas fa-redo mr-2"></i>
+                              Resume from step {run.failedStepIdx ?? 0}
+                            </Button>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -8,6 +8,7 @@ export interface Agent {
   fewShots?: string;
   inputSchema?: Record<string, any>;
   outputSchema?: Record<string, any>;
+  model?: string | null;
   createdAt: string;
   updatedAt: string;
 }
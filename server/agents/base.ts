@@ -36,7 +36,9 @@ export async function executeAgent(
     const response = await generateAgentResponse(
       agentDef.systemPrompt,
       userMessage,
-      context
+      context,
+      undefined,
+      { model: agentDef.model }
     );
 
     // Parse structured output if schema is provided
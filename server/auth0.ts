@@ -25,6 +25,13 @@ async function verifyDummyToken(token: string): Promise<typeof DUMMY_USER_PAYLOA
   return DUMMY_USER_PAYLOAD;
 }
 
+// The user a bearer token belongs to; /ws connections use this too, passing the token as a
+// query parameter since browsers can't set headers on a WebSocket
+export async function userIdForToken(token?: string): Promise<string> {
+  const payload = token ? await verifyDummyToken(token) : DUMMY_USER_PAYLOAD;
+  return payload.sub;
+}
+
 export const isAuthenticated: RequestHandler = async (req: any, res, next) => {
   try {
     // For dummy authentication, we don't require a proper Bearer token
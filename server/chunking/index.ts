@@ -0,0 +1,202 @@
+import { hardSplitChars, splitText, type HardSplitFn, type Span, type SplitOptions } from "./splitter";
+import { getTokenizer } from "./tokenizer";
+import type { ExtractedSection } from "../extraction";
+import type { ChunkStrategy } from "@shared/schema";
+
+// Chunking strategies, chosen per knowledge base (knowledge_bases.chunk_strategy):
+//   recursive -> split at headings, then paragraphs, lines, sentences and words (characters)
+//   token     -> the same splits, measured in tokens of the knowledge base's embedding model
+//   markdown  -> never crosses a Markdown heading; each chunk records its heading path
+//   code      -> splits at top-level declarations, then blank lines; chunks record line numbers
+//   fixed     -> fixed character windows, the original behaviour
+// chunkSize and chunkOverlap are tokens for the token strategy and characters otherwise.
+// Chunks never cross a section (PDF page, sheet rows) and carry its location as lineage.
+
+export interface ChunkingOptions {
+  strategy: ChunkStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+  model: string; // Embedding model, for the token strategy's tokenizer
+}
+
+// Where a chunk came from, stored in knowledge item and embedding metadata
+export interface ChunkLineage {
+  page?: number;
+  sheet?: string;
+  firstRow?: number;
+  lastRow?: number;
+  sectionPath?: string; // Heading path, "Setup > Install"
+  startLine?: number; // 1-based, code strategy
+  endLine?: number;
+}
+
+export interface Chunk {
+  text: string;
+  metadata: {
+    chunkIndex: number;
+    totalChunks: number;
+    startPosition: number; // Character offsets within the section
+    endPosition: number;
+    tokenCount?: number; // Token strategy
+  };
+  lineage: ChunkLineage;
+}
+
+const MIN_CHUNK_SIZE = 50;
+
+const HEADING = /\n(?=#{1,6}\s)/g;
+const PARAGRAPH = /\n[ \t]*\n\s*/g;
+const LINE = /\n/g;
+const SENTENCE = /[.!?]+["')\]]*\s+/g;
+const WORD = /\s+/g;
+const DECLARATION = /\n(?=(?:export|async|function|class|def|interface|type|enum|struct|impl|fn|func|pub|public|private|protected|module|namespace)\s|@\w)/g;
+
+const PROSE_SEPARATORS = [HEADING, PARAGRAPH, LINE, SENTENCE, WORD];
+
+export async function chunkSections(sections: ExtractedSection[], options: ChunkingOptions): Promise<Chunk[]> {
+  const size = Math.max(MIN_CHUNK_SIZE, options.chunkSize);
+  const overlap = Math.max(0, Math.min(options.chunkOverlap, Math.floor(size / 2)));
+  const tokenizer = options.strategy === 'token' ? await getTokenizer(options.model) : null;
+
+  const splitOptions = (separators: RegExp[]): SplitOptions => tokenizer
+    ? {
+        size,
+        overlap,
+        separators,
+        length: (text) => tokenizer.encode(text).length,
+        hardSplit: hardSplitTokens((text) => tokenizer.encode(text), (tokens) => tokenizer.decode(tokens)),
+      }
+    : { size, overlap, separators, length: (text) => text.length, hardSplit: hardSplitChars };
+
+  const chunks: Chunk[] = [];
+  const add = (text: string, span: Span, lineage: ChunkLineage) => {
+    const chunkText = text.slice(span.start, span.end);
+    chunks.push({
+      text: chunkText,
+      metadata: {
+        chunkIndex: chunks.length,
+        totalChunks: 0,
+        startPosition: span.start,
+        endPosition: span.end,
+        ...(tokenizer ? { tokenCount: tokenizer.encode(chunkText).length } : {}),
+      },
+      lineage: withoutUndefined(lineage),
+    });
+  };
+
+  for (const section of sections) {
+    const text = section.text;
+    const location = section.location || {};
+    const lineage: ChunkLineage = {
+      page: location.page,
+      sheet: location.sheet,
+      firstRow: location.firstRow,
+      lastRow: location.lastRow,
+      sectionPath: location.heading,
+    };
+    const whole = { start: 0, end: text.length };
+
+    switch (options.strategy) {
+      case 'fixed':
+        for (const span of fixedWindows(text, size, overlap)) add(text, span, lineage);
+        break;
+
+      case 'markdown':
+        for (const block of markdownBlocks(text, location.heading)) {
+          for (const span of splitText(text, block, splitOptions(PROSE_SEPARATORS.slice(1)))) {
+            add(text, span, { ...lineage, sectionPath: block.path });
+          }
+        }
+        break;
+
+      case 'code': {
+        const lines = lineStarts(text);
+        for (const span of splitText(text, whole, splitOptions([DECLARATION, PARAGRAPH, LINE, WORD]))) {
+          add(text, span, { ...lineage, startLine: lineAt(lines, span.start), endLine: lineAt(lines, span.end - 1) });
+        }
+        break;
+      }
+
+      default: // recursive, token
+        for (const span of splitText(text, whole, splitOptions(PROSE_SEPARATORS))) add(text, span, lineage);
+    }
+  }
+
+  chunks.forEach((chunk) => {
+    chunk.metadata.totalChunks = chunks.length;
+  });
+  return chunks;
+}
+
+function fixedWindows(text: string, size: number, overlap: number): Span[] {
+  const spans: Span[] = [];
+  for (let start = 0; start < text.length; start += size - overlap) {
+    spans.push({ start, end: Math.min(start + size, text.length) });
+    if (start + size >= text.length) break;
+  }
+  return spans.filter((span) => text.slice(span.start, span.end).trim() !== '');
+}
+
+// Text between Markdown headings, each with the heading path that leads to it
+function markdownBlocks(text: string, basePath?: string): Array<Span & { path?: string }> {
+  const blocks: Array<Span & { path?: string }> = [];
+  const headings: string[] = [];
+  const pattern = /^(#{1,6})\s+(.+?)\s*#*\s*$/gm;
+  let blockStart = 0;
+  let path = basePath;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > blockStart) {
+      blocks.push({ start: blockStart, end: match.index, path });
+    }
+    const level = match[1].length;
+    headings.splice(level - 1);
+    headings[level - 1] = match[2];
+    path = [basePath, ...headings.filter(Boolean)].filter(Boolean).join(' > ');
+    blockStart = match.index;
+  }
+  blocks.push({ start: blockStart, end: text.length, path });
+  return blocks;
+}
+
+function hardSplitTokens(encode: (text: string) => number[], decode: (tokens: number[]) => string): HardSplitFn {
+  return (text, start, end, size) => {
+    const tokens = encode(text.slice(start, end));
+    const spans: Span[] = [];
+    let position = start;
+    for (let index = 0; index < tokens.length; index += size) {
+      // Decoded lengths can be off by a character where a token splits a multi-byte character
+      const length = decode(tokens.slice(index, index + size)).length;
+      const next = index + size >= tokens.length ? end : Math.min(position + length, end);
+      spans.push({ start: position, end: next });
+      position = next;
+    }
+    return spans;
+  };
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  const result = { ...value } as Record<string, unknown>;
+  Object.keys(result).forEach((key) => result[key] === undefined && delete result[key]);
+  return result as T;
+}
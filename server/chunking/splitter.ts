@@ -0,0 +1,108 @@
+// Recursive text splitting on offsets. A span longer than the chunk size is cut at the first
+// separator that occurs in it, and pieces still too long are cut at the next one, down to a
+// hard split; the pieces are then merged back into chunks of at most `size` with `overlap`
+// carried over from the previous chunk. Spans index into the original text, so every chunk
+// knows exactly where it came from.
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+// How long a piece of text is: characters, or tokens for token-based chunking
+export type LengthFn = (text: string) => number;
+
+// Cuts text [start, end) in pieces of at most size by length, without separators
+export type HardSplitFn = (text: string, start: number, end: number, size: number) => Span[];
+
+export interface SplitOptions {
+  size: number;
+  overlap: number;
+  separators: RegExp[]; // Cut after each match, coarsest first; must be global
+  length: LengthFn;
+  hardSplit: HardSplitFn;
+}
+
+export function splitText(text: string, span: Span, options: SplitOptions): Span[] {
+  const pieces = split(text, span.start, span.end, options.separators, options);
+  return merge(text, pieces, options).map((chunk) => trim(text, chunk)).filter((chunk) => chunk.end > chunk.start);
+}
+
+function split(text: string, start: number, end: number, separators: RegExp[], options: SplitOptions): Span[] {
+  if (options.length(text.slice(start, end)) <= options.size) {
+    return [{ start, end }];
+  }
+
+  for (let i = 0; i < separators.length; i++) {
+    const cuts = cutPoints(text, start, end, separators[i]);
+    if (cuts.length === 0) {
+      continue;
+    }
+    const spans: Span[] = [];
+    let from = start;
+    for (const cut of cuts.concat(end)) {
+      if (cut > from) {
+        spans.push(...split(text, from, cut, separators.slice(i + 1), options));
+        from = cut;
+      }
+    }
+    return spans;
+  }
+
+  return options.hardSplit(text, start, end, options.size);
+}
+
+function cutPoints(text: string, start: number, end: number, separator: RegExp): number[] {
+  const segment = text.slice(start, end);
+  const cuts: number[] = [];
+  separator.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(segment)) !== null) {
+    const cut = start + match.index + match[0].length;
+    if (cut > start && cut < end) {
+      cuts.push(cut);
+    }
+    if (match[0].length === 0) {
+      separator.lastIndex++;
+    }
+  }
+  return cuts;
+}
+
+function merge(text: string, pieces: Span[], options: SplitOptions): Span[] {
+  const chunks: Span[] = [];
+  const window: Array<Span & { length: number }> = [];
+  let total = 0;
+
+  for (const piece of pieces) {
+    const length = options.length(text.slice(piece.start, piece.end));
+    if (window.length > 0 && total + length > options.size) {
+      chunks.push({ start: window[0].start, end: window[window.length - 1].end });
+      // Keep the tail of this chunk as the start of the next one
+      while (window.length > 0 && (total > options.overlap || total + length > options.size)) {
+        total -= window.shift()!.length;
+      }
+    }
+    window.push({ ...piece, length });
+    total += length;
+  }
+  if (window.length > 0) {
+    chunks.push({ start: window[0].start, end: window[window.length - 1].end });
+  }
+  return chunks;
+}
+
+function trim(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+export function hardSplitChars(_text: string, start: number, end: number, size: number): Span[] {
+  const spans: Span[] = [];
+  for (let position = start; position < end; position += size) {
+    spans.push({ start: position, end: Math.min(position + size, end) });
+  }
+  return spans;
+}
@@ -0,0 +1,49 @@
+import { Tiktoken, getEncodingNameForModel, type TiktokenBPE, type TiktokenEncoding, type TiktokenModel } from "js-tiktoken/lite";
+
+// Offline BPE tokenizers for token-based chunking. OpenAI models map to their own encoding;
+// other models (local or hashing embedders) are measured with cl100k_base, which is close
+// enough for sizing chunks. Rank tables are large and loaded on first use.
+
+export interface Tokenizer {
+  readonly encoding: TiktokenEncoding;
+  encode(text: string): number[];
+  decode(tokens: number[]): string;
+}
+
+const tokenizers = new Map<TiktokenEncoding, Promise<Tokenizer>>();
+
+async function loadRanks(encoding: TiktokenEncoding): Promise<TiktokenBPE> {
+  switch (encoding) {
+    case 'o200k_base': return (await import("js-tiktoken/ranks/o200k_base")).default;
+    case 'p50k_base': return (await import("js-tiktoken/ranks/p50k_base")).default;
+    case 'p50k_edit': return (await import("js-tiktoken/ranks/p50k_edit")).default;
+    case 'r50k_base': return (await import("js-tiktoken/ranks/r50k_base")).default;
+    case 'gpt2': return (await import("js-tiktoken/ranks/gpt2")).default;
+    default: return (await import("js-tiktoken/ranks/cl100k_base")).default;
+  }
+}
+
+// model is a knowledge base's embedding model, "provider/model" or a bare name
+export function getTokenizer(model: string): Promise<Tokenizer> {
+  const name = model.includes('/') ? model.slice(model.indexOf('/') + 1) : model;
+  let encoding: TiktokenEncoding = 'cl100k_base';
+  try {
+    encoding = getEncodingNameForModel(name as TiktokenModel);
+  } catch {
+    // Not an OpenAI model
+  }
+
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    tokenizer = loadRanks(encoding).then((ranks) => {
+      const bpe = new Tiktoken(ranks);
+      return {
+        encoding,
+        encode: (text: string) => bpe.encode(text, [], []), // Special tokens in documents are plain text
+        decode: (tokens: number[]) => bpe.decode(tokens),
+      };
+    });
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
@@ -0,0 +1,75 @@
+import { htmlToText } from "../extraction/html";
+
+export interface HtmlPage {
+  title?: string;
+  text: string; // Main content only
+  links: string[]; // Absolute http(s) URLs without fragments
+  canonical?: string;
+  noindex: boolean; // <meta name="robots" content="noindex">
+  nofollow: boolean;
+}
+
+// Main content of a page: <main>, else <article>, else <body>, with navigation, header, footer,
+// sidebars and forms removed either way
+export function extractPage(html: string, pageUrl: string): HtmlPage {
+  const base = attribute(html.match(/<base\s[^>]*>/i)?.[0] || '', 'href');
+  const baseUrl = resolveUrl(base || pageUrl, pageUrl) || pageUrl;
+
+  const robots = (metaContent(html, 'robots') || '').toLowerCase();
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').replace(/\s+/g, ' ').trim();
+  const canonicalTag = (html.match(/<link\s[^>]*>/gi) || []).find((tag) => /\brel\s*=\s*["']?canonical\b/i.test(tag));
+  const canonical = canonicalTag ? resolveUrl(attribute(canonicalTag, 'href') || '', baseUrl) : undefined;
+
+  const mainSelector = /<main[\s>]/i.test(html) ? 'main' : /<article[\s>]/i.test(html) ? 'article' : undefined;
+
+  const links: string[] = [];
+  const anchors = html.match(/<a\s[^>]*>/gi) || [];
+  for (const anchor of anchors) {
+    if (/\brel\s*=\s*["']?[^"'>]*\bnofollow\b/i.test(anchor)) continue;
+    const link = resolveUrl(attribute(anchor, 'href') || '', baseUrl);
+    if (link && !links.includes(link)) links.push(link);
+  }
+
+  return {
+    title: title || undefined,
+    text: htmlToText(html, mainSelector ? [mainSelector] : undefined),
+    links,
+    canonical,
+    noindex: /\b(noindex|none)\b/.test(robots),
+    nofollow: /\b(nofollow|none)\b/.test(robots),
+  };
+}
+
+// Absolute http(s) URL without its fragment, or undefined for mailto:, javascript: and the like
+export function resolveUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(decodeEntities(href.trim()), base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function metaContent(html: string, name: string): string | undefined {
+  const tag = (html.match(/<meta\s[^>]*>/gi) || []).find((meta) => attribute(meta, 'name')?.toLowerCase() === name);
+  return tag ? attribute(tag, 'content') : undefined;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,76 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+
+// Read when the module loads: only the test server's IP address is exempt from the private
+// address block, so "localhost" stays blocked although it points at the same server
+process.env.CRAWL_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+
+const { checkPublicUrl, fetchResource, isPrivateAddress } = await import("./fetch");
+
+const OPTIONS = { timeoutMs: 5000, maxBytes: 1024 };
+
+describe("private address block", () => {
+  let server: http.Server;
+  let port: number;
+  let requests = 0;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests++;
+      if (req.url === "/to-localhost") {
+        res.writeHead(302, { Location: `http://localhost:${port}/` }).end();
+        return;
+      }
+      if (req.url === "/to-metadata") {
+        res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data/" }).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/plain" }).end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("classifies loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "::1", "fd00::1", "::ffff:127.0.0.1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ["93.184.216.34", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  test("checkPublicUrl rejects private hosts unless CRAWL_ALLOW_PRIVATE_HOSTS lists them", async () => {
+    assert.match((await checkPublicUrl(`http://localhost:${port}/`)) || "", /private or local address/);
+    assert.match((await checkPublicUrl("http://[::1]/")) || "", /private or local address/);
+    assert.equal(await checkPublicUrl(`http://127.0.0.1:${port}/`), null);
+  });
+
+  test("fetches from an allowed private host", async () => {
+    const resource = await fetchResource(`http://127.0.0.1:${port}/`, OPTIONS);
+    assert.equal(resource.status, 200);
+    assert.equal(resource.body.toString(), "ok");
+  });
+
+  test("refuses host names that resolve to private addresses", async () => {
+    const before = requests;
+    await assert.rejects(fetchResource(`http://localhost:${port}/`, OPTIONS), /private or local address/);
+    assert.equal(requests, before);
+  });
+
+  test("refuses private IP literals", async () => {
+    await assert.rejects(fetchResource("http://169.254.169.254/latest/meta-data/", OPTIONS), /private or local address/);
+    await assert.rejects(fetchResource(`http://[::1]:${port}/`, OPTIONS), /private or local address/);
+  });
+
+  test("refuses redirects to private hosts", async () => {
+    await assert.rejects(fetchResource(`http://127.0.0.1:${port}/to-localhost`, OPTIONS), /private or local address/);
+    await assert.rejects(fetchResource(`http://127.0.0.1:${port}/to-metadata`, OPTIONS), /private or local address/);
+  });
+});
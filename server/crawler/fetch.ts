@@ -0,0 +1,163 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+
+// HTTP fetching for the crawler: one user agent, a timeout per request and a cap on body size
+// so a huge download can't exhaust memory. Crawled bodies end up in knowledge bases users can
+// read, so requests only go to public addresses: the address a host name resolves to is checked
+// when the socket connects (no DNS rebinding window) and redirects are followed hop by hop.
+
+export const CRAWLER_USER_AGENT = process.env.CRAWL_USER_AGENT || 'VorticBot/1.0';
+
+const MAX_REDIRECTS = 5;
+
+// Hosts (names or IP addresses) that may resolve to private addresses, e.g. a local test server
+const ALLOWED_PRIVATE_HOSTS = new Set(
+  (process.env.CRAWL_ALLOW_PRIVATE_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase().replace(/^\[|\]$/g, ''))
+    .filter(Boolean)
+);
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, ULA, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as Array<[string, number]>).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as Array<[string, number]>).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function privateHostAllowed(hostname: string): boolean {
+  return ALLOWED_PRIVATE_HOSTS.has(hostname.toLowerCase().replace(/^\[|\]$/g, ''));
+}
+
+// Why a URL may not be crawled, or null when it may: checked when a source is added so users
+// get an error right away; fetchResource enforces the same rule on every request
+export async function checkPublicUrl(url: string): Promise<string | null> {
+  const parsed = new URL(url);
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (privateHostAllowed(hostname)) {
+    return null;
+  }
+  try {
+    const addresses = net.isIP(hostname) ? [hostname] : (await dns.promises.lookup(hostname, { all: true })).map((a) => a.address);
+    return addresses.some(isPrivateAddress) ? `${parsed.hostname} is a private or local address` : null;
+  } catch (error) {
+    return `Could not resolve ${parsed.hostname}: ${(error as Error).message}`;
+  }
+}
+
+// dns.lookup that refuses private addresses; used as the socket's lookup so the address that is
+// checked is the address that is connected to
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) return callback(error);
+    const addresses = Array.isArray(address) ? address.map((a) => a.address) : [address];
+    if (!privateHostAllowed(hostname) && addresses.some(isPrivateAddress)) {
+      return callback(new Error(`${hostname} resolves to a private or local address`));
+    }
+    callback(null, address, family);
+  });
+}) as unknown as net.LookupFunction;
+
+export interface FetchOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  signal?: AbortSignal;
+}
+
+export interface FetchedResource {
+  url: string; // After redirects
+  status: number;
+  contentType: string;
+  body: Buffer;
+  lastModified?: string;
+  etag?: string;
+}
+
+export async function fetchResource(url: string, options: FetchOptions): Promise<FetchedResource> {
+  const timeout = AbortSignal.timeout(options.timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const response = await request(current, signal);
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    const declaredLength = Number(response.headers['content-length']);
+    if (declaredLength > options.maxBytes) {
+      response.destroy();
+      throw new Error(`Response is ${declaredLength} bytes, over the ${options.maxBytes} byte limit`);
+    }
+
+    return {
+      url: current,
+      status,
+      contentType: (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase(),
+      body: await readLimited(response, options.maxBytes),
+      lastModified: response.headers['last-modified'] || undefined,
+      etag: response.headers.etag || undefined,
+    };
+  }
+}
+
+// One GET without following redirects; IP literals are checked here since they skip the lookup
+function request(url: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return Promise.reject(new Error(`Unsupported protocol ${parsed.protocol}`));
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isPrivateAddress(hostname) && !privateHostAllowed(hostname)) {
+    return Promise.reject(new Error(`${parsed.hostname} is a private or local address`));
+  }
+
+  const client = parsed.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(parsed, {
+      signal,
+      lookup: publicLookup,
+      headers: {
+        'User-Agent': CRAWLER_USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+      },
+    }, resolve);
+    req.on('error', (error) => reject(signal.aborted ? signal.reason : error));
+  });
+}
+
+async function readLimited(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new Error(`Response is over the ${maxBytes} byte limit`);
+    }
+    parts.push(chunk);
+  }
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,116 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+
+// Read when the crawler modules load: no delay between requests, and the test server's address
+// may be crawled although it is private
+process.env.CRAWL_DELAY_MS = "0";
+process.env.CRAWL_ALLOW_PRIVATE_HOSTS = "127.0.0.1";
+
+const { crawl } = await import("./index");
+type CrawledPage = import("./index").CrawledPage;
+
+// A small static site: / links to two sections, a page blocked by robots.txt, an image and
+// the same page twice (once with a fragment)
+const SITE: Record<string, string> = {
+  "/robots.txt": "User-agent: *\nDisallow: /private\n",
+  "/": page("Home", ["/a", "/b", "/a#top", "/private/secret", "/docs/guide", "/logo.png"]),
+  "/a": page("A", ["/a/deep", "/"]),
+  "/a/deep": page("Deep", ["/a/deeper"]),
+  "/a/deeper": page("Deeper", []),
+  "/b": page("B", ["/a"]),
+  "/private/secret": page("Secret", []),
+  "/docs/guide": page("Guide", ["/docs/internal/notes"]),
+  "/docs/internal/notes": page("Notes", []),
+};
+
+function page(title: string, links: string[]): string {
+  const anchors = links.map((href) => `<a href="${href}">${href}</a>`).join(" ");
+  return `<html><head><title>${title}</title></head><body><p>${title} page text.</p>${anchors}</body></html>`;
+}
+
+describe("crawl", () => {
+  let server: http.Server;
+  let origin: string;
+  const requests: string[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const path = new URL(req.url || "/", "http://localhost").pathname;
+      requests.push(path);
+      const body = SITE[path];
+      if (body === undefined) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": path.endsWith(".txt") ? "text/plain" : "text/html" }).end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  async function crawlSite(config: Record<string, any>, type: "url" | "domain" = "domain") {
+    const pages: CrawledPage[] = [];
+    const summary = await crawl({ type, url: `${origin}/`, config }, async (crawled) => {
+      pages.push(crawled);
+    });
+    return { summary, paths: pages.map((crawled) => new URL(crawled.url).pathname).sort() };
+  }
+
+  test("stops following links at maxDepth", async () => {
+    const { paths } = await crawlSite({ maxDepth: 1 });
+    assert.deepEqual(paths, ["/", "/a", "/b", "/docs/guide"]);
+    assert.ok(!requests.includes("/a/deep"));
+  });
+
+  test("follows deeper links as maxDepth allows", async () => {
+    const { paths } = await crawlSite({ maxDepth: 2 });
+    assert.ok(paths.includes("/a/deep"));
+    assert.ok(!paths.includes("/a/deeper"));
+  });
+
+  test("a url source only fetches its own page", async () => {
+    const { paths } = await crawlSite({}, "url");
+    assert.deepEqual(paths, ["/"]);
+  });
+
+  test("include paths keep only matching pages, but the start page's links are followed", async () => {
+    const { paths } = await crawlSite({ maxDepth: 2, includePaths: ["/docs"] });
+    assert.deepEqual(paths, ["/docs/guide", "/docs/internal/notes"]);
+  });
+
+  test("exclude paths drop matching pages", async () => {
+    const { paths } = await crawlSite({ maxDepth: 2, excludePaths: ["/docs/*/notes", "/a"] });
+    assert.deepEqual(paths, ["/", "/b", "/docs/guide"]);
+    assert.ok(!requests.includes("/a"));
+  });
+
+  test("obeys robots.txt", async () => {
+    const { paths } = await crawlSite({ maxDepth: 3 });
+    assert.ok(!paths.includes("/private/secret"));
+    assert.ok(!requests.includes("/private/secret"));
+  });
+
+  test("fetches every URL once, ignoring fragments, and skips non-page links", async () => {
+    await crawlSite({ maxDepth: 3 });
+    const pageRequests = requests.filter((path) => path !== "/robots.txt");
+    assert.equal(new Set(pageRequests).size, pageRequests.length);
+    assert.ok(!requests.includes("/logo.png"));
+  });
+
+  test("stops at maxPages and reports the crawl as truncated", async () => {
+    const { summary, paths } = await crawlSite({ maxDepth: 3, maxPages: 2 });
+    assert.equal(summary.pagesFetched, 2);
+    assert.equal(summary.truncated, true);
+    assert.equal(paths.length, 2);
+  });
+});
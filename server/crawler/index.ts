@@ -0,0 +1,214 @@
+import { extractDocument, isSupportedDocument, type ExtractedSection } from "../extraction";
+import { extractPage, resolveUrl } from "./content";
+import { fetchResource, type FetchOptions } from "./fetch";
+import { fetchRobots, type RobotsRules } from "./robots";
+import { readSitemap } from "./sitemap";
+import type { CrawlConfig, KnowledgeSourceType } from "@shared/schema";
+import { envInt } from "../env";
+
+// Breadth-first crawl of one knowledge source. Pages stay on the start URL's site, obey
+// robots.txt (and robots meta tags) and the source's depth and path filters, and are fetched
+// one at a time with a delay between requests. Each page with text is handed to onPage;
+// storing, deduplication and re-embedding are up to the caller (see ./scheduler).
+
+const DEFAULT_MAX_PAGES = envInt('CRAWL_MAX_PAGES', 200);
+const REQUEST_DELAY_MS = envInt('CRAWL_DELAY_MS', 500, 0);
+const MAX_CRAWL_DELAY_MS = 30000; // Cap on robots.txt Crawl-delay
+const FETCH_TIMEOUT_MS = envInt('CRAWL_TIMEOUT_MS', 15000);
+const MAX_PAGE_BYTES = envInt('CRAWL_MAX_PAGE_BYTES', 10 * 1024 * 1024);
+
+// Links to these are never fetched
+const SKIPPED_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|bmp|css|js|mjs|map|woff2?|ttf|eot|zip|gz|tgz|rar|7z|exe|dmg|mp3|mp4|wav|avi|mov|webm)$/i;
+
+export interface CrawlTarget {
+  type: KnowledgeSourceType;
+  url: string;
+  config?: CrawlConfig | null;
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  depth: number;
+  format: string; // Extractor that produced the text: html, pdf, markdown, ...
+  sections: ExtractedSection[];
+  metadata: {
+    contentType: string;
+    lastModified?: string;
+    etag?: string;
+    canonical?: string;
+    document?: Record<string, any>;
+  };
+}
+
+export interface CrawlSummary {
+  pagesFetched: number;
+  failures: Array<{ url: string; error: string }>; // Network errors and 5xx; the page may still exist
+  truncated: boolean; // Stopped at maxPages with pages left to visit
+}
+
+export async function crawl(
+  target: CrawlTarget,
+  onPage: (page: CrawledPage) => Promise<void>,
+  signal?: AbortSignal
+): Promise<CrawlSummary> {
+  const start = new URL(target.url);
+  const config = target.config || {};
+  const maxDepth = config.maxDepth ?? (target.type === 'domain' ? 3 : 0);
+  const maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+  const fetchOptions: FetchOptions = { timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_PAGE_BYTES, signal };
+
+  const robots = await fetchRobots(start.origin, fetchOptions);
+  const delayMs = Math.min(Math.max(REQUEST_DELAY_MS, robots.crawlDelayMs ?? 0), MAX_CRAWL_DELAY_MS);
+
+  const inScope = (url: string) => {
+    const parsed = new URL(url);
+    return sameSite(url, target.url) && !SKIPPED_EXTENSIONS.test(parsed.pathname) && pathAllowed(parsed.pathname, config);
+  };
+
+  // Sitemap sources start from every listed page; the others from the URL itself
+  const startUrls = target.type === 'sitemap'
+    ? (await readSitemap(target.url, fetchOptions, maxPages))
+        .map((url) => resolveUrl(url, target.url))
+        .filter((url): url is string => url !== undefined && inScope(url))
+    : [resolveUrl(target.url, target.url)!];
+
+  const queue: Array<{ url: string; depth: number }> = startUrls.map((url) => ({ url, depth: 0 }));
+  const queued = new Set(startUrls);
+  const summary: CrawlSummary = { pagesFetched: 0, failures: [], truncated: false };
+
+  for (let next = 0; next < queue.length; next++) {
+    if (summary.pagesFetched >= maxPages) {
+      summary.truncated = true;
+      break;
+    }
+    signal?.throwIfAborted();
+
+    const { url, depth } = queue[next];
+    if (!robots.isAllowed(url)) {
+      continue;
+    }
+
+    if (summary.pagesFetched > 0) {
+      await sleep(delayMs, signal);
+    }
+    summary.pagesFetched++;
+
+    let links: string[] = [];
+    try {
+      const result = await fetchPage(url, depth, robots, fetchOptions);
+      // The start page is crawled for its links even when the path filters leave it out
+      if (result.page && pathAllowed(new URL(url).pathname, config)) {
+        await onPage(result.page);
+      }
+      links = result.links;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      summary.failures.push({ url, error: (error as Error).message });
+      continue;
+    }
+
+    if (depth >= maxDepth) continue;
+    for (const link of links) {
+      if (!queued.has(link) && inScope(link)) {
+        queued.add(link);
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+  }
+
+  return summary;
+}
+
+// One page: its text (unless it has none, is noindex or not a document we can read) and the
+// links to follow from it. 4xx pages are skipped; 5xx and network errors throw.
+async function fetchPage(
+  url: string,
+  depth: number,
+  robots: RobotsRules,
+  fetchOptions: FetchOptions
+): Promise<{ page?: CrawledPage; links: string[] }> {
+  const resource = await fetchResource(url, fetchOptions);
+  if (resource.status >= 500) {
+    throw new Error(`HTTP ${resource.status}`);
+  }
+  // A redirect off the site or into a disallowed path is treated like a missing page
+  if (resource.status !== 200 || !sameSite(resource.url, url) || !robots.isAllowed(resource.url)) {
+    return { links: [] };
+  }
+
+  const metadata: CrawledPage['metadata'] = {
+    contentType: resource.contentType,
+    lastModified: resource.lastModified,
+    etag: resource.etag,
+  };
+  const filename = new URL(resource.url).pathname.split('/').pop() || 'index.html';
+
+  if (resource.contentType === 'text/html' || resource.contentType === 'application/xhtml+xml') {
+    const html = extractPage(resource.body.toString('utf8'), resource.url);
+    const links = html.nofollow ? [] : html.links;
+    if (html.noindex || !html.text.trim()) {
+      return { links };
+    }
+    return {
+      page: {
+        url,
+        title: html.title || url,
+        depth,
+        format: 'html',
+        sections: [{ text: html.text }],
+        metadata: { ...metadata, canonical: html.canonical },
+      },
+      links,
+    };
+  }
+
+  // PDFs, Markdown, Word files and other documents linked from the site
+  if (!isSupportedDocument(resource.contentType, filename)) {
+    return { links: [] };
+  }
+  const document = await extractDocument(resource.body, resource.contentType, filename);
+  const sections = document.sections.filter((section) => section.text.trim());
+  if (sections.length === 0) {
+    return { links: [] };
+  }
+  return {
+    page: {
+      url,
+      title: document.metadata.title || filename,
+      depth,
+      format: document.format,
+      sections,
+      metadata: { ...metadata, document: document.metadata },
+    },
+    links: [],
+  };
+}
+
+// Same host, ignoring http/https and a leading www.
+function sameSite(a: string, b: string): boolean {
+  const site = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+  return site(a) === site(b);
+}
+
+// Include and exclude patterns are path prefixes where * matches any characters
+export function pathAllowed(path: string, config: CrawlConfig): boolean {
+  const matches = (pattern: string) => patternToRegExp(pattern).test(path);
+  if (config.includePaths?.length && !config.includePaths.some(matches)) return false;
+  return !config.excludePaths?.some(matches);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const prefix = pattern.startsWith('/') ? pattern : `/${pattern}`;
+  return new RegExp(`^${prefix.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}`);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
@@ -0,0 +1,39 @@
+import robotsParser from "robots-parser";
+import { CRAWLER_USER_AGENT, fetchResource, type FetchOptions } from "./fetch";
+
+export interface RobotsRules {
+  isAllowed(url: string): boolean;
+  crawlDelayMs?: number;
+  sitemaps: string[];
+}
+
+// robots.txt of an origin, read as RFC 9309 says: a missing file (4xx) allows everything,
+// an unreachable one (5xx, network error) disallows everything until the next crawl
+export async function fetchRobots(origin: string, options: FetchOptions): Promise<RobotsRules> {
+  const robotsUrl = `${origin}/robots.txt`;
+  let resource;
+  try {
+    resource = await fetchResource(robotsUrl, options);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn(`⚠️ Could not fetch ${robotsUrl}, not crawling ${origin}:`, (error as Error).message);
+    return { isAllowed: () => false, sitemaps: [] };
+  }
+
+  if (resource.status >= 500) {
+    console.warn(`⚠️ ${robotsUrl} returned ${resource.status}, not crawling ${origin}`);
+    return { isAllowed: () => false, sitemaps: [] };
+  }
+  if (resource.status >= 400) {
+    return { isAllowed: () => true, sitemaps: [] };
+  }
+
+  const robots = robotsParser(robotsUrl, resource.body.toString('utf8'));
+  const crawlDelay = robots.getCrawlDelay(CRAWLER_USER_AGENT);
+  return {
+    // Rules only cover their own origin; the parser answers undefined for other URLs
+    isAllowed: (url) => robots.isAllowed(url, CRAWLER_USER_AGENT) !== false,
+    crawlDelayMs: crawlDelay !== undefined ? crawlDelay * 1000 : undefined,
+    sitemaps: robots.getSitemaps(),
+  };
+}
@@ -0,0 +1,220 @@
+import { createHash } from "crypto";
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { EmbeddingService } from "../embeddingService";
+import { ingestionQueue } from "../ingestion/queue";
+import { getWebSocketManager } from "../websocket";
+import { crawl, type CrawledPage } from "./index";
+import type { KnowledgeItem, KnowledgeSource } from "@shared/schema";
+import { envInt } from "../env";
+import { LeasedWorker, type LeasedWorkerOptions } from "../leased-worker";
+
+export function crawlSchedulerOptionsFromEnv(): LeasedWorkerOptions {
+  return {
+    concurrency: envInt('CRAWL_WORKER_CONCURRENCY', 1, 0),
+    leaseMs: envInt('CRAWL_LEASE_MS', 120000),
+    pollIntervalMs: envInt('CRAWL_POLL_INTERVAL_MS', 60000),
+    shutdownTimeoutMs: 0, // Unfinished crawls start over anyway, so shutdown doesn't wait for them
+  };
+}
+
+// Pushed to knowledge base subscribers while a source is crawled
+export interface CrawlProgress {
+  sourceId: string;
+  status: string;
+  pagesCrawled: number;
+  error?: string | null;
+}
+
+// Crawls knowledge sources whose next_crawl_at has passed: new sources, "crawl now" requests and
+// periodic re-crawls. Each crawled page becomes a url knowledge item keyed by its URL. Pages are
+// deduplicated by content hash within the knowledge base, unchanged pages are left alone, changed
+// pages are queued for re-embedding, and pages that disappeared from the site are removed.
+export class CrawlScheduler extends LeasedWorker<{ id: string }> {
+  constructor(options: LeasedWorkerOptions = crawlSchedulerOptionsFromEnv()) {
+    super(options, { name: 'CrawlScheduler', noun: 'crawl', concurrencyEnv: 'CRAWL_WORKER_CONCURRENCY' });
+  }
+
+  // Schedule a crawl right away, unless one is running
+  async crawlNow(sourceId: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_sources
+      SET next_crawl_at = now(), updated_at = now()
+      WHERE id = ${sourceId} AND status <> 'crawling'
+      RETURNING id
+    `);
+    this.wake();
+    return result.rows.length > 0;
+  }
+
+  // Sources of aborted crawls are crawled again from the start
+  protected async releaseUnfinished(): Promise<void> {
+    await db.execute(sql`
+      UPDATE knowledge_sources
+      SET status = 'idle', next_crawl_at = now(), lease_owner = NULL, lease_expires_at = NULL
+      WHERE lease_owner = ${this.workerId} AND status = 'crawling'
+    `);
+  }
+
+  // Claim the source that has been due the longest
+  protected async claimNext(): Promise<{ id: string } | null> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_sources
+      SET status = 'crawling',
+          lease_owner = ${this.workerId},
+          lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond'),
+          updated_at = now()
+      WHERE id = (
+        SELECT id FROM knowledge_sources
+        WHERE status <> 'crawling' AND next_crawl_at <= now()
+        ORDER BY next_crawl_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id
+    `);
+    return (result.rows[0] as { id: string } | undefined) ?? null;
+  }
+
+  protected async process({ id: sourceId }: { id: string }, controller: AbortController): Promise<void> {
+    const source = await storage.getKnowledgeSource(sourceId);
+    if (!source) return;
+
+    this.notify(source.knowledgeBaseId, { sourceId, status: 'crawling', pagesCrawled: 0 });
+
+    const existing = new Map<string, KnowledgeItem>();
+    for (const item of await storage.getKnowledgeItemsBySource(sourceId)) {
+      const url = (item.metadata as Record<string, any> | null)?.url;
+      if (url) existing.set(url, item);
+    }
+    const kept = new Set<string>();
+
+    try {
+      console.log(`🕷️ Crawling ${source.type} source ${source.url}`);
+      const summary = await crawl(source, async (page) => {
+        if (await this.storePage(source, page, existing.get(page.url))) {
+          kept.add(page.url);
+          this.notify(source.knowledgeBaseId, { sourceId, status: 'crawling', pagesCrawled: kept.size });
+        }
+      }, controller.signal);
+
+      // Failed fetches may be temporary, and a truncated crawl never reached some pages; only
+      // pages known to be gone (or now filtered, noindex or duplicated) are removed
+      summary.failures.forEach((failure) => kept.add(failure.url));
+      if (!summary.truncated) {
+        for (const [url, item] of Array.from(existing.entries())) {
+          if (!kept.has(url)) await storage.deleteKnowledgeItem(item.id);
+        }
+      }
+
+      const lastError = summary.failures.length > 0
+        ? `${summary.failures.length} page(s) failed, e.g. ${summary.failures[0].url}: ${summary.failures[0].error}`
+        : null;
+      await this.finish(source, 'idle', kept.size, lastError);
+      console.log(`✅ Crawled ${source.url}: ${summary.pagesFetched} fetched, ${kept.size} kept${summary.truncated ? ' (page limit reached)' : ''}`);
+    } catch (error) {
+      // Shutting down or source deleted: whoever aborted already dealt with the row
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error(`[CrawlScheduler] Crawl of ${source.url} failed:`, error);
+      await this.finish(source, 'error', kept.size, (error as Error).message);
+    }
+  }
+
+  // Store a crawled page as a url knowledge item. Returns false when the page duplicates another
+  // item of the knowledge base or has no text.
+  private async storePage(source: KnowledgeSource, page: CrawledPage, existing?: KnowledgeItem): Promise<boolean> {
+    const { content, sections } = EmbeddingService.joinSections(page.sections);
+    if (!content.trim()) {
+      return false;
+    }
+
+    const contentHash = createHash('sha256').update(content).digest('hex');
+    if (existing?.contentHash === contentHash) {
+      return true;
+    }
+    const duplicate = await storage.findKnowledgeItemByHash(source.knowledgeBaseId, contentHash);
+    if (duplicate && duplicate.id !== existing?.id) {
+      return false;
+    }
+
+    const fields = {
+      title: page.title,
+      content,
+      contentHash,
+      metadata: {
+        url: page.url,
+        fetchedAt: new Date().toISOString(),
+        depth: page.depth,
+        format: page.format,
+        ...page.metadata,
+        sections,
+      },
+      isProcessed: false,
+      processingStatus: 'queued',
+      chunksTotal: null,
+      chunksDone: 0,
+      processingError: null,
+    };
+    if (existing) {
+      await storage.updateKnowledgeItem(existing.id, fields);
+    } else {
+      await storage.createKnowledgeItem({ ...fields, knowledgeBaseId: source.knowledgeBaseId, sourceId: source.id, type: 'url' });
+    }
+    ingestionQueue.wake();
+    return true;
+  }
+
+  private async finish(source: KnowledgeSource, status: 'idle' | 'error', pagesCrawled: number, lastError: string | null): Promise<void> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_sources
+      SET status = ${status},
+          last_error = ${lastError},
+          pages_crawled = ${pagesCrawled},
+          last_crawled_at = now(),
+          next_crawl_at = CASE WHEN recrawl_interval_hours IS NULL THEN NULL
+                               ELSE now() + recrawl_interval_hours * interval '1 hour' END,
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          updated_at = now()
+      WHERE id = ${source.id} AND lease_owner = ${this.workerId}
+      RETURNING id
+    `);
+    if (result.rows.length > 0) {
+      this.notify(source.knowledgeBaseId, { sourceId: source.id, status, pagesCrawled, error: lastError });
+    }
+  }
+
+  // A crawl whose source was deleted meanwhile loses its lease and is stopped
+  protected async renewLeases(): Promise<string[]> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_sources
+      SET lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond')
+      WHERE lease_owner = ${this.workerId} AND status = 'crawling'
+      RETURNING id
+    `);
+    return (result.rows as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  // Crawls whose worker stopped heartbeating are scheduled again
+  async recoverExpiredLeases(): Promise<void> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_sources
+      SET status = 'idle', next_crawl_at = now(), lease_owner = NULL, lease_expires_at = NULL
+      WHERE status = 'crawling' AND (lease_expires_at IS NULL OR lease_expires_at < now())
+      RETURNING id
+    `);
+    if (result.rows.length > 0) {
+      console.log(`[CrawlScheduler] Recovered ${result.rows.length} orphaned crawl(s)`);
+      this.wake();
+    }
+  }
+
+  private notify(knowledgeBaseId: string, progress: CrawlProgress): void {
+    getWebSocketManager()?.broadcastToKnowledgeBase(knowledgeBaseId, { type: 'crawl_progress', data: progress });
+  }
+}
+
+export const crawlScheduler = new CrawlScheduler();
@@ -0,0 +1,48 @@
+import { decodeEntities } from "./content";
+import { fetchResource, type FetchOptions } from "./fetch";
+
+// Sitemap indexes nested deeper than this are not followed
+const MAX_SITEMAP_NESTING = 3;
+
+// Page URLs listed in a sitemap, following sitemap indexes, up to limit URLs
+export async function readSitemap(url: string, options: FetchOptions, limit: number): Promise<string[]> {
+  const pages: string[] = [];
+  const listed = new Set<string>();
+  const seen = new Set<string>();
+
+  const read = async (sitemapUrl: string, nesting: number): Promise<void> => {
+    if (seen.has(sitemapUrl) || pages.length >= limit) return;
+    seen.add(sitemapUrl);
+
+    const resource = await fetchResource(sitemapUrl, options);
+    if (resource.status !== 200) {
+      throw new Error(`Sitemap ${sitemapUrl} returned ${resource.status}`);
+    }
+    if (/\.gz$/i.test(sitemapUrl) || resource.contentType === 'application/gzip') {
+      throw new Error(`Sitemap ${sitemapUrl} is compressed; only plain XML sitemaps are supported`);
+    }
+
+    const xml = resource.body.toString('utf8');
+    const locations = (xml.match(/<loc>[\s\S]*?<\/loc>/gi) || [])
+      .map((loc) => decodeEntities(loc.replace(/<\/?loc>/gi, '').replace(/<!\[CDATA\[|\]\]>/g, '').trim()));
+
+    if (/<sitemapindex[\s>]/i.test(xml)) {
+      if (nesting >= MAX_SITEMAP_NESTING) return;
+      for (const child of locations) {
+        await read(child, nesting + 1);
+      }
+      return;
+    }
+
+    for (const location of locations) {
+      if (pages.length >= limit) break;
+      if (!listed.has(location)) {
+        listed.add(location);
+        pages.push(location);
+      }
+    }
+  };
+
+  await read(url, 0);
+  return pages;
+}
@@ -1,288 +1,207 @@
-import OpenAI from 'openai';
-import { storage } from './storage';
-import { insertEmbeddingSchema, insertKnowledgeItemSchema } from '@shared/schema';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
-});
-
-interface ChunkData {
-  text: string;
-  metadata: {
-    chunkIndex: number;
-    totalChunks: number;
-    startPosition: number;
-    endPosition: number;
-    [key: string]: any;
-  };
+import { storage, type EmbeddingMatch } from './storage';
+import { insertEmbeddingSchema, insertKnowledgeItemSchema, type KnowledgeBase, type KnowledgeFilters, type KnowledgeItem } from '@shared/schema';
+import { DEFAULT_EMBEDDING_MODEL, embeddingGateway } from './embeddings/gateway';
+import { extractDocument, type ExtractedSection, type SectionLocation } from './extraction';
+import { chunkSections, type ChunkingOptions } from './chunking';
+import { envInt } from './env';
+
+// Model and vector size of a knowledge base; queries must be embedded the same way as its chunks
+export interface EmbeddingSettings {
+  model: string; // "provider/model" or bare name, see server/embeddings/gateway.ts
+  dimensions: number;
 }
 
-interface ProcessingResult {
+export interface EmbeddingBatch {
+  vectors: number[][];
+  model: string; // Resolved "provider/model" that produced the vectors
+}
+
+// A section of an uploaded or crawled document's content, stored in its item's metadata.sections
+export interface SectionSpan {
+  start: number;
+  end: number;
+  location?: SectionLocation;
+}
+
+export interface IngestionHooks {
+  signal?: AbortSignal; // Cancellation or a lost lease
+  onProgress: (chunksDone: number, chunksTotal: number) => Promise<void>;
+}
+
+export interface IngestionResult {
   totalChunks: number;
   embeddingsCount: number;
-  itemCount: number;
 }
 
 export class EmbeddingService {
-  private static readonly CHUNK_SIZE = 1500; // Characters per chunk
-  private static readonly CHUNK_OVERLAP = 200; // Overlap between chunks
-  private static readonly EMBEDDING_MODEL = 'text-embedding-3-small';
-  private static readonly MAX_CHUNKS_PER_FILE = 300; // Prevent memory issues
-  private static readonly BATCH_SIZE = 50; // Batch embeddings for efficiency
+  // Larger files are rejected with an error rather than cut short
+  private static readonly MAX_CHUNKS_PER_FILE = envInt('EMBEDDING_MAX_CHUNKS_PER_FILE', 5000);
+  // Chunks per embedding request; each batch is stored before the next one is embedded
+  private static readonly BATCH_SIZE = envInt('EMBEDDING_BATCH_SIZE', 64);
+  // Keeps a batch of long chunks within the request token limit
+  private static readonly BATCH_MAX_CHARS = envInt('EMBEDDING_BATCH_MAX_CHARS', 200000);
+
+  static settingsFor(knowledgeBase?: Pick<KnowledgeBase, 'embeddingModel' | 'vectorDimensions'> | null): EmbeddingSettings {
+    return {
+      model: knowledgeBase?.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+      dimensions: knowledgeBase?.vectorDimensions || 1536,
+    };
+  }
+
+  // Chunking strategy and sizes of a knowledge base
+  static chunkingFor(knowledgeBase?: Pick<KnowledgeBase, 'chunkStrategy' | 'chunkSize' | 'chunkOverlap' | 'embeddingModel'> | null): ChunkingOptions {
+    return {
+      strategy: knowledgeBase?.chunkStrategy || 'recursive',
+      chunkSize: knowledgeBase?.chunkSize || 1000,
+      chunkOverlap: knowledgeBase?.chunkOverlap ?? 200,
+      model: knowledgeBase?.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+    };
+  }
 
   /**
-   * Chunk text into manageable pieces with overlap
+   * Generate the embedding for one text (e.g. a search query)
    */
-  static chunkText(text: string): ChunkData[] {
-    console.log(`🔍 Starting chunking for text of length: ${text.length}`);
-    
-    const chunks: ChunkData[] = [];
-    const textLength = text.length;
-
-    if (textLength === 0) {
-      console.log(`⚠️ Empty text, returning no chunks`);
-      return chunks;
-    }
-
-    // If text is smaller than chunk size, return as single chunk
-    if (textLength <= this.CHUNK_SIZE) {
-      console.log(`📄 Text fits in single chunk`);
-      chunks.push({
-        text: text,
-        metadata: {
-          chunkIndex: 0,
-          totalChunks: 1,
-          startPosition: 0,
-          endPosition: textLength,
-        }
-      });
-      return chunks;
-    }
-
-    let position = 0;
-    let chunkIndex = 0;
-
-    console.log(`🔄 Creating chunks with size ${this.CHUNK_SIZE} and overlap ${this.CHUNK_OVERLAP}`);
-
-    while (position < textLength && chunkIndex < 100) { // Safety limit
-      const endPosition = Math.min(position + this.CHUNK_SIZE, textLength);
-      const chunkText = text.slice(position, endPosition);
-
-      console.log(`📝 Creating chunk ${chunkIndex} (position ${position}-${endPosition})`);
-      
-      chunks.push({
-        text: chunkText,
-        metadata: {
-          chunkIndex,
-          totalChunks: 0, // Will be updated after all chunks are created
-          startPosition: position,
-          endPosition,
-        }
-      });
-
-      // Move position forward, accounting for overlap
-      if (endPosition >= textLength) {
-        console.log(`📄 Reached end of text at position ${endPosition}`);
-        break; // We've processed the entire text
-      }
-      
-      position = endPosition - this.CHUNK_OVERLAP;
-      chunkIndex++;
-      
-      console.log(`➡️ Moving to next position: ${position}`);
-    }
-
-    if (chunkIndex >= 100) {
-      console.error(`⚠️ Hit safety limit of 100 chunks`);
-    }
-
-    // Update total chunks count
-    console.log(`✅ Created ${chunks.length} chunks, updating metadata`);
-    chunks.forEach(chunk => {
-      chunk.metadata.totalChunks = chunks.length;
-    });
-
-    console.log(`✅ Chunking completed successfully`);
-    return chunks;
+  static async generateEmbedding(text: string, settings: EmbeddingSettings = this.settingsFor()): Promise<number[]> {
+    const { vectors } = await this.generateEmbeddingsBatch([text], settings);
+    return vectors[0];
   }
 
   /**
-   * Generate embeddings for text using OpenAI
+   * Generate embeddings for one batch of texts with the configured provider
    */
-  static async generateEmbedding(text: string): Promise<number[]> {
+  static async generateEmbeddingsBatch(texts: string[], settings: EmbeddingSettings = this.settingsFor()): Promise<EmbeddingBatch> {
+    const { provider, model, ref } = embeddingGateway.resolve(settings.model);
     try {
-      // For now, let's use mock embeddings to avoid memory issues
-      // TODO: Fix OpenAI integration memory problem
-      console.log(`🔄 Generating mock embedding for text (OpenAI temporarily disabled due to memory issues)`);
-      
-      // Generate mock embedding - random vector of appropriate size
-      const vector = Array.from({ length: 1536 }, () => Math.random() * 2 - 1); // Random values between -1 and 1
-      
-      console.log(`✅ Generated mock embedding`);
-      return vector;
-      
-      // Original OpenAI code (disabled due to memory issues)
-      /*
-      const response = await openai.embeddings.create({
-        model: this.EMBEDDING_MODEL,
-        input: text,
-        encoding_format: "float",
-      });
-
-      return response.data[0].embedding;
-      */
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += provider.maxBatchSize) {
+        const response = await provider.embed({
+          model,
+          input: texts.slice(start, start + provider.maxBatchSize),
+          dimensions: settings.dimensions,
+        });
+        vectors.push(...response.vectors);
+      }
+
+      const mismatch = vectors.find((vector) => vector.length !== settings.dimensions);
+      if (mismatch) {
+        throw new Error(`${ref} returned ${mismatch.length}-dimensional vectors but the knowledge base expects ${settings.dimensions}`);
+      }
+      return { vectors, model: ref };
     } catch (error) {
-      console.error('Error generating embedding:', error);
-      throw new Error(`Failed to generate embedding: ${error}`);
+      console.error(`Error generating embeddings with ${ref}:`, error);
+      throw new Error(`Failed to generate embeddings: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Generate embeddings in batches for efficiency
+   * Split chunks into embedding batches by count and total length
    */
-  static async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
-    try {
-      // For now, let's use mock embeddings to avoid memory issues
-      // TODO: Fix OpenAI integration memory problem
-      console.log(`🔄 Generating mock embeddings for ${texts.length} texts (OpenAI temporarily disabled due to memory issues)`);
-      
-      // Generate mock embeddings - random vectors of appropriate size
-      const embeddings = texts.map(() => {
-        const vector = Array.from({ length: 1536 }, () => Math.random() * 2 - 1); // Random values between -1 and 1
-        return vector;
-      });
-
-      console.log(`✅ Generated ${embeddings.length} mock embeddings`);
-      return embeddings;
-      
-      // Original OpenAI code (disabled due to memory issues)
-      /*
-      const response = await openai.embeddings.create({
-        model: this.EMBEDDING_MODEL,
-        input: texts,
-        encoding_format: "float",
-      });
-
-      return response.data.map(item => item.embedding);
-      */
-    } catch (error) {
-      console.error('Error generating batch embeddings:', error);
-      throw new Error(`Failed to generate batch embeddings: ${error}`);
+  static batches<T extends { text: string }>(chunks: T[]): T[][] {
+    const batches: T[][] = [];
+    let batch: T[] = [];
+    let chars = 0;
+    for (const chunk of chunks) {
+      if (batch.length > 0 && (batch.length >= this.BATCH_SIZE || chars + chunk.text.length > this.BATCH_MAX_CHARS)) {
+        batches.push(batch);
+        batch = [];
+        chars = 0;
+      }
+      batch.push(chunk);
+      chars += chunk.text.length;
     }
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
   }
 
   /**
-   * Process a text file: chunk it, generate embeddings, and store in database
+   * Chunk a knowledge item with its knowledge base's strategy, embed the chunks and store them,
+   * replacing any embeddings the item had. Run by the ingestion worker; onProgress is called
+   * after every stored batch and aborting the signal stops before the next one.
    */
-  static async processTextFile(
-    knowledgeBaseId: string,
-    filename: string,
-    content: string,
-    mimeType: string,
-    metadata: Record<string, any> = {}
-  ): Promise<ProcessingResult> {
-    try {
-      console.log(`🔄 Processing file: ${filename} (${content.length} characters)`);
-      
-      // Chunk the text
-      const chunks = this.chunkText(content);
-      
-      // Check if file is too large (prevent memory issues)
-      if (chunks.length > this.MAX_CHUNKS_PER_FILE) {
-        throw new Error(`File too large: ${chunks.length} chunks (max ${this.MAX_CHUNKS_PER_FILE}). Please upload smaller files.`);
-      }
-      
-      console.log(`📄 Created ${chunks.length} chunks from ${filename}`);
-
-      let itemCount = 0;
-      let embeddingsCount = 0;
-
-      // Process chunks in batches to manage memory
-      for (let batchStart = 0; batchStart < chunks.length; batchStart += this.BATCH_SIZE) {
-        const batchEnd = Math.min(batchStart + this.BATCH_SIZE, chunks.length);
-        const batchChunks = chunks.slice(batchStart, batchEnd);
-        
-        console.log(`🔍 Processing batch ${Math.floor(batchStart / this.BATCH_SIZE) + 1}/${Math.ceil(chunks.length / this.BATCH_SIZE)} (chunks ${batchStart + 1}-${batchEnd})`);
-
-        // Create knowledge items for this batch
-        const knowledgeItems: any[] = [];
-        for (const chunk of batchChunks) {
-          const knowledgeItemData = insertKnowledgeItemSchema.parse({
-            knowledgeBaseId,
-            type: 'chunk',
-            title: `${filename} - Chunk ${chunk.metadata.chunkIndex + 1}`,
-            content: chunk.text,
-            metadata: {
-              ...metadata,
-              mimeType,
-              filename,
-              isChunk: true,
-              chunkIndex: chunk.metadata.chunkIndex,
-              totalChunks: chunk.metadata.totalChunks,
-              startPosition: chunk.metadata.startPosition,
-              endPosition: chunk.metadata.endPosition,
-              originalFileSize: content.length,
-              processedAt: new Date().toISOString()
-            }
-          });
-
-          const knowledgeItem = await storage.createKnowledgeItem(knowledgeItemData);
-          knowledgeItems.push(knowledgeItem);
-          itemCount++;
-        }
+  static async ingestItem(item: KnowledgeItem, hooks: IngestionHooks): Promise<IngestionResult> {
+    const sections = this.sectionsOf(item);
+    const contentLength = sections.reduce((sum, section) => sum + section.text.length, 0);
+    console.log(`🔄 Processing ${item.type} item: ${item.title} (${sections.length} sections, ${contentLength} characters)`);
+
+    // Chunk the text with the knowledge base's strategy
+    const knowledgeBase = await storage.getKnowledgeBase(item.knowledgeBaseId);
+    const chunking = this.chunkingFor(knowledgeBase);
+    const chunks = await chunkSections(sections, chunking);
+
+    // Check if file is too large (prevent memory issues)
+    if (chunks.length > this.MAX_CHUNKS_PER_FILE) {
+      throw new Error(`File too large: ${chunks.length} chunks (max ${this.MAX_CHUNKS_PER_FILE}). Please upload smaller files.`);
+    }
 
-        // Generate embeddings in batch
-        try {
-          const batchTexts = batchChunks.map(chunk => chunk.text);
-          const batchEmbeddings = await this.generateEmbeddingsBatch(batchTexts);
-          
-          // Store embeddings
-          for (let i = 0; i < batchEmbeddings.length; i++) {
-            const embedding = batchEmbeddings[i];
-            const chunk = batchChunks[i];
-            const knowledgeItem = knowledgeItems[i];
-            
-            const embeddingData = insertEmbeddingSchema.parse({
-              knowledgeItemId: knowledgeItem.id,
-              chunkIndex: chunk.metadata.chunkIndex,
-              chunkText: chunk.text,
-              vector: JSON.stringify(embedding), // Store as JSON string
-              metadata: {
-                chunkIndex: chunk.metadata.chunkIndex,
-                chunkLength: chunk.text.length,
-                generatedAt: new Date().toISOString(),
-                model: this.EMBEDDING_MODEL
-              }
-            });
-
-            await storage.createEmbedding(embeddingData);
-            embeddingsCount++;
-          }
-          
-          console.log(`✅ Generated ${batchEmbeddings.length} embeddings for batch`);
-        } catch (embeddingError) {
-          console.error(`❌ Failed to generate embeddings for batch:`, embeddingError);
-          // Continue processing other batches even if one fails
-        }
+    console.log(`📄 Created ${chunks.length} chunks from ${item.title} (${chunking.strategy}, size ${chunking.chunkSize})`);
+
+    // Re-processing (retry, re-index) starts from a clean slate
+    await storage.deleteEmbeddings(item.id);
+    await hooks.onProgress(0, chunks.length);
+
+    const settings = this.settingsFor(knowledgeBase);
+    let processed = 0;
+
+    // Only one batch of vectors is held at a time: embed, store, then move on
+    for (const batchChunks of this.batches(chunks)) {
+      hooks.signal?.throwIfAborted();
 
-        // Small delay between batches to avoid rate limiting
-        if (batchEnd < chunks.length) {
-          await new Promise(resolve => setTimeout(resolve, 200));
+      const { vectors, model } = await this.generateEmbeddingsBatch(batchChunks.map(chunk => chunk.text), settings);
+      const embeddingRows = vectors.map((embedding, i) => insertEmbeddingSchema.parse({
+        knowledgeItemId: item.id,
+        knowledgeBaseId: item.knowledgeBaseId,
+        chunkIndex: batchChunks[i].metadata.chunkIndex,
+        chunkText: batchChunks[i].text,
+        embedding,
+        dimensions: embedding.length,
+        metadata: {
+          chunkIndex: batchChunks[i].metadata.chunkIndex,
+          totalChunks: batchChunks[i].metadata.totalChunks,
+          startPosition: batchChunks[i].metadata.startPosition,
+          endPosition: batchChunks[i].metadata.endPosition,
+          ...batchChunks[i].lineage,
+          chunkStrategy: chunking.strategy,
+          tokenCount: batchChunks[i].metadata.tokenCount,
+          chunkLength: batchChunks[i].text.length,
+          generatedAt: new Date().toISOString(),
+          model,
+          dimensions: embedding.length
         }
-      }
+      }));
 
-      console.log(`✅ Successfully processed ${filename}: ${itemCount} items, ${embeddingsCount} embeddings`);
+      await storage.createEmbeddings(embeddingRows);
+      processed += batchChunks.length;
+      await hooks.onProgress(processed, chunks.length);
+    }
 
-      return {
-        totalChunks: chunks.length,
-        embeddingsCount,
-        itemCount
-      };
-    } catch (error) {
-      console.error('Error processing text file:', error);
-      throw error;
+    console.log(`✅ Successfully processed ${item.title}: ${processed} embeddings`);
+    return { totalChunks: chunks.length, embeddingsCount: processed };
+  }
+
+  /**
+   * Sections of a knowledge item: uploaded files and crawled documents keep their sections (pages,
+   * sheet rows, headings) as offsets into their content; any other item is a single section
+   */
+  static sectionsOf(item: Pick<KnowledgeItem, 'content' | 'metadata'>): ExtractedSection[] {
+    const spans = (item.metadata as Record<string, any> | null)?.sections as SectionSpan[] | undefined;
+    if (!Array.isArray(spans) || spans.length === 0) {
+      return [{ text: item.content }];
     }
+    return spans.map((span) => ({ text: item.content.slice(span.start, span.end), location: span.location }));
+  }
+
+  // The inverse of sectionsOf: sections joined into item content, with their offsets for metadata
+  static joinSections(extracted: ExtractedSection[]): { content: string; sections: SectionSpan[] } {
+    let content = '';
+    const sections: SectionSpan[] = [];
+    for (const section of extracted) {
+      if (content) content += '\n\n';
+      sections.push({ start: content.length, end: content.length + section.text.length, location: section.location });
+      content += section.text;
+    }
+    return { content, sections };
   }
 
   /**
@@ -317,41 +236,20 @@ export class EmbeddingService {
     knowledgeBaseId: string,
     query: string,
     limit: number = 10,
-    threshold: number = 0.7
-  ): Promise<any[]> {
+    threshold: number = 0.7,
+    filters?: KnowledgeFilters
+  ): Promise<EmbeddingMatch[]> {
     try {
       console.log(`🔍 Searching knowledge base ${knowledgeBaseId} for: "${query}"`);
       
-      // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query);
-      
-      // Get all embeddings for this knowledge base
-      const allEmbeddings = await storage.searchEmbeddings(queryEmbedding, 1000, knowledgeBaseId); // Get many to sort properly
-      
-      // Calculate actual cosine similarity for each embedding
-      const resultsWithSimilarity = allEmbeddings.map(embedding => {
-        try {
-          const embeddingVector = JSON.parse(embedding.vector);
-          const similarity = this.cosineSimilarity(queryEmbedding, embeddingVector);
-          
-          return {
-            ...embedding,
-            similarity
-          };
-        } catch (error) {
-          console.error(`Error parsing embedding vector:`, error);
-          return {
-            ...embedding,
-            similarity: 0
-          };
-        }
-      });
+      // Embed the query the same way as the knowledge base's chunks
+      const settings = this.settingsFor(await storage.getKnowledgeBase(knowledgeBaseId));
+      const { vectors: [queryEmbedding], model } = await this.generateEmbeddingsBatch([query], settings);
       
-      // Sort by similarity (highest first) and filter by threshold
-      const filteredResults = resultsWithSimilarity
-        .filter(result => result.similarity > threshold)
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      // Nearest chunks from pgvector; vectors from another model (including the old random
+      // placeholders) are not comparable and are left out
+      const nearest = await storage.searchEmbeddings(queryEmbedding, limit, { knowledgeBaseId, model, filters });
+      const filteredResults = nearest.filter(result => result.similarity > threshold);
       
       console.log(`📊 Found ${filteredResults.length} relevant chunks (threshold: ${threshold})`);
       
@@ -363,58 +261,33 @@ export class EmbeddingService {
   }
 
   /**
-   * Extract text content from different file types
+   * Extract an uploaded file into a knowledge item queued for ingestion. The item holds the
+   * extracted text, so retries and re-indexing never need the original file again.
    */
-  static extractTextFromFile(buffer: Buffer, mimeType: string, filename: string): string {
-    try {
-      if (mimeType.startsWith('text/') || mimeType === 'application/json') {
-        return buffer.toString('utf-8');
-      }
-      
-      if (mimeType === 'application/javascript' || mimeType === 'application/typescript') {
-        return buffer.toString('utf-8');
-      }
-
-      // For unsupported types, return filename and basic info
-      return `File: ${filename}\nType: ${mimeType}\nSize: ${buffer.length} bytes\n\nThis file type is not yet supported for text extraction.`;
-    } catch (error) {
-      console.error('Error extracting text from file:', error);
-      return `Error extracting text from ${filename}: ${error}`;
+  static async createFileItem(knowledgeBaseId: string, file: Express.Multer.File): Promise<KnowledgeItem> {
+    // Extract text content, split into pages, sheets or sections depending on the format
+    const document = await extractDocument(file.buffer, file.mimetype, file.originalname);
+    if (document.metadata.textlessPages) {
+      console.warn(`⚠️ ${file.originalname}: no text on pages ${document.metadata.textlessPages.join(', ')} (scanned?)`);
     }
-  }
 
-  /**
-   * Process uploaded file with automatic text extraction and chunking
-   */
-  static async processUploadedFile(
-    knowledgeBaseId: string,
-    file: Express.Multer.File
-  ): Promise<ProcessingResult> {
-    try {
-      console.log(`📁 Processing uploaded file: ${file.originalname}`);
-      
-      // Extract text content
-      const textContent = this.extractTextFromFile(
-        file.buffer,
-        file.mimetype,
-        file.originalname
-      );
-
-      // Process the text content
-      return await this.processTextFile(
-        knowledgeBaseId,
-        file.originalname,
-        textContent,
-        file.mimetype,
-        {
-          uploadedAt: new Date().toISOString(),
-          originalSize: file.size,
-          encoding: file.encoding
-        }
-      );
-    } catch (error) {
-      console.error('Error processing uploaded file:', error);
-      throw error;
-    }
+    const { content, sections } = this.joinSections(document.sections);
+    return await storage.createKnowledgeItem(insertKnowledgeItemSchema.parse({
+      knowledgeBaseId,
+      type: 'file',
+      title: file.originalname,
+      content,
+      metadata: {
+        filename: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        encoding: file.encoding,
+        uploadedAt: new Date().toISOString(),
+        format: document.format,
+        document: document.metadata,
+        sections,
+      },
+      processingStatus: 'queued',
+    }));
   }
-}
\ No newline at end of file
+}
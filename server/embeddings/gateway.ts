@@ -0,0 +1,98 @@
+import { HashingEmbeddingProvider } from "./hashing";
+import { OpenAiEmbeddingProvider } from "./openai";
+import type { EmbeddingProvider } from "./provider";
+
+// Embedding providers, registered from the environment like the LLM gateway:
+//   OPENAI_API_KEY (+ OPENAI_BASE_URL) -> 'openai'
+//   EMBEDDING_PROVIDERS='{"local": {"type": "openai-compatible", "baseUrl": "http://localhost:11434/v1"}}'
+// 'hashing' is always available. Knowledge bases name their model as "provider/model"
+// (local/nomic-embed-text, hashing/v1) or by bare name, which goes to EMBEDDING_DEFAULT_PROVIDER.
+// When that provider isn't configured, EMBEDDING_FALLBACK (default 'hashing', 'none' to fail) is used.
+
+interface ProviderConfig {
+  type: 'openai' | 'openai-compatible' | 'hashing';
+  apiKey?: string;
+  baseUrl?: string;
+  maxBatchSize?: number;
+}
+
+export interface ResolvedEmbeddingModel {
+  provider: EmbeddingProvider;
+  model: string;
+  ref: string; // "provider/model" actually used, stored with every vector
+}
+
+export const DEFAULT_EMBEDDING_MODEL = process.env.EMBEDDING_DEFAULT_MODEL || 'text-embedding-3-small';
+
+function createProvider(name: string, config: ProviderConfig): EmbeddingProvider {
+  switch (config.type) {
+    case 'openai':
+    case 'openai-compatible':
+      return OpenAiEmbeddingProvider.openai(name, { apiKey: config.apiKey, baseURL: config.baseUrl, maxBatchSize: config.maxBatchSize });
+    case 'hashing':
+      return new HashingEmbeddingProvider(name);
+    default:
+      throw new Error(`unknown provider type ${(config as any).type}`);
+  }
+}
+
+function configuredProviders(): Record<string, ProviderConfig> {
+  const configs: Record<string, ProviderConfig> = {};
+  if (process.env.OPENAI_API_KEY) {
+    configs.openai = { type: 'openai', apiKey: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL };
+  }
+
+  if (process.env.EMBEDDING_PROVIDERS) {
+    try {
+      Object.assign(configs, JSON.parse(process.env.EMBEDDING_PROVIDERS));
+    } catch (error) {
+      console.warn('[Embeddings] EMBEDDING_PROVIDERS is not valid JSON, ignoring it:', (error as Error).message);
+    }
+  }
+  return configs;
+}
+
+class EmbeddingGateway {
+  private providers = new Map<string, EmbeddingProvider>();
+  private warned = new Set<string>();
+
+  constructor() {
+    this.registerProvider(new HashingEmbeddingProvider());
+    for (const [name, config] of Object.entries(configuredProviders())) {
+      try {
+        this.registerProvider(createProvider(name, config));
+      } catch (error) {
+        console.warn(`[Embeddings] Skipping provider ${name}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  registerProvider(provider: EmbeddingProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  resolve(ref: string): ResolvedEmbeddingModel {
+    const slash = ref.indexOf('/');
+    const prefixed = slash > 0 && this.providers.has(ref.slice(0, slash));
+    const name = prefixed ? ref.slice(0, slash) : process.env.EMBEDDING_DEFAULT_PROVIDER || 'openai';
+    const model = prefixed ? ref.slice(slash + 1) : ref;
+
+    const provider = this.providers.get(name);
+    if (provider) {
+      return { provider, model, ref: `${name}/${model}` };
+    }
+
+    const fallback = process.env.EMBEDDING_FALLBACK || 'hashing';
+    const fallbackProvider = fallback === 'none' ? undefined : this.providers.get(fallback);
+    if (!fallbackProvider) {
+      throw new Error(`No embedding provider configured for ${ref} (provider ${name})`);
+    }
+    if (!this.warned.has(name)) {
+      this.warned.add(name);
+      console.warn(`[Embeddings] Provider ${name} is not configured, embedding ${ref} with ${fallback} instead`);
+    }
+    return { provider: fallbackProvider, model, ref: `${fallback}/${model}` };
+  }
+}
+
+export const embeddingGateway = new EmbeddingGateway();
@@ -0,0 +1,44 @@
+import type { EmbeddingProvider, EmbeddingRequest, EmbeddingResponse } from "./provider";
+
+// Offline embedder using feature hashing: words and word pairs are hashed into signed buckets
+// and the vector is L2-normalised. There is no semantics beyond shared vocabulary, but the same
+// text always gets the same vector and texts sharing words score high, which is what tests and
+// development without an API key need.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly maxBatchSize = 1000;
+
+  constructor(public readonly name = 'hashing') {}
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    request.signal?.throwIfAborted();
+    return {
+      vectors: request.input.map((text) => hashVector(text, request.dimensions)),
+      model: request.model,
+      promptTokens: request.input.reduce((total, text) => total + Math.ceil(text.length / 4), 0),
+    };
+  }
+}
+
+function hashVector(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  // Letters and digits, including accented and non-Latin scripts
+  const words: string[] = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) || [];
+  const features = words.concat(words.slice(1).map((word, index) => `${words[index]} ${word}`));
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,33 @@
+import OpenAI from "openai";
+import type { EmbeddingProvider, EmbeddingRequest, EmbeddingResponse } from "./provider";
+
+// Embeddings API adapter for OpenAI and OpenAI-compatible servers (Ollama, vLLM, TEI, ...)
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    public readonly name: string,
+    private client: OpenAI,
+    public readonly maxBatchSize = 2048
+  ) {}
+
+  static openai(name: string, options: { apiKey?: string; baseURL?: string; maxBatchSize?: number }): OpenAiEmbeddingProvider {
+    // Local servers usually ignore the key, but the SDK requires one
+    const client = new OpenAI({ apiKey: options.apiKey || 'not-needed', baseURL: options.baseURL });
+    return new OpenAiEmbeddingProvider(name, client, options.maxBatchSize);
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const response = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+      encoding_format: 'float',
+      // Only the text-embedding-3 family can shorten its vectors; others reject the parameter
+      ...(request.model.startsWith('text-embedding-3') ? { dimensions: request.dimensions } : {}),
+    }, { signal: request.signal });
+
+    return {
+      vectors: [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding),
+      model: response.model || request.model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+    };
+  }
+}
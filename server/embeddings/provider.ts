@@ -0,0 +1,20 @@
+// Provider-neutral embedding types, the embedding counterpart of server/llm/provider.ts
+
+export interface EmbeddingRequest {
+  model: string; // Model name as the provider knows it (no provider prefix)
+  input: string[];
+  dimensions: number; // Vector size the knowledge base stores
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse {
+  vectors: number[][]; // One per input, in input order
+  model: string;
+  promptTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly maxBatchSize: number; // Most inputs the API accepts in one request
+  embed(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+}
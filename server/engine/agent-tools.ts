@@ -0,0 +1,169 @@
+import { storage } from "../storage.js";
+import type { Agent, AgentToolRef, Tool } from "../../shared/schema.js";
+import type { LlmToolCall, LlmToolDefinition } from "../llm/provider.js";
+import type { ToolLoopOptions } from "../openaiClient.js";
+import type { McpToolSpec } from "../mcp/client.js";
+import type { MetricsTarget } from "./metrics.js";
+import type { PiiRedactor } from "./pii.js";
+import type { StepLogFn } from "./step-executor.js";
+import { envInt } from "../env.js";
+
+// Native function calling for agents. An agent's allowedTools become OpenAI-style function
+// definitions built from each tool's input schema; calls the model makes are executed (a
+// turn's calls in parallel), logged as child steps of the agent step and fed back as results.
+
+const MAX_TOOL_ITERATIONS = envInt('AGENT_MAX_TOOL_ITERATIONS', 8);
+// Tool output beyond this is cut before it goes back to the model
+const MAX_RESULT_CHARS = envInt('AGENT_TOOL_RESULT_MAX_CHARS', 20000);
+
+export interface AgentToolHooks {
+  log: StepLogFn;
+  signal?: AbortSignal;
+  metrics?: MetricsTarget;
+  pii?: PiiRedactor | null;
+  // Executes a project tool (the engines' shared runToolStep)
+  runTool: (tool: Tool, payload: Record<string, any>, signal?: AbortSignal, metrics?: MetricsTarget) => Promise<any>;
+}
+
+interface CallableTool {
+  definition: LlmToolDefinition;
+  tool: Tool; // MCP tools are wrapped as an 'mcp' project tool so they run through runTool too
+}
+
+// Function definitions and executor for the agent's allowed tools; null when it has none
+export async function loadAgentTools(agent: Agent, hooks: AgentToolHooks): Promise<ToolLoopOptions | null> {
+  const refs = agent.allowedTools || [];
+  if (refs.length === 0) {
+    return null;
+  }
+
+  const callable = new Map<string, CallableTool>();
+  for (const ref of refs) {
+    const resolved = await resolveToolRef(agent, ref);
+    if (!resolved) {
+      await hooks.log('warn', `Allowed tool ${describeRef(ref)} not found, not offering it`, { agent: agent.name });
+      continue;
+    }
+    const name = uniqueFunctionName(resolved.tool.name, callable);
+    callable.set(name, { tool: resolved.tool, definition: { ...resolved.definition, name } });
+  }
+  if (callable.size === 0) {
+    return null;
+  }
+
+  let callCount = 0;
+  return {
+    definitions: Array.from(callable.values(), (entry) => entry.definition),
+    maxIterations: MAX_TOOL_ITERATIONS,
+    run: (calls) => Promise.all(calls.map((call) => runToolCall(agent, callable, call, ++callCount, hooks))),
+  };
+}
+
+async function resolveToolRef(agent: Agent, ref: AgentToolRef): Promise<CallableTool | null> {
+  if (ref.kind === 'tool') {
+    const tool = await storage.getTool(ref.id);
+    if (!tool || tool.projectId !== agent.projectId) {
+      return null;
+    }
+    const spec = (tool.spec as Record<string, any> | null) || {};
+    return {
+      tool,
+      definition: {
+        name: tool.name,
+        description: spec.description,
+        parameters: objectSchema(spec.inputSchema ?? spec.input_schema ?? spec.parameters),
+      },
+    };
+  }
+
+  const config = await storage.getMcpConfiguration(ref.mcpConfigId);
+  if (!config || config.projectId !== agent.projectId) {
+    return null;
+  }
+  const remote = (await storage.getMcpTools(config.id)).find((tool) => tool.name === ref.name);
+  const spec: McpToolSpec = { mcpConfigId: config.id, toolName: ref.name };
+  return {
+    tool: {
+      id: `${config.id}:${ref.name}`,
+      projectId: agent.projectId,
+      name: ref.name,
+      type: 'mcp',
+      spec,
+      createdAt: null,
+    },
+    definition: {
+      name: ref.name,
+      description: remote?.description || undefined,
+      // Not synced yet: the call still works, invokeMcpTool syncs on first use
+      parameters: objectSchema(remote?.inputSchema),
+    },
+  };
+}
+
+// One child step: parse the model's arguments, run the tool, return the text fed back to it.
+// Failures go back to the model as an error result instead of failing the agent step.
+async function runToolCall(
+  agent: Agent,
+  callable: Map<string, CallableTool>,
+  call: LlmToolCall,
+  callIdx: number,
+  hooks: AgentToolHooks
+): Promise<string> {
+  const entry = callable.get(call.name);
+  const parent = hooks.metrics?.stepIdx;
+  const childStep = typeof parent === 'number' ? `${parent}.${callIdx}` : `${agent.name}.${callIdx}`;
+  const tags = { agent: agent.name, tool: call.name, tool_call: call.id, child_step: childStep };
+
+  let result: any;
+  try {
+    if (!entry) {
+      throw new Error(`Tool ${call.name} is not available to this agent`);
+    }
+
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch (error) {
+      throw new Error(`Invalid JSON arguments: ${(error as Error).message}`);
+    }
+
+    await hooks.log('info', `Calling tool ${entry.tool.name} (child step ${childStep})`, tags);
+    result = await hooks.runTool(entry.tool, args, hooks.signal, hooks.metrics);
+    await hooks.log('info', `Tool ${entry.tool.name} completed (child step ${childStep})`, tags);
+  } catch (error) {
+    // A timed-out step must stop here rather than hand the error to the model
+    if (hooks.signal?.aborted) {
+      throw error;
+    }
+    await hooks.log('error', `Tool ${call.name} failed (child step ${childStep}): ${(error as Error).message}`, tags);
+    result = { error: (error as Error).message };
+  }
+
+  if (hooks.pii?.applies('prompts')) {
+    result = await hooks.pii.redact(result);
+  }
+  const text = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+  return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}... [truncated]` : text;
+}
+
+// Function parameters must be an object schema; tools without one take free-form arguments
+function objectSchema(schema: unknown): Record<string, any> {
+  if (schema && typeof schema === 'object' && (schema as any).type === 'object') {
+    return schema as Record<string, any>;
+  }
+  return { type: 'object', properties: {}, additionalProperties: true };
+}
+
+// Function names are limited to [A-Za-z0-9_-]{1,64}; tool names like notion.create_tasks are mapped
+function uniqueFunctionName(toolName: string, taken: Map<string, CallableTool>): string {
+  const base = toolName.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 60) || 'tool';
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}_${suffix}`;
+  }
+  return name;
+}
+
+function describeRef(ref: AgentToolRef): string {
+  return ref.kind === 'tool' ? `tool ${ref.id}` : `MCP tool ${ref.name} (${ref.mcpConfigId})`;
+}
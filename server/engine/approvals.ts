@@ -0,0 +1,297 @@
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { runApprovals, runs, policyRules } from "../../shared/schema.js";
+import type { Project, Run, RunApproval, Step } from "../../shared/schema.js";
+import { featureFlagService, FeatureFlags } from "./feature-flags.js";
+import { runQueue } from "./run-queue.js";
+import { renderTemplate } from "./step-executor.js";
+import { getWebSocketManager, type WSMessage } from "../websocket.js";
+import { envInt } from "../env.js";
+
+// Config of a step with kind 'approval'
+export interface ApprovalStepConfig {
+  title?: string;
+  message?: string; // {{key}} placeholders are filled from the run context
+  approvers?: string[]; // User ids allowed to decide besides the project owner
+  timeoutMinutes?: number;
+  onTimeout?: 'reject' | 'escalate';
+  escalateTo?: string[]; // User ids that take over when the approval escalates
+}
+
+// Project-wide approval defaults, read from policyRules.guards.approvals
+interface ApprovalPolicy {
+  approvers?: string[];
+  timeoutMinutes?: number;
+  onTimeout?: 'reject' | 'escalate';
+  escalateTo?: string[];
+}
+
+export interface ApprovalDecision {
+  comment?: string;
+  context?: Record<string, any>; // Context edits applied before the run continues
+}
+
+const DEFAULT_TIMEOUT_MINUTES = envInt('APPROVAL_TIMEOUT_MINUTES', 24 * 60);
+const SWEEP_INTERVAL_MS = envInt('APPROVAL_SWEEP_INTERVAL_MS', 30000);
+
+// Approval steps park a run in 'awaiting_approval' with a pending checkpoint. Approving
+// re-queues the run after the approval step; rejecting (or timing out) fails it so it
+// can later be resumed from the approval step.
+class ApprovalService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweepTimeouts().catch((error) => console.error('[Approvals] Timeout sweep failed:', error));
+    }, SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  // Called by the engines when they reach an approval step; the caller stops executing afterwards
+  async requestApproval(run: Run, step: Step, context: Record<string, any>): Promise<RunApproval> {
+    const flow = await storage.getFlow(run.flowId);
+    if (!flow) {
+      throw new Error(`Flow ${run.flowId} not found`);
+    }
+
+    if (!(await featureFlagService.isEnabled(FeatureFlags.HUMAN_IN_LOOP, flow.projectId))) {
+      throw new Error("Human-in-the-loop approvals are not enabled for this project");
+    }
+
+    const config = (step.config || {}) as ApprovalStepConfig;
+    const policy = await this.getApprovalPolicy(flow.projectId);
+    const timeoutMinutes = config.timeoutMinutes ?? policy.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES;
+
+    const checkpoint = await storage.createRunCheckpoint({
+      runId: run.id,
+      stepIdx: step.idx,
+      status: 'pending',
+      contextJson: context,
+    });
+
+    const approval = await storage.createRunApproval({
+      runId: run.id,
+      stepId: step.id,
+      stepIdx: step.idx,
+      checkpointId: checkpoint.id,
+      status: 'pending',
+      title: config.title ? renderTemplate(config.title, context) : `Approve step ${step.idx} of ${flow.name}`,
+      message: config.message ? renderTemplate(config.message, context) : null,
+      approvers: config.approvers ?? policy.approvers ?? [],
+      onTimeout: config.onTimeout ?? policy.onTimeout ?? 'reject',
+      escalateTo: config.escalateTo ?? policy.escalateTo ?? [],
+      escalationLevel: 0,
+      timeoutAt: new Date(Date.now() + timeoutMinutes * 60 * 1000),
+    });
+
+    await db
+      .update(runs)
+      .set({ status: 'awaiting_approval', context })
+      .where(eq(runs.id, run.id));
+
+    await this.log(run.id, 'info', `Waiting for approval: ${approval.title}`, { step: step.idx.toString() });
+    this.broadcast(run.id, flow.projectId, { type: 'approval_required', runId: run.id, data: approval });
+
+    return approval;
+  }
+
+  // The project owner can always decide; anyone else must be a listed approver
+  canDecide(approval: RunApproval, project: Project, userId: string): boolean {
+    if (project.userId === userId) return true;
+    return ((approval.approvers as string[] | null) || []).includes(userId);
+  }
+
+  // Returns null when the approval was already decided
+  async approve(approvalId: string, userId: string, decision: ApprovalDecision = {}): Promise<RunApproval | null> {
+    const approval = await this.decide(approvalId, 'approved', userId, decision);
+    if (!approval) return null;
+
+    const baseContext = await this.checkpointContext(approval);
+    const context = {
+      ...baseContext,
+      ...(decision.context || {}),
+      [`step_${approval.stepIdx}_approval`]: {
+        status: 'approved',
+        decidedBy: userId,
+        comment: decision.comment || null,
+      },
+    };
+
+    // Record the approval step as done so a later failure resumes after it
+    await storage.createRunCheckpoint({
+      runId: approval.runId,
+      stepIdx: approval.stepIdx,
+      status: 'success',
+      contextJson: context,
+    });
+
+    const requeued = await runQueue.requeue(approval.runId, approval.stepIdx + 1, context, 'awaiting_approval');
+    if (!requeued) {
+      console.warn(`[Approvals] Run ${approval.runId} was not awaiting approval; not re-queued`);
+    }
+
+    await this.log(
+      approval.runId,
+      'info',
+      `Approved by ${userId}${decision.comment ? `: ${decision.comment}` : ''}`,
+      { step: approval.stepIdx.toString() }
+    );
+    await this.broadcastDecision(approval);
+
+    return approval;
+  }
+
+  async reject(approvalId: string, userId: string, decision: ApprovalDecision = {}): Promise<RunApproval | null> {
+    const approval = await this.decide(approvalId, 'rejected', userId, decision);
+    if (!approval) return null;
+
+    await this.failRun(approval, `Rejected by ${userId}${decision.comment ? `: ${decision.comment}` : ''}`);
+    return approval;
+  }
+
+  // Escalate or auto-reject approvals whose deadline has passed
+  async sweepTimeouts(): Promise<void> {
+    const expired = await db
+      .select()
+      .from(runApprovals)
+      .where(and(eq(runApprovals.status, 'pending'), lt(runApprovals.timeoutAt, new Date())));
+
+    for (const approval of expired) {
+      const escalateTo = (approval.escalateTo as string[] | null) || [];
+      if (approval.onTimeout === 'escalate' && escalateTo.length > 0 && (approval.escalationLevel ?? 0) === 0) {
+        await this.escalate(approval, escalateTo);
+        continue;
+      }
+
+      const decided = await this.decide(approval.id, 'expired', null, { comment: 'Approval timed out' });
+      if (decided) {
+        await this.failRun(decided, 'Approval timed out; run rejected automatically');
+      }
+    }
+  }
+
+  // Hand the approval to the escalation approvers with a fresh deadline of the same length
+  private async escalate(approval: RunApproval, escalateTo: string[]): Promise<void> {
+    const windowMs = approval.timeoutAt && approval.createdAt
+      ? approval.timeoutAt.getTime() - approval.createdAt.getTime()
+      : DEFAULT_TIMEOUT_MINUTES * 60 * 1000;
+
+    const [escalated] = await db
+      .update(runApprovals)
+      .set({
+        approvers: escalateTo,
+        escalationLevel: 1,
+        timeoutAt: new Date(Date.now() + windowMs),
+      })
+      .where(and(
+        eq(runApprovals.id, approval.id),
+        eq(runApprovals.status, 'pending'),
+        eq(runApprovals.escalationLevel, 0),
+      ))
+      .returning();
+
+    if (!escalated) return;
+
+    await this.log(approval.runId, 'warn', `Approval timed out; escalated to ${escalateTo.join(', ')}`, {
+      step: approval.stepIdx.toString(),
+    });
+
+    const run = await storage.getRun(approval.runId);
+    const flow = run ? await storage.getFlow(run.flowId) : undefined;
+    this.broadcast(approval.runId, flow?.projectId, { type: 'approval_escalated', runId: approval.runId, data: escalated });
+  }
+
+  // Only a pending approval can be decided, so concurrent decisions resolve to one winner
+  private async decide(
+    approvalId: string,
+    status: 'approved' | 'rejected' | 'expired',
+    userId: string | null,
+    decision: ApprovalDecision
+  ): Promise<RunApproval | null> {
+    const [decided] = await db
+      .update(runApprovals)
+      .set({
+        status,
+        decidedBy: userId,
+        comment: decision.comment || null,
+        contextEdits: decision.context || null,
+        decidedAt: new Date(),
+      })
+      .where(and(eq(runApprovals.id, approvalId), eq(runApprovals.status, 'pending')))
+      .returning();
+    return decided ?? null;
+  }
+
+  // Fail the run with an error checkpoint at the approval step, so resuming asks again
+  private async failRun(approval: RunApproval, reason: string): Promise<void> {
+    const context = await this.checkpointContext(approval);
+
+    await storage.createRunCheckpoint({
+      runId: approval.runId,
+      stepIdx: approval.stepIdx,
+      status: 'error',
+      contextJson: context,
+    });
+
+    await db
+      .update(runs)
+      .set({ status: 'error', completedAt: new Date() })
+      .where(and(eq(runs.id, approval.runId), eq(runs.status, 'awaiting_approval')));
+
+    await this.log(approval.runId, 'error', reason, { step: approval.stepIdx.toString() });
+    await this.broadcastDecision(approval);
+  }
+
+  private async checkpointContext(approval: RunApproval): Promise<Record<string, any>> {
+    const checkpoints = await storage.getRunCheckpoints(approval.runId);
+    const checkpoint = checkpoints.find((cp) => cp.id === approval.checkpointId);
+    if (checkpoint) {
+      return (checkpoint.contextJson as Record<string, any>) || {};
+    }
+    const run = await storage.getRun(approval.runId);
+    return (run?.context as Record<string, any>) || {};
+  }
+
+  private async getApprovalPolicy(projectId: string): Promise<ApprovalPolicy> {
+    const rules = await db
+      .select({ guards: policyRules.guards })
+      .from(policyRules)
+      .where(and(eq(policyRules.projectId, projectId), eq(policyRules.isActive, true)));
+
+    const withApprovals = rules.find((rule) => (rule.guards as any)?.approvals);
+    return ((withApprovals?.guards as any)?.approvals as ApprovalPolicy) || {};
+  }
+
+  private async broadcastDecision(approval: RunApproval): Promise<void> {
+    const run = await storage.getRun(approval.runId);
+    const flow = run ? await storage.getFlow(run.flowId) : undefined;
+    this.broadcast(approval.runId, flow?.projectId, {
+      type: 'approval_resolved',
+      runId: approval.runId,
+      data: { ...approval, runStatus: run?.status },
+    });
+  }
+
+  // Reaches clients subscribed to the run or to its project over /ws
+  private broadcast(runId: string, projectId: string | undefined, message: WSMessage) {
+    getWebSocketManager()?.broadcastToRun(runId, message, projectId);
+  }
+
+  private async log(runId: string, level: string, message: string, tags: Record<string, string> = {}): Promise<void> {
+    try {
+      await storage.createLog({ runId, level, tags: { ...tags, approval: 'true' }, message });
+    } catch (error) {
+      console.error('[Approvals] Failed to write run log:', error);
+    }
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -0,0 +1,702 @@
+// Sandboxed expression language for step conditions and input/output mappings.
+// Expressions are tokenized and parsed into a small AST that is interpreted here;
+// nothing is ever passed to eval/Function and only own properties can be read.
+//
+//   $.order.items[0].price > 100 && $.customer.tier in ['gold', 'platinum']
+//   lower($.export) == 'notion' or contains($.tags, 'urgent')
+//   $steps['summarizer-step'].summary          (context entries a prior step wrote)
+//   coalesce($.title, 'Untitled')
+//
+// `$` is the run context, `$steps` maps step ids to the outputs of steps that already
+// ran, and a bare identifier is shorthand for a top-level context field.
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionScope {
+  context: Record<string, any>;
+  steps?: Record<string, any>; // Step id -> outputs of a step that already ran
+}
+
+export type ExprNode =
+  | { type: 'literal'; value: any }
+  | { type: 'root'; name: 'context' | 'steps' }
+  | { type: 'member'; object: ExprNode; property: ExprNode }
+  | { type: 'array'; items: ExprNode[] }
+  | { type: 'unary'; op: '!' | '-'; operand: ExprNode }
+  | { type: 'binary'; op: string; left: ExprNode; right: ExprNode }
+  | { type: 'logical'; op: '&&' | '||'; left: ExprNode; right: ExprNode }
+  | { type: 'conditional'; test: ExprNode; consequent: ExprNode; alternate: ExprNode }
+  | { type: 'call'; name: string; args: ExprNode[] };
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 32;
+const MAX_CACHED_EXPRESSIONS = 500;
+
+// Never readable, even when an object has them as own properties
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const KEYWORDS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+  in: 'in',
+  contains: 'contains',
+};
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'root'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'eof'; value: ''; pos: number };
+
+// Longest operators first so ">=" is not read as ">"
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '+', '-', '*', '/', '%', '?', ':', '(', ')', '[', ']', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError(`Unterminated string starting at position ${start}`);
+      }
+      pos++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    if (char === '$') {
+      const match = /^\$[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+      tokens.push({ kind: 'root', value: match ? match[0] : '$', pos });
+      pos += match ? match[0].length : 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'ident', value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${char}' at position ${pos}`);
+    }
+    tokens.push({ kind: 'op', value: operator, pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ kind: 'eof', value: '', pos });
+  return tokens;
+}
+
+// Whitelisted functions with their arity; unknown names fail at parse time
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  fn: (...args: any[]) => any;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  len: { minArgs: 1, maxArgs: 1, fn: (value) => sizeOf(value) },
+  length: { minArgs: 1, maxArgs: 1, fn: (value) => sizeOf(value) },
+  lower: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).trim() },
+  startsWith: { minArgs: 2, maxArgs: 2, fn: (value, prefix) => toText(value).startsWith(toText(prefix)) },
+  endsWith: { minArgs: 2, maxArgs: 2, fn: (value, suffix) => toText(value).endsWith(toText(suffix)) },
+  contains: { minArgs: 2, maxArgs: 2, fn: (haystack, needle) => containsValue(haystack, needle) },
+  includes: { minArgs: 2, maxArgs: 2, fn: (haystack, needle) => containsValue(haystack, needle) },
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    fn: (value, start, end) => toText(value).substring(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  },
+  replace: { minArgs: 3, maxArgs: 3, fn: (value, search, replacement) => toText(value).split(toText(search)).join(toText(replacement)) },
+  split: { minArgs: 2, maxArgs: 2, fn: (value, separator) => toText(value).split(toText(separator)) },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: (value, separator) => (Array.isArray(value) ? value.map(toText).join(separator === undefined ? ',' : toText(separator)) : toText(value)),
+  },
+  number: { minArgs: 1, maxArgs: 1, fn: (value) => toNumber(value) },
+  string: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value) },
+  boolean: { minArgs: 1, maxArgs: 1, fn: (value) => isTruthy(value) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, fn: (value) => Math.floor(toNumber(value)) },
+  ceil: { minArgs: 1, maxArgs: 1, fn: (value) => Math.ceil(toNumber(value)) },
+  abs: { minArgs: 1, maxArgs: 1, fn: (value) => Math.abs(toNumber(value)) },
+  min: { minArgs: 1, maxArgs: 20, fn: (...values) => Math.min(...spreadNumbers(values)) },
+  max: { minArgs: 1, maxArgs: 20, fn: (...values) => Math.max(...spreadNumbers(values)) },
+  sum: { minArgs: 1, maxArgs: 20, fn: (...values) => spreadNumbers(values).reduce((total, value) => total + value, 0) },
+  keys: { minArgs: 1, maxArgs: 1, fn: (value) => (isPlainObject(value) ? Object.keys(value) : []) },
+  first: { minArgs: 1, maxArgs: 1, fn: (value) => (Array.isArray(value) ? value[0] : undefined) },
+  last: { minArgs: 1, maxArgs: 1, fn: (value) => (Array.isArray(value) ? value[value.length - 1] : undefined) },
+  exists: { minArgs: 1, maxArgs: 1, fn: (value) => value !== undefined && value !== null },
+  isEmpty: { minArgs: 1, maxArgs: 1, fn: (value) => sizeOf(value) === 0 },
+  coalesce: { minArgs: 1, maxArgs: 20, fn: (...values) => values.find((value) => value !== undefined && value !== null) ?? null },
+  default: { minArgs: 2, maxArgs: 2, fn: (value, fallback) => (value === undefined || value === null ? fallback : value) },
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExprNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.kind !== 'eof') {
+      throw new ExpressionError(`Unexpected '${token.value}' at position ${token.pos}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  // Operator tokens and their keyword spellings (and/or/not/in/contains)
+  private matchOperator(...ops: string[]): string | null {
+    const token = this.peek();
+    const value = token.kind === 'op' ? token.value : token.kind === 'ident' ? KEYWORDS[token.value] : undefined;
+    if (value && ops.includes(value)) {
+      this.index++;
+      return value;
+    }
+    return null;
+  }
+
+  private expect(op: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== op) {
+      throw new ExpressionError(`Expected '${op}' at position ${token.pos}`);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError(`Expression is nested more than ${MAX_NESTING_DEPTH} levels deep`);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseConditional(): ExprNode {
+    return this.nested(() => {
+      const test = this.parseOr();
+      if (!this.matchOperator('?')) {
+        return test;
+      }
+      const consequent = this.parseConditional();
+      this.expect(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    });
+  }
+
+  private parseOr(): ExprNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { type: 'logical', op: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExprNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('&&')) {
+      left = { type: 'logical', op: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExprNode {
+    let left = this.parseComparison();
+    let op: string | null;
+    while ((op = this.matchOperator('==', '!=', '===', '!=='))) {
+      // === and !== are accepted for familiarity; equality is always strict
+      left = { type: 'binary', op: op.slice(0, 2), left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExprNode {
+    let left = this.parseAdditive();
+    let op: string | null;
+    while ((op = this.matchOperator('<', '>', '<=', '>=', 'in', 'contains'))) {
+      left = { type: 'binary', op, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExprNode {
+    let left = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.matchOperator('+', '-'))) {
+      left = { type: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExprNode {
+    let left = this.parseUnary();
+    let op: string | null;
+    while ((op = this.matchOperator('*', '/', '%'))) {
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExprNode {
+    const op = this.matchOperator('!', '-');
+    if (op) {
+      return this.nested(() => ({ type: 'unary', op: op as '!' | '-', operand: this.parseUnary() }));
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExprNode): ExprNode {
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const token = this.next();
+        if (token.kind !== 'ident') {
+          throw new ExpressionError(`Expected a property name at position ${token.pos}`);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseConditional();
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExprNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'root':
+        if (token.value === '$') return { type: 'root', name: 'context' };
+        if (token.value === '$steps') return { type: 'root', name: 'steps' };
+        throw new ExpressionError(`Unknown reference '${token.value}' at position ${token.pos} (use $ or $steps)`);
+
+      case 'ident': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+
+        if (this.peek().kind === 'op' && this.peek().value === '(') {
+          return this.parseCall(token);
+        }
+        if (token.value in KEYWORDS) {
+          throw new ExpressionError(`Unexpected '${token.value}' at position ${token.pos}`);
+        }
+        // Bare identifiers read top-level context fields
+        return { type: 'member', object: { type: 'root', name: 'context' }, property: { type: 'literal', value: token.value } };
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: ExprNode[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              items.push(this.parseConditional());
+            } while (this.matchOperator(','));
+            this.expect(']');
+          }
+          return { type: 'array', items };
+        }
+        throw new ExpressionError(`Unexpected '${token.value}' at position ${token.pos}`);
+
+      case 'eof':
+        throw new ExpressionError('Unexpected end of expression');
+    }
+  }
+
+  private parseCall(token: { value: string; pos: number }): ExprNode {
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+    if (!definition) {
+      throw new ExpressionError(`Unknown function '${token.value}' at position ${token.pos}`);
+    }
+
+    this.expect('(');
+    const args: ExprNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(','));
+      this.expect(')');
+    }
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : `${definition.minArgs}-${definition.maxArgs}`;
+      throw new ExpressionError(`${token.value}() expects ${expected} argument(s), got ${args.length}`);
+    }
+
+    return { type: 'call', name: token.value, args };
+  }
+}
+
+const parseCache = new Map<string, ExprNode>();
+
+export function parseExpression(source: string): ExprNode {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const node = new Parser(tokenize(source)).parse();
+  if (parseCache.size >= MAX_CACHED_EXPRESSIONS) {
+    parseCache.clear();
+  }
+  parseCache.set(source, node);
+  return node;
+}
+
+// Returns an error message, or null when the expression is valid
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return `Invalid expression "${source}": ${(error as Error).message}`;
+  }
+}
+
+export function evaluateExpression(source: string, scope: ExpressionScope): any {
+  const node = parseExpression(source);
+  try {
+    return normalize(evaluateNode(node, scope));
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new ExpressionError(`Failed to evaluate "${source}": ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// Conditions are truthy/falsy; parse and evaluation errors are thrown, never treated as true
+export function evaluateCondition(source: string, scope: ExpressionScope): boolean {
+  return isTruthy(evaluateExpression(source, scope));
+}
+
+// Mapping values starting with "$" are references/expressions ("$.a.b[0]", "$steps['x'].y"),
+// values starting with "=" are expressions ("=upper($.name)"); anything else is a literal
+export function isMappingExpression(value: unknown): value is string {
+  return typeof value === 'string' && (value.startsWith('$') || value.startsWith('='));
+}
+
+export function resolveMappingValue(value: unknown, scope: ExpressionScope): any {
+  if (!isMappingExpression(value)) {
+    return value;
+  }
+  return evaluateExpression(value.startsWith('=') ? value.slice(1) : value, scope);
+}
+
+export function validateMappingValue(value: unknown): string | null {
+  if (!isMappingExpression(value)) {
+    return null;
+  }
+  return validateExpression(value.startsWith('=') ? value.slice(1) : value);
+}
+
+// Output mapping targets must be plain context paths: "$.summary", "$.report.sections[0]"
+export function parseTargetPath(target: string): Array<string | number> {
+  let node: ExprNode = parseExpression(target);
+  const path: Array<string | number> = [];
+
+  while (node.type === 'member') {
+    if (node.property.type !== 'literal' || !['string', 'number'].includes(typeof node.property.value)) {
+      throw new ExpressionError(`Output target "${target}" must use literal keys`);
+    }
+    path.unshift(node.property.value);
+    node = node.object;
+  }
+
+  if (node.type !== 'root' || node.name !== 'context' || path.length === 0 || !target.startsWith('$')) {
+    throw new ExpressionError(`Output target "${target}" must be a context path like $.field`);
+  }
+  if (path.some((key) => typeof key === 'string' && BLOCKED_PROPERTIES.has(key))) {
+    throw new ExpressionError(`Output target "${target}" is not allowed`);
+  }
+  return path;
+}
+
+export function validateTargetPath(target: string): string | null {
+  try {
+    parseTargetPath(target);
+    return null;
+  } catch (error) {
+    return `Invalid output target "${target}": ${(error as Error).message}`;
+  }
+}
+
+// Copy-on-write assignment: returns the new value for path[0]'s top-level key
+export function assignPath(current: any, path: Array<string | number>, value: any): any {
+  if (path.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  const container = Array.isArray(current)
+    ? [...current]
+    : isPlainObject(current)
+      ? { ...current }
+      : typeof key === 'number' ? [] : {};
+  (container as any)[key] = assignPath((container as any)[key], rest, value);
+  return container;
+}
+
+function evaluateNode(node: ExprNode, scope: ExpressionScope): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'root':
+      return node.name === 'context' ? scope.context : scope.steps || {};
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case 'array':
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '!' ? !isTruthy(operand) : -toNumber(operand);
+    }
+
+    case 'logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.op === '&&') {
+        return isTruthy(left) ? evaluateNode(node.right, scope) : left;
+      }
+      return isTruthy(left) ? left : evaluateNode(node.right, scope);
+    }
+
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map((arg) => normalize(evaluateNode(arg, scope))));
+
+    case 'binary':
+      return applyBinary(node.op, normalize(evaluateNode(node.left, scope)), normalize(evaluateNode(node.right, scope)));
+  }
+}
+
+function applyBinary(op: string, left: any, right: any): any {
+  switch (op) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+    case '<':
+    case '>':
+    case '<=':
+    case '>=':
+      return compare(op, left, right);
+    case 'in':
+      return containsValue(right, left);
+    case 'contains':
+      return containsValue(left, right);
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return toText(left) + toText(right);
+      }
+      return toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+    case '%': {
+      const divisor = toNumber(right);
+      if (divisor === 0) {
+        throw new ExpressionError('Division by zero');
+      }
+      return op === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+    }
+    default:
+      throw new ExpressionError(`Unknown operator '${op}'`);
+  }
+}
+
+// Missing paths resolve to null instead of throwing
+function readProperty(target: any, key: any): any {
+  if (target === undefined || target === null) {
+    return null;
+  }
+  if (typeof key === 'string' && BLOCKED_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Property '${key}' is not accessible`);
+  }
+
+  if ((Array.isArray(target) || typeof target === 'string') && typeof key === 'number') {
+    const index = key < 0 ? target.length + key : key;
+    return Number.isInteger(index) ? target[index] : undefined;
+  }
+  if (typeof key !== 'string' && typeof key !== 'number') {
+    throw new ExpressionError(`Cannot use ${describe(key)} as a property key`);
+  }
+  if (typeof target !== 'object' && typeof target !== 'string') {
+    return null;
+  }
+  return Object.prototype.hasOwnProperty.call(target, key) ? target[key] : null;
+}
+
+function normalize(value: any): any {
+  return value === undefined ? null : value;
+}
+
+function isTruthy(value: any): boolean {
+  return !!value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  throw new ExpressionError(`Expected a number, got ${describe(value)}`);
+}
+
+function spreadNumbers(values: any[]): number[] {
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value])).map(toNumber);
+}
+
+function sizeOf(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (isPlainObject(value)) return Object.keys(value).length;
+  return 0;
+}
+
+function containsValue(haystack: any, needle: any): boolean {
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => deepEqual(item, needle));
+  }
+  if (typeof haystack === 'string') {
+    return needle !== null && haystack.includes(toText(needle));
+  }
+  if (isPlainObject(haystack) && (typeof needle === 'string' || typeof needle === 'number')) {
+    return Object.prototype.hasOwnProperty.call(haystack, needle);
+  }
+  return false;
+}
+
+// Ordering only applies to two numbers or two strings; anything else compares false
+function compare(op: string, left: any, right: any): boolean {
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+  switch (op) {
+    case '<': return left < right;
+    case '>': return left > right;
+    case '<=': return left <= right;
+    default: return left >= right;
+  }
+}
+
+function deepEqual(left: any, right: any): boolean {
+  if (left === right) return true;
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return (left ?? null) === (right ?? null);
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => deepEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const leftKeys = Object.keys(left);
+    return leftKeys.length === Object.keys(right).length
+      && leftKeys.every((key) => Object.prototype.hasOwnProperty.call(right, key) && deepEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+function describe(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,201 @@
+import type { Step } from "../../shared/schema.js";
+import {
+  evaluateExpression,
+  evaluateCondition,
+  validateExpression,
+  parseTargetPath,
+  validateTargetPath,
+  assignPath,
+  type ExpressionScope,
+} from "./expressions.js";
+import { validateStepConfig, type StepConfig } from "./step-executor.js";
+import { envInt } from "../env.js";
+
+// A step run for every item of a foreach step
+export interface ForeachSubStep {
+  kind: 'agent' | 'tool';
+  refId: string;
+  config?: StepConfig;
+}
+
+export type ForeachErrorMode = 'skip' | 'fail_fast' | 'collect';
+
+// Config of a step with kind 'foreach'
+export interface ForeachStepConfig extends StepConfig {
+  items: string; // Expression resolving to the array to iterate, e.g. "$.line_items"
+  as?: string; // Context key holding the current item (default "item")
+  indexAs?: string; // Context key holding the item's position (default "index")
+  steps: ForeachSubStep[]; // Run in order for every item
+  concurrency?: number; // Items processed at once (default 1)
+  onItemError?: ForeachErrorMode; // Default 'fail_fast'
+  result?: string; // Expression evaluated per item once its steps ran; default is what they wrote
+  output?: string; // Context path receiving the results array (default "$.step_<idx>_results")
+}
+
+export interface ForeachItemError {
+  index: number;
+  error: string;
+}
+
+export interface ForeachOutcome {
+  results: any[];
+  errors: ForeachItemError[];
+  contextUpdates: Record<string, any>;
+}
+
+export interface ForeachHooks {
+  // Run one sub-step against an item's context and return the updated context
+  runSubStep: (subStep: Step, context: Record<string, any>, index: number) => Promise<Record<string, any>>;
+  onItemError?: (index: number, error: Error) => Promise<void> | void;
+}
+
+const MAX_CONCURRENCY = envInt('FOREACH_MAX_CONCURRENCY', 10);
+const MAX_ITEMS = envInt('FOREACH_MAX_ITEMS', 1000);
+
+const ERROR_MODES: ForeachErrorMode[] = ['skip', 'fail_fast', 'collect'];
+
+// Sub-steps become Step rows of their own (sharing the parent's idx for logs and
+// checkpoints) so the engines can execute them like any other agent or tool step
+export function foreachSubSteps(step: Step): Step[] {
+  const config = step.config as ForeachStepConfig;
+  return (config.steps || []).map((subStep, position) => ({
+    ...step,
+    id: `${step.id}:${position}`,
+    kind: subStep.kind,
+    refId: subStep.refId,
+    config: subStep.config ?? null,
+  }));
+}
+
+// Run the sub-steps for every item; items see the run context plus the item and its
+// index, and write only to their own copy of it
+export async function runForeachStep(
+  step: Step,
+  context: Record<string, any>,
+  steps: Record<string, any>,
+  hooks: ForeachHooks
+): Promise<ForeachOutcome> {
+  const config = step.config as ForeachStepConfig;
+  const scope: ExpressionScope = { context, steps };
+
+  const items = evaluateExpression(config.items, scope);
+  if (!Array.isArray(items)) {
+    throw new Error(`Foreach items "${config.items}" did not resolve to an array`);
+  }
+  if (items.length > MAX_ITEMS) {
+    throw new Error(`Foreach over ${items.length} items exceeds the limit of ${MAX_ITEMS}`);
+  }
+
+  const as = config.as || 'item';
+  const indexAs = config.indexAs || 'index';
+  const mode = config.onItemError || 'fail_fast';
+  const concurrency = Math.min(Math.max(1, config.concurrency || 1), MAX_CONCURRENCY);
+  const subSteps = foreachSubSteps(step);
+
+  const results: any[] = Array.from({ length: items.length });
+  const failed = new Set<number>();
+  const errors: ForeachItemError[] = [];
+  let fatalError: Error | null = null;
+  let next = 0;
+
+  const runItem = async (index: number) => {
+    let itemContext: Record<string, any> = { ...context, [as]: items[index], [indexAs]: index };
+    const written: Record<string, any> = {};
+
+    for (const subStep of subSteps) {
+      const condition = (subStep.config as StepConfig | null)?.condition;
+      if (condition && !evaluateCondition(condition, { context: itemContext, steps })) {
+        continue;
+      }
+
+      const before = itemContext;
+      itemContext = await hooks.runSubStep(subStep, { ...itemContext }, index);
+      for (const [key, value] of Object.entries(itemContext)) {
+        if (before[key] !== value) written[key] = value;
+      }
+    }
+
+    results[index] = config.result
+      ? evaluateExpression(config.result, { context: itemContext, steps })
+      : written;
+  };
+
+  // Fail-fast stops handing out items; items already running are allowed to finish
+  const worker = async () => {
+    while (!fatalError && next < items.length) {
+      const index = next++;
+      try {
+        await runItem(index);
+      } catch (error) {
+        const itemError = error as Error;
+        failed.add(index);
+        errors.push({ index, error: itemError.message });
+        await hooks.onItemError?.(index, itemError);
+        if (mode === 'fail_fast' && !fatalError) {
+          fatalError = new Error(`Item ${index} failed: ${itemError.message}`);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+
+  if (fatalError) {
+    throw fatalError;
+  }
+
+  const gathered = mode === 'skip'
+    ? results.filter((_, index) => !failed.has(index))
+    : results.map((result, index) => (failed.has(index) ? { error: errors.find((e) => e.index === index)!.error } : result));
+
+  const [key, ...rest] = parseTargetPath(config.output || `$.step_${step.idx}_results`);
+  const contextUpdates: Record<string, any> = {
+    [key]: assignPath(context[key], rest, gathered),
+  };
+  if (errors.length > 0) {
+    contextUpdates[`step_${step.idx}_errors`] = errors.sort((a, b) => a.index - b.index);
+  }
+
+  return { results: gathered, errors, contextUpdates };
+}
+
+// Save-time check of a foreach step's config, including its sub-steps
+export function validateForeachConfig(config: Partial<ForeachStepConfig> | null | undefined): string | null {
+  if (!config || typeof config.items !== 'string' || config.items.trim() === '') {
+    return 'Foreach steps require an "items" expression';
+  }
+  const itemsError = validateExpression(config.items);
+  if (itemsError) return `Foreach items: ${itemsError}`;
+
+  if (!Array.isArray(config.steps) || config.steps.length === 0) {
+    return 'Foreach steps require at least one sub-step in "steps"';
+  }
+  for (let position = 0; position < config.steps.length; position++) {
+    const subStep = config.steps[position];
+    if (subStep?.kind !== 'agent' && subStep?.kind !== 'tool') {
+      return `Foreach sub-step ${position} must be an agent or tool step`;
+    }
+    if (!subStep.refId) {
+      return `Foreach sub-step ${position} requires a refId`;
+    }
+    const subStepError = validateStepConfig(subStep.config);
+    if (subStepError) return `Foreach sub-step ${position}: ${subStepError}`;
+  }
+
+  if (config.onItemError !== undefined && !ERROR_MODES.includes(config.onItemError)) {
+    return `Foreach onItemError must be one of ${ERROR_MODES.join(', ')}`;
+  }
+  if (config.concurrency !== undefined && (!Number.isInteger(config.concurrency) || config.concurrency < 1)) {
+    return 'Foreach concurrency must be a positive integer';
+  }
+  if (config.result) {
+    const resultError = validateExpression(config.result);
+    if (resultError) return `Foreach result: ${resultError}`;
+  }
+  if (config.output) {
+    const outputError = validateTargetPath(config.output);
+    if (outputError) return `Foreach output: ${outputError}`;
+  }
+
+  return validateStepConfig(config);
+}
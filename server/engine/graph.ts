@@ -4,6 +4,8 @@ import type { FlowDef, StepNode, Registry, LangGraphState, Context, StepResult }
 import { ExecutionLogger } from "./log";
 import { executeAgent } from "../agents/base";
 import { executeTool } from "../tools/base";
+import { evaluateCondition, resolveMappingValue, type ExpressionScope } from "./expressions";
+import { mapStepOutputs } from "./step-executor";
 
 // Build LangGraph from flow definition
 export function buildGraph(flow: FlowDef, registry: Registry): StateGraph<LangGraphState> {
@@ -43,7 +45,7 @@ export function buildGraph(flow: FlowDef, registry: Registry): StateGraph<LangGr
       
       try {
         // Check if step should be skipped due to condition
-        if (step.condition && !evaluateCondition(step.condition, state.context)) {
+        if (step.condition && !evaluateCondition(step.condition, expressionScope(state))) {
           logger.info(`Skipping step ${step.idx}: condition not met`, {
             session: state.context.sessionId,
             step: step.idx.toString()
@@ -68,7 +70,7 @@ export function buildGraph(flow: FlowDef, registry: Registry): StateGraph<LangGr
         });
 
         // Map inputs from context
-        const mappedInputs = mapInputs(step.in || {}, state.context);
+        const mappedInputs = mapInputs(step.in || {}, expressionScope(state));
         
         let stepOutput: any;
         let retries = 0;
@@ -185,54 +187,23 @@ export function buildGraph(flow: FlowDef, registry: Registry): StateGraph<LangGr
   return graph;
 }
 
-// Evaluate step condition against context
-function evaluateCondition(condition: string, context: Context): boolean {
-  try {
-    // Simple condition evaluation for now
-    // Format: "$.export == 'notion'" or "$.field != null"
-    const match = condition.match(/\$\.(\w+)\s*(==|!=|>|<|>=|<=)\s*(.+)/);
-    if (!match) return true;
-
-    const [, field, operator, value] = match;
-    const contextValue = context[field];
-    let expectedValue: any = value;
-
-    // Parse expected value
-    if (value === 'null') expectedValue = null;
-    else if (value === 'true') expectedValue = true;
-    else if (value === 'false') expectedValue = false;
-    else if (value.startsWith("'") && value.endsWith("'")) {
-      expectedValue = value.slice(1, -1);
-    } else if (!isNaN(Number(value))) {
-      expectedValue = Number(value);
+// Expressions see the context as $ and earlier step outputs as $steps
+function expressionScope(state: LangGraphState): ExpressionScope {
+  const steps: Record<string, any> = {};
+  for (const result of state.results) {
+    if (result.status === 'success') {
+      steps[result.stepId] = result.output;
     }
-
-    switch (operator) {
-      case '==': return contextValue === expectedValue;
-      case '!=': return contextValue !== expectedValue;
-      case '>': return contextValue > expectedValue;
-      case '<': return contextValue < expectedValue;
-      case '>=': return contextValue >= expectedValue;
-      case '<=': return contextValue <= expectedValue;
-      default: return true;
-    }
-  } catch (error) {
-    console.warn(`Condition evaluation failed: ${condition}`, error);
-    return true; // Default to executing step if condition fails
   }
+  return { context: state.context, steps };
 }
 
-// Map inputs from context using JSONPath-like syntax
-function mapInputs(inputMapping: Record<string, string>, context: Context): Record<string, any> {
+// Map inputs from context: "$..." references and "=..." expressions, anything else is a literal
+function mapInputs(inputMapping: Record<string, string>, scope: ExpressionScope): Record<string, any> {
   const mapped: Record<string, any> = {};
   
-  for (const [key, path] of Object.entries(inputMapping)) {
-    if (path.startsWith('$.')) {
-      const fieldName = path.substring(2);
-      mapped[key] = context[fieldName];
-    } else {
-      mapped[key] = path; // Literal value
-    }
+  for (const [key, value] of Object.entries(inputMapping)) {
+    mapped[key] = resolveMappingValue(value, scope);
   }
   
   return mapped;
@@ -244,16 +215,10 @@ function mapOutputs(
   stepOutput: any, 
   currentContext: Context
 ): Context {
-  const updatedContext = { ...currentContext };
-  
-  for (const [outputKey, contextPath] of Object.entries(outputMapping)) {
-    if (contextPath.startsWith('$.')) {
-      const fieldName = contextPath.substring(2);
-      if (stepOutput && typeof stepOutput === 'object' && outputKey in stepOutput) {
-        updatedContext[fieldName] = stepOutput[outputKey];
-      }
-    }
-  }
+  const updatedContext = {
+    ...currentContext,
+    ...mapStepOutputs(outputMapping, stepOutput, currentContext),
+  };
   
   // Also store the full output with step name prefix for backward compatibility
   if (stepOutput && typeof stepOutput === 'object') {
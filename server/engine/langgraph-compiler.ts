@@ -1,29 +1,87 @@
 import { StateGraph, START, END, Annotation } from "@langchain/langgraph";
 import { db } from "../db.js";
-import { steps, agents, tools } from "../../shared/schema.js";
+import { steps, agents, tools, runs, runCheckpoints } from "../../shared/schema.js";
 import { eq, asc } from "drizzle-orm";
 import type { Flow, Step } from "../../shared/schema.js";
+import {
+  runAgentStep,
+  runToolStep,
+  agentContextUpdates,
+  toolContextUpdates,
+  buildToolPayload,
+  mapStepOutputs,
+  type StepConfig,
+} from "./step-executor.js";
+import { approvalService } from "./approvals.js";
+import { evaluateCondition, type ExpressionScope } from "./expressions.js";
+import { runForeachStep } from "./foreach.js";
+import { runSubflowStep } from "./subflow.js";
+import { policyEngine, PolicyViolationError } from "./policy.js";
+import { piiService } from "./pii.js";
+import { getWebSocketManager } from "../websocket.js";
+import { storage } from "../storage.js";
 
 export interface WorkflowState {
   flowId: string;
   runId: string;
   context: Record<string, any>;
   stepResults: Record<string, any>;
+  stepOutputs: Record<string, any>; // step id -> context entries the step wrote ($steps in expressions)
   errors: Array<{ stepId: string; error: string }>;
   currentStepIndex: number;
   joinBarriers: Record<string, { completed: string[]; fired: boolean }>;
+  resumeFromStepIndex: number; // steps with a lower idx are skipped (resumed runs)
+  halted: boolean; // set when a failFast step fails or a policy aborts the run
+  awaitingApproval: boolean; // set (with halted) when an approval step pauses the run
 }
 
+// Nodes return partial updates; reducers merge them so parallel branches can
+// write to the same channels within one superstep
 const WorkflowStateAnnotation = Annotation.Root({
   flowId: Annotation<string>,
   runId: Annotation<string>,
-  context: Annotation<Record<string, any>>,
-  stepResults: Annotation<Record<string, any>>,
-  errors: Annotation<Array<{ stepId: string; error: string }>>,
-  currentStepIndex: Annotation<number>,
-  joinBarriers: Annotation<Record<string, { completed: string[]; fired: boolean }>>,
+  context: Annotation<Record<string, any>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  stepResults: Annotation<Record<string, any>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  stepOutputs: Annotation<Record<string, any>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  errors: Annotation<Array<{ stepId: string; error: string }>>({
+    reducer: (current, update) => current.concat(update),
+    default: () => [],
+  }),
+  currentStepIndex: Annotation<number>({
+    reducer: (current, update) => Math.max(current, update),
+    default: () => 0,
+  }),
+  joinBarriers: Annotation<Record<string, { completed: string[]; fired: boolean }>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  resumeFromStepIndex: Annotation<number>,
+  halted: Annotation<boolean>({
+    reducer: (current, update) => current || update,
+    default: () => false,
+  }),
+  awaitingApproval: Annotation<boolean>({
+    reducer: (current, update) => current || update,
+    default: () => false,
+  }),
 });
 
+type GraphState = typeof WorkflowStateAnnotation.State;
+
+interface NodeOutcome {
+  result: any;
+  contextUpdates: Record<string, any>;
+}
+
 export interface CompiledGraph {
   graph: StateGraph<typeof WorkflowStateAnnotation.State>;
   compiled: any;
@@ -110,53 +168,127 @@ export class LangGraphCompiler {
   }
 
   private async createNodeFunction(step: Step) {
-    return async (state: typeof WorkflowStateAnnotation.State) => {
+    return async (state: GraphState): Promise<Partial<GraphState>> => {
+      // Pass through steps before the resume point, and everything after a fatal failure
+      if (step.idx < (state.resumeFromStepIndex || 0) || state.halted) {
+        return {};
+      }
+
       try {
+        const condition = (step.config as StepConfig | null)?.condition;
+        if (condition && !evaluateCondition(condition, this.expressionScope(state))) {
+          return await this.skipStep(step, state, 'condition not met');
+        }
+
         console.log(`[LangGraph] Executing step ${step.kind}: ${step.id}`);
-        
-        // Load step's agent or tool
-        let result: any = null;
 
-        if (step.kind === 'agent') {
-          result = await this.executeAgent(step, state);
-        } else if (step.kind === 'tool') {
-          result = await this.executeTool(step, state);
-        } else {
-          throw new Error(`Step ${step.id} has unknown kind: ${step.kind}`);
+        if (step.kind === 'approval') {
+          return await this.requestApproval(step, state);
+        }
+
+        // Project policies are checked around the step and may skip it or switch its model
+        const enforcement = await policyEngine.enforce(state.runId, step, (model) => this.executeStep(step, state, model));
+        if (enforcement.skipped) {
+          return await this.skipStep(step, state, enforcement.reason || 'skipped by policy');
         }
+        const outcome = enforcement.result!;
 
-        // Update state with step result
+        await this.saveCheckpoint(state.runId, step.idx, 'success', {
+          ...state.context,
+          ...outcome.contextUpdates,
+        });
+
+        // Merge step outputs into the shared context alongside the raw result
         return {
-          ...state,
-          stepResults: {
-            ...state.stepResults,
-            [step.id]: result,
-          },
+          stepResults: { [step.id]: outcome.result },
+          stepOutputs: { [step.id]: outcome.contextUpdates },
           context: {
-            ...state.context,
-            lastStepResult: result,
+            ...outcome.contextUpdates,
+            lastStepResult: outcome.result,
           },
-          currentStepIndex: state.currentStepIndex + 1,
+          currentStepIndex: step.idx + 1,
         };
       } catch (error: any) {
         console.error(`[LangGraph] Step ${step.id} failed:`, error.message);
-        
+
+        // Policy aborts and approvals that could not be requested always halt the run (going on would
+        // pass the gate unapproved); other failures only when the step opted in to failing fast
+        const failFast = !!(step.config as StepConfig | null)?.failFast || error instanceof PolicyViolationError || step.kind === 'approval';
+
+        // Context before the step, so a resume re-executes it
+        await this.saveCheckpoint(state.runId, step.idx, 'error', state.context);
+
         return {
-          ...state,
-          errors: [
-            ...state.errors,
-            { stepId: step.id, error: error.message },
-          ],
+          errors: [{ stepId: step.id, error: error.message }],
+          context: { [`step_${step.idx}_error`]: error.message },
+          halted: failFast,
         };
       }
     };
   }
 
-  private async executeAgent(step: Step, state: typeof WorkflowStateAnnotation.State): Promise<any> {
-    // TODO: Integrate with actual agent execution
-    // For now, return mock execution
+  private async executeStep(step: Step, state: GraphState, model?: string): Promise<NodeOutcome> {
+    if (step.kind === 'agent') {
+      return await this.executeAgent(step, state, model);
+    }
+    if (step.kind === 'tool') {
+      return await this.executeTool(step, state);
+    }
+    if (step.kind === 'foreach') {
+      return await this.executeForeach(step, state);
+    }
+    if (step.kind === 'flow') {
+      return await this.executeSubflow(step, state);
+    }
+    throw new Error(`Step ${step.id} has unknown kind: ${step.kind}`);
+  }
+
+  private async skipStep(step: Step, state: GraphState, reason: string): Promise<Partial<GraphState>> {
+    console.log(`[LangGraph] Skipping step ${step.id}: ${reason}`);
+    await this.saveCheckpoint(state.runId, step.idx, 'success', state.context);
+
+    // Record a result so join barriers waiting on this step still fire
+    return {
+      stepResults: { [step.id]: { stepId: step.id, skipped: true, timestamp: new Date().toISOString() } },
+      currentStepIndex: step.idx + 1,
+    };
+  }
+
+  private async saveCheckpoint(
+    runId: string,
+    stepIdx: number,
+    status: 'success' | 'error',
+    context: Record<string, any>
+  ): Promise<void> {
+    try {
+      await db.insert(runCheckpoints).values({ runId, stepIdx, status, contextJson: context });
+    } catch (error: any) {
+      console.error(`[LangGraph] Failed to save checkpoint for step ${stepIdx}:`, error.message);
+    }
+  }
+
+  // Park the run until someone decides; later nodes pass through because the graph is halted
+  private async requestApproval(step: Step, state: GraphState): Promise<Partial<GraphState>> {
+    const [run] = await db.select().from(runs).where(eq(runs.id, state.runId)).limit(1);
+    if (!run) {
+      throw new Error(`Run ${state.runId} not found`);
+    }
+
+    await approvalService.requestApproval(run, step, state.context);
+
+    return {
+      halted: true,
+      awaitingApproval: true,
+    };
+  }
+
+  private async executeAgent(step: Step, state: GraphState, model?: string): Promise<NodeOutcome> {
     console.log(`[LangGraph] Agent execution for step ${step.id}`);
-    
+
+    if (!step.refId) {
+      throw new Error(`Step ${step.id} has no agent reference`);
+    }
+
     const agent = await db
       .select()
       .from(agents)
@@ -167,19 +299,55 @@ export class LangGraphCompiler {
       throw new Error(`Agent ${step.refId} not found`);
     }
 
-    return {
+    const agentResult = await runAgentStep(agent[0], state.context, {
+      log: async (level, message, tags, payload) => {
+        console.log(`[LangGraph] [${level.toUpperCase()}] ${message}`);
+        // Entries with a payload (knowledge citations) are kept with the run
+        if (payload) {
+          try {
+            await storage.createLog({ runId: state.runId, level, tags: { step: step.idx.toString(), ...tags }, message, payload });
+          } catch (error) {
+            console.error('[LangGraph] Failed to write run log:', error);
+          }
+        }
+      },
+      model,
+      stepModel: (step.config as StepConfig | null)?.model,
+      routing: await policyEngine.modelRouting(state.runId),
+      pii: await piiService.forRun(state.runId),
+      metrics: { runId: state.runId, stepIdx: step.idx },
+      onToken: (token) => getWebSocketManager()?.broadcastToken(state.runId, step.idx, token),
+    });
+
+    const result = {
       stepId: step.id,
       agentId: step.refId,
-      output: `Agent ${agent[0].name} executed successfully`,
+      output: agentResult.response,
+      structured: agentResult.structured,
+      validationError: agentResult.validationError,
+      model: agentResult.model,
+      citations: agentResult.citations,
       timestamp: new Date().toISOString(),
     };
+
+    return {
+      result,
+      contextUpdates: this.resolveContextUpdates(
+        step,
+        agentContextUpdates(agent[0], agentResult),
+        agentResult.structured,
+        state.context
+      ),
+    };
   }
 
-  private async executeTool(step: Step, state: typeof WorkflowStateAnnotation.State): Promise<any> {
-    // TODO: Integrate with actual tool execution
-    // For now, return mock execution
+  private async executeTool(step: Step, state: GraphState): Promise<NodeOutcome> {
     console.log(`[LangGraph] Tool execution for step ${step.id}`);
-    
+
+    if (!step.refId) {
+      throw new Error(`Step ${step.id} has no tool reference`);
+    }
+
     const tool = await db
       .select()
       .from(tools)
@@ -190,12 +358,88 @@ export class LangGraphCompiler {
       throw new Error(`Tool ${step.refId} not found`);
     }
 
-    return {
+    let payload = buildToolPayload(step.config as StepConfig, state.context, state.stepOutputs);
+    if ((step.config as StepConfig | null)?.detokenize) {
+      payload = await piiService.detokenize(state.runId, payload);
+    }
+    const output = await runToolStep(tool[0], payload, false, undefined, { runId: state.runId, stepIdx: step.idx });
+
+    const result = {
       stepId: step.id,
       toolId: step.refId,
-      output: `Tool ${tool[0].name} executed successfully`,
+      output,
       timestamp: new Date().toISOString(),
     };
+
+    return {
+      result,
+      contextUpdates: this.resolveContextUpdates(step, toolContextUpdates(tool[0], output), output, state.context),
+    };
+  }
+
+  // Sub-steps run against a per-item copy of the context; only the gathered results are merged back
+  private async executeForeach(step: Step, state: GraphState): Promise<NodeOutcome> {
+    console.log(`[LangGraph] Foreach execution for step ${step.id}`);
+
+    const outcome = await runForeachStep(step, state.context, state.stepOutputs, {
+      runSubStep: async (subStep, itemContext) => {
+        const itemState = { ...state, context: itemContext };
+        const subOutcome = subStep.kind === 'agent'
+          ? await this.executeAgent(subStep, itemState)
+          : await this.executeTool(subStep, itemState);
+        return { ...itemContext, ...subOutcome.contextUpdates };
+      },
+      onItemError: (index, error) => console.error(`[LangGraph] Step ${step.id} item ${index} failed:`, error.message),
+    });
+
+    return {
+      result: {
+        stepId: step.id,
+        output: outcome.results,
+        errors: outcome.errors,
+        timestamp: new Date().toISOString(),
+      },
+      contextUpdates: outcome.contextUpdates,
+    };
+  }
+
+  private async executeSubflow(step: Step, state: GraphState): Promise<NodeOutcome> {
+    console.log(`[LangGraph] Sub-flow execution for step ${step.id}`);
+
+    const outcome = await runSubflowStep(state.runId, step, state.context, state.stepOutputs);
+
+    return {
+      result: {
+        stepId: step.id,
+        flowId: step.refId,
+        childRunId: outcome.childRun.id,
+        output: outcome.output,
+        timestamp: new Date().toISOString(),
+      },
+      contextUpdates: outcome.contextUpdates,
+    };
+  }
+
+  // Declared output keys (config.out) take precedence; otherwise keep the
+  // legacy engine's context keys so templates work the same on both engines
+  private resolveContextUpdates(
+    step: Step,
+    defaultUpdates: Record<string, any>,
+    output: any,
+    context: Record<string, any>
+  ): Record<string, any> {
+    const config = step.config as StepConfig | null;
+    if (config?.out && Object.keys(config.out).length > 0) {
+      return {
+        ...defaultUpdates,
+        ...mapStepOutputs(config.out, output, context),
+      };
+    }
+    return defaultUpdates;
+  }
+
+  private expressionScope(state: GraphState): ExpressionScope {
+    return { context: state.context, steps: state.stepOutputs };
   }
 
   private analyzeAndGroupSteps(steps: Step[]): {
@@ -340,7 +584,7 @@ export class LangGraphCompiler {
     const expectedCount = expectedStepIds.length;
 
     // Create join node with barrier semantics
-    const joinFunc = async (state: typeof WorkflowStateAnnotation.State) => {
+    const joinFunc = async (state: GraphState): Promise<Partial<GraphState>> => {
       // Initialize barrier tracking if not present
       const barriers = state.joinBarriers || {};
       const barrier = barriers[joinNodeId] || { completed: [], fired: false };
@@ -348,7 +592,7 @@ export class LangGraphCompiler {
       // If barrier already fired, skip (prevent re-entry)
       if (barrier.fired) {
         console.log(`[LangGraph] Join node ${joinNodeId} already fired, skipping`);
-        return state;
+        return {};
       }
 
       // Track which step triggered this invocation
@@ -365,9 +609,7 @@ export class LangGraphCompiler {
       // If not all branches complete, update barrier state and wait
       if (completedCount < expectedCount) {
         return {
-          ...state,
           joinBarriers: {
-            ...barriers,
             [joinNodeId]: {
               completed: Array.from(completedSteps),
               fired: false,
@@ -387,20 +629,16 @@ export class LangGraphCompiler {
       }
 
       return {
-        ...state,
         joinBarriers: {
-          ...barriers,
           [joinNodeId]: {
             completed: Array.from(completedSteps),
             fired: true,
           },
         },
         context: {
-          ...state.context,
           joinResults: aggregatedResults,
         },
         stepResults: {
-          ...state.stepResults,
           [joinNodeId]: {
             type: 'join',
             aggregated: aggregatedResults,
@@ -443,11 +681,11 @@ export class LangGraphCompiler {
       // Evaluate condition based on last step result
       const lastResult = state.stepResults[conditionalStep.id];
       
-      // Simple routing: check result value against branch conditions
+      // String conditions are expressions over the context; objects match the last result
       for (const [branchName, condition] of Object.entries(branches)) {
         const conditionConfig = condition as any;
         
-        if (conditionConfig.when && this.evaluateCondition(lastResult, conditionConfig.when)) {
+        if (conditionConfig.when && this.evaluateBranchCondition(lastResult, conditionConfig.when, state)) {
           // Find matching next step by name or first step
           const targetStep = nextSteps.find(s => s.id === conditionConfig.target) || nextSteps[0];
           return targetStep.id;
@@ -472,10 +710,9 @@ export class LangGraphCompiler {
     );
   }
 
-  private evaluateCondition(value: any, condition: any): boolean {
-    // Simple condition evaluation
+  private evaluateBranchCondition(value: any, condition: any, state: GraphState): boolean {
     if (typeof condition === 'string') {
-      return value === condition;
+      return evaluateCondition(condition, this.expressionScope(state));
     }
     
     if (condition.equals !== undefined) {
@@ -1,18 +1,20 @@
 import { langGraphCompiler, type WorkflowState, type CompiledGraph } from "./langgraph-compiler.js";
 import { db } from "../db.js";
-import { runs, logs, runCheckpoints } from "../../shared/schema.js";
-import { eq } from "drizzle-orm";
+import { runs, logs, runCheckpoints, flows } from "../../shared/schema.js";
+import { eq, asc } from "drizzle-orm";
 import type { Flow } from "../../shared/schema.js";
+import { piiService } from "./pii.js";
 
 export interface ExecutionOptions {
   initialContext?: Record<string, any>;
   checkpointId?: string;
+  resumeFromStepIndex?: number;
   streamLogs?: boolean;
 }
 
 export interface ExecutionResult {
   runId: string;
-  status: 'completed' | 'failed' | 'partial';
+  status: 'completed' | 'failed' | 'partial' | 'awaiting_approval';
   finalState: WorkflowState;
   stepResults: Record<string, any>;
   errors: Array<{ stepId: string; error: string }>;
@@ -28,21 +30,30 @@ export class LangGraphRuntime {
     
     try {
       console.log(`[LangGraphRuntime] Starting flow execution: ${flow.name} (${flow.id})`);
+
+      await db
+        .update(runs)
+        .set({ status: 'running' })
+        .where(eq(runs.id, runId));
       
       // Compile or retrieve cached graph
       const compiledGraph = await this.getOrCompileGraph(flow);
       
       // Initialize state
       const initialState: WorkflowState = options.checkpointId
-        ? await this.loadCheckpoint(options.checkpointId)
+        ? await this.loadCheckpoint(options.checkpointId, flow.id, runId)
         : {
             flowId: flow.id,
             runId,
             context: options.initialContext || {},
             stepResults: {},
+            stepOutputs: {},
             errors: [],
-            currentStepIndex: 0,
+            currentStepIndex: options.resumeFromStepIndex || 0,
             joinBarriers: {},
+            resumeFromStepIndex: options.resumeFromStepIndex || 0,
+            halted: false,
+            awaitingApproval: false,
           };
 
       // Log execution start
@@ -52,19 +63,39 @@ export class LangGraphRuntime {
         metadata: compiledGraph.metadata,
       });
 
-      // Execute the graph
-      const result = await compiledGraph.compiled.invoke(initialState);
-      
-      // Save final checkpoint
-      const checkpointId = await this.saveCheckpoint(runId, result);
+      if (initialState.resumeFromStepIndex > 0) {
+        await this.logExecution(runId, 'info', `Resuming flow execution from step ${initialState.resumeFromStepIndex}`);
+      }
+
+      // Execute the graph (nodes write a checkpoint after every step)
+      const result: WorkflowState = await compiledGraph.compiled.invoke(initialState);
+      const checkpointIds = await this.getCheckpointIds(runId);
 
       const duration = Date.now() - startTime;
 
-      // Determine final status
-      const status = result.errors.length > 0 ? 'partial' : 'completed';
+      // An approval step parked the run; the approval service already set its status
+      if (result.awaitingApproval) {
+        await this.logExecution(runId, 'info', 'Flow execution paused awaiting approval', {
+          duration,
+          stepCount: compiledGraph.metadata.stepCount,
+        });
+
+        return {
+          runId,
+          status: 'awaiting_approval',
+          finalState: result,
+          stepResults: result.stepResults,
+          errors: result.errors,
+          checkpoints: checkpointIds,
+          duration,
+        };
+      }
+
+      // Determine final status: a halted graph failed; a graph that ran past failed steps is partial
+      const status = result.halted ? 'failed' : result.errors.length > 0 ? 'partial' : 'completed';
 
       // Log execution completion
-      await this.logExecution(runId, status === 'completed' ? 'info' : 'warn', 
+      await this.logExecution(runId, status === 'completed' ? 'info' : status === 'failed' ? 'error' : 'warn', 
         `Flow execution ${status}`, {
         duration,
         stepCount: compiledGraph.metadata.stepCount,
@@ -72,12 +103,16 @@ export class LangGraphRuntime {
       });
 
       // Update run status in database
+      const persisted = await piiService.redactRunOutput(runId, {
+        output: result.stepResults,
+        context: result.context,
+      });
       await db
         .update(runs)
         .set({
           status: status === 'completed' ? 'success' : 'error',
           completedAt: new Date(),
-          output: result.stepResults,
+          ...persisted,
         })
         .where(eq(runs.id, runId));
 
@@ -87,7 +122,7 @@ export class LangGraphRuntime {
         finalState: result,
         stepResults: result.stepResults,
         errors: result.errors,
-        checkpoints: [checkpointId],
+        checkpoints: checkpointIds,
         duration,
       };
     } catch (error: any) {
@@ -138,21 +173,18 @@ export class LangGraphRuntime {
     return compiled;
   }
 
-  private async saveCheckpoint(runId: string, state: WorkflowState): Promise<string> {
-    const checkpoint = await db
-      .insert(runCheckpoints)
-      .values({
-        runId,
-        stepIdx: state.currentStepIndex,
-        status: state.errors.length > 0 ? 'error' : 'success',
-        contextJson: state,
-      })
-      .returning();
-
-    return checkpoint[0].id;
+  private async getCheckpointIds(runId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: runCheckpoints.id })
+      .from(runCheckpoints)
+      .where(eq(runCheckpoints.runId, runId))
+      .orderBy(asc(runCheckpoints.createdAt));
+    return rows.map((row) => row.id);
   }
 
-  private async loadCheckpoint(checkpointId: string): Promise<WorkflowState> {
+  // A success checkpoint holds the context after its step; an error checkpoint
+  // holds the context before its (failed) step, which is where execution resumes
+  private async loadCheckpoint(checkpointId: string, flowId: string, runId: string): Promise<WorkflowState> {
     const checkpoint = await db
       .select()
       .from(runCheckpoints)
@@ -163,7 +195,23 @@ export class LangGraphRuntime {
       throw new Error(`Checkpoint ${checkpointId} not found`);
     }
 
-    return checkpoint[0].contextJson as WorkflowState;
+    const resumeFrom = checkpoint[0].status === 'error'
+      ? checkpoint[0].stepIdx
+      : checkpoint[0].stepIdx + 1;
+
+    return {
+      flowId,
+      runId,
+      context: (checkpoint[0].contextJson as Record<string, any>) || {},
+      stepResults: {},
+      stepOutputs: {},
+      errors: [],
+      currentStepIndex: resumeFrom,
+      joinBarriers: {},
+      resumeFromStepIndex: resumeFrom,
+      halted: false,
+      awaitingApproval: false,
+    };
   }
 
   private async logExecution(
@@ -172,13 +220,13 @@ export class LangGraphRuntime {
     message: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    await db.insert(logs).values({
+    await db.insert(logs).values(await piiService.redactLog({
       runId,
       level,
       message,
       tags: {},
       payload: metadata,
-    });
+    }));
   }
 
   clearCache(): void {
@@ -206,8 +254,17 @@ export class LangGraphRuntime {
       throw new Error(`Run ${checkpoint[0].runId} not found`);
     }
 
-    // TODO: Fetch flow from run and execute from checkpoint
-    throw new Error('Checkpoint replay not yet implemented');
+    const flow = await db
+      .select()
+      .from(flows)
+      .where(eq(flows.id, run[0].flowId))
+      .limit(1);
+
+    if (flow.length === 0) {
+      throw new Error(`Flow ${run[0].flowId} not found`);
+    }
+
+    return await this.executeFlow(flow[0], run[0].id, { checkpointId });
   }
 }
 
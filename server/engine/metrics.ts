@@ -0,0 +1,138 @@
+import { storage } from "../storage.js";
+import type { Agent, Tool } from "../../shared/schema.js";
+import type { LlmUsage } from "../llm/provider.js";
+
+// Token and cost accounting: every LLM and tool call made for a run writes a run_metrics row.
+// Prices are USD per million tokens; MODEL_PRICES (JSON, same shape) overrides or extends them:
+//   MODEL_PRICES='{"gpt-5": {"input": 1.25, "output": 10}, "my-finetune": {"input": 3, "output": 12}}'
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Where a call was made; stepIdx is null for calls outside a flow step
+export interface MetricsTarget {
+  runId: string;
+  stepIdx: number | null;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  const table = { ...DEFAULT_PRICES };
+  if (!process.env.MODEL_PRICES) {
+    return table;
+  }
+
+  try {
+    const overrides = JSON.parse(process.env.MODEL_PRICES);
+    for (const [model, price] of Object.entries<any>(overrides)) {
+      if (typeof price?.input === 'number' && typeof price?.output === 'number') {
+        table[model] = { input: price.input, output: price.output };
+      } else {
+        console.warn(`[Metrics] Ignoring MODEL_PRICES entry for ${model}: expected { input, output }`);
+      }
+    }
+  } catch (error) {
+    console.warn('[Metrics] MODEL_PRICES is not valid JSON, using default prices:', (error as Error).message);
+  }
+  return table;
+}
+
+const PRICES = loadPriceTable();
+
+// Exact name first, then the longest priced prefix so dated snapshots
+// (gpt-5-mini-2025-08-07) cost the same as their alias. Provider-qualified references
+// (anthropic/claude-sonnet-4-5) fall back to the bare model's price.
+export function priceFor(model: string): ModelPrice | null {
+  if (PRICES[model]) {
+    return PRICES[model];
+  }
+  const slash = model.indexOf('/');
+  if (slash > 0) {
+    return priceFor(model.slice(slash + 1));
+  }
+  const prefix = Object.keys(PRICES)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? PRICES[prefix] : null;
+}
+
+// null when the model has no price, so unknown spend isn't reported as free
+export function llmCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = priceFor(model);
+  if (!price) {
+    return null;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+export async function recordLlmCall(
+  target: MetricsTarget,
+  agent: Agent,
+  call: { model: string; usage: LlmUsage | null; latencyMs: number; error?: Error; metadata?: Record<string, any> }
+): Promise<void> {
+  const model = call.usage?.model || call.model;
+  const cost = call.usage ? llmCost(model, call.usage.promptTokens, call.usage.completionTokens) : null;
+
+  await record({
+    runId: target.runId,
+    stepIdx: target.stepIdx,
+    stepName: agent.name,
+    kind: 'agent',
+    agentId: agent.id,
+    model,
+    tokens: call.usage
+      ? { prompt: call.usage.promptTokens, completion: call.usage.completionTokens, total: call.usage.totalTokens }
+      : null,
+    costUsd: cost === null ? null : cost.toFixed(8),
+    latencyMs: call.latencyMs,
+    success: !call.error,
+    metadata: call.error || call.metadata ? { ...call.metadata, ...(call.error ? { error: call.error.message } : {}) } : null,
+  });
+}
+
+export async function recordToolCall(
+  target: MetricsTarget,
+  tool: Tool,
+  call: { latencyMs: number; error?: Error }
+): Promise<void> {
+  await record({
+    runId: target.runId,
+    stepIdx: target.stepIdx,
+    stepName: tool.name,
+    kind: 'tool',
+    latencyMs: call.latencyMs,
+    success: !call.error,
+    metadata: { toolType: tool.type, ...(call.error ? { error: call.error.message } : {}) },
+  });
+}
+
+// Metrics never fail the step that produced them
+async function record(metric: Parameters<typeof storage.createRunMetric>[0]): Promise<void> {
+  try {
+    await storage.createRunMetric(metric);
+  } catch (error) {
+    console.error('[Metrics] Failed to record run metric:', error);
+  }
+}
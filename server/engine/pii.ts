@@ -0,0 +1,418 @@
+import { createHmac, randomBytes } from "crypto";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { flows, piiTokens, policyRules, runs } from "../../shared/schema.js";
+import type { InsertLog } from "../../shared/schema.js";
+import { featureFlagService, FeatureFlags } from "./feature-flags.js";
+
+// PII detection and redaction for run data, configured per project by
+// policyRules.constraints.pii_masking (behind the policy_engine flag).
+//  - mask:     values are replaced by a type marker, e.g. [REDACTED_EMAIL]
+//  - tokenize: values are replaced by stable tokens, e.g. [[pii:email:3f9a1c0b7d2e]], and kept
+//              in the pii_tokens vault so tool steps with `detokenize: true` get the originals
+// Redaction applies to agent prompts, run logs and the final context of top-level runs.
+// Checkpoints keep raw context, since resuming needs it.
+
+export type PiiMode = 'off' | 'mask' | 'tokenize';
+export type PiiTarget = 'prompts' | 'logs' | 'outputs';
+
+export interface PiiMatch {
+  type: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiDetector {
+  type: string;
+  detect(text: string): PiiMatch[];
+}
+
+// Shape of constraints.pii_masking; a bare mode string or `true` (= mask) is accepted too
+export interface PiiMaskingConfig {
+  mode: PiiMode;
+  types?: string[]; // Detector types to apply (default: all, including dictionaries)
+  dictionaries?: Record<string, string[]>; // Custom type -> terms, matched case-insensitively
+  targets?: PiiTarget[]; // Default: all
+}
+
+export interface PiiSettings {
+  mode: Exclude<PiiMode, 'off'>;
+  detectors: PiiDetector[];
+  targets: PiiTarget[];
+}
+
+const MODES: PiiMode[] = ['off', 'mask', 'tokenize'];
+const TARGETS: PiiTarget[] = ['prompts', 'logs', 'outputs'];
+const TOKEN_PATTERN = /\[\[pii:[a-z0-9_]+:[0-9a-f]{12}\]\]/g;
+const SETTINGS_TTL_MS = 60000;
+
+function regexDetector(type: string, pattern: RegExp, isValid: (value: string) => boolean = () => true): PiiDetector {
+  return {
+    type,
+    detect(text) {
+      const matches: PiiMatch[] = [];
+      for (const match of Array.from(text.matchAll(pattern))) {
+        if (isValid(match[0])) {
+          matches.push({ type, start: match.index!, end: match.index! + match[0].length, value: match[0] });
+        }
+      }
+      return matches;
+    },
+  };
+}
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, letters to numbers, mod 97 == 1
+function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+function ssnValid(value: string): boolean {
+  const [area, group, serial] = value.split('-');
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+}
+
+// Bare digit runs are left alone so ids and timestamps aren't mistaken for phone numbers
+function phoneValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  return digits >= 10 && digits <= 15 && /^\+|[\s().-]/.test(value);
+}
+
+// Earlier entries win when matches overlap (a card number also looks like a phone number)
+const BUILTIN_DETECTORS: PiiDetector[] = [
+  regexDetector('email', /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g),
+  regexDetector('iban', /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, ibanValid),
+  regexDetector('card', /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, luhnValid),
+  regexDetector('ssn', /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g, ssnValid),
+  regexDetector('phone', /(?<![\w+])\+?(?:\(\d{1,4}\)|\d{1,4})(?:[ .-]?(?:\(\d{1,4}\)|\d{2,4})){2,5}(?!\w)/g, phoneValid),
+];
+
+const customDetectors: PiiDetector[] = [];
+
+// Extension point for detectors beyond the built-ins and dictionaries (e.g. NER-backed)
+export function registerPiiDetector(detector: PiiDetector): void {
+  const existing = customDetectors.findIndex((candidate) => candidate.type === detector.type);
+  if (existing >= 0) {
+    customDetectors[existing] = detector;
+  } else {
+    customDetectors.push(detector);
+  }
+}
+
+export function dictionaryDetector(type: string, terms: string[]): PiiDetector {
+  const escaped = terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0) {
+    return { type, detect: () => [] };
+  }
+  return regexDetector(type, new RegExp(`(?<![\\w])(?:${escaped.join('|')})(?![\\w])`, 'gi'));
+}
+
+export function detectPii(text: string, detectors: PiiDetector[]): PiiMatch[] {
+  const accepted: PiiMatch[] = [];
+  for (const detector of detectors) {
+    for (const match of detector.detect(text)) {
+      if (!accepted.some((other) => match.start < other.end && other.start < match.end)) {
+        accepted.push(match);
+      }
+    }
+  }
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+// Combine the pii_masking settings of a project's active rules: tokenize wins over mask,
+// and detector types, dictionaries and targets are merged
+export function resolvePiiSettings(configs: unknown[]): PiiSettings | null {
+  const parsed = configs.map(parsePiiConfig).filter((config): config is PiiMaskingConfig => !!config && config.mode !== 'off');
+  if (parsed.length === 0) {
+    return null;
+  }
+
+  const dictionaries: Record<string, string[]> = {};
+  for (const config of parsed) {
+    for (const [type, terms] of Object.entries(config.dictionaries || {})) {
+      dictionaries[type] = [...(dictionaries[type] || []), ...terms];
+    }
+  }
+
+  const available = [
+    ...BUILTIN_DETECTORS,
+    ...Object.entries(dictionaries).map(([type, terms]) => dictionaryDetector(type, terms)),
+    ...customDetectors,
+  ];
+  const types = parsed.some((config) => !config.types)
+    ? null
+    : new Set(parsed.flatMap((config) => config.types!));
+
+  return {
+    mode: parsed.some((config) => config.mode === 'tokenize') ? 'tokenize' : 'mask',
+    detectors: types ? available.filter((detector) => types.has(detector.type)) : available,
+    targets: Array.from(new Set(parsed.flatMap((config) => config.targets || TARGETS))),
+  };
+}
+
+function parsePiiConfig(value: unknown): PiiMaskingConfig | null {
+  if (value === undefined || value === null || value === false) return null;
+  if (value === true) return { mode: 'mask' };
+  if (typeof value === 'string') return MODES.includes(value as PiiMode) ? { mode: value as PiiMode } : null;
+  if (typeof value === 'object' && MODES.includes((value as PiiMaskingConfig).mode)) {
+    return value as PiiMaskingConfig;
+  }
+  return null;
+}
+
+// Save-time check of constraints.pii_masking
+export function validatePiiMasking(value: unknown): string | null {
+  if (value === undefined || value === null || typeof value === 'boolean') return null;
+  if (typeof value === 'string') {
+    return MODES.includes(value as PiiMode) ? null : `pii_masking must be one of ${MODES.join(', ')}`;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'pii_masking must be a mode or an object';
+  }
+
+  const config = value as Partial<PiiMaskingConfig>;
+  if (!MODES.includes(config.mode as PiiMode)) {
+    return `pii_masking.mode must be one of ${MODES.join(', ')}`;
+  }
+  if (config.types !== undefined && (!Array.isArray(config.types) || config.types.some((type) => typeof type !== 'string'))) {
+    return 'pii_masking.types must be an array of detector types';
+  }
+  if (config.targets !== undefined && (!Array.isArray(config.targets) || config.targets.some((target) => !TARGETS.includes(target)))) {
+    return `pii_masking.targets must only contain ${TARGETS.join(', ')}`;
+  }
+  if (config.dictionaries !== undefined) {
+    if (typeof config.dictionaries !== 'object' || config.dictionaries === null || Array.isArray(config.dictionaries)) {
+      return 'pii_masking.dictionaries must map a type name to a list of terms';
+    }
+    for (const [type, terms] of Object.entries(config.dictionaries)) {
+      if (!/^[a-z0-9_]+$/.test(type)) {
+        return `Dictionary name "${type}" may only contain lowercase letters, digits and underscores`;
+      }
+      if (!Array.isArray(terms) || terms.some((term) => typeof term !== 'string')) {
+        return `pii_masking.dictionaries.${type} must be an array of strings`;
+      }
+    }
+  }
+  return null;
+}
+
+// Key for tokens. Run ids are visible to clients, so tokens are keyed with a server-side secret
+// (else short values like phone numbers could be brute-forced from them); without
+// PII_TOKEN_SECRET a random key is used and tokens only stay stable until a restart
+const TOKEN_SECRET = process.env.PII_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+// Redaction bound to one run tree; tokens are stable within the tree so a value keeps its
+// token across steps and sub-flows
+export class PiiRedactor {
+  constructor(
+    readonly settings: PiiSettings,
+    private vaultRunId: string, // Top-level run whose vault holds the tokens
+    readonly isSubflow: boolean
+  ) {}
+
+  applies(target: PiiTarget): boolean {
+    return this.settings.targets.includes(target);
+  }
+
+  // Redact every string inside value (objects and arrays are copied, not modified)
+  async redact<T>(value: T): Promise<T> {
+    const vaulted = new Map<string, { type: string; value: string }>();
+    const redacted = this.walk(value, (text) => this.redactText(text, vaulted));
+
+    if (vaulted.size > 0) {
+      await db
+        .insert(piiTokens)
+        .values(Array.from(vaulted, ([token, entry]) => ({
+          runId: this.vaultRunId,
+          token,
+          piiType: entry.type,
+          value: entry.value,
+        })))
+        .onConflictDoNothing();
+    }
+    return redacted;
+  }
+
+  // Restore tokenized values from the vault; unknown tokens are left as they are
+  async detokenize<T>(value: T): Promise<T> {
+    const tokens = new Set<string>();
+    this.walk(value, (text) => {
+      for (const match of Array.from(text.matchAll(TOKEN_PATTERN))) tokens.add(match[0]);
+      return text;
+    });
+    if (tokens.size === 0) {
+      return value;
+    }
+
+    const rows = await db
+      .select({ token: piiTokens.token, value: piiTokens.value })
+      .from(piiTokens)
+      .where(and(eq(piiTokens.runId, this.vaultRunId), inArray(piiTokens.token, Array.from(tokens))));
+    const originals = new Map(rows.map((row) => [row.token, row.value]));
+
+    return this.walk(value, (text) => text.replace(TOKEN_PATTERN, (token) => originals.get(token) ?? token));
+  }
+
+  private redactText(text: string, vaulted: Map<string, { type: string; value: string }>): string {
+    const matches = detectPii(text, this.settings.detectors);
+    if (matches.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      result += text.slice(position, match.start);
+      if (this.settings.mode === 'mask') {
+        result += `[REDACTED_${match.type.toUpperCase()}]`;
+      } else {
+        const digest = createHmac('sha256', TOKEN_SECRET).update(`${this.vaultRunId}:${match.type}:${match.value}`).digest('hex');
+        const token = `[[pii:${match.type}:${digest.slice(0, 12)}]]`;
+        vaulted.set(token, { type: match.type, value: match.value });
+        result += token;
+      }
+      position = match.end;
+    }
+    return result + text.slice(position);
+  }
+
+  private walk<T>(value: T, transform: (text: string) => string): T {
+    if (typeof value === 'string') {
+      return transform(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.walk(item, transform)) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const copy: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.walk(item, transform);
+      }
+      return copy as T;
+    }
+    return value;
+  }
+}
+
+class PiiService {
+  private cache: Map<string, { redactor: PiiRedactor | null; expiresAt: number }> = new Map();
+
+  // Redactor for a run, or null when its project doesn't mask PII; cached briefly since
+  // every log line of the run asks
+  async forRun(runId: string): Promise<PiiRedactor | null> {
+    const cached = this.cache.get(runId);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.redactor;
+    }
+
+    const redactor = await this.loadRedactor(runId);
+    this.evictExpired();
+    this.cache.set(runId, { redactor, expiresAt: Date.now() + SETTINGS_TTL_MS });
+    return redactor;
+  }
+
+  async redactLog<T extends Pick<InsertLog, 'runId' | 'message' | 'payload'>>(log: T): Promise<T> {
+    const redactor = await this.forRun(log.runId);
+    if (!redactor?.applies('logs')) {
+      return log;
+    }
+    return {
+      ...log,
+      message: await redactor.redact(log.message),
+      payload: log.payload === undefined || log.payload === null ? log.payload : await redactor.redact(log.payload),
+    };
+  }
+
+  // Final context/output of a top-level run; sub-flow runs hand their context to the parent
+  // step, which needs the real values
+  async redactRunOutput<T extends Record<string, any>>(runId: string, updates: T): Promise<T> {
+    const redactor = await this.forRun(runId);
+    if (!redactor?.applies('outputs') || redactor.isSubflow) {
+      return updates;
+    }
+    return await redactor.redact(updates);
+  }
+
+  // Payload for a tool step that opted in to receiving the original values
+  async detokenize<T>(runId: string, value: T): Promise<T> {
+    const redactor = await this.forRun(runId);
+    return redactor?.settings.mode === 'tokenize' ? await redactor.detokenize(value) : value;
+  }
+
+  private async loadRedactor(runId: string): Promise<PiiRedactor | null> {
+    const [owner] = await db
+      .select({ projectId: flows.projectId, parentRunId: runs.parentRunId })
+      .from(runs)
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(eq(runs.id, runId))
+      .limit(1);
+    if (!owner || !(await featureFlagService.isEnabled(FeatureFlags.POLICY_ENGINE, owner.projectId))) {
+      return null;
+    }
+
+    const rules = await db
+      .select({ constraints: policyRules.constraints })
+      .from(policyRules)
+      .where(and(eq(policyRules.projectId, owner.projectId), eq(policyRules.isActive, true)));
+    const settings = resolvePiiSettings(rules.map((rule) => (rule.constraints as any)?.pii_masking));
+    if (!settings) {
+      return null;
+    }
+
+    // Sub-flow runs share the vault of the top-level run
+    let vaultRunId = runId;
+    if (owner.parentRunId) {
+      const result = await db.execute(sql`
+        WITH RECURSIVE ancestors AS (
+          SELECT id, parent_run_id FROM runs WHERE id = ${owner.parentRunId}
+          UNION ALL
+          SELECT parent.id, parent.parent_run_id
+          FROM runs parent JOIN ancestors ON parent.id = ancestors.parent_run_id
+        )
+        SELECT id FROM ancestors WHERE parent_run_id IS NULL LIMIT 1
+      `);
+      vaultRunId = (result.rows[0] as { id: string } | undefined)?.id ?? owner.parentRunId;
+    }
+
+    return new PiiRedactor(settings, vaultRunId, !!owner.parentRunId);
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [runId, entry] of Array.from(this.cache)) {
+      if (entry.expiresAt <= now) this.cache.delete(runId);
+    }
+  }
+}
+
+export const piiService = new PiiService();
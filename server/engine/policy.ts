@@ -0,0 +1,373 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { flows, policyEvaluations, policyRules, runs, tools } from "../../shared/schema.js";
+import type { PolicyRule, Step } from "../../shared/schema.js";
+import { featureFlagService, FeatureFlags } from "./feature-flags.js";
+import { ESCALATION_MODEL } from "../llm/gateway.js";
+import { validatePiiMasking } from "./pii.js";
+import { foreachSubSteps } from "./foreach.js";
+
+// Run-time enforcement of a project's active policyRules, behind the policy_engine flag.
+// Every agent, tool, foreach and flow step is checked before it runs (disallowed tools,
+// cost budget) and after it ran (latency); each check writes a policyEvaluations row and
+// violations apply the rule's configured fallback. A step is never re-run or discarded after
+// it ran, since its tool calls may have had side effects: a latency 'switch_model' moves the
+// run's later agent steps to the fallback model instead.
+
+export type PolicyAction = 'abort' | 'skip' | 'switch_model';
+export type PolicyCheck = 'latency' | 'cost' | 'guard';
+
+export interface PolicyConstraints {
+  max_latency_ms?: number; // Wall time of the step, retries included
+  max_cost_usd?: number; // Spend of the top-level run and all its sub-flow runs so far
+  [key: string]: any;
+}
+
+export interface PolicyGuards {
+  disallowed_tools?: string[]; // Tool names or ids
+  [key: string]: any;
+}
+
+// Fallback per check, e.g. { latency: 'switch_model', default: 'abort' }
+export interface PolicyFallbacks {
+  default?: PolicyAction;
+  latency?: PolicyAction;
+  cost?: PolicyAction;
+  guard?: PolicyAction;
+}
+
+export interface PolicyModelRouting {
+  default?: string; // Model for agents and steps that don't choose one
+  fallback?: string; // Model agent steps switch to on 'switch_model'
+  large_escalation?: string; // Schema repair escalations, and 'switch_model' when no fallback is set (then LLM_ESCALATION_MODEL)
+}
+
+export class PolicyViolationError extends Error {
+  constructor(public check: PolicyCheck, message: string) {
+    super(`Policy violation: ${message}`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export interface PolicyEnforcement<T> {
+  skipped: boolean; // A policy skipped the step before it ran
+  reason?: string;
+  result?: T;
+  model?: string; // Model the step ended up running on, when a policy switched it
+}
+
+interface PolicyDecision {
+  action: 'continue' | PolicyAction;
+  check?: PolicyCheck;
+  reason?: string;
+  model?: string;
+}
+
+const ACTIONS: PolicyAction[] = ['abort', 'skip', 'switch_model'];
+const SEVERITY: Record<PolicyDecision['action'], number> = { continue: 0, switch_model: 1, skip: 2, abort: 3 };
+
+class PolicyEngine {
+  // Run execute between the before- and after-step checks. Agent steps run on the fallback model
+  // once a 'switch_model' fallback applied earlier in the run; a violation on that model aborts.
+  async enforce<T>(
+    runId: string,
+    step: Step,
+    execute: (model?: string) => Promise<T>
+  ): Promise<PolicyEnforcement<T>> {
+    const rules = await this.activeRules(runId);
+    if (rules.length === 0) {
+      return { skipped: false, result: await execute() };
+    }
+
+    const before = await this.beforeStep(runId, step, rules);
+    if (before.action === 'abort') {
+      throw new PolicyViolationError(before.check!, before.reason!);
+    }
+    if (before.action === 'skip') {
+      return { skipped: true, reason: before.reason };
+    }
+
+    const model = before.model ?? (step.kind === 'agent' ? await this.switchedModel(runId, rules) : undefined);
+    const startedAt = Date.now();
+    const result = await execute(model);
+    const after = await this.afterStep(runId, step, rules, Date.now() - startedAt, !!model);
+
+    if (after.action === 'abort') {
+      throw new PolicyViolationError(after.check!, after.reason!);
+    }
+    if (after.action === 'switch_model') {
+      await this.log(runId, 'warn', `${after.reason}; later agent steps of this run use model ${after.model}`, step.idx);
+    }
+    return { skipped: false, result, model };
+  }
+
+  // Fallback model of the latest 'switch_model' applied after a step of this run
+  private async switchedModel(runId: string, rules: PolicyRule[]): Promise<string | undefined> {
+    const [switched] = await db
+      .select({ policyRuleId: policyEvaluations.policyRuleId })
+      .from(policyEvaluations)
+      .where(and(
+        eq(policyEvaluations.runId, runId),
+        eq(policyEvaluations.evaluationType, 'latency'),
+        eq(policyEvaluations.fallbackApplied, 'switch_model')
+      ))
+      .orderBy(desc(policyEvaluations.createdAt))
+      .limit(1);
+    const rule = switched && rules.find((candidate) => candidate.id === switched.policyRuleId);
+    return rule ? this.fallbackModel(rule) : undefined;
+  }
+
+  // Guards and the cost budget: a run that has already overspent is stopped at its next step
+  private async beforeStep(runId: string, step: Step, rules: PolicyRule[]): Promise<PolicyDecision> {
+    let decision: PolicyDecision = { action: 'continue' };
+
+    const stepTools = await this.stepTools(step);
+    for (const rule of rules) {
+      const disallowed = (rule.guards as PolicyGuards | null)?.disallowed_tools;
+      if (!Array.isArray(disallowed) || disallowed.length === 0 || stepTools.length === 0) continue;
+
+      const blocked = stepTools.filter((tool) => disallowed.includes(tool.name) || disallowed.includes(tool.id));
+      const reason = blocked.length > 0
+        ? `${rule.name}: tool ${blocked.map((tool) => tool.name).join(', ')} is not allowed`
+        : undefined;
+      decision = this.strictest(decision, await this.evaluate(runId, rule, step, 'guard', {
+        reason,
+        actual: stepTools.map((tool) => tool.name),
+        expected: { disallowed_tools: disallowed },
+      }));
+    }
+
+    const budgeted = rules.filter((rule) => typeof (rule.constraints as PolicyConstraints)?.max_cost_usd === 'number');
+    if (budgeted.length > 0) {
+      // The budget covers the whole run tree, so a sub-flow counts what its parents spent too
+      const { costUsd } = await storage.getRunCost(await storage.getRootRunId(runId));
+      for (const rule of budgeted) {
+        const maxCostUsd = (rule.constraints as PolicyConstraints).max_cost_usd!;
+        const reason = costUsd > maxCostUsd
+          ? `${rule.name}: run cost $${costUsd.toFixed(4)} exceeds $${maxCostUsd}`
+          : undefined;
+        decision = this.strictest(decision, await this.evaluate(runId, rule, step, 'cost', {
+          reason,
+          actual: { cost_usd: costUsd },
+          expected: { max_cost_usd: maxCostUsd },
+        }));
+      }
+    }
+
+    return decision;
+  }
+
+  private async afterStep(
+    runId: string,
+    step: Step,
+    rules: PolicyRule[],
+    latencyMs: number,
+    modelSwitched: boolean
+  ): Promise<PolicyDecision> {
+    let decision: PolicyDecision = { action: 'continue' };
+
+    for (const rule of rules) {
+      const maxLatencyMs = (rule.constraints as PolicyConstraints)?.max_latency_ms;
+      if (typeof maxLatencyMs !== 'number') continue;
+
+      const reason = latencyMs > maxLatencyMs
+        ? `${rule.name}: step took ${latencyMs}ms, limit is ${maxLatencyMs}ms`
+        : undefined;
+      decision = this.strictest(decision, await this.evaluate(runId, rule, step, 'latency', {
+        reason,
+        actual: { latency_ms: latencyMs },
+        expected: { max_latency_ms: maxLatencyMs },
+        modelSwitched,
+        afterRun: true,
+      }));
+    }
+
+    return decision;
+  }
+
+  // Record one check and resolve the fallback a failed check triggers
+  private async evaluate(
+    runId: string,
+    rule: PolicyRule,
+    step: Step,
+    check: PolicyCheck,
+    outcome: { reason?: string; actual: any; expected: any; modelSwitched?: boolean; afterRun?: boolean }
+  ): Promise<PolicyDecision> {
+    const decision: PolicyDecision = outcome.reason
+      ? { ...this.fallbackFor(rule, step, check, !!outcome.modelSwitched, !!outcome.afterRun), check, reason: outcome.reason }
+      : { action: 'continue' };
+
+    try {
+      await storage.createPolicyEvaluation({
+        runId,
+        policyRuleId: rule.id,
+        stepIdx: step.idx,
+        evaluationType: check,
+        passed: !outcome.reason,
+        actualValue: outcome.actual,
+        expectedValue: outcome.expected,
+        violationDetails: outcome.reason ? { message: outcome.reason, stepId: step.id } : null,
+        fallbackApplied: outcome.reason ? decision.action : null,
+      });
+    } catch (error) {
+      console.error('[Policy] Failed to record policy evaluation:', error);
+    }
+
+    if (outcome.reason) {
+      await this.log(runId, 'warn', `Policy ${check} check failed (${decision.action}): ${outcome.reason}`, step.idx);
+    }
+    return decision;
+  }
+
+  // Switching models only helps agent steps, and only once; otherwise it becomes an abort. A step
+  // that already ran can't be skipped any more: its output is kept.
+  private fallbackFor(rule: PolicyRule, step: Step, check: PolicyCheck, modelSwitched: boolean, afterRun: boolean): PolicyDecision {
+    const fallbacks = (rule.fallbacks as PolicyFallbacks | null) || {};
+    const action = fallbacks[check] ?? fallbacks.default ?? 'abort';
+    if (action === 'skip' && afterRun) {
+      return { action: 'continue' };
+    }
+    if (action !== 'switch_model') {
+      return { action };
+    }
+
+    const model = this.fallbackModel(rule);
+    if (!model || check === 'guard' || step.kind !== 'agent' || modelSwitched) {
+      return { action: 'abort' };
+    }
+    return { action, model };
+  }
+
+  private fallbackModel(rule: PolicyRule): string | undefined {
+    const routing = (rule.modelRouting as PolicyModelRouting | null) || {};
+    return routing.fallback ?? routing.large_escalation ?? ESCALATION_MODEL;
+  }
+
+  private strictest(current: PolicyDecision, next: PolicyDecision): PolicyDecision {
+    return SEVERITY[next.action] > SEVERITY[current.action] ? next : current;
+  }
+
+  // Model routing of the run's active rules; for each key the oldest rule that sets it wins
+  async modelRouting(runId: string): Promise<PolicyModelRouting> {
+    const routing: PolicyModelRouting = {};
+    for (const rule of await this.activeRules(runId)) {
+      for (const [key, model] of Object.entries((rule.modelRouting as PolicyModelRouting | null) || {})) {
+        if (model && routing[key as keyof PolicyModelRouting] === undefined) {
+          routing[key as keyof PolicyModelRouting] = model;
+        }
+      }
+    }
+    return routing;
+  }
+
+  // Active rules of the project the run's flow belongs to, when the policy engine is enabled for it
+  private async activeRules(runId: string): Promise<PolicyRule[]> {
+    const [owner] = await db
+      .select({ projectId: flows.projectId })
+      .from(runs)
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(eq(runs.id, runId))
+      .limit(1);
+    if (!owner || !(await featureFlagService.isEnabled(FeatureFlags.POLICY_ENGINE, owner.projectId))) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(policyRules)
+      .where(and(eq(policyRules.projectId, owner.projectId), eq(policyRules.isActive, true)))
+      .orderBy(policyRules.createdAt);
+  }
+
+  // Tools a step can call: its own tool, an agent's allowed tools, and for a foreach those of
+  // every sub-step (sub-steps run inside the foreach's enforcement, not through their own)
+  private async stepTools(step: Step): Promise<Array<{ id: string; name: string }>> {
+    if (step.kind === 'foreach') {
+      const nested = await Promise.all((step.config ? foreachSubSteps(step) : []).map((subStep) => this.stepTools(subStep)));
+      return Array.from(new Map(nested.flat().map((tool) => [tool.id, tool])).values());
+    }
+
+    if (step.kind === 'agent' && step.refId) {
+      const agent = await storage.getAgent(step.refId);
+      const refs = agent?.allowedTools || [];
+      const projectTools = await this.toolsById(refs.flatMap((ref) => (ref.kind === 'tool' ? [ref.id] : [])));
+      const mcpTools = refs.flatMap((ref) => (ref.kind === 'mcp' ? [{ id: `${ref.mcpConfigId}:${ref.name}`, name: ref.name }] : []));
+      return [...projectTools, ...mcpTools];
+    }
+
+    return step.kind === 'tool' && step.refId ? await this.toolsById([step.refId]) : [];
+  }
+
+  private async toolsById(ids: string[]): Promise<Array<{ id: string; name: string }>> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select({ id: tools.id, name: tools.name }).from(tools).where(inArray(tools.id, ids));
+  }
+
+  private async log(runId: string, level: string, message: string, stepIdx: number): Promise<void> {
+    try {
+      await storage.createLog({ runId, level, tags: { step: stepIdx.toString(), policy: 'true' }, message });
+    } catch (error) {
+      console.error('[Policy] Failed to write run log:', error);
+    }
+  }
+}
+
+// Save-time check of a policy rule's JSON columns
+export function validatePolicyRule(rule: {
+  constraints?: unknown;
+  guards?: unknown;
+  fallbacks?: unknown;
+  modelRouting?: unknown;
+}): string | null {
+  const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (rule.constraints !== undefined) {
+    if (!isObject(rule.constraints)) return 'Policy constraints must be an object';
+    const { max_latency_ms, max_cost_usd } = rule.constraints;
+    if (max_latency_ms !== undefined && (typeof max_latency_ms !== 'number' || !(max_latency_ms > 0))) {
+      return 'constraints.max_latency_ms must be a positive number';
+    }
+    if (max_cost_usd !== undefined && (typeof max_cost_usd !== 'number' || !(max_cost_usd >= 0))) {
+      return 'constraints.max_cost_usd must be a non-negative number';
+    }
+    const piiError = validatePiiMasking(rule.constraints.pii_masking);
+    if (piiError) return `constraints.${piiError}`;
+  }
+
+  if (rule.guards !== undefined && rule.guards !== null) {
+    if (!isObject(rule.guards)) return 'Policy guards must be an object';
+    const disallowed = rule.guards.disallowed_tools;
+    if (disallowed !== undefined && (!Array.isArray(disallowed) || disallowed.some((tool) => typeof tool !== 'string'))) {
+      return 'guards.disallowed_tools must be an array of tool names';
+    }
+  }
+
+  if (rule.fallbacks !== undefined && rule.fallbacks !== null) {
+    if (!isObject(rule.fallbacks)) return 'Policy fallbacks must be an object';
+    for (const [check, action] of Object.entries(rule.fallbacks)) {
+      if (!['default', 'latency', 'cost', 'guard'].includes(check)) {
+        return `Unknown fallback "${check}" (expected default, latency, cost or guard)`;
+      }
+      if (!ACTIONS.includes(action as PolicyAction)) {
+        return `fallbacks.${check} must be one of ${ACTIONS.join(', ')}`;
+      }
+    }
+  }
+
+  if (rule.modelRouting !== undefined && rule.modelRouting !== null) {
+    if (!isObject(rule.modelRouting)) return 'Policy modelRouting must be an object';
+    for (const [key, model] of Object.entries(rule.modelRouting)) {
+      if (typeof model !== 'string' || model.trim() === '') {
+        return `modelRouting.${key} must be a model name`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export const policyEngine = new PolicyEngine();
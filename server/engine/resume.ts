@@ -0,0 +1,28 @@
+import type { RunCheckpoint } from "../../shared/schema.js";
+
+export interface ResumePoint {
+  stepIdx: number;
+  context: Record<string, any> | null; // null = no checkpoint before this step, start from the run input
+}
+
+// Work out where a failed run should continue and which checkpointed context to restore.
+// Success checkpoints hold the context after their step, error checkpoints the context
+// before their step. Checkpoints must be ordered oldest first.
+export function resolveResumePoint(checkpoints: RunCheckpoint[], requestedStepIdx?: number): ResumePoint {
+  const lastError = [...checkpoints].reverse().find((cp) => cp.status === 'error');
+  const lastSuccess = [...checkpoints].reverse().find((cp) => cp.status === 'success');
+
+  const stepIdx = requestedStepIdx
+    ?? lastError?.stepIdx
+    ?? (lastSuccess ? lastSuccess.stepIdx + 1 : 0);
+
+  const source = [...checkpoints].reverse().find((cp) =>
+    (cp.status === 'error' && cp.stepIdx === stepIdx) ||
+    (cp.status === 'success' && cp.stepIdx < stepIdx)
+  );
+
+  return {
+    stepIdx,
+    context: source ? (source.contextJson as Record<string, any>) : null,
+  };
+}
@@ -0,0 +1,138 @@
+import type { Policy } from "./types.js";
+import { envInt } from "../env.js";
+
+// Timeout / retry / backoff helpers for step execution. Each attempt gets its own
+// AbortSignal that fires when the attempt times out, so LLM, HTTP and MCP calls
+// are actually cancelled instead of left running in the background.
+
+export type ErrorClass = 'timeout' | 'network' | 'rate_limit' | 'server' | 'client' | 'unknown';
+
+export class StepTimeoutError extends Error {
+  constructor(public timeoutMs: number, label: string) {
+    super(`${label} timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+export const DEFAULT_STEP_POLICY: Policy = {
+  timeoutMs: envInt('STEP_TIMEOUT_MS', 120000, 0),
+  maxRetries: envInt('STEP_MAX_RETRIES', 2, 0),
+};
+
+const BACKOFF_BASE_MS = envInt('STEP_BACKOFF_BASE_MS', 500, 0);
+const BACKOFF_MAX_MS = envInt('STEP_BACKOFF_MAX_MS', 30000, 0);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE',
+  'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT',
+]);
+
+const RETRYABLE_CLASSES = new Set<ErrorClass>(['timeout', 'network', 'rate_limit', 'server']);
+
+// Classify an error by walking its cause chain (SDKs and our own wrappers nest the original error)
+export function classifyError(error: unknown): ErrorClass {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++, current = current.cause) {
+    if (current instanceof StepTimeoutError || current.name === 'TimeoutError' || current.name === 'APIConnectionTimeoutError') {
+      return 'timeout';
+    }
+
+    const status = typeof current.status === 'number' ? current.status : undefined;
+    if (status === 429) return 'rate_limit';
+    if (status === 408) return 'timeout';
+    if (status !== undefined && status >= 500) return 'server';
+    if (status !== undefined && status >= 400) return 'client';
+
+    if (typeof current.code === 'string' && NETWORK_ERROR_CODES.has(current.code)) return 'network';
+    if (current.name === 'APIConnectionError') return 'network';
+    if (current instanceof TypeError && /fetch failed|network/i.test(current.message)) return 'network';
+  }
+  return 'unknown';
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return RETRYABLE_CLASSES.has(classifyError(error));
+}
+
+// Exponential backoff with equal jitter: half the capped delay is fixed, half random
+export function backoffDelay(attempt: number, baseMs = BACKOFF_BASE_MS, maxMs = BACKOFF_MAX_MS): number {
+  const cap = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+// Honour Retry-After on rate-limited responses (seconds, or an HTTP date)
+function retryAfterMs(error: unknown): number | undefined {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++, current = current.cause) {
+    if (typeof current.retryAfterMs === 'number') return current.retryAfterMs;
+
+    const headers = current.headers;
+    const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    if (value) {
+      const seconds = Number(value);
+      const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+      if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, BACKOFF_MAX_MS);
+    }
+  }
+  return undefined;
+}
+
+// Run fn with an AbortSignal that fires after timeoutMs; rejects with StepTimeoutError
+// even if fn ignores the signal. timeoutMs <= 0 disables the timeout.
+export async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string
+): Promise<T> {
+  const controller = new AbortController();
+  if (!timeoutMs || timeoutMs <= 0) {
+    return await fn(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new StepTimeoutError(timeoutMs, label);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface RetryOptions {
+  policy: Policy;
+  label: string; // Used in timeout messages, e.g. "Step 2"
+  shouldRetry?: (error: unknown) => boolean; // Defaults to isRetryableError
+  onRetry?: (retry: number, error: Error, delayMs: number) => Promise<void> | void;
+}
+
+// Run fn up to policy.maxRetries + 1 times, each attempt under policy.timeoutMs,
+// backing off between attempts that failed with a retryable error
+export async function withRetry<T>(
+  fn: (signal: AbortSignal, attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const shouldRetry = options.shouldRetry || isRetryableError;
+  const maxAttempts = Math.max(1, options.policy.maxRetries + 1);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withTimeout((signal) => fn(signal, attempt), options.policy.timeoutMs, options.label);
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = retryAfterMs(error) ?? backoffDelay(attempt);
+      await options.onRetry?.(attempt, error as Error, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { storage } from "../storage.js";
+import { executionEngine } from "../executionEngine.js";
+import { engineSelector } from "./engine-selector.js";
+import { langGraphRuntime } from "./langgraph-runtime.js";
+
+// Run a queued run on whichever engine the project's feature flags select
+export async function dispatchRun(runId: string): Promise<void> {
+  const run = await storage.getRun(runId);
+  if (!run) {
+    throw new Error(`Run ${runId} not found`);
+  }
+
+  const flow = await storage.getFlow(run.flowId);
+  if (!flow) {
+    throw new Error(`Flow ${run.flowId} not found`);
+  }
+
+  const selection = await engineSelector.selectEngine(flow, flow.projectId);
+  engineSelector.recordEngineSelection(runId, selection);
+
+  if (selection.engine === 'langgraph') {
+    await langGraphRuntime.executeFlow(flow, runId, {
+      initialContext: {
+        ...((run.input as Record<string, any>) || {}),
+        ...((run.context as Record<string, any>) || {}),
+      },
+      resumeFromStepIndex: run.resumeStepIdx ?? 0,
+    });
+    return;
+  }
+
+  await executionEngine.executeFlow(runId);
+}
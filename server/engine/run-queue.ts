@@ -0,0 +1,219 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { dispatchRun } from "./run-dispatcher.js";
+import { envInt } from "../env.js";
+import { LeasedWorker, type LeasedWorkerOptions } from "../leased-worker.js";
+import type { Run } from "../../shared/schema.js";
+
+export interface RunQueueOptions extends LeasedWorkerOptions {
+  projectConcurrency: number; // Default per-project limit when projects.maxConcurrentRuns is null
+  maxAttempts: number; // Claims before an orphaned run is failed instead of re-queued
+}
+
+export function runQueueOptionsFromEnv(): RunQueueOptions {
+  return {
+    concurrency: envInt('RUN_WORKER_CONCURRENCY', 4, 0),
+    projectConcurrency: envInt('RUN_PROJECT_CONCURRENCY', 2),
+    leaseMs: envInt('RUN_LEASE_MS', 60000),
+    pollIntervalMs: envInt('RUN_POLL_INTERVAL_MS', 2000),
+    maxAttempts: envInt('RUN_MAX_ATTEMPTS', 3),
+    shutdownTimeoutMs: envInt('RUN_SHUTDOWN_TIMEOUT_MS', 30000, 0),
+  };
+}
+
+// Serializes claims so the per-project running count can't be raced past its limit
+const CLAIM_LOCK_KEY = 7305001;
+
+// Statuses a run stays in until someone acts: finished, or parked on an approval
+const SETTLED_STATUSES = new Set(['success', 'error', 'awaiting_approval']);
+
+// Postgres-backed run queue: runs wait in status 'queued' and workers claim them
+// with a lease that is renewed while they execute. Runs whose lease lapses (worker
+// crash, restart) are re-queued by any live worker.
+export class RunQueue extends LeasedWorker<{ id: string }, RunQueueOptions> {
+  constructor(options: RunQueueOptions = runQueueOptionsFromEnv()) {
+    super(options, { name: 'RunQueue', noun: 'run', concurrencyEnv: 'RUN_WORKER_CONCURRENCY' });
+  }
+
+  get activeRunIds(): string[] {
+    return Array.from(this.active.keys());
+  }
+
+  // Wait up to timeoutMs for a run to finish or park on an approval (used by synchronous callers
+  // such as MCP tools/call); returns the run as it is then, still queued or running on timeout
+  async waitForSettled(runId: string, timeoutMs: number): Promise<Run> {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      const run = await storage.getRun(runId);
+      if (!run) {
+        throw new Error(`Run ${runId} not found`);
+      }
+      if (SETTLED_STATUSES.has(run.status) || Date.now() >= deadline) {
+        return run;
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(1000, Math.max(0, deadline - Date.now()))));
+    }
+  }
+
+  // Put a failed (or paused) run back in the queue to continue from resumeStepIdx with the given
+  // context; attempts restart so a resumed run gets the full recovery budget again
+  async requeue(
+    runId: string,
+    resumeStepIdx: number,
+    context: Record<string, any>,
+    fromStatus: 'error' | 'awaiting_approval' = 'error'
+  ): Promise<boolean> {
+    const result = await db.execute(sql`
+      UPDATE runs
+      SET status = 'queued',
+          resume_step_idx = ${resumeStepIdx},
+          context = ${JSON.stringify(context)}::jsonb,
+          attempts = 0,
+          completed_at = NULL,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE id = ${runId} AND status = ${fromStatus}
+      RETURNING id
+    `);
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+    this.wake();
+    return true;
+  }
+
+  // Unfinished runs go back to the queue; sub-flow runs are failed instead, the parent re-runs
+  // its flow step when it resumes
+  protected async releaseUnfinished(): Promise<void> {
+    const runIds = this.activeRunIds;
+    await db.execute(sql`
+      UPDATE runs
+      SET status = CASE WHEN parent_run_id IS NULL THEN 'queued' ELSE 'error' END,
+          completed_at = CASE WHEN parent_run_id IS NULL THEN completed_at ELSE now() END,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE lease_owner = ${this.workerId} AND status = 'running'
+    `);
+    for (const runId of runIds) {
+      await this.log(runId, 'warn', `Worker ${this.workerId} shut down before the run finished; run re-queued`);
+    }
+  }
+
+  // Claim the oldest queued run whose project is below its concurrency limit
+  protected async claimNext(): Promise<{ id: string } | null> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+      const result = await tx.execute(sql`
+        UPDATE runs
+        SET status = 'running',
+            lease_owner = ${this.workerId},
+            lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond'),
+            attempts = coalesce(attempts, 0) + 1,
+            started_at = coalesce(started_at, now())
+        WHERE id = (
+          SELECT r.id
+          FROM runs r
+          JOIN flows f ON f.id = r.flow_id
+          JOIN projects p ON p.id = f.project_id
+          WHERE r.status = 'queued'
+            AND (
+              SELECT count(*)
+              FROM runs active_run
+              JOIN flows active_flow ON active_flow.id = active_run.flow_id
+              WHERE active_flow.project_id = p.id AND active_run.status = 'running'
+            ) < coalesce(p.max_concurrent_runs, ${this.options.projectConcurrency})
+          ORDER BY r.created_at
+          FOR UPDATE OF r SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING id
+      `);
+
+      return (result.rows[0] as { id: string } | undefined) ?? null;
+    });
+  }
+
+  // Execute a claimed run; its lease is dropped whatever happens
+  protected async process({ id: runId }: { id: string }): Promise<void> {
+    try {
+      await dispatchRun(runId);
+    } catch (error) {
+      console.error(`[RunQueue] Run ${runId} failed:`, error);
+      await this.log(runId, 'error', `Run execution failed: ${(error as Error).message}`);
+    } finally {
+      try {
+        await this.release(runId);
+      } catch (error) {
+        console.error(`[RunQueue] Failed to release run ${runId}:`, error);
+      }
+    }
+  }
+
+  // Drop the lease; a run the engine left in 'running' did not finish cleanly
+  private async release(runId: string): Promise<void> {
+    await db.execute(sql`
+      UPDATE runs
+      SET lease_owner = NULL,
+          lease_expires_at = NULL,
+          status = CASE WHEN status = 'running' THEN 'error' ELSE status END,
+          completed_at = CASE WHEN status = 'running' THEN now() ELSE completed_at END
+      WHERE id = ${runId} AND lease_owner = ${this.workerId}
+    `);
+  }
+
+  protected async renewLeases(): Promise<string[]> {
+    const result = await db.execute(sql`
+      UPDATE runs
+      SET lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond')
+      WHERE lease_owner = ${this.workerId} AND status = 'running'
+      RETURNING id
+    `);
+    return (result.rows as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  // Re-queue runs whose worker stopped heartbeating (or that predate leases); runs that
+  // already used up their attempts, and sub-flow runs (re-run by their parent), are failed instead
+  async recoverExpiredLeases(): Promise<void> {
+    const result = await db.execute(sql`
+      UPDATE runs
+      SET status = CASE WHEN coalesce(attempts, 0) >= ${this.options.maxAttempts} OR parent_run_id IS NOT NULL THEN 'error' ELSE 'queued' END,
+          completed_at = CASE WHEN coalesce(attempts, 0) >= ${this.options.maxAttempts} OR parent_run_id IS NOT NULL THEN now() ELSE completed_at END,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE status = 'running'
+        AND (lease_expires_at IS NULL OR lease_expires_at < now())
+      RETURNING id, status, parent_run_id
+    `);
+
+    const recovered = result.rows as Array<{ id: string; status: string; parent_run_id: string | null }>;
+    for (const run of recovered) {
+      await this.log(
+        run.id,
+        run.status === 'queued' ? 'warn' : 'error',
+        run.status === 'queued'
+          ? 'Run lease expired (worker lost); run re-queued'
+          : run.parent_run_id
+            ? 'Sub-flow run lease expired (worker lost); run failed'
+            : `Run lease expired after ${this.options.maxAttempts} attempts; run failed`
+      );
+    }
+
+    if (recovered.length > 0) {
+      console.log(`[RunQueue] Recovered ${recovered.length} orphaned run(s)`);
+      this.wake();
+    }
+  }
+
+  private async log(runId: string, level: string, message: string): Promise<void> {
+    try {
+      await storage.createLog({ runId, level, tags: { worker: this.workerId }, message });
+    } catch (error) {
+      console.error('[RunQueue] Failed to write run log:', error);
+    }
+  }
+}
+
+export const runQueue = new RunQueue();
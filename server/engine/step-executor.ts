@@ -0,0 +1,648 @@
+import { z } from "zod";
+import { generateAgentResponse } from "../openaiClient.js";
+import { ESCALATION_MODEL, resolveModel } from "../llm/gateway.js";
+import { createNotionTasks } from "../notionClient.js";
+import { invokeMcpTool, type McpToolSpec } from "../mcp/client.js";
+import type { Agent, KnowledgeCitation, Tool } from "../../shared/schema.js";
+import type { Policy } from "./types.js";
+import {
+  resolveMappingValue,
+  validateMappingValue,
+  validateExpression,
+  parseTargetPath,
+  validateTargetPath,
+  assignPath,
+  evaluateExpression,
+  type ExpressionScope,
+} from "./expressions.js";
+import type { PiiRedactor } from "./pii.js";
+import type { PolicyModelRouting } from "./policy.js";
+import { loadAgentTools } from "./agent-tools.js";
+import type { LlmCallInfo, ToolLoopOptions } from "../openaiClient.js";
+import { recordLlmCall, recordToolCall, type MetricsTarget } from "./metrics.js";
+import { envInt } from "../env.js";
+
+// Shared agent/tool execution used by both the legacy ExecutionEngine and the
+// LangGraph compiler, so a step behaves the same whichever engine runs it.
+
+export type StepLogLevel = 'info' | 'warn' | 'error';
+
+// Extra attempts for agent output that fails its schema: one repair, then escalations (0 disables)
+const MAX_REPAIR_ATTEMPTS = envInt('AGENT_REPAIR_MAX_ATTEMPTS', 2, 0);
+// How much of a rejected answer is echoed back in the repair prompt
+const REPAIR_ECHO_CHARS = 4000;
+
+// Engines pass their own log sink (run logs, console, ...) to receive executor events
+export type StepLogFn = (level: StepLogLevel, message: string, tags?: Record<string, string>, payload?: any) => Promise<void> | void;
+
+export interface AgentStepOptions {
+  log?: StepLogFn;
+  instruction?: string; // Extra instruction prepended to the user message (e.g. retry hints)
+  signal?: AbortSignal; // Aborts the LLM call (step timeout)
+  model?: string; // Model override chosen by a policy fallback
+  stepModel?: string; // The step's config.model
+  routing?: PolicyModelRouting; // Project policy modelRouting (default and escalation models)
+  pii?: PiiRedactor | null; // Redacts the prompt and context sent to the LLM
+  metrics?: MetricsTarget; // Records tokens, cost and latency of the LLM call
+  onToken?: (token: AgentToken) => void; // Receives the answer's text while it is generated
+  disableTools?: boolean; // Answer without the agent's tools (previews outside a run and its policies)
+}
+
+// A streamed text chunk; turn counts tool-use round trips within the attempt
+export interface AgentToken {
+  attempt: number;
+  turn: number;
+  delta: string;
+}
+
+export interface AgentStepResult {
+  response: string;
+  model: string; // Model reference the step ran on
+  structured: Record<string, any> | null;
+  validationError?: string;
+  citations: KnowledgeCitation[]; // Knowledge chunks the answer was given, [Knowledge N] in the prompt
+}
+
+export interface StepConfig {
+  in?: Record<string, string>; // Input mapping: { "transcript": "$.transcript", "title": "=upper($.meeting.title)" }
+  out?: Record<string, string>; // Output mapping: { "summary": "$.summary", "items[0].id": "$.firstItemId" }
+  condition?: string; // Expression; the step is skipped when it evaluates falsy
+  args?: Record<string, any>; // Static tool arguments
+  model?: string; // Agent steps: model for this step only ("provider/model" or bare name)
+  failFast?: boolean; // Fail the run when this step fails, instead of recording step_N_error and continuing
+  detokenize?: boolean; // Tool steps: restore tokenized PII in the payload
+  policy?: Partial<Policy>; // Per-step timeoutMs / maxRetries
+  [key: string]: any;
+}
+
+// Replace {{key}} placeholders with values from context
+export function renderTemplate(template: string, context: Record<string, any>): string {
+  let rendered = template;
+  Object.keys(context).forEach(key => {
+    const value = context[key];
+    const replacement = value === undefined || value === null
+      ? ''
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    rendered = rendered.replace(new RegExp(`{{${key}}}`, 'g'), () => replacement);
+  });
+  return rendered;
+}
+
+// Extract the last ```json block from an agent response (agents end with structured output)
+export function extractJsonBlock(response: string): any | null {
+  const jsonMatches = response.match(/```json\s*(\{[\s\S]*?\})\s*```/g);
+  if (!jsonMatches || jsonMatches.length === 0) {
+    return null;
+  }
+
+  const lastJsonMatch = jsonMatches[jsonMatches.length - 1];
+  const jsonContent = lastJsonMatch.match(/```json\s*(\{[\s\S]*?\})\s*```/)?.[1];
+  if (!jsonContent) {
+    throw new Error("Could not extract JSON content from final block");
+  }
+
+  try {
+    return JSON.parse(jsonContent);
+  } catch (parseError) {
+    throw new Error(`JSON parsing failed: ${(parseError as Error).message}`);
+  }
+}
+
+// Convert JSON Schema to Zod schema for validation
+export function jsonSchemaToZod(schema: any): z.ZodSchema {
+  if (!schema || typeof schema !== 'object') {
+    return z.any();
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const shape: Record<string, z.ZodSchema> = {};
+    Object.entries(schema.properties).forEach(([key, propSchema]: [string, any]) => {
+      shape[key] = jsonSchemaToZod(propSchema);
+    });
+
+    // Handle optional vs required fields
+    if (schema.required && Array.isArray(schema.required)) {
+      const requiredFields = new Set(schema.required);
+      const partialShape: Record<string, z.ZodSchema> = {};
+      Object.entries(shape).forEach(([key, zodSchema]) => {
+        partialShape[key] = requiredFields.has(key) ? zodSchema : zodSchema.optional();
+      });
+      return z.object(partialShape);
+    }
+
+    return z.object(shape).partial(); // All fields optional by default
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    return z.array(jsonSchemaToZod(schema.items));
+  }
+
+  if (schema.type === 'string') {
+    if (schema.enum) {
+      return z.enum(schema.enum);
+    }
+    return z.string();
+  }
+
+  if (schema.type === 'number') {
+    return z.number();
+  }
+
+  if (schema.type === 'integer') {
+    return z.number().int();
+  }
+
+  if (schema.type === 'boolean') {
+    return z.boolean();
+  }
+
+  return z.any();
+}
+
+// Run an agent: render its template, call the LLM and parse/validate structured output.
+// Output that fails the agent's outputSchema is repaired: the same model is re-prompted with
+// the validation errors, then later attempts escalate to the policy's large_escalation model.
+export async function runAgentStep(
+  agent: Agent,
+  context: Record<string, any>,
+  options: AgentStepOptions = {}
+): Promise<AgentStepResult> {
+  const log = options.log || (() => {});
+  const tags = { agent: agent.name };
+
+  let userMessage = renderTemplate(agent.userTemplate || "", context);
+  if (options.instruction) {
+    userMessage = `${options.instruction}\n\n${userMessage}`;
+  }
+
+  let promptContext = context;
+  if (options.pii?.applies('prompts')) {
+    userMessage = await options.pii.redact(userMessage);
+    promptContext = await options.pii.redact(context);
+  }
+
+  const model = resolveModel({
+    override: options.model,
+    step: options.stepModel,
+    agent: agent.model,
+    routing: options.routing,
+  });
+  const escalationModel = options.routing?.large_escalation || ESCALATION_MODEL;
+  const tools = options.disableTools ? null : await loadAgentTools(agent, {
+    log,
+    signal: options.signal,
+    metrics: options.metrics,
+    pii: options.pii,
+    runTool: (tool, payload, signal, metrics) => runToolStep(tool, payload, false, signal, metrics),
+  });
+
+  let output = await runAgentAttempt(agent, userMessage, promptContext, model, tools, options, { attempt: 1, purpose: 'initial' });
+
+  // Agents without an output schema may answer in plain text, so only schema agents are repaired
+  for (let attempt = 2; agent.outputSchema && output.problem && attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    const purpose: AttemptPurpose = attempt === 2 || !escalationModel ? 'repair' : 'escalation';
+    const attemptModel = purpose === 'escalation' ? escalationModel! : model;
+    await log('warn', purpose === 'repair'
+      ? `Output failed validation (${output.problem}), asking ${attemptModel} to repair it (attempt ${attempt})`
+      : `Output failed validation (${output.problem}), escalating to ${attemptModel} (attempt ${attempt})`, tags);
+
+    output = await runAgentAttempt(
+      agent,
+      repairMessage(agent, userMessage, output.response, output.problem),
+      promptContext,
+      attemptModel,
+      tools,
+      options,
+      { attempt, purpose }
+    );
+  }
+
+  const { response, structured, validationError, citations } = output;
+  if (citations.length > 0) {
+    await log('info', `Answered with ${citations.length} knowledge source(s): ${Array.from(new Set(citations.map((citation) => citation.title))).join(', ')}`, tags, { citations });
+  }
+  if (output.parseError) {
+    await log('error', `Failed to parse structured output: ${output.parseError}`, tags);
+  } else if (!structured) {
+    await log('warn', `No JSON output found from agent ${agent.name}, using text-only output`, tags);
+  } else if (validationError) {
+    await log('warn', `Schema validation failed: ${validationError}, using unvalidated output`, tags);
+  } else if (agent.outputSchema) {
+    await log('info', `Successfully validated structured output against schema`, tags);
+  }
+
+  return { response, model: output.model, structured, validationError, citations };
+}
+
+type AttemptPurpose = 'initial' | 'repair' | 'escalation';
+
+interface AgentAttempt extends AgentStepResult {
+  parseError?: string;
+  problem?: string; // Why the output doesn't satisfy the output schema, if it doesn't
+}
+
+// One answer from the LLM (several calls when it uses tools) plus output validation. Every
+// completion is recorded as a run metric tagged with its attempt and tool-use turn.
+async function runAgentAttempt(
+  agent: Agent,
+  userMessage: string,
+  promptContext: Record<string, any>,
+  model: string,
+  tools: ToolLoopOptions | null,
+  options: AgentStepOptions,
+  attempt: { attempt: number; purpose: AttemptPurpose }
+): Promise<AgentAttempt> {
+  const calls: LlmCallInfo[] = [];
+  const startedAt = Date.now();
+  let response: string;
+  let citations: KnowledgeCitation[] = [];
+  // A delta can end mid-way through an email or card number, so runs that redact logs or outputs
+  // don't stream: the raw text would reach subscribers before redaction
+  const onToken = options.pii?.applies('logs') || options.pii?.applies('outputs') ? undefined : options.onToken;
+  try {
+    // Transient failures are retried by the engine's step policy, not inside the SDK
+    response = await generateAgentResponse(agent.systemPrompt, userMessage, promptContext, agent.id, {
+      signal: options.signal,
+      maxRetries: options.signal ? 0 : undefined,
+      model,
+      tools: tools || undefined,
+      onToken: onToken && ((delta, turn) => onToken({ attempt: attempt.attempt, turn, delta })),
+      onCitations: (retrieved) => {
+        citations = retrieved;
+      },
+      onCall: (call) => calls.push(call),
+    });
+  } catch (error) {
+    await recordAttemptCalls(options, agent, model, attempt, calls);
+    throw error;
+  }
+
+  const output = { ...validateAgentOutput(agent, response, model), citations };
+  // Answers that made no LLM call (no provider configured) still get a row
+  if (calls.length === 0) {
+    calls.push({ turn: 1, latencyMs: Date.now() - startedAt, usage: null });
+  }
+  await recordAttemptCalls(options, agent, model, attempt, calls, output.problem);
+  return output;
+}
+
+// The schema problem belongs to the attempt's last completion, the one that gave the answer
+async function recordAttemptCalls(
+  options: AgentStepOptions,
+  agent: Agent,
+  model: string,
+  attempt: { attempt: number; purpose: AttemptPurpose },
+  calls: LlmCallInfo[],
+  problem?: string
+): Promise<void> {
+  if (!options.metrics) return;
+  for (const [index, call] of Array.from(calls.entries())) {
+    const last = index === calls.length - 1;
+    await recordLlmCall(options.metrics, agent, {
+      model,
+      usage: call.usage,
+      latencyMs: call.latencyMs,
+      error: call.error,
+      metadata: { ...attempt, turn: call.turn, ...(last && problem ? { validationError: problem } : {}) },
+    });
+  }
+}
+
+function validateAgentOutput(agent: Agent, response: string, model: string): Omit<AgentAttempt, 'citations'> {
+  let structured: Record<string, any> | null;
+  try {
+    structured = extractJsonBlock(response);
+  } catch (error) {
+    const message = (error as Error).message;
+    return { response, model, structured: null, validationError: message, parseError: message, problem: message };
+  }
+
+  if (!structured) {
+    return { response, model, structured: null, problem: 'no ```json block found' };
+  }
+
+  if (agent.outputSchema) {
+    const validation = jsonSchemaToZod(agent.outputSchema).safeParse(structured);
+    if (!validation.success) {
+      const validationError = formatZodIssues(validation.error);
+      return { response, model, structured, validationError, problem: validationError };
+    }
+    structured = validation.data;
+  }
+  return { response, model, structured };
+}
+
+function formatZodIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function repairMessage(agent: Agent, userMessage: string, previous: string, problem: string): string {
+  return [
+    `Your previous answer could not be used: ${problem}`,
+    `Previous answer:\n${previous.slice(0, REPAIR_ECHO_CHARS)}`,
+    `Answer the request below again and end with a \`\`\`json block matching this JSON schema:\n${JSON.stringify(agent.outputSchema)}`,
+    userMessage,
+  ].join('\n\n');
+}
+
+// Context entries produced by an agent step, using the same keys the legacy engine always wrote
+export function agentContextUpdates(agent: Agent, result: AgentStepResult): Record<string, any> {
+  const updates: Record<string, any> = {
+    [`${agent.name}_output`]: result.response,
+  };
+  if (result.citations.length > 0) {
+    updates[`${agent.name}_citations`] = result.citations;
+  }
+
+  if (result.structured && typeof result.structured === 'object') {
+    Object.assign(updates, result.structured);
+
+    if (result.structured.tool_call && typeof result.structured.tool_call === 'object') {
+      updates[`${agent.name}_tool_call`] = result.structured.tool_call;
+    }
+  }
+
+  return updates;
+}
+
+// Context entries produced by a tool step (dot and underscore naming for template compatibility)
+export function toolContextUpdates(tool: Tool, result: any): Record<string, any> {
+  const underscoreName = tool.name.replace(/\./g, '_');
+  return {
+    [`${tool.name}_result`]: result,
+    [`${underscoreName}_result`]: result,
+  };
+}
+
+// Resolve "$..." references and "=..." expressions against context and prior step outputs;
+// anything else is a literal
+export function mapStepInputs(
+  mapping: Record<string, string>,
+  context: Record<string, any>,
+  steps: Record<string, any> = {}
+): Record<string, any> {
+  const scope: ExpressionScope = { context, steps };
+  const mapped: Record<string, any> = {};
+  for (const [key, value] of Object.entries(mapping)) {
+    mapped[key] = resolveMappingValue(value, scope);
+  }
+  return mapped;
+}
+
+// Apply a step's declared output mapping ({ outputKey: "$.contextPath" }) to its output.
+// Keys are output fields, or paths into the output ("data.items[0]"); targets may be
+// nested context paths, which are written copy-on-write into the current context value.
+export function mapStepOutputs(
+  mapping: Record<string, string>,
+  output: any,
+  context: Record<string, any> = {}
+): Record<string, any> {
+  const mapped: Record<string, any> = {};
+  if (!output || typeof output !== 'object') {
+    return mapped;
+  }
+  for (const [outputKey, contextPath] of Object.entries(mapping)) {
+    if (typeof contextPath !== 'string' || !contextPath.startsWith('$')) {
+      continue;
+    }
+
+    let value: any;
+    if (Object.prototype.hasOwnProperty.call(output, outputKey)) {
+      value = output[outputKey];
+    } else if (/[.[]/.test(outputKey)) {
+      value = evaluateExpression(outputKey, { context: output });
+    } else {
+      continue;
+    }
+
+    const [key, ...rest] = parseTargetPath(contextPath);
+    const current = key in mapped ? mapped[key] : context[key];
+    mapped[key] = assignPath(current, rest, value);
+  }
+  return mapped;
+}
+
+// Save-time check of a step's expressions (condition, mappings, branch conditions);
+// returns an error message, or null when everything parses
+export function validateStepConfig(config: StepConfig | null | undefined): string | null {
+  if (!config) {
+    return null;
+  }
+
+  if (config.condition !== undefined && config.condition !== null && config.condition !== '') {
+    if (typeof config.condition !== 'string') {
+      return 'Step condition must be a string expression';
+    }
+    const error = validateExpression(config.condition);
+    if (error) return `Step condition: ${error}`;
+  }
+
+  for (const value of Object.values(config.in || {})) {
+    const error = validateMappingValue(value);
+    if (error) return `Input mapping: ${error}`;
+  }
+
+  for (const [outputKey, target] of Object.entries(config.out || {})) {
+    if (/[.[]/.test(outputKey)) {
+      const keyError = validateExpression(outputKey);
+      if (keyError) return `Output mapping: ${keyError}`;
+    }
+    const error = typeof target === 'string' ? validateTargetPath(target) : `Output target for "${outputKey}" must be a string`;
+    if (error) return `Output mapping: ${error}`;
+  }
+
+  for (const [branchName, branch] of Object.entries(config.branches || {})) {
+    const when = (branch as any)?.when;
+    if (typeof when === 'string') {
+      const error = validateExpression(when);
+      if (error) return `Branch "${branchName}": ${error}`;
+    }
+  }
+
+  return null;
+}
+
+// Tool payload: mapped inputs when the step declares them, otherwise the whole context
+export function buildToolPayload(
+  config: StepConfig | null | undefined,
+  context: Record<string, any>,
+  steps: Record<string, any> = {}
+): Record<string, any> {
+  const base = config?.in ? mapStepInputs(config.in, context, steps) : context;
+  return config?.args ? { ...base, ...config.args } : base;
+}
+
+// Execute a project tool by type; signal aborts HTTP and MCP calls (step timeout).
+// With a metrics target the call's latency and outcome are recorded.
+export async function runToolStep(
+  tool: Tool,
+  payload: Record<string, any>,
+  simplified = false,
+  signal?: AbortSignal,
+  metrics?: MetricsTarget
+): Promise<any> {
+  if (!metrics) {
+    return await dispatchTool(tool, payload, simplified, signal);
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await dispatchTool(tool, payload, simplified, signal);
+    await recordToolCall(metrics, tool, { latencyMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    await recordToolCall(metrics, tool, { latencyMs: Date.now() - startedAt, error: error as Error });
+    throw error;
+  }
+}
+
+async function dispatchTool(
+  tool: Tool,
+  payload: Record<string, any>,
+  simplified: boolean,
+  signal?: AbortSignal
+): Promise<any> {
+  if (tool.type === 'builtin') {
+    return await executeBuiltinTool(tool, payload);
+  } else if (tool.type === 'http') {
+    return await executeHttpTool(tool, simplified ? simplifyPayload(payload) : payload, signal);
+  } else if (tool.type === 'mcp') {
+    return await executeMcpTool(tool, payload, signal);
+  }
+  throw new Error(`Unknown tool type: ${tool.type}`);
+}
+
+async function executeBuiltinTool(tool: Tool, context: Record<string, any>): Promise<any> {
+  if (tool.name === 'notion.create_tasks') {
+    // Use structured action_items from context if available, otherwise extract from text
+    let tasks = context.action_items || [];
+
+    if (tasks.length === 0) {
+      tasks = extractTasksFromContext(context);
+    }
+
+    // Normalize data shape: map {owner, task, due_by, priority, notes} to {title, owner, due, priority, notes}
+    const normalizedTasks = tasks.map((task: any) => {
+      const normalizedTask: any = {
+        title: (task.task || task.title || '').trim() || 'Untitled Task',
+        owner: (task.owner || '').trim() || undefined,
+        due: (task.due_by || task.due || '').trim() || undefined,
+        priority: (task.priority || 'Medium').trim() as 'Low' | 'Medium' | 'High',
+        notes: (task.notes || '').trim() || undefined
+      };
+
+      // Remove undefined/empty fields
+      Object.keys(normalizedTask).forEach(key => {
+        if (normalizedTask[key] === undefined || normalizedTask[key] === '') {
+          delete normalizedTask[key];
+        }
+      });
+
+      return normalizedTask;
+    }).filter((task: any) => task.title && task.title !== 'Untitled Task');
+
+    // Get database_id from tool spec, context, or environment
+    const databaseId = (tool.spec as any)?.database_id ||
+                      context.notion_database_id ||
+                      process.env.NOTION_DATABASE_ID ||
+                      null;
+
+    return await createNotionTasks(normalizedTasks, databaseId);
+  }
+
+  throw new Error(`Builtin tool not implemented: ${tool.name}`);
+}
+
+async function executeHttpTool(tool: Tool, payload: Record<string, any>, signal?: AbortSignal): Promise<any> {
+  const spec = tool.spec as any;
+  const response = await fetch(spec.url, {
+    method: spec.method || 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(spec.headers || {})
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    // status and headers let the retry policy tell rate limits and 5xx from client errors
+    throw Object.assign(new Error(`HTTP tool failed: ${response.status} ${response.statusText}`), {
+      status: response.status,
+      headers: response.headers,
+    });
+  }
+
+  return await response.json();
+}
+
+async function executeMcpTool(tool: Tool, payload: Record<string, any>, signal?: AbortSignal): Promise<any> {
+  return await invokeMcpTool(tool.spec as McpToolSpec, tool.name, payload, tool.projectId, signal);
+}
+
+function extractTasksFromContext(context: Record<string, any>): Array<{
+  title: string;
+  owner?: string;
+  due?: string;
+  priority?: 'Low' | 'Medium' | 'High';
+  notes?: string;
+}> {
+  // Look for action items in various formats in the context
+  const tasks = [];
+
+  for (const [key, value] of Object.entries(context)) {
+    if (key.includes('action') || key.includes('task')) {
+      if (typeof value === 'string') {
+        const lines = value.split('\n').filter(line => line.trim());
+        for (const line of lines) {
+          if (line.includes('|') && (line.includes('Task') || line.includes('Owner'))) {
+            // Table format
+            const parts = line.split('|').map(p => p.trim());
+            if (parts.length >= 2) {
+              tasks.push({
+                title: parts[1],
+                owner: parts[0],
+                priority: 'Medium' as const
+              });
+            }
+          } else if (line.match(/^[-*•]\s/)) {
+            // Bullet point format
+            tasks.push({
+              title: line.replace(/^[-*•]\s/, ''),
+              priority: 'Medium' as const
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // If no tasks found, create a default one
+  if (tasks.length === 0) {
+    tasks.push({
+      title: 'Review and organize extracted content',
+      priority: 'Medium' as const
+    });
+  }
+
+  return tasks;
+}
+
+function simplifyPayload(context: Record<string, any>): Record<string, any> {
+  // Create a simplified version of the context for retry attempts
+  const simplified: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(context)) {
+    if (typeof value === 'string' && value.length > 1000) {
+      simplified[key] = value.substring(0, 1000) + '...';
+    } else if (Array.isArray(value) && value.length > 5) {
+      simplified[key] = value.slice(0, 5);
+    } else {
+      simplified[key] = value;
+    }
+  }
+
+  return simplified;
+}
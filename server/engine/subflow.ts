@@ -0,0 +1,129 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { runs } from "../../shared/schema.js";
+import type { Run, Step } from "../../shared/schema.js";
+import { mapStepInputs, mapStepOutputs, type StepConfig } from "./step-executor.js";
+import { dispatchRun } from "./run-dispatcher.js";
+import { envInt } from "../env.js";
+
+export interface SubflowOutcome {
+  childRun: Run;
+  output: Record<string, any>; // The child run's final context
+  contextUpdates: Record<string, any>;
+}
+
+// Sub-flow runs nested below a top-level run (a flow calling itself stops here)
+const MAX_SUBFLOW_DEPTH = envInt('SUBFLOW_MAX_DEPTH', 5);
+
+// Run the flow referenced by a 'flow' step as a child run of parentRunId. The child executes
+// inline on the parent's worker and shares its lease, so it never waits for a queue slot the
+// parent is holding. Inputs and outputs are mapped like agent steps: config.in selects the
+// child's input (default: the whole context), config.out maps the child's final context back.
+export async function runSubflowStep(
+  parentRunId: string,
+  step: Step,
+  context: Record<string, any>,
+  steps: Record<string, any> = {}
+): Promise<SubflowOutcome> {
+  if (!step.refId) {
+    throw new Error(`Step ${step.id} has no flow reference`);
+  }
+
+  const parentRun = await storage.getRun(parentRunId);
+  if (!parentRun) {
+    throw new Error(`Run ${parentRunId} not found`);
+  }
+
+  const [parentFlow, childFlow] = await Promise.all([
+    storage.getFlow(parentRun.flowId),
+    storage.getFlow(step.refId),
+  ]);
+  if (!childFlow) {
+    throw new Error(`Flow ${step.refId} not found`);
+  }
+  if (childFlow.projectId !== parentFlow?.projectId) {
+    throw new Error(`Flow ${childFlow.name} belongs to another project`);
+  }
+
+  const depth = await runDepth(parentRunId);
+  if (depth >= MAX_SUBFLOW_DEPTH) {
+    throw new Error(`Sub-flow depth limit of ${MAX_SUBFLOW_DEPTH} reached calling ${childFlow.name}`);
+  }
+
+  const config = step.config as StepConfig | null;
+  const input = config?.in ? mapStepInputs(config.in, context, steps) : { ...context };
+
+  const [childRun] = await db
+    .insert(runs)
+    .values({
+      flowId: childFlow.id,
+      sessionId: parentRun.sessionId,
+      status: 'running',
+      input,
+      parentRunId,
+      parentStepIdx: step.idx,
+      attempts: 1,
+      leaseOwner: parentRun.leaseOwner,
+      leaseExpiresAt: parentRun.leaseExpiresAt,
+      startedAt: new Date(),
+    })
+    .returning();
+
+  await log(parentRunId, 'info', `Starting sub-flow ${childFlow.name} (run ${childRun.id})`, step.idx);
+
+  try {
+    await dispatchRun(childRun.id);
+  } finally {
+    // Same as the queue's release: a child the engine left running did not finish cleanly
+    await db.execute(sql`
+      UPDATE runs
+      SET lease_owner = NULL,
+          lease_expires_at = NULL,
+          status = CASE WHEN status = 'running' THEN 'error' ELSE status END,
+          completed_at = CASE WHEN status = 'running' THEN now() ELSE completed_at END
+      WHERE id = ${childRun.id}
+    `);
+  }
+
+  const finished = await storage.getRun(childRun.id);
+  if (!finished || finished.status !== 'success') {
+    const reason = finished?.status === 'awaiting_approval'
+      ? 'paused for approval, which sub-flows do not support'
+      : `ended with status ${finished?.status ?? 'unknown'}`;
+    throw new Error(`Sub-flow ${childFlow.name} (run ${childRun.id}) ${reason}`);
+  }
+
+  const output = (finished.context as Record<string, any>) || {};
+  const contextUpdates: Record<string, any> = {
+    [`step_${step.idx}_output`]: output,
+    ...(config?.out ? mapStepOutputs(config.out, output, context) : {}),
+  };
+
+  await log(parentRunId, 'info', `Sub-flow ${childFlow.name} completed (run ${childRun.id})`, step.idx);
+
+  return { childRun: finished, output, contextUpdates };
+}
+
+// Number of ancestors above a run (0 for a top-level run)
+async function runDepth(runId: string): Promise<number> {
+  const result = await db.execute(sql`
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_run_id, 0 AS depth FROM runs WHERE id = ${runId}
+      UNION ALL
+      SELECT parent.id, parent.parent_run_id, ancestors.depth + 1
+      FROM runs parent JOIN ancestors ON parent.id = ancestors.parent_run_id
+      WHERE ancestors.depth < ${MAX_SUBFLOW_DEPTH + 1}
+    )
+    SELECT max(depth) AS depth FROM ancestors
+  `);
+  return Number((result.rows[0] as { depth: number | null } | undefined)?.depth ?? 0);
+}
+
+async function log(runId: string, level: string, message: string, stepIdx: number): Promise<void> {
+  try {
+    await storage.createLog({ runId, level, tags: { step: stepIdx.toString(), subflow: 'true' }, message });
+  } catch (error) {
+    console.error('[Subflow] Failed to write run log:', error);
+  }
+}
@@ -55,6 +55,7 @@ export interface AgentDef {
   outputSchema?: z.ZodSchema;
   fewShots?: string;
   capabilities?: any;
+  model?: string; // "provider/model" or bare model name; defaults to LLM_DEFAULT_MODEL
 }
 
 export interface ToolDef {
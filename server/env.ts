@@ -0,0 +1,6 @@
+// Integer settings read from the environment. Unset, non-numeric and out-of-range values fall
+// back to the default; pass min = 0 for settings where 0 means something (disable, no wait).
+export function envInt(name: string, fallback: number, min = 1): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
@@ -1,28 +1,31 @@
 import { storage } from "./storage";
-import { generateAgentResponse } from "./openaiClient";
-import { createNotionTasks } from "./notionClient";
+import { getWebSocketManager, type WSMessage } from "./websocket";
+import {
+  runAgentStep,
+  runToolStep,
+  agentContextUpdates,
+  toolContextUpdates,
+  buildToolPayload,
+  type StepConfig,
+} from "./engine/step-executor";
+import { approvalService } from "./engine/approvals";
+import { evaluateCondition } from "./engine/expressions";
+import { runForeachStep } from "./engine/foreach";
+import { runSubflowStep } from "./engine/subflow";
+import { policyEngine, PolicyViolationError } from "./engine/policy";
+import { piiService } from "./engine/pii";
+import { withRetry, withTimeout, classifyError, DEFAULT_STEP_POLICY } from "./engine/retry";
+import type { Policy } from "./engine/types";
 import type { Run, Step, Agent, Tool } from "@shared/schema";
-import { z } from "zod";
 
 class ExecutionEngine {
-  private activeRuns = new Map<string, any>();
-  private wss: any = null;
-
-  setWebSocketServer(wss: any) {
-    this.wss = wss;
-  }
-
-  private broadcastToRun(runId: string, message: any) {
-    if (this.wss) {
-      this.wss.clients.forEach((client: any) => {
-        if (client.readyState === 1 && client.runId === runId) { // WebSocket.OPEN === 1
-          client.send(JSON.stringify(message));
-        }
-      });
-    }
+  private broadcastToRun(runId: string, message: Omit<WSMessage, 'runId'>) {
+    getWebSocketManager()?.broadcastToRun(runId, message);
   }
 
   async executeFlow(runId: string) {
+    let context: any = undefined;
+
     try {
       const run = await storage.getRun(runId);
       if (!run) {
@@ -38,35 +41,56 @@ class ExecutionEngine {
       }
 
       const steps = await storage.getSteps(run.flowId);
-      let context = run.context || {};
+      // Flow inputs seed the context; anything already in the run context wins
+      context = { ...((run.input as any) || {}), ...((run.context as any) || {}) };
+
+      // Resumed runs start at the requested step with the restored context
+      const resumeStepIdx = run.resumeStepIdx ?? 0;
+      if (resumeStepIdx > 0) {
+        await this.logMessage(runId, 'info', { session: run.sessionId }, `Resuming flow execution from step ${resumeStepIdx}`);
+      }
+
+      // Context entries written by each step, readable as $steps['<id>'] in expressions
+      // (steps before a resume point are not available)
+      const stepOutputs: Record<string, any> = {};
 
       // Execute steps sequentially
       for (let i = 0; i < steps.length; i++) {
         const step = steps[i];
+        if (step.idx < resumeStepIdx) {
+          continue;
+        }
+
         await this.logMessage(runId, 'info', { 
           session: run.sessionId, 
           step: step.idx.toString() 
         }, `Starting step ${step.idx}: ${step.kind}`);
 
+        // Context as it was before this step, so a failed step can be re-executed
+        const contextBeforeStep = { ...context };
+        let awaitingApproval = false;
+        let skipReason: string | undefined;
+
+        const policy = this.resolveStepPolicy(step);
+        const condition = (step.config as StepConfig | null)?.condition;
+
         try {
-          if (step.kind === 'agent') {
-            context = await this.executeAgentStepWithRetry(runId, run.sessionId, step, context);
-            
-            // Check if agent requested a tool call via structured output
-            const agent = await storage.getAgent(step.refId);
-            const toolCallKey = `${agent?.name}_tool_call`;
-            
-            if ((context as any)[toolCallKey] && typeof (context as any)[toolCallKey] === 'object') {
-              await this.logMessage(runId, 'info', { 
-                session: run.sessionId, 
-                agent: agent?.name || 'unknown',
-                step: step.idx.toString() 
-              }, `Auto-executing tool call requested by agent: ${agent?.name}`);
-              
-              context = await this.autoExecuteToolCall(runId, run.sessionId, (context as any)[toolCallKey], context, step.idx);
+          if (condition && !evaluateCondition(condition, { context, steps: stepOutputs })) {
+            skipReason = 'condition not met';
+          } else if (step.kind === 'approval') {
+            await approvalService.requestApproval(run, step, context);
+            awaitingApproval = true;
+          } else {
+            // Project policies are checked around the step and may skip it or switch its model
+            const enforcement = await policyEngine.enforce(runId, step, (model) =>
+              this.executeStep(runId, run.sessionId, step, contextBeforeStep, stepOutputs, policy, model)
+            );
+            if (enforcement.skipped) {
+              skipReason = enforcement.reason;
+              context = contextBeforeStep;
+            } else {
+              context = enforcement.result;
             }
-          } else if (step.kind === 'tool') {
-            context = await this.executeToolStep(runId, run.sessionId, step, context);
           }
         } catch (error) {
           await this.logMessage(runId, 'error', { 
@@ -74,292 +98,267 @@ class ExecutionEngine {
             step: step.idx.toString() 
           }, `Step failed: ${(error as Error).message}`);
           
-          // Attempt retry with simplified payload
-          try {
-            await this.logMessage(runId, 'info', { 
-              session: run.sessionId, 
-              step: step.idx.toString() 
-            }, `Retrying step with simplified payload`);
-            
-            if (step.kind === 'tool') {
-              context = await this.executeToolStep(runId, run.sessionId, step, context, true);
-            } else {
-              throw error; // Don't retry agent steps
+          // A tool that rejected its payload gets one more attempt with a simplified payload
+          let recovered = false;
+          if (step.kind === 'tool' && classifyError(error) === 'client' && !(error instanceof PolicyViolationError)) {
+            try {
+              await this.logMessage(runId, 'info', { 
+                session: run.sessionId, 
+                step: step.idx.toString() 
+              }, `Retrying step with simplified payload`);
+              
+              context = await withTimeout(
+                (signal) => this.executeToolStep(runId, run.sessionId, step, { ...contextBeforeStep }, stepOutputs, true, signal),
+                policy.timeoutMs,
+                `Step ${step.idx}`
+              );
+              recovered = true;
+            } catch (retryError) {
+              await this.logMessage(runId, 'error', { 
+                session: run.sessionId, 
+                step: step.idx.toString() 
+              }, `Step retry failed: ${(retryError as Error).message}`);
             }
-          } catch (retryError) {
-            await this.logMessage(runId, 'error', { 
-              session: run.sessionId, 
-              step: step.idx.toString() 
-            }, `Step retry failed: ${(retryError as Error).message}`);
-            
-            // Continue with text-only result
-            (context as any)[`step_${step.idx}_error`] = (error as Error).message;
           }
+          
+          if (!recovered) {
+            // Policy aborts and approvals that could not be requested always fail the run (going on
+            // would pass the gate unapproved); other failures only when the step opted in to failing fast
+            if ((step.config as StepConfig | null)?.failFast || error instanceof PolicyViolationError || step.kind === 'approval') {
+              await this.saveCheckpoint(runId, step.idx, 'error', contextBeforeStep);
+              context = contextBeforeStep;
+              throw new Error(`Step ${step.idx} failed: ${(error as Error).message}`);
+            }
+
+            // Record the error for later steps and carry on
+            context = { ...contextBeforeStep, [`step_${step.idx}_error`]: (error as Error).message };
+          }
+        }
+
+        // The run stays parked until the approval is decided; approving re-queues it after this step
+        if (awaitingApproval) {
+          await this.logMessage(runId, 'info', {
+            session: run.sessionId,
+            step: step.idx.toString()
+          }, `Flow paused at step ${step.idx} awaiting approval`);
+          this.broadcastToRun(runId, { type: 'status_update', data: { status: 'awaiting_approval' } });
+          return;
+        }
+
+        if (skipReason !== undefined) {
+          await this.logMessage(runId, 'info', {
+            session: run.sessionId,
+            step: step.idx.toString()
+          }, `Skipping step ${step.idx}: ${skipReason}`);
+        } else {
+          stepOutputs[step.id] = this.contextChanges(contextBeforeStep, context);
         }
+
+        await this.saveCheckpoint(runId, step.idx, 'success', context);
       }
 
       await this.updateRunStatus(runId, 'success', context);
       await this.logMessage(runId, 'info', { session: run.sessionId }, `Flow execution completed successfully`);
       
     } catch (error) {
-      await this.updateRunStatus(runId, 'error');
+      await this.updateRunStatus(runId, 'error', context);
       await this.logMessage(runId, 'error', {}, `Flow execution failed: ${(error as Error).message}`);
     }
   }
 
-  private async executeAgentStepWithRetry(runId: string, sessionId: string, step: Step, context: any): Promise<any> {
-    const maxRetries = 2;
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
-      try {
-        const result = await this.executeAgentStep(runId, sessionId, step, context);
-        
-        // Check if we got structured output - if not on first attempt, retry
-        const agent = await storage.getAgent(step.refId);
-        if (agent?.outputSchema && attempt === 1) {
-          const hasStructuredFields = Object.keys((agent.outputSchema as any)?.properties || {}).some(
-            field => result.hasOwnProperty(field)
-          );
-          
-          if (!hasStructuredFields) {
-            await this.logMessage(runId, 'warn', {
-              session: sessionId,
-              agent: agent.name,
-              attempt: attempt.toString()
-            }, `No structured output detected on attempt ${attempt}, retrying with enhanced prompt`);
-            
-            // Add retry instruction to context for next attempt
-            context._retry_instruction = "CRITICAL: Your previous response did not end with a properly formatted JSON block. You MUST end your response with a JSON code block that matches your outputSchema exactly.";
-            continue;
-          }
-        }
-        
-        // Remove retry instruction on success
-        delete context._retry_instruction;
-        return result;
-        
-      } catch (error) {
-        lastError = error as Error;
-        
-        await this.logMessage(runId, 'warn', {
-          session: sessionId,
-          step: step.idx.toString(),
-          attempt: attempt.toString()
-        }, `Agent step attempt ${attempt} failed: ${lastError.message}`);
-        
-        if (attempt > maxRetries) {
-          break;
-        }
-        
-        // Add retry context for next attempt
-        context._retry_instruction = `CRITICAL: Previous attempt failed with error: ${lastError.message}. Ensure your response ends with a properly formatted JSON block that matches your outputSchema.`;
-      }
+  private async saveCheckpoint(runId: string, stepIdx: number, status: 'success' | 'error', context: any) {
+    try {
+      await storage.createRunCheckpoint({ runId, stepIdx, status, contextJson: context });
+    } catch (error) {
+      console.error("Failed to save checkpoint:", error);
     }
-    
-    // If all attempts failed, log final error and continue with basic context
-    await this.logMessage(runId, 'error', {
-      session: sessionId,
-      step: step.idx.toString()
-    }, `All retry attempts failed. Final error: ${lastError?.message}. Continuing with text-only output.`);
-    
-    // Remove retry instruction
-    delete context._retry_instruction;
-    
-    // Return the result from the last attempt even if parsing failed
-    return await this.executeAgentStep(runId, sessionId, step, context);
   }
 
-  private async executeAgentStep(runId: string, sessionId: string, step: Step, context: any): Promise<any> {
-    const agent = await storage.getAgent(step.refId);
-    if (!agent) {
-      throw new Error("Agent not found");
+  // Run a foreach, flow, agent or tool step from the pre-step context and return the new context
+  private async executeStep(
+    runId: string,
+    sessionId: string,
+    step: Step,
+    contextBeforeStep: any,
+    stepOutputs: Record<string, any>,
+    policy: Policy,
+    model?: string
+  ): Promise<any> {
+    if (step.kind === 'foreach') {
+      // Sub-steps carry their own timeout/retry policy, so the loop itself is not retried
+      return await this.executeForeachStep(runId, sessionId, step, { ...contextBeforeStep }, stepOutputs);
+    }
+    if (step.kind === 'flow') {
+      // The child run applies its own step policies; the call itself is not retried
+      const outcome = await runSubflowStep(runId, step, contextBeforeStep, stepOutputs);
+      return { ...contextBeforeStep, ...outcome.contextUpdates };
     }
 
-    await this.logMessage(runId, 'info', { 
-      session: sessionId, 
-      agent: agent.name,
-      step: step.idx.toString() 
-    }, `Executing agent: ${agent.name}`);
-
-    // Replace variables in user template
-    let userMessage = agent.userTemplate || "";
-    Object.keys(context).forEach(key => {
-      userMessage = userMessage.replace(new RegExp(`{{${key}}}`, 'g'), context[key] || '');
-    });
+    // Every attempt starts from the pre-step context; a timed-out attempt can't leak into the next
+    return await withRetry(
+      (signal) => this.executeStepAttempt(runId, sessionId, step, { ...contextBeforeStep }, stepOutputs, signal, model),
+      {
+        policy,
+        label: `Step ${step.idx}`,
+        onRetry: (retry, error, delayMs) => this.logMessage(runId, 'warn', {
+          session: sessionId,
+          step: step.idx.toString(),
+          attempt: retry.toString()
+        }, `Step ${step.idx} retry attempt ${retry}: ${error.message} (next attempt in ${delayMs}ms)`),
+      }
+    );
+  }
 
-    // Add retry instruction if present
-    if (context._retry_instruction) {
-      userMessage = `${context._retry_instruction}\n\n${userMessage}`;
+  // One attempt of an agent or tool step; timeouts and transient failures are retried by the caller
+  private async executeStepAttempt(
+    runId: string,
+    sessionId: string,
+    step: Step,
+    context: any,
+    stepOutputs: Record<string, any>,
+    signal: AbortSignal,
+    model?: string
+  ): Promise<any> {
+    if (step.kind === 'tool') {
+      return await this.executeToolStep(runId, sessionId, step, context, stepOutputs, false, signal);
+    }
+    if (step.kind !== 'agent') {
+      throw new Error(`Unknown step kind: ${step.kind}`);
     }
 
-    const response = await generateAgentResponse(agent.systemPrompt, userMessage, context, agent.id);
+    // runAgentStep repairs invalid structured output and escalates models itself
+    context = await this.executeAgentStep(runId, sessionId, step, { ...context }, signal, model);
     
-    // Store the full response for debugging
-    context[`${agent.name}_output`] = response;
+    // Check if agent requested a tool call via structured output
+    const agent = step.refId ? await storage.getAgent(step.refId) : undefined;
+    const toolCallKey = `${agent?.name}_tool_call`;
     
-    // Parse structured JSON output from agent response
-    await this.parseAgentStructuredOutput(runId, sessionId, agent, response, context);
-    
-    await this.logMessage(runId, 'info', { 
-      session: sessionId, 
-      agent: agent.name,
-      step: step.idx.toString() 
-    }, `Agent completed: ${agent.name}`);
+    if (context[toolCallKey] && typeof context[toolCallKey] === 'object') {
+      await this.logMessage(runId, 'info', { 
+        session: sessionId, 
+        agent: agent?.name || 'unknown',
+        step: step.idx.toString() 
+      }, `Auto-executing tool call requested by agent: ${agent?.name}`);
+      
+      context = await this.autoExecuteToolCall(runId, sessionId, context[toolCallKey], context, step.idx);
+    }
 
     return context;
   }
 
-  private async parseAgentStructuredOutput(
+  private async executeForeachStep(
     runId: string,
     sessionId: string,
-    agent: Agent,
-    response: string,
-    context: any
-  ): Promise<void> {
-    try {
-      // Extract the final JSON block from the response (agents should end with structured output)
-      const jsonMatches = response.match(/```json\s*(\{[\s\S]*?\})\s*```/g);
-      
-      if (!jsonMatches || jsonMatches.length === 0) {
-        await this.logMessage(runId, 'warn', {
-          session: sessionId,
-          agent: agent.name
-        }, `No JSON output found from agent ${agent.name}, using text-only output`);
-        return;
-      }
-
-      // Get the last JSON block (structured output should be at the end)
-      const lastJsonMatch = jsonMatches[jsonMatches.length - 1];
-      const jsonContent = lastJsonMatch.match(/```json\s*(\{[\s\S]*?\})\s*```/)?.[1];
-      
-      if (!jsonContent) {
-        throw new Error("Could not extract JSON content from final block");
-      }
-
-      // Parse the JSON
-      let parsedOutput;
-      try {
-        parsedOutput = JSON.parse(jsonContent);
-      } catch (parseError) {
-        throw new Error(`JSON parsing failed: ${(parseError as Error).message}`);
-      }
-
-      // Validate against agent's outputSchema if available
-      if (agent.outputSchema) {
-        try {
-          const zodSchema = this.jsonSchemaToZod(agent.outputSchema);
-          const validatedOutput = zodSchema.parse(parsedOutput);
-          parsedOutput = validatedOutput;
-          
-          await this.logMessage(runId, 'info', {
-            session: sessionId,
-            agent: agent.name
-          }, `Successfully validated structured output against schema`);
-        } catch (validationError) {
-          await this.logMessage(runId, 'warn', {
-            session: sessionId,
-            agent: agent.name
-          }, `Schema validation failed: ${(validationError as Error).message}, using unvalidated output`);
-        }
-      }
+    step: Step,
+    context: any,
+    stepOutputs: Record<string, any>
+  ): Promise<any> {
+    const outcome = await runForeachStep(step, context, stepOutputs, {
+      runSubStep: (subStep, itemContext, index) => withRetry(
+          (signal) => this.executeStepAttempt(runId, sessionId, subStep, { ...itemContext }, stepOutputs, signal),
+          {
+            policy: this.resolveStepPolicy(subStep),
+            label: `Step ${step.idx} item ${index}`,
+            onRetry: (retry, error, delayMs) => this.logMessage(runId, 'warn', {
+              session: sessionId,
+              step: step.idx.toString(),
+              attempt: retry.toString()
+            }, `Step ${step.idx} item ${index} retry attempt ${retry}: ${error.message} (next attempt in ${delayMs}ms)`),
+          }
+        ),
+      onItemError: (index, error) => this.logMessage(runId, 'error', {
+        session: sessionId,
+        step: step.idx.toString()
+      }, `Item ${index} failed: ${error.message}`),
+    });
 
-      // Store structured fields in context for downstream templating
-      if (typeof parsedOutput === 'object' && parsedOutput !== null) {
-        Object.keys(parsedOutput).forEach(key => {
-          context[key] = parsedOutput[key];
-          
-          // Note: Debug log removed from forEach to avoid async issues
-          // We'll log the summary after the loop instead
-        });
+    await this.logMessage(runId, 'info', {
+      session: sessionId,
+      step: step.idx.toString()
+    }, `Foreach completed: ${outcome.results.length} result(s), ${outcome.errors.length} failed item(s)`);
 
-        await this.logMessage(runId, 'info', {
-          session: sessionId,
-          agent: agent.name
-        }, `Added ${Object.keys(parsedOutput).length} structured fields to context`);
-      }
+    return { ...context, ...outcome.contextUpdates };
+  }
 
-      // Also check for tool calls in the structured output
-      if (parsedOutput.tool_call && typeof parsedOutput.tool_call === 'object') {
-        context[`${agent.name}_tool_call`] = parsedOutput.tool_call;
-        
-        await this.logMessage(runId, 'info', {
-          session: sessionId,
-          agent: agent.name,
-          tool: 'tool_call'
-        }, `Agent requested tool call via structured output`);
+  // Context entries a step added or changed
+  private contextChanges(before: Record<string, any>, after: Record<string, any>): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const [key, value] of Object.entries(after)) {
+      if (before[key] !== value) {
+        changes[key] = value;
       }
-
-    } catch (error) {
-      await this.logMessage(runId, 'error', {
-        session: sessionId,
-        agent: agent.name
-      }, `Failed to parse structured output: ${(error as Error).message}`);
-      
-      // Don't throw - continue with text-only output
     }
+    return changes;
   }
 
-  private jsonSchemaToZod(schema: any): z.ZodSchema {
-    // Convert JSON Schema to Zod schema for validation
-    if (!schema || typeof schema !== 'object') {
-      return z.any();
-    }
-
-    if (schema.type === 'object' && schema.properties) {
-      const shape: Record<string, z.ZodSchema> = {};
-      
-      Object.entries(schema.properties).forEach(([key, propSchema]: [string, any]) => {
-        shape[key] = this.jsonSchemaToZod(propSchema);
-      });
-      
-      const zodObject = z.object(shape);
-      
-      // Handle optional vs required fields
-      if (schema.required && Array.isArray(schema.required)) {
-        const requiredFields = new Set(schema.required);
-        const partialShape: Record<string, z.ZodSchema> = {};
-        
-        Object.entries(shape).forEach(([key, zodSchema]) => {
-          partialShape[key] = requiredFields.has(key) ? zodSchema : zodSchema.optional();
-        });
-        
-        return z.object(partialShape);
-      }
-      
-      return zodObject.partial(); // All fields optional by default
-    }
+  // Per-step timeoutMs / maxRetries from step.config.policy on top of the engine defaults
+  private resolveStepPolicy(step: Step): Policy {
+    return {
+      ...DEFAULT_STEP_POLICY,
+      ...((step.config as StepConfig | null)?.policy || {}),
+    };
+  }
 
-    if (schema.type === 'array' && schema.items) {
-      return z.array(this.jsonSchemaToZod(schema.items));
+  private async executeAgentStep(runId: string, sessionId: string, step: Step, context: any, signal?: AbortSignal, model?: string): Promise<any> {
+    const agent = step.refId ? await storage.getAgent(step.refId) : undefined;
+    if (!agent) {
+      throw new Error("Agent not found");
     }
 
-    if (schema.type === 'string') {
-      let zodSchema = z.string();
-      if (schema.enum) {
-        return z.enum(schema.enum);
-      }
-      return zodSchema;
-    }
+    await this.logMessage(runId, 'info', { 
+      session: sessionId, 
+      agent: agent.name,
+      step: step.idx.toString() 
+    }, model ? `Executing agent: ${agent.name} (model ${model})` : `Executing agent: ${agent.name}`);
+
+    const result = await runAgentStep(agent, context, {
+      signal,
+      model,
+      stepModel: (step.config as StepConfig | null)?.model,
+      routing: await policyEngine.modelRouting(runId),
+      pii: await piiService.forRun(runId),
+      metrics: { runId, stepIdx: step.idx },
+      log: (level, message, tags, payload) => this.logMessage(runId, level, { session: sessionId, ...tags }, message, payload),
+      onToken: (token) => getWebSocketManager()?.broadcastToken(runId, step.idx, token),
+    });
 
-    if (schema.type === 'number') {
-      return z.number();
-    }
+    // Store the full response for debugging, plus structured fields for downstream templating
+    Object.assign(context, agentContextUpdates(agent, result));
 
-    if (schema.type === 'integer') {
-      return z.number().int();
-    }
+    if (result.structured) {
+      await this.logMessage(runId, 'info', {
+        session: sessionId,
+        agent: agent.name
+      }, `Added ${Object.keys(result.structured).length} structured fields to context`);
 
-    if (schema.type === 'boolean') {
-      return z.boolean();
+      if (context[`${agent.name}_tool_call`]) {
+        await this.logMessage(runId, 'info', {
+          session: sessionId,
+          agent: agent.name,
+          tool: 'tool_call'
+        }, `Agent requested tool call via structured output`);
+      }
     }
+    
+    await this.logMessage(runId, 'info', { 
+      session: sessionId, 
+      agent: agent.name,
+      step: step.idx.toString() 
+    }, `Agent completed: ${agent.name}`);
 
-    // Default fallback
-    return z.any();
+    return context;
   }
 
-  private async executeToolStep(runId: string, sessionId: string, step: Step, context: any, simplified = false): Promise<any> {
-    const tool = await storage.getTool(step.refId);
+  private async executeToolStep(
+    runId: string,
+    sessionId: string,
+    step: Step,
+    context: any,
+    stepOutputs: Record<string, any>,
+    simplified = false,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const tool = step.refId ? await storage.getTool(step.refId) : undefined;
     if (!tool) {
       throw new Error("Tool not found");
     }
@@ -370,22 +369,14 @@ class ExecutionEngine {
       step: step.idx.toString() 
     }, `Executing tool: ${tool.name}`);
 
-    let result;
-    
-    if (tool.type === 'builtin') {
-      result = await this.executeBuiltinTool(tool, context, simplified);
-    } else if (tool.type === 'http') {
-      result = await this.executeHttpTool(tool, context, simplified);
-    } else if (tool.type === 'mcp') {
-      result = await this.executeMcpTool(tool, context, simplified);
-    } else {
-      throw new Error(`Unknown tool type: ${tool.type}`);
+    let payload = buildToolPayload(step.config as StepConfig, context, stepOutputs);
+    if ((step.config as StepConfig | null)?.detokenize) {
+      payload = await piiService.detokenize(runId, payload);
     }
+    const result = await runToolStep(tool, payload, simplified, signal, { runId, stepIdx: step.idx });
 
     // Store result with both underscore and dot naming for template compatibility
-    const underscoreName = tool.name.replace(/\./g, '_');
-    context[`${tool.name}_result`] = result; // Keep original format
-    context[`${underscoreName}_result`] = result; // Add underscore format for templates
+    Object.assign(context, toolContextUpdates(tool, result));
     
     await this.logMessage(runId, 'info', { 
       session: sessionId, 
@@ -396,156 +387,14 @@ class ExecutionEngine {
     return context;
   }
 
-  private async executeBuiltinTool(tool: Tool, context: any, simplified = false): Promise<any> {
-    if (tool.name === 'notion.create_tasks') {
-      // Use structured action_items from context if available, otherwise extract from text
-      let tasks = context.action_items || [];
-      
-      if (tasks.length === 0) {
-        // Fallback to text extraction if no structured data
-        tasks = this.extractTasksFromContext(context);
-      }
-      
-      // Normalize data shape: map {owner, task, due_by, priority, notes} to {title, owner, due, priority, notes}
-      const normalizedTasks = tasks.map((task: any) => {
-        // Handle both structured and text-extracted formats
-        const normalizedTask: any = {
-          title: (task.task || task.title || '').trim() || 'Untitled Task',
-          owner: (task.owner || '').trim() || undefined,
-          due: (task.due_by || task.due || '').trim() || undefined,
-          priority: (task.priority || 'Medium').trim() as 'Low' | 'Medium' | 'High',
-          notes: (task.notes || '').trim() || undefined
-        };
-        
-        // Remove undefined/empty fields
-        Object.keys(normalizedTask).forEach(key => {
-          if (normalizedTask[key] === undefined || normalizedTask[key] === '') {
-            delete normalizedTask[key];
-          }
-        });
-        
-        return normalizedTask;
-      }).filter((task: any) => task.title && task.title !== 'Untitled Task'); // Filter out empty tasks
-      
-      // Get database_id from tool spec, context, or environment
-      const databaseId = (tool.spec as any)?.database_id ||
-                        context.notion_database_id || 
-                        process.env.NOTION_DATABASE_ID || 
-                        null;
-      
-      return await createNotionTasks(normalizedTasks, databaseId);
-    }
-    
-    // Add other builtin tools here
-    throw new Error(`Builtin tool not implemented: ${tool.name}`);
-  }
-
-  private async executeHttpTool(tool: Tool, context: any, simplified = false): Promise<any> {
-    const spec = tool.spec as any;
-    const url = spec.url;
-    const method = spec.method || 'POST';
-    const headers = spec.headers || {};
-    
-    const payload = simplified ? this.simplifyPayload(context) : context;
-    
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        ...headers
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP tool failed: ${response.status} ${response.statusText}`);
-    }
-
-    return await response.json();
-  }
-
-  private async executeMcpTool(tool: Tool, context: any, simplified = false): Promise<any> {
-    // MCP tool execution would be implemented here
-    // For now, return a placeholder
-    return {
-      success: true,
-      message: `MCP tool ${tool.name} executed (placeholder)`
-    };
-  }
-
-  private extractTasksFromContext(context: any): Array<{
-    title: string;
-    owner?: string;
-    due?: string;
-    priority?: 'Low' | 'Medium' | 'High';
-    notes?: string;
-  }> {
-    // Look for action items in various formats in the context
-    const tasks = [];
-    
-    for (const [key, value] of Object.entries(context)) {
-      if (key.includes('action') || key.includes('task')) {
-        if (typeof value === 'string') {
-          // Parse text for task-like content
-          const lines = value.split('\n').filter(line => line.trim());
-          for (const line of lines) {
-            if (line.includes('|') && (line.includes('Task') || line.includes('Owner'))) {
-              // Table format
-              const parts = line.split('|').map(p => p.trim());
-              if (parts.length >= 2) {
-                tasks.push({
-                  title: parts[1],
-                  owner: parts[0],
-                  priority: 'Medium' as const
-                });
-              }
-            } else if (line.match(/^[-*•]\s/)) {
-              // Bullet point format
-              tasks.push({
-                title: line.replace(/^[-*•]\s/, ''),
-                priority: 'Medium' as const
-              });
-            }
-          }
-        }
-      }
-    }
-
-    // If no tasks found, create a default one
-    if (tasks.length === 0) {
-      tasks.push({
-        title: 'Review and organize extracted content',
-        priority: 'Medium' as const
-      });
-    }
-
-    return tasks;
-  }
-
-  private simplifyPayload(context: any): any {
-    // Create a simplified version of the context for retry attempts
-    const simplified: any = {};
-    
-    for (const [key, value] of Object.entries(context)) {
-      if (typeof value === 'string' && value.length > 1000) {
-        simplified[key] = value.substring(0, 1000) + '...';
-      } else if (Array.isArray(value) && value.length > 5) {
-        simplified[key] = value.slice(0, 5);
-      } else {
-        simplified[key] = value;
-      }
-    }
-    
-    return simplified;
-  }
-
   private async updateRunStatus(runId: string, status: string, context?: any) {
     const updates: any = { status };
     if (status === 'success' || status === 'error') {
       updates.completedAt = new Date();
     }
     if (context) {
-      updates.context = context;
+      // Finished runs keep their context as output; resumes restore from (raw) checkpoints
+      updates.context = updates.completedAt ? await piiService.redactRunOutput(runId, context) : context;
       updates.output = this.generateOutputSummary(context);
     }
     
@@ -631,11 +480,10 @@ class ExecutionEngine {
           throw new Error(`Tool '${toolName}' not found in project`);
         }
         
-        const result = await this.executeBuiltinTool(dynamicTool, context);
+        const result = await runToolStep(dynamicTool, context, false, undefined, { runId, stepIdx: agentStepIdx });
         
         // Store result in context with both naming conventions
-        context[`${toolName}_result`] = result;
-        context[`${underscoreName}_result`] = result;
+        Object.assign(context, toolContextUpdates(dynamicTool, result));
         
         await this.logMessage(runId, 'info', { 
           session: sessionId,
@@ -646,23 +494,11 @@ class ExecutionEngine {
         return context;
       }
       
-      // Execute the found tool
-      let result;
-      if (tool.type === 'builtin') {
-        // Merge tool args into context for builtin tools
-        const mergedContext = { ...context, ...toolArgs };
-        result = await this.executeBuiltinTool(tool, mergedContext);
-      } else if (tool.type === 'http') {
-        result = await this.executeHttpTool(tool, { ...context, ...toolArgs });
-      } else if (tool.type === 'mcp') {
-        result = await this.executeMcpTool(tool, { ...context, ...toolArgs });
-      } else {
-        throw new Error(`Unknown tool type: ${tool.type}`);
-      }
+      // Execute the found tool with the requested args merged over the context
+      const result = await runToolStep(tool, { ...context, ...toolArgs }, false, undefined, { runId, stepIdx: agentStepIdx });
       
       // Store result in context with both naming conventions
-      context[`${tool.name}_result`] = result;
-      context[`${underscoreName}_result`] = result;
+      Object.assign(context, toolContextUpdates(tool, result));
       
       await this.logMessage(runId, 'info', { 
         session: sessionId,
@@ -0,0 +1,25 @@
+import mammoth from "mammoth";
+import { htmlToText } from "./html";
+import type { DocumentExtractor, ExtractedDocument } from "./extractor";
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Word documents (.docx only; legacy binary .doc is not readable offline). Converted through
+// HTML rather than raw text so headings, lists and tables keep their structure.
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+
+  supports(mimeType, extension) {
+    return mimeType === DOCX_MIME || extension === 'docx';
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+    const warnings = messages.filter((message) => message.type === 'warning').map((message) => message.message);
+    return {
+      format: 'docx',
+      sections: [{ text: htmlToText(html) }],
+      metadata: warnings.length > 0 ? { warnings: warnings.slice(0, 10) } : {},
+    };
+  },
+};
@@ -0,0 +1,28 @@
+// Document extraction types. An extractor turns an uploaded file into sections of plain text;
+// each section carries where it came from (page, sheet rows, heading) and every chunk cut from
+// it keeps that location in its metadata.
+
+export interface SectionLocation {
+  page?: number; // 1-based PDF page
+  sheet?: string; // Spreadsheet sheet name (CSV files have none)
+  firstRow?: number; // 1-based data rows, header excluded
+  lastRow?: number;
+  heading?: string; // Markdown heading path, "Setup > Install"
+}
+
+export interface ExtractedSection {
+  text: string;
+  location?: SectionLocation;
+}
+
+export interface ExtractedDocument {
+  format: string; // Extractor that produced it: pdf, docx, html, csv, xlsx, markdown, image, text
+  sections: ExtractedSection[];
+  metadata: Record<string, any>; // Document-level facts such as pageCount, title, ocrProvider
+}
+
+export interface DocumentExtractor {
+  readonly name: string;
+  supports(mimeType: string, extension: string): boolean;
+  extract(buffer: Buffer, filename: string, mimeType: string): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,47 @@
+import { convert } from "html-to-text";
+import { decodeText } from "./text";
+import type { DocumentExtractor, ExtractedDocument } from "./extractor";
+
+// HTML to readable text: scripts, styles, navigation chrome and images are dropped, links keep
+// only their text, tables are laid out row by row
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+
+  supports(mimeType, extension) {
+    return mimeType === 'text/html' || mimeType === 'application/xhtml+xml' || ['html', 'htm', 'xhtml'].includes(extension);
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    const html = decodeText(buffer);
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].replace(/\s+/g, ' ').trim();
+    return {
+      format: 'html',
+      sections: [{ text: htmlToText(html) }],
+      metadata: title ? { title } : {},
+    };
+  },
+};
+
+// baseSelectors limits the text to the first matching elements, e.g. a page's <main>
+export function htmlToText(html: string, baseSelectors?: string[]): string {
+  return convert(html, {
+    wordwrap: false,
+    ...(baseSelectors ? { baseElements: { selectors: baseSelectors, returnDomByDefault: true } } : {}),
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'nav', format: 'skip' },
+      { selector: 'header', format: 'skip' },
+      { selector: 'footer', format: 'skip' },
+      { selector: 'aside', format: 'skip' },
+      { selector: 'form', format: 'skip' },
+      { selector: 'h1', options: { uppercase: false } },
+      { selector: 'h2', options: { uppercase: false } },
+      { selector: 'h3', options: { uppercase: false } },
+      { selector: 'h4', options: { uppercase: false } },
+      { selector: 'h5', options: { uppercase: false } },
+      { selector: 'h6', options: { uppercase: false } },
+      { selector: 'table', format: 'dataTable', options: { uppercaseHeaderCells: false } },
+    ],
+  }).replace(/\n{3,}/g, '\n\n').trim();
+}
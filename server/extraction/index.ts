@@ -0,0 +1,42 @@
+import { csvExtractor, xlsxExtractor } from "./spreadsheet";
+import { docxExtractor } from "./docx";
+import { htmlExtractor } from "./html";
+import { imageExtractor } from "./ocr";
+import { markdownExtractor } from "./markdown";
+import { pdfExtractor } from "./pdf";
+import { textExtractor } from "./text";
+import type { DocumentExtractor, ExtractedDocument } from "./extractor";
+
+// Extractors are tried in order, matched by MIME type or file extension (browsers often send
+// application/octet-stream for .md or .docx). Plain text comes last as the catch-all for text/*.
+const extractors: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  xlsxExtractor,
+  csvExtractor,
+  htmlExtractor,
+  markdownExtractor,
+  imageExtractor,
+  textExtractor,
+];
+
+function findExtractor(mimeType: string, filename: string): DocumentExtractor | undefined {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  const mime = mimeType.toLowerCase().split(';')[0].trim();
+  return extractors.find((extractor) => extractor.supports(mime, extension));
+}
+
+export function isSupportedDocument(mimeType: string, filename: string): boolean {
+  return findExtractor(mimeType, filename) !== undefined;
+}
+
+export async function extractDocument(buffer: Buffer, mimeType: string, filename: string): Promise<ExtractedDocument> {
+  const extractor = findExtractor(mimeType, filename);
+  if (!extractor) {
+    throw new Error(`File type ${mimeType} is not supported for text extraction`);
+  }
+  return await extractor.extract(buffer, filename, mimeType);
+}
+
+export type { DocumentExtractor, ExtractedDocument, ExtractedSection, SectionLocation } from "./extractor";
+export { registerOcrProvider, type OcrProvider } from "./ocr";
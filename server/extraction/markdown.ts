@@ -0,0 +1,88 @@
+import { decodeText } from "./text";
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from "./extractor";
+
+// Markdown split at headings, one section per heading with its path ("Setup > Install") as the
+// location. Markup is stripped so chunks embed and match as prose; code block contents are kept.
+export const markdownExtractor: DocumentExtractor = {
+  name: 'markdown',
+
+  supports(mimeType, extension) {
+    return mimeType === 'text/markdown' || mimeType === 'text/x-markdown' || extension === 'md' || extension === 'markdown';
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    const text = decodeText(buffer).replace(/\r\n?/g, '\n');
+    const { body, title } = stripFrontMatter(text);
+
+    const sections: ExtractedSection[] = [];
+    const headings: string[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      const sectionText = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+      if (sectionText) {
+        sections.push({ text: sectionText, location: headings.length > 0 ? { heading: headings.filter(Boolean).join(' > ') } : undefined });
+      }
+      lines = [];
+    };
+
+    for (const line of body.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      const heading = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (heading) {
+        flush();
+        const level = heading[1].length;
+        const headingText = stripInline(heading[2]);
+        headings.splice(level - 1);
+        headings[level - 1] = headingText;
+        lines.push(headingText);
+        continue;
+      }
+      lines.push(inFence ? line : stripBlock(line));
+    }
+    flush();
+
+    return {
+      format: 'markdown',
+      sections,
+      metadata: title ? { title } : {},
+    };
+  },
+};
+
+function stripFrontMatter(text: string): { body: string; title?: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n/);
+  if (!match) {
+    return { body: text };
+  }
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1];
+  return { body: text.slice(match[0].length), title };
+}
+
+// Block markers: quotes, list bullets, table rules and separators, horizontal rules
+function stripBlock(line: string): string {
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+    return '';
+  }
+  const content = line
+    .replace(/^\s*(>\s*)+/, '')
+    .replace(/^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '$1')
+    .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split('|').map((cell) => cell.trim()).join(' | '));
+  return stripInline(content);
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep their alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*?)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1');
+}
@@ -0,0 +1,87 @@
+import { execFile } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DocumentExtractor, ExtractedDocument } from "./extractor";
+import { envInt } from "../env";
+
+// OCR for scanned images. Nothing is sent anywhere: the default provider runs a local command
+// configured in OCR_COMMAND, e.g. "tesseract {input} stdout -l eng" ({input} is replaced by a
+// temporary file holding the image; the recognised text is read from stdout). Other engines can
+// be plugged in with registerOcrProvider. Without a provider, image uploads are not accepted.
+
+const OCR_TIMEOUT_MS = envInt('OCR_TIMEOUT_MS', 120000);
+
+export interface OcrProvider {
+  readonly name: string;
+  recognize(image: Buffer, mimeType: string): Promise<string>;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+export class CommandOcrProvider implements OcrProvider {
+  constructor(public readonly name: string, private command: string) {}
+
+  async recognize(image: Buffer, mimeType: string): Promise<string> {
+    const extension = Object.keys(IMAGE_TYPES).find((key) => IMAGE_TYPES[key] === mimeType) || 'img';
+    const directory = await mkdtemp(join(tmpdir(), 'ocr-'));
+    const input = join(directory, `input.${extension}`);
+    try {
+      await writeFile(input, image);
+      const [file, ...args] = this.command.trim().split(/\s+/).map((part) => part.replace('{input}', input));
+      return await new Promise<string>((resolve, reject) => {
+        execFile(file, args, { timeout: OCR_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`${file} failed: ${(stderr || error.message).toString().trim().slice(0, 500)}`));
+          } else {
+            resolve(stdout.toString());
+          }
+        });
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+let ocrProvider: OcrProvider | null = process.env.OCR_COMMAND
+  ? new CommandOcrProvider('command', process.env.OCR_COMMAND)
+  : null;
+
+export function registerOcrProvider(provider: OcrProvider | null): void {
+  ocrProvider = provider;
+}
+
+export function getOcrProvider(): OcrProvider | null {
+  return ocrProvider;
+}
+
+export const imageExtractor: DocumentExtractor = {
+  name: 'image',
+
+  supports(mimeType, extension) {
+    return ocrProvider !== null && (Object.values(IMAGE_TYPES).includes(mimeType) || extension in IMAGE_TYPES);
+  },
+
+  async extract(buffer, filename, mimeType): Promise<ExtractedDocument> {
+    if (!ocrProvider) {
+      throw new Error('No OCR provider configured; set OCR_COMMAND to extract text from images');
+    }
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    const text = await ocrProvider.recognize(buffer, mimeType.startsWith('image/') ? mimeType : IMAGE_TYPES[extension] || 'image/png');
+    return {
+      format: 'image',
+      sections: [{ text: text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim() }],
+      metadata: { ocrProvider: ocrProvider.name },
+    };
+  },
+};
@@ -0,0 +1,60 @@
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from "./extractor";
+
+// PDF text layer via pdf.js, one section per page so chunks keep their page number. Scanned
+// PDFs have no text layer and come out empty; they are reported in textlessPages.
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+
+  supports(mimeType, extension) {
+    return mimeType === 'application/pdf' || extension === 'pdf';
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    // Legacy build: the modern one needs browser APIs Node 20 lacks. Loaded on first use
+    // because it is large and most uploads are not PDFs.
+    const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+    const pdf = await getDocument({
+      data: new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0,
+    }).promise;
+
+    try {
+      const sections: ExtractedSection[] = [];
+      const textlessPages: number[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        let text = '';
+        for (const item of content.items) {
+          if ('str' in item) {
+            text += item.str + (item.hasEOL ? '\n' : '');
+          }
+        }
+        page.cleanup();
+
+        text = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+        if (text) {
+          sections.push({ text, location: { page: pageNumber } });
+        } else {
+          textlessPages.push(pageNumber);
+        }
+      }
+
+      const info = ((await pdf.getMetadata().catch(() => null))?.info || {}) as Record<string, any>;
+      return {
+        format: 'pdf',
+        sections,
+        metadata: {
+          pageCount: pdf.numPages,
+          ...(typeof info.Title === 'string' && info.Title.trim() ? { title: info.Title.trim() } : {}),
+          ...(textlessPages.length > 0 ? { textlessPages } : {}),
+        },
+      };
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
@@ -0,0 +1,161 @@
+import ExcelJS from "exceljs";
+import { decodeText } from "./text";
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from "./extractor";
+import { envInt } from "../env";
+
+// Data rows per section; each section (and so each chunk) names the rows it holds
+const ROWS_PER_SECTION = envInt('EXTRACTION_ROWS_PER_SECTION', 25);
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Tables become row-aware text: the first non-empty row is the header and every data row is
+// written as "Row 12: Name: Ada; Role: Engineer", so a chunk makes sense without the header
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+
+  supports(mimeType, extension) {
+    return ['text/csv', 'application/csv', 'text/tab-separated-values'].includes(mimeType) || extension === 'csv' || extension === 'tsv';
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    const text = decodeText(buffer);
+    const rows = parseCsv(text, detectDelimiter(text));
+    const sections = tableSections(rows);
+    return { format: 'csv', sections, metadata: { rowCount: Math.max(0, countRows(rows) - 1) } };
+  },
+};
+
+export const xlsxExtractor: DocumentExtractor = {
+  name: 'xlsx',
+
+  supports(mimeType, extension) {
+    return mimeType === XLSX_MIME || extension === 'xlsx';
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    const sections: ExtractedSection[] = [];
+    const sheets: string[] = [];
+    workbook.eachSheet((worksheet) => {
+      const rows: string[][] = [];
+      worksheet.eachRow({ includeEmpty: true }, (row) => {
+        const cells: string[] = [];
+        for (let column = 1; column <= worksheet.columnCount; column++) {
+          cells.push(row.getCell(column).text ?? '');
+        }
+        rows.push(cells);
+      });
+      sheets.push(worksheet.name);
+      sections.push(...tableSections(rows, worksheet.name));
+    });
+
+    return { format: 'xlsx', sections, metadata: { sheets } };
+  },
+};
+
+function tableSections(rows: string[][], sheet?: string): ExtractedSection[] {
+  const nonEmpty = (row: string[]) => row.some((cell) => cell.trim() !== '');
+  const headerIndex = rows.findIndex(nonEmpty);
+  if (headerIndex < 0) {
+    return [];
+  }
+
+  const header = rows[headerIndex].map((cell, index) => cell.trim() || `Column ${index + 1}`);
+  const prefix = sheet ? `Sheet: ${sheet}\n` : '';
+  const sections: ExtractedSection[] = [];
+  let lines: string[] = [];
+  let firstRow = 0;
+  let lastRow = 0;
+
+  const flush = () => {
+    if (lines.length > 0) {
+      sections.push({
+        text: `${prefix}Columns: ${header.join(', ')}\n${lines.join('\n')}`,
+        location: { ...(sheet ? { sheet } : {}), firstRow, lastRow },
+      });
+    }
+    lines = [];
+  };
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    if (!nonEmpty(row)) {
+      return;
+    }
+    const rowNumber = index + 1;
+    if (lines.length === 0) {
+      firstRow = rowNumber;
+    }
+    const fields = row
+      .map((cell, column) => (cell.trim() ? `${header[column] ?? `Column ${column + 1}`}: ${cell.replace(/\s+/g, ' ').trim()}` : ''))
+      .filter(Boolean);
+    lines.push(`Row ${rowNumber}: ${fields.join('; ')}`);
+    lastRow = rowNumber;
+    if (lines.length >= ROWS_PER_SECTION) {
+      flush();
+    }
+  });
+  flush();
+
+  return sections;
+}
+
+function countRows(rows: string[][]): number {
+  return rows.filter((row) => row.some((cell) => cell.trim() !== '')).length;
+}
+
+// The candidate that splits the first line into the most fields
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') >= 0 ? text.indexOf('\n') : text.length);
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of [',', ';', '\t', '|']) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
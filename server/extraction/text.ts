@@ -0,0 +1,23 @@
+import type { DocumentExtractor, ExtractedDocument } from "./extractor";
+
+const TEXT_EXTENSIONS = ['txt', 'log', 'json', 'js', 'ts', 'xml', 'yaml', 'yml', 'css'];
+
+// Plain text, JSON and source code, taken as they are
+export const textExtractor: DocumentExtractor = {
+  name: 'text',
+
+  supports(mimeType, extension) {
+    return mimeType.startsWith('text/') ||
+      ['application/json', 'application/javascript', 'application/typescript', 'application/xml'].includes(mimeType) ||
+      TEXT_EXTENSIONS.includes(extension);
+  },
+
+  async extract(buffer): Promise<ExtractedDocument> {
+    return { format: 'text', sections: [{ text: decodeText(buffer) }], metadata: {} };
+  },
+};
+
+// UTF-8 without the byte order mark some editors and Excel exports add
+export function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
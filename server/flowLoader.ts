@@ -1,6 +1,7 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 import type { FlowDef } from './engine/types';
+import { validateStepConfig } from './engine/step-executor';
 
 // Load flow definition from JSON file
 export async function loadFlow(flowName: string): Promise<FlowDef> {
@@ -8,6 +9,14 @@ export async function loadFlow(flowName: string): Promise<FlowDef> {
     const flowPath = join(process.cwd(), 'server', 'flows', `${flowName}.json`);
     const flowData = await readFile(flowPath, 'utf-8');
     const flow = JSON.parse(flowData) as FlowDef;
+
+    // Reject invalid conditions and mappings up front instead of failing mid-run
+    for (const step of flow.steps) {
+      const expressionError = validateStepConfig({ condition: step.condition, in: step.in, out: step.out });
+      if (expressionError) {
+        throw new Error(`Step ${step.id}: ${expressionError}`);
+      }
+    }
     
     return flow;
   } catch (error) {
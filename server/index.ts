@@ -5,6 +5,12 @@ import { setupVite, serveStatic, log } from "./vite";
 import { seedAllTemplates } from "./seedTemplates";
 import { setupWebSocketServer } from "./websocket";
 import { initializeFeatureFlags } from "./engine/feature-flags.js";
+import { runQueue } from "./engine/run-queue.js";
+import { ingestionQueue } from "./ingestion/queue";
+import { crawlScheduler } from "./crawler/scheduler";
+import { approvalService } from "./engine/approvals.js";
+import { mcpClientManager } from "./mcp/client";
+import { pool } from "./db";
 
 const app = express();
 app.use(express.json());
@@ -90,4 +96,52 @@ app.use((req, res, next) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // Start the run worker (re-queues runs orphaned by a previous crash)
+  try {
+    await runQueue.start();
+  } catch (error) {
+    console.error('⚠️ Run queue failed to start:', error);
+  }
+
+  // Start the knowledge ingestion worker (re-queues items orphaned by a previous crash)
+  try {
+    await ingestionQueue.start();
+  } catch (error) {
+    console.error('⚠️ Ingestion queue failed to start:', error);
+  }
+
+  // Crawl knowledge sources that are new, requested or due for a re-crawl
+  try {
+    await crawlScheduler.start();
+  } catch (error) {
+    console.error('⚠️ Crawl scheduler failed to start:', error);
+  }
+
+  // Escalate or auto-reject approvals that pass their deadline
+  approvalService.start();
+
+  // Graceful shutdown: stop accepting requests, let active runs finish, then close connections
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log(`${signal} received, shutting down`);
+
+    server.close();
+    approvalService.stop();
+    try {
+      await runQueue.stop();
+      await crawlScheduler.stop();
+      await ingestionQueue.stop();
+      await mcpClientManager.closeAll();
+      await pool.end();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
 })();
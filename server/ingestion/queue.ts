@@ -0,0 +1,226 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { EmbeddingService } from "../embeddingService";
+import { getWebSocketManager } from "../websocket";
+import { envInt } from "../env";
+import { LeasedWorker, type LeasedWorkerOptions } from "../leased-worker";
+
+export interface IngestionQueueOptions extends LeasedWorkerOptions {
+  maxAttempts: number; // Claims before an orphaned item is failed instead of re-queued
+}
+
+export function ingestionQueueOptionsFromEnv(): IngestionQueueOptions {
+  return {
+    concurrency: envInt('INGEST_WORKER_CONCURRENCY', 2, 0),
+    leaseMs: envInt('INGEST_LEASE_MS', 60000),
+    pollIntervalMs: envInt('INGEST_POLL_INTERVAL_MS', 3000),
+    maxAttempts: envInt('INGEST_MAX_ATTEMPTS', 3),
+    shutdownTimeoutMs: envInt('INGEST_SHUTDOWN_TIMEOUT_MS', 30000, 0),
+  };
+}
+
+// Pushed to knowledge base subscribers whenever an item's ingestion state changes
+export interface IngestionProgress {
+  itemId: string;
+  status: string;
+  chunksDone: number;
+  chunksTotal: number | null;
+  error?: string | null;
+}
+
+interface ClaimedItem {
+  id: string;
+  knowledge_base_id: string;
+}
+
+// Postgres-backed ingestion queue over knowledge_items, the counterpart of the run queue:
+// items wait in processing_status 'queued' and workers claim them with a lease renewed while
+// they are chunked and embedded. Progress is written after every embedding batch; a batch
+// update that no longer matches (item cancelled, re-queued or lease lost) stops the item.
+export class IngestionQueue extends LeasedWorker<ClaimedItem, IngestionQueueOptions> {
+  constructor(options: IngestionQueueOptions = ingestionQueueOptionsFromEnv()) {
+    super(options, { name: 'IngestionQueue', noun: 'item', concurrencyEnv: 'INGEST_WORKER_CONCURRENCY' });
+  }
+
+  // Queue an item that failed or was cancelled again, with a fresh attempt budget
+  async retry(itemId: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = 'queued', attempts = 0, chunks_done = 0, processing_error = NULL, updated_at = now()
+      WHERE id = ${itemId} AND processing_status IN ('error', 'cancelled')
+      RETURNING id, knowledge_base_id
+    `);
+    const rows = result.rows as unknown as ClaimedItem[];
+    for (const row of rows) {
+      this.notify(row.knowledge_base_id, { itemId: row.id, status: 'queued', chunksDone: 0, chunksTotal: null });
+    }
+    this.wake();
+    return rows.length > 0;
+  }
+
+  // Stop a queued or processing item. A worker notices at its next batch; embeddings it already
+  // stored stay until the item is retried or deleted.
+  async cancel(itemId: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = 'cancelled', lease_owner = NULL, lease_expires_at = NULL, updated_at = now()
+      WHERE id = ${itemId} AND processing_status IN ('queued', 'processing')
+      RETURNING id, knowledge_base_id, chunks_done, chunks_total
+    `);
+    const rows = result.rows as unknown as Array<ClaimedItem & { chunks_done: number | null; chunks_total: number | null }>;
+    for (const row of rows) {
+      this.active.get(row.id)?.abort(new Error('Ingestion cancelled'));
+      this.notify(row.knowledge_base_id, { itemId: row.id, status: 'cancelled', chunksDone: row.chunks_done ?? 0, chunksTotal: row.chunks_total });
+    }
+    return rows.length > 0;
+  }
+
+  // Re-process every item of a knowledge base, e.g. after its chunking or embedding settings
+  // changed. Items being processed restart; URL items that were never crawled are skipped.
+  async reindexKnowledgeBase(knowledgeBaseId: string): Promise<number> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = 'queued', attempts = 0, chunks_done = 0, processing_error = NULL,
+          lease_owner = NULL, lease_expires_at = NULL, updated_at = now()
+      WHERE knowledge_base_id = ${knowledgeBaseId} AND (type <> 'url' OR source_id IS NOT NULL)
+      RETURNING id
+    `);
+    const itemIds = (result.rows as Array<{ id: string }>).map((row) => row.id);
+    for (const itemId of itemIds) {
+      this.active.get(itemId)?.abort(new Error('Item re-queued for re-indexing'));
+      this.notify(knowledgeBaseId, { itemId, status: 'queued', chunksDone: 0, chunksTotal: null });
+    }
+    this.wake();
+    return itemIds.length;
+  }
+
+  // Unfinished items go back to the queue
+  protected async releaseUnfinished(): Promise<void> {
+    await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = 'queued', lease_owner = NULL, lease_expires_at = NULL
+      WHERE lease_owner = ${this.workerId} AND processing_status = 'processing'
+    `);
+  }
+
+  // Claim the oldest queued item
+  protected async claimNext(): Promise<ClaimedItem | null> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = 'processing',
+          lease_owner = ${this.workerId},
+          lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond'),
+          attempts = coalesce(attempts, 0) + 1,
+          chunks_done = 0,
+          processing_error = NULL,
+          updated_at = now()
+      WHERE id = (
+        SELECT id FROM knowledge_items
+        WHERE processing_status = 'queued'
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id, knowledge_base_id
+    `);
+    return (result.rows[0] as unknown as ClaimedItem | undefined) ?? null;
+  }
+
+  protected async process(claimed: ClaimedItem, controller: AbortController): Promise<void> {
+    const { id, knowledge_base_id: knowledgeBaseId } = claimed;
+    let chunksTotal: number | null = null;
+    let chunksDone = 0;
+    this.notify(knowledgeBaseId, { itemId: id, status: 'processing', chunksDone: 0, chunksTotal: null });
+
+    try {
+      const item = await storage.getKnowledgeItem(id);
+      if (!item) return;
+
+      await EmbeddingService.ingestItem(item, {
+        signal: controller.signal,
+        onProgress: async (done, total) => {
+          chunksDone = done;
+          chunksTotal = total;
+          const result = await db.execute(sql`
+            UPDATE knowledge_items
+            SET chunks_done = ${done}, chunks_total = ${total}, updated_at = now()
+            WHERE id = ${id} AND lease_owner = ${this.workerId} AND processing_status = 'processing'
+            RETURNING id
+          `);
+          if (result.rows.length === 0) {
+            controller.abort(new Error('Item is no longer claimed by this worker'));
+            controller.signal.throwIfAborted();
+          }
+          this.notify(knowledgeBaseId, { itemId: id, status: 'processing', chunksDone: done, chunksTotal: total });
+        },
+      });
+
+      const result = await db.execute(sql`
+        UPDATE knowledge_items
+        SET processing_status = 'completed', is_processed = true, lease_owner = NULL, lease_expires_at = NULL, updated_at = now()
+        WHERE id = ${id} AND lease_owner = ${this.workerId} AND processing_status = 'processing'
+        RETURNING id
+      `);
+      if (result.rows.length > 0) {
+        this.notify(knowledgeBaseId, { itemId: id, status: 'completed', chunksDone, chunksTotal });
+      }
+    } catch (error) {
+      // Cancelled, re-queued or shutting down: whoever aborted already set the status
+      if (controller.signal.aborted) {
+        return;
+      }
+      const message = (error as Error).message;
+      console.error(`[IngestionQueue] Item ${id} failed:`, error);
+      const result = await db.execute(sql`
+        UPDATE knowledge_items
+        SET processing_status = 'error', processing_error = ${message}, lease_owner = NULL, lease_expires_at = NULL, updated_at = now()
+        WHERE id = ${id} AND lease_owner = ${this.workerId} AND processing_status = 'processing'
+        RETURNING id
+      `);
+      if (result.rows.length > 0) {
+        this.notify(knowledgeBaseId, { itemId: id, status: 'error', chunksDone, chunksTotal, error: message });
+      }
+    }
+  }
+
+  protected async renewLeases(): Promise<string[]> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET lease_expires_at = now() + (${this.options.leaseMs} * interval '1 millisecond')
+      WHERE lease_owner = ${this.workerId} AND processing_status = 'processing'
+      RETURNING id
+    `);
+    return (result.rows as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  // Re-queue items whose worker stopped heartbeating; items that used up their attempts fail
+  async recoverExpiredLeases(): Promise<void> {
+    const result = await db.execute(sql`
+      UPDATE knowledge_items
+      SET processing_status = CASE WHEN coalesce(attempts, 0) >= ${this.options.maxAttempts} THEN 'error' ELSE 'queued' END,
+          processing_error = CASE WHEN coalesce(attempts, 0) >= ${this.options.maxAttempts}
+            THEN ${`Worker lost ${this.options.maxAttempts} times while processing`}::text ELSE NULL END,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE processing_status = 'processing'
+        AND (lease_expires_at IS NULL OR lease_expires_at < now())
+      RETURNING id, knowledge_base_id, processing_status, processing_error
+    `);
+
+    const recovered = result.rows as unknown as Array<ClaimedItem & { processing_status: string; processing_error: string | null }>;
+    for (const row of recovered) {
+      this.notify(row.knowledge_base_id, { itemId: row.id, status: row.processing_status, chunksDone: 0, chunksTotal: null, error: row.processing_error });
+    }
+    if (recovered.length > 0) {
+      console.log(`[IngestionQueue] Recovered ${recovered.length} orphaned item(s)`);
+      this.wake();
+    }
+  }
+
+  private notify(knowledgeBaseId: string, progress: IngestionProgress): void {
+    getWebSocketManager()?.broadcastToKnowledgeBase(knowledgeBaseId, { type: 'ingestion_progress', data: progress });
+  }
+}
+
+export const ingestionQueue = new IngestionQueue();
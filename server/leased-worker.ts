@@ -0,0 +1,150 @@
+import os from "os";
+import { nanoid } from "nanoid";
+
+export interface LeasedWorkerOptions {
+  concurrency: number; // Jobs processed at once by this worker (0 disables the worker)
+  leaseMs: number; // How long a claim stays valid without a heartbeat
+  pollIntervalMs: number; // How often idle workers look for claimable jobs
+  shutdownTimeoutMs: number; // How long stop() waits for active jobs to finish (0 aborts them right away)
+}
+
+// How a queue names itself in logs, e.g. { name: 'RunQueue', noun: 'run', concurrencyEnv: 'RUN_WORKER_CONCURRENCY' }
+export interface LeasedWorkerLabels {
+  name: string;
+  noun: string;
+  concurrencyEnv: string;
+}
+
+// Base of the Postgres-backed queues (runs, ingestion, crawls): jobs are rows that workers claim
+// with a lease renewed by a heartbeat while they are processed. Rows whose lease lapses (worker
+// crash, restart) are recovered by any live worker. Subclasses hold the SQL: how a row is
+// claimed, renewed, recovered and handed back on shutdown.
+export abstract class LeasedWorker<TClaim extends { id: string }, TOptions extends LeasedWorkerOptions = LeasedWorkerOptions> {
+  readonly workerId = `${os.hostname()}:${process.pid}:${nanoid(6)}`;
+
+  // Active jobs by id; aborting a job's controller asks its processing to stop
+  protected active = new Map<string, AbortController>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private pumping = false;
+  private started = false;
+  private stopping = false;
+
+  constructor(protected options: TOptions, private labels: LeasedWorkerLabels) {}
+
+  // Claim the next job and mark it leased by this worker, or null when there is none
+  protected abstract claimNext(): Promise<TClaim | null>;
+  // Process a claimed job; it settles its row itself and stops when the signal aborts
+  protected abstract process(claimed: TClaim, controller: AbortController): Promise<void>;
+  // Extend the leases this worker holds; returns the ids still leased to it
+  protected abstract renewLeases(): Promise<string[]>;
+  // Hand back jobs this worker still holds after stop() gave up waiting for them
+  protected abstract releaseUnfinished(): Promise<void>;
+  // Re-queue (or fail) jobs whose worker stopped heartbeating
+  abstract recoverExpiredLeases(): Promise<void>;
+
+  async start(): Promise<void> {
+    if (this.started || this.options.concurrency === 0) {
+      if (this.options.concurrency === 0) {
+        console.log(`[${this.labels.name}] Worker disabled (${this.labels.concurrencyEnv}=0)`);
+      }
+      return;
+    }
+    this.started = true;
+
+    await this.recoverExpiredLeases();
+
+    this.pollTimer = setInterval(() => this.pump(), this.options.pollIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), Math.max(1000, Math.floor(this.options.leaseMs / 3)));
+    this.recoveryTimer = setInterval(() => {
+      this.recoverExpiredLeases().catch((error) => console.error(`[${this.labels.name}] Lease recovery failed:`, error));
+    }, this.options.leaseMs);
+
+    console.log(`[${this.labels.name}] Worker ${this.workerId} started (concurrency ${this.options.concurrency})`);
+    this.pump();
+  }
+
+  // Called after a job is queued so it starts without waiting for the next poll
+  wake(): void {
+    if (this.started) {
+      this.pump();
+    }
+  }
+
+  // Stop claiming, wait for active jobs, then abort the rest and hand them back
+  async stop(): Promise<void> {
+    if (!this.started || this.stopping) return;
+    this.stopping = true;
+
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.recoveryTimer) clearInterval(this.recoveryTimer);
+
+    const deadline = Date.now() + this.options.shutdownTimeoutMs;
+    while (this.active.size > 0 && Date.now() < deadline) {
+      console.log(`[${this.labels.name}] Waiting for ${this.active.size} active ${this.labels.noun}(s) to finish...`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+
+    if (this.active.size > 0) {
+      const count = this.active.size;
+      this.active.forEach((controller) => controller.abort(new Error('Worker shutting down')));
+      await this.releaseUnfinished();
+      console.log(`[${this.labels.name}] Handed back ${count} unfinished ${this.labels.noun}(s)`);
+    }
+
+    this.started = false;
+    console.log(`[${this.labels.name}] Worker ${this.workerId} stopped`);
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping || this.stopping) return;
+    this.pumping = true;
+
+    try {
+      while (!this.stopping && this.active.size < this.options.concurrency) {
+        const claimed = await this.claimNext();
+        if (!claimed) break;
+        this.execute(claimed);
+      }
+    } catch (error) {
+      console.error(`[${this.labels.name}] Failed to claim ${this.labels.noun}s:`, error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private execute(claimed: TClaim): void {
+    const controller = new AbortController();
+    this.active.set(claimed.id, controller);
+
+    this.process(claimed, controller)
+      .catch((error) => console.error(`[${this.labels.name}] Failed to finish ${this.labels.noun} ${claimed.id}:`, error))
+      .finally(() => {
+        // A re-queued job can be claimed again before this one has unwound
+        if (this.active.get(claimed.id) === controller) {
+          this.active.delete(claimed.id);
+        }
+        this.pump();
+      });
+  }
+
+  // Renew leases; jobs whose lease was taken away (cancelled, deleted, recovered) are stopped
+  private async heartbeat(): Promise<void> {
+    if (this.active.size === 0) return;
+
+    try {
+      const leased = new Set(await this.renewLeases());
+      this.active.forEach((controller, id) => {
+        if (!leased.has(id)) {
+          console.warn(`[${this.labels.name}] Lease for ${this.labels.noun} ${id} is no longer held by ${this.workerId}`);
+          controller.abort(new Error(`The ${this.labels.noun} is no longer claimed by this worker`));
+        }
+      });
+    } catch (error) {
+      console.error(`[${this.labels.name}] Heartbeat failed:`, error);
+    }
+  }
+}
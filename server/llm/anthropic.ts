@@ -0,0 +1,203 @@
+import {
+  LlmProviderError,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmToolCall,
+} from "./provider";
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic Messages API over fetch. System messages move to the top-level system field;
+// there is no JSON mode, so 'json' requests get an explicit instruction instead. Tool calls
+// map to tool_use blocks and tool results to tool_result blocks in a user turn.
+export class AnthropicProvider implements LlmProvider {
+  constructor(
+    public readonly name: string,
+    private options: { apiKey: string; baseURL?: string; maxTokens?: number }
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content);
+    if (request.responseFormat === 'json') {
+      system.push('Respond with a single JSON object and nothing else.');
+    }
+
+    const baseURL = (this.options.baseURL || 'https://api.anthropic.com').replace(/\/+$/, '');
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: this.options.maxTokens || 4096,
+        ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+        messages: toAnthropicMessages(request.messages),
+        ...(request.tools?.length ? {
+          tools: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+          tool_choice: { type: request.toolChoice || 'auto' },
+        } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.onDelta ? { stream: true } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      let message = body;
+      try {
+        message = JSON.parse(body)?.error?.message || body;
+      } catch {
+        // Not JSON; keep the raw body
+      }
+      throw new LlmProviderError(this.name, response.status, `HTTP ${response.status}: ${message}`, response.headers);
+    }
+
+    if (request.onDelta) {
+      return await this.readStream(response, request, request.onDelta);
+    }
+
+    const data = await response.json();
+    const blocks: any[] = data.content || [];
+    const text = blocks
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+    const toolCalls = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }));
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+
+    return {
+      text,
+      toolCalls,
+      model: data.model || request.model,
+      usage: {
+        model: data.model || request.model,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  // Server-sent events: text_delta chunks are forwarded, tool_use input arrives as partial JSON
+  private async readStream(
+    response: Response,
+    request: LlmRequest,
+    onDelta: (text: string) => void
+  ): Promise<LlmResponse> {
+    let text = '';
+    let model = request.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls = new Map<number, LlmToolCall>();
+
+    const handle = (event: any) => {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          promptTokens = event.message?.usage?.input_tokens ?? 0;
+          completionTokens = event.message?.usage?.output_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            text += event.delta.text;
+            onDelta(event.delta.text);
+          } else if (event.delta?.type === 'input_json_delta') {
+            const call = toolCalls.get(event.index);
+            if (call) call.arguments += event.delta.partial_json;
+          }
+          break;
+        case 'message_delta':
+          completionTokens = event.usage?.output_tokens ?? completionTokens;
+          break;
+        case 'error':
+          throw new LlmProviderError(this.name, 500, event.error?.message || 'Stream error');
+      }
+    };
+
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const data = buffer
+          .slice(0, boundary)
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('');
+        buffer = buffer.slice(boundary + 2);
+        if (data) handle(JSON.parse(data));
+      }
+    }
+
+    return {
+      text,
+      // Tools without arguments stream no input deltas
+      toolCalls: Array.from(toolCalls.values(), (call) => ({ ...call, arguments: call.arguments || '{}' })),
+      model,
+      usage: { model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+}
+
+// Consecutive tool results are sent together in one user turn, as the API requires
+function toAnthropicMessages(messages: LlmMessage[]): Array<{ role: 'user' | 'assistant'; content: any }> {
+  const converted: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = converted[converted.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: parseArguments(call.arguments) })),
+        ],
+      });
+    } else {
+      converted.push({ role: message.role, content: message.content });
+    }
+  }
+  return converted;
+}
+
+function parseArguments(text: string): Record<string, any> {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,44 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from "./provider";
+
+// Return a string for a text answer, or a response-shaped object to script tool calls
+export type FakeResponder = (request: LlmRequest) => string | Pick<LlmResponse, 'text' | 'toolCalls'>;
+
+// Deterministic provider for tests and offline development: the same request always gets
+// the same answer and no network is involved. By default it echoes the last user message
+// (as a JSON object when JSON output was requested); pass a responder to script answers.
+export class FakeProvider implements LlmProvider {
+  constructor(public readonly name = 'fake', private responder: FakeResponder = echo) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    request.signal?.throwIfAborted();
+
+    const answer = this.responder(request);
+    const { text, toolCalls } = typeof answer === 'string' ? { text: answer, toolCalls: [] } : answer;
+    const promptTokens = estimateTokens(request.messages.map((message) => message.content).join('\n'));
+    const completionTokens = estimateTokens(text);
+    // Streamed word by word so callers see the same deltas every time
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      request.onDelta?.(chunk);
+    }
+
+    return {
+      text,
+      toolCalls,
+      model: request.model,
+      usage: { model: request.model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+}
+
+function echo(request: LlmRequest): string {
+  const lastUser = [...request.messages].reverse().find((message) => message.role === 'user')?.content || '';
+  if (request.responseFormat === 'json') {
+    return JSON.stringify({ model: request.model, echo: lastUser });
+  }
+  return `Mock response from ${request.model} to: "${lastUser}"`;
+}
+
+// Roughly four characters per token, close enough for metrics on fake calls
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
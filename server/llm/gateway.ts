@@ -0,0 +1,145 @@
+import { AnthropicProvider } from "./anthropic";
+import { FakeProvider } from "./fake";
+import { OpenAiProvider } from "./openai";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./provider";
+
+// Single entry point for LLM calls. Providers are registered from the environment:
+//   OPENAI_API_KEY (+ OPENAI_BASE_URL)                                  -> 'openai'
+//   ANTHROPIC_API_KEY (+ ANTHROPIC_BASE_URL, ANTHROPIC_MAX_TOKENS)      -> 'anthropic'
+//   AZURE_OPENAI_ENDPOINT + AZURE_OPENAI_API_KEY (+ AZURE_OPENAI_API_VERSION) -> 'azure'
+//   LLM_PROVIDERS='{"ollama": {"type": "openai-compatible", "baseUrl": "http://localhost:11434/v1"}}'
+// 'fake' is always available. Models are referenced as "provider/model" (anthropic/claude-sonnet-4-5,
+// ollama/llama3.1) or by bare name: claude-* goes to anthropic, anything else to LLM_DEFAULT_PROVIDER.
+
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+// Where a step's model can come from, highest priority first
+export interface ModelSelection {
+  override?: string | null; // Chosen at run time, e.g. a policy switch_model fallback
+  step?: string | null; // Step config override
+  agent?: string | null; // The agent's own model
+  routing?: { default?: string } | null; // Project policy modelRouting
+}
+
+interface ProviderConfig {
+  type: 'openai' | 'openai-compatible' | 'azure' | 'anthropic' | 'fake';
+  apiKey?: string;
+  baseUrl?: string;
+  endpoint?: string; // azure
+  apiVersion?: string; // azure
+  maxTokens?: number; // anthropic
+}
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+export const DEFAULT_MODEL = process.env.LLM_DEFAULT_MODEL || 'gpt-5';
+export const ESCALATION_MODEL = process.env.LLM_ESCALATION_MODEL || undefined;
+
+function createProvider(name: string, config: ProviderConfig): LlmProvider {
+  switch (config.type) {
+    case 'openai':
+    case 'openai-compatible':
+      return OpenAiProvider.openai(name, { apiKey: config.apiKey, baseURL: config.baseUrl });
+    case 'azure':
+      if (!config.endpoint || !config.apiKey) {
+        throw new Error('azure providers need endpoint and apiKey');
+      }
+      return OpenAiProvider.azure(name, { endpoint: config.endpoint, apiKey: config.apiKey, apiVersion: config.apiVersion });
+    case 'anthropic':
+      if (!config.apiKey) {
+        throw new Error('anthropic providers need apiKey');
+      }
+      return new AnthropicProvider(name, { apiKey: config.apiKey, baseURL: config.baseUrl, maxTokens: config.maxTokens });
+    case 'fake':
+      return new FakeProvider(name);
+    default:
+      throw new Error(`unknown provider type ${(config as any).type}`);
+  }
+}
+
+function configuredProviders(): Record<string, ProviderConfig> {
+  const configs: Record<string, ProviderConfig> = {};
+  if (process.env.OPENAI_API_KEY) {
+    configs.openai = { type: 'openai', apiKey: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL };
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    const maxTokens = parseInt(process.env.ANTHROPIC_MAX_TOKENS || '', 10);
+    configs.anthropic = {
+      type: 'anthropic',
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseUrl: process.env.ANTHROPIC_BASE_URL,
+      maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : undefined,
+    };
+  }
+  if (process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY) {
+    configs.azure = {
+      type: 'azure',
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+    };
+  }
+
+  if (process.env.LLM_PROVIDERS) {
+    try {
+      Object.assign(configs, JSON.parse(process.env.LLM_PROVIDERS));
+    } catch (error) {
+      console.warn('[LLM] LLM_PROVIDERS is not valid JSON, ignoring it:', (error as Error).message);
+    }
+  }
+  return configs;
+}
+
+class LlmGateway {
+  private providers = new Map<string, LlmProvider>();
+
+  constructor() {
+    this.registerProvider(new FakeProvider());
+    for (const [name, config] of Object.entries(configuredProviders())) {
+      try {
+        this.registerProvider(createProvider(name, config));
+      } catch (error) {
+        console.warn(`[LLM] Skipping provider ${name}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  // Also how tests swap in a scripted FakeProvider
+  registerProvider(provider: LlmProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  // A prefix only names a provider when one is registered under it, so model
+  // names that contain slashes (meta-llama/Llama-3.1-8B) still reach the default provider
+  parseModel(ref: string): ModelRef {
+    const slash = ref.indexOf('/');
+    if (slash > 0 && this.providers.has(ref.slice(0, slash))) {
+      return { provider: ref.slice(0, slash), model: ref.slice(slash + 1) };
+    }
+    if (ref.startsWith('claude')) {
+      return { provider: 'anthropic', model: ref };
+    }
+    return { provider: process.env.LLM_DEFAULT_PROVIDER || 'openai', model: ref };
+  }
+
+  isConfigured(ref: string): boolean {
+    return this.providers.has(this.parseModel(ref).provider);
+  }
+
+  async complete(ref: string, request: Omit<LlmRequest, 'model'>): Promise<LlmResponse> {
+    const { provider: name, model } = this.parseModel(ref);
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`No LLM provider configured for ${ref} (provider ${name})`);
+    }
+    return await provider.complete({ ...request, model });
+  }
+}
+
+export const llmGateway = new LlmGateway();
+
+export function resolveModel(selection: ModelSelection = {}): string {
+  return selection.override || selection.step || selection.agent || selection.routing?.default || DEFAULT_MODEL;
+}
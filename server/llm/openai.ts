@@ -0,0 +1,130 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type {
+  ChatCompletionCreateParamsBase,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmToolCall } from "./provider";
+
+// Chat Completions adapter. Serves OpenAI itself, Azure OpenAI (model = deployment name)
+// and any OpenAI-compatible server such as Ollama or vLLM via a custom baseURL.
+export class OpenAiProvider implements LlmProvider {
+  constructor(public readonly name: string, private client: OpenAI) {}
+
+  static openai(name: string, options: { apiKey?: string; baseURL?: string }): OpenAiProvider {
+    // Local servers usually ignore the key, but the SDK requires one
+    return new OpenAiProvider(name, new OpenAI({ apiKey: options.apiKey || 'not-needed', baseURL: options.baseURL }));
+  }
+
+  static azure(name: string, options: { endpoint: string; apiKey: string; apiVersion?: string }): OpenAiProvider {
+    return new OpenAiProvider(name, new AzureOpenAI({
+      endpoint: options.endpoint,
+      apiKey: options.apiKey,
+      apiVersion: options.apiVersion || '2024-10-21',
+    }));
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    if (request.onDelta) {
+      return await this.stream(request, request.onDelta);
+    }
+
+    const response = await this.client.chat.completions.create({
+      ...this.params(request),
+      stream: false,
+    }, {
+      signal: request.signal,
+      maxRetries: request.maxRetries,
+    });
+
+    const message = response.choices[0]?.message;
+    return {
+      text: message?.content || "",
+      toolCalls: (message?.tool_calls || [])
+        .filter((call) => call.type === 'function')
+        .map((call) => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+      model: response.model || request.model,
+      usage: {
+        model: response.model || request.model,
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+
+  // Text deltas are forwarded as they arrive; tool call fragments are assembled by index
+  private async stream(request: LlmRequest, onDelta: (text: string) => void): Promise<LlmResponse> {
+    const stream = await this.client.chat.completions.create({
+      ...this.params(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, {
+      signal: request.signal,
+      maxRetries: request.maxRetries,
+    });
+
+    let text = "";
+    let model = request.model;
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const toolCalls: LlmToolCall[] = [];
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onDelta(delta.content);
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' };
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      }
+    }
+
+    return { text, toolCalls: toolCalls.filter(Boolean), model, usage: { model, ...usage } };
+  }
+
+  private params(request: LlmRequest): ChatCompletionCreateParamsBase {
+    const tools = request.tools?.length ? request.tools : undefined;
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAiMessage),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(tools ? {
+        tools: tools.map((tool) => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+        tool_choice: request.toolChoice || 'auto',
+      } : {}),
+    };
+  }
+}
+
+function toOpenAiMessage(message: LlmMessage): ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
@@ -0,0 +1,68 @@
+// Provider-neutral chat completion types. Each provider adapter translates these to and
+// from its own API, so callers never depend on a vendor SDK.
+
+export type LlmRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// A function call requested by the model; arguments is the raw JSON text it produced
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type LlmMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }; // Result of one tool call
+
+// Function the model may call; parameters is a JSON Schema object
+export interface LlmToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+export interface LlmRequest {
+  model: string; // Model name as the provider knows it (no provider prefix)
+  messages: LlmMessage[];
+  responseFormat?: 'text' | 'json'; // 'json' asks for a single JSON object
+  tools?: LlmToolDefinition[];
+  toolChoice?: 'auto' | 'none'; // 'none' forces a text answer while tools stay declared
+  temperature?: number;
+  signal?: AbortSignal;
+  maxRetries?: number; // Provider-level retries; callers with their own retry policy pass 0
+  onDelta?: (text: string) => void; // Streams the answer's text as it is generated; the response is still complete
+}
+
+export interface LlmUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[]; // Empty unless the model asked for tools (possibly several at once)
+  model: string; // Model that actually answered (may be a dated snapshot of the requested one)
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Thrown for non-2xx responses of fetch-based providers. status/headers mirror the SDK errors
+// so step retry classification and Retry-After handling treat every provider alike.
+export class LlmProviderError extends Error {
+  constructor(
+    public provider: string,
+    public status: number | undefined,
+    message: string,
+    public headers?: Headers
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'LlmProviderError';
+  }
+}
@@ -0,0 +1,97 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import type { McpConfiguration } from "@shared/schema";
+
+// The client module reaches the database through storage; nothing here queries it
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const STUB_COMMAND = `"${process.execPath}" "${fileURLToPath(new URL("./fixtures/stub-server.mjs", import.meta.url))}"`;
+process.env.MCP_STDIO_COMMANDS = STUB_COMMAND;
+process.env.MCP_STDIO_ENV = "STUB_GREETING";
+
+const { McpClient, createTransport, validateMcpEndpoint } = await import("./client");
+
+function stubConfig(authConfig: Record<string, any> = {}): McpConfiguration {
+  return {
+    id: "stub",
+    projectId: "project",
+    name: "stub",
+    description: null,
+    role: "client",
+    endpoint: STUB_COMMAND,
+    capabilities: null,
+    resources: null,
+    authConfig,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("McpClient over stdio", () => {
+  let client: InstanceType<typeof McpClient>;
+
+  before(async () => {
+    client = new McpClient(createTransport(stubConfig({ env: { STUB_GREETING: "hello from env" } })), 5000);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  test("initialize negotiates the protocol version", async () => {
+    const info = await client.connect();
+    assert.equal(info.serverInfo.name, "stub");
+    assert.equal(info.protocolVersion, "2025-03-26");
+    assert.equal(client.isConnected, true);
+  });
+
+  test("tools/list follows cursors across pages", async () => {
+    const tools = await client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name), ["echo", "env", "fail"]);
+    assert.deepEqual(tools[0].inputSchema.required, ["text"]);
+  });
+
+  test("tools/call returns text and structured content", async () => {
+    const result = await client.callTool("echo", { text: "ping" });
+    assert.deepEqual(result.content, [{ type: "text", text: "ping" }]);
+    assert.deepEqual(result.structuredContent, { text: "ping" });
+  });
+
+  test("tools/call passes allowed environment variables to the server", async () => {
+    const result = await client.callTool("env", {});
+    assert.deepEqual(result.content, [{ type: "text", text: "hello from env" }]);
+  });
+
+  test("tool errors come back as isError results", async () => {
+    const result = await client.callTool("fail", {});
+    assert.equal(result.isError, true);
+  });
+
+  test("JSON-RPC errors reject", async () => {
+    await assert.rejects(client.callTool("missing", {}), /tools\/call failed \(-32602\): Unknown tool: missing/);
+  });
+});
+
+describe("validateMcpEndpoint", () => {
+  test("accepts http(s) endpoints and allowlisted commands", () => {
+    assert.equal(validateMcpEndpoint("https://mcp.example.com/mcp"), null);
+    assert.equal(validateMcpEndpoint(STUB_COMMAND, { env: { STUB_GREETING: "hi" } }), null);
+  });
+
+  test("rejects commands that are not allowlisted", () => {
+    assert.match(validateMcpEndpoint("npx -y some-server") || "", /is not allowed/);
+    assert.match(validateMcpEndpoint(`${STUB_COMMAND} --extra`) || "", /is not allowed/);
+  });
+
+  test("rejects environment variables that are not allowlisted", () => {
+    assert.match(validateMcpEndpoint(STUB_COMMAND, { env: { npm_config_registry: "http://evil" } }) || "", /npm_config_registry/);
+    assert.match(validateMcpEndpoint(STUB_COMMAND, { env: { NODE_OPTIONS: "--require /tmp/x.js" } }) || "", /NODE_OPTIONS/);
+  });
+
+  test("rejects a working directory", () => {
+    assert.match(validateMcpEndpoint(STUB_COMMAND, { cwd: "/tmp" }) || "", /working directory/);
+    assert.throws(() => createTransport(stubConfig({ cwd: "/tmp" })), /working directory/);
+  });
+});
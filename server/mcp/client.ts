@@ -0,0 +1,401 @@
+import { storage } from "../storage";
+import { featureFlagService, FeatureFlags } from "../engine/feature-flags";
+import {
+  JSONRPC_VERSION,
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type McpCallToolResult,
+  type McpInitializeResult,
+  type McpListToolsResult,
+  type McpToolInfo,
+} from "./protocol";
+import { StdioTransport, StreamableHttpTransport, type McpTransport } from "./transport";
+import type { McpConfiguration, McpTool } from "@shared/schema";
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const MAX_TOOL_PAGES = 50;
+
+// Connection settings stored in mcpConfigurations.authConfig
+export interface McpAuthConfig {
+  headers?: Record<string, string>; // HTTP: extra request headers
+  bearerToken?: string; // HTTP: sent as Authorization: Bearer <token>
+  env?: Record<string, string>; // stdio: extra environment for the spawned process (names in MCP_STDIO_ENV only)
+  timeoutMs?: number; // Per-request timeout
+}
+
+// Spec of a project tool with type 'mcp'
+export interface McpToolSpec {
+  mcpConfigId: string;
+  toolName?: string; // Remote tool name; defaults to the project tool name
+}
+
+export class McpClient {
+  private nextId = 1;
+  private serverInfo: McpInitializeResult | null = null;
+
+  constructor(private transport: McpTransport, private requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS) {}
+
+  get isConnected(): boolean {
+    return this.serverInfo !== null && !this.transport.closed;
+  }
+
+  get server(): McpInitializeResult | null {
+    return this.serverInfo;
+  }
+
+  // Initialize handshake: negotiate protocol version, then confirm with notifications/initialized
+  async connect(): Promise<McpInitializeResult> {
+    await this.transport.start();
+
+    const result: McpInitializeResult = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'vortic', version: '1.0.0' },
+    });
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      await this.transport.close();
+      throw new Error(`Unsupported MCP protocol version: ${result.protocolVersion}`);
+    }
+
+    this.transport.setProtocolVersion(result.protocolVersion);
+    await this.transport.notify({ jsonrpc: JSONRPC_VERSION, method: 'notifications/initialized' });
+
+    this.serverInfo = result;
+    return result;
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result: McpListToolsResult = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result.tools || []));
+      cursor = result.nextCursor;
+      if (!cursor) break;
+    }
+
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<McpCallToolResult> {
+    return await this.request('tools/call', { name, arguments: args }, signal);
+  }
+
+  async close(): Promise<void> {
+    this.serverInfo = null;
+    await this.transport.close();
+  }
+
+  private async request(method: string, params: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const id = this.nextId++;
+    const pending = this.transport.request({ jsonrpc: JSONRPC_VERSION, id, method, params }, this.requestTimeoutMs);
+    const response = signal ? await this.cancellable(pending, id, signal) : await pending;
+
+    if (response.error) {
+      throw new Error(`MCP ${method} failed (${response.error.code}): ${response.error.message}`);
+    }
+
+    return response.result;
+  }
+
+  // Reject as soon as the caller aborts and tell the server to stop working on the request
+  private cancellable<T>(pending: Promise<T>, requestId: number, signal: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.transport.notify({
+          jsonrpc: JSONRPC_VERSION,
+          method: 'notifications/cancelled',
+          params: { requestId, reason: String(signal.reason?.message || signal.reason || 'aborted') },
+        }).catch(() => {});
+        reject(signal.reason);
+      };
+
+      if (signal.aborted) {
+        pending.catch(() => {});
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      pending.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+// Environment variables configurations may set for stdio servers: MCP_STDIO_ENV lists their names,
+// separated by commas. Many variables make a process load code (LD_PRELOAD, NODE_OPTIONS,
+// npm_config_registry, ...), so nothing else is allowed.
+function allowedStdioEnv(): Set<string> {
+  return new Set(
+    (process.env.MCP_STDIO_ENV || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean)
+  );
+}
+
+// Stdio servers the host may spawn: MCP_STDIO_COMMANDS lists full command lines separated by
+// newlines or semicolons. Commands run on this machine, so project owners can only pick one of them.
+function allowedStdioCommands(): string[][] {
+  return (process.env.MCP_STDIO_COMMANDS || '')
+    .split(/[\n;]/)
+    .map((line) => splitCommandLine(line.trim()))
+    .filter((parts) => parts.length > 0);
+}
+
+// Why a client configuration may not be used, or null when it may. Checked when a configuration
+// is saved and again before connecting, for configurations saved before the allowlist existed.
+export function validateMcpEndpoint(endpoint: string | null | undefined, authConfig?: unknown): string | null {
+  const trimmed = endpoint?.trim();
+  if (!trimmed || /^https?:\/\//i.test(trimmed)) {
+    return null;
+  }
+
+  const parts = splitCommandLine(trimmed.replace(/^stdio:/i, ''));
+  const allowed = allowedStdioCommands().some((command) =>
+    command.length === parts.length && command.every((part, i) => part === parts[i])
+  );
+  if (!allowed) {
+    return `Stdio MCP server '${parts[0] || trimmed}' is not allowed; use an http(s) endpoint or ask an administrator to add the command to MCP_STDIO_COMMANDS`;
+  }
+
+  const auth = (authConfig || {}) as McpAuthConfig & { cwd?: unknown };
+  // Relative commands and scripts resolve from the working directory, so it stays the host's
+  if (auth.cwd !== undefined) {
+    return 'A working directory cannot be set for stdio MCP servers';
+  }
+  const allowedEnv = allowedStdioEnv();
+  const disallowed = Object.keys(auth.env || {}).filter((name) => !allowedEnv.has(name));
+  if (disallowed.length > 0) {
+    return `Environment variable(s) ${disallowed.join(', ')} cannot be set for stdio MCP servers; ask an administrator to add them to MCP_STDIO_ENV`;
+  }
+  return null;
+}
+
+// Build a transport from a client configuration: http(s) endpoints use streamable HTTP,
+// anything else is a command line for a local stdio server (allowlisted, see validateMcpEndpoint)
+export function createTransport(config: McpConfiguration): McpTransport {
+  const endpoint = config.endpoint?.trim();
+  if (!endpoint) {
+    throw new Error(`MCP configuration '${config.name}' has no endpoint`);
+  }
+
+  const auth = (config.authConfig || {}) as McpAuthConfig;
+
+  if (/^https?:\/\//i.test(endpoint)) {
+    const headers: Record<string, string> = { ...(auth.headers || {}) };
+    if (auth.bearerToken) {
+      headers['Authorization'] = `Bearer ${auth.bearerToken}`;
+    }
+    return new StreamableHttpTransport({ url: endpoint, headers });
+  }
+
+  const invalid = validateMcpEndpoint(endpoint, auth);
+  if (invalid) {
+    throw new Error(`MCP configuration '${config.name}': ${invalid}`);
+  }
+
+  const [command, ...args] = splitCommandLine(endpoint.replace(/^stdio:/i, ''));
+  if (!command) {
+    throw new Error(`MCP configuration '${config.name}' has an invalid stdio command`);
+  }
+  return new StdioTransport({ command, args, env: auth.env });
+}
+
+// Split a command line on whitespace, honouring single and double quotes
+export function splitCommandLine(commandLine: string): string[] {
+  const parts: string[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(commandLine)) !== null) {
+    parts.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : (match[2] ?? match[3]));
+  }
+  return parts;
+}
+
+// Keeps one live client per MCP configuration and reconnects when it is edited or drops
+class McpClientManager {
+  private clients = new Map<string, { client: McpClient; version: string }>();
+  private connecting = new Map<string, Promise<McpClient>>();
+
+  async getClient(config: McpConfiguration): Promise<McpClient> {
+    const version = String(config.updatedAt?.getTime() ?? '');
+    const cached = this.clients.get(config.id);
+    if (cached && cached.version === version && cached.client.isConnected) {
+      return cached.client;
+    }
+
+    const inFlight = this.connecting.get(config.id);
+    if (inFlight) {
+      return await inFlight;
+    }
+
+    const connectPromise = (async () => {
+      if (cached) {
+        await cached.client.close().catch(() => {});
+        this.clients.delete(config.id);
+      }
+
+      const auth = (config.authConfig || {}) as McpAuthConfig;
+      const client = new McpClient(createTransport(config), auth.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS);
+      const info = await client.connect();
+      console.log(`[MCP] Connected to ${info.serverInfo?.name || config.name} (protocol ${info.protocolVersion})`);
+
+      this.clients.set(config.id, { client, version });
+      return client;
+    })();
+
+    this.connecting.set(config.id, connectPromise);
+    try {
+      return await connectPromise;
+    } finally {
+      this.connecting.delete(config.id);
+    }
+  }
+
+  // Refresh the mcpTools table from the server's tools/list
+  async syncTools(config: McpConfiguration): Promise<McpTool[]> {
+    const client = await this.getClient(config);
+    const remoteTools = await client.listTools();
+
+    return await storage.replaceMcpTools(config.id, remoteTools.map((tool) => ({
+      mcpConfigId: config.id,
+      name: tool.name,
+      description: tool.description || tool.title || null,
+      inputSchema: tool.inputSchema || { type: 'object' },
+      outputSchema: tool.outputSchema || null,
+      metadata: {
+        title: tool.title,
+        annotations: tool.annotations,
+        server: client.server?.serverInfo,
+        syncedAt: new Date().toISOString(),
+      },
+    })));
+  }
+
+  async callTool(
+    config: McpConfiguration,
+    toolName: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<McpCallToolResult> {
+    const client = await this.getClient(config);
+    try {
+      return await client.callTool(toolName, args, signal);
+    } catch (error) {
+      // Drop dead connections so the next call reconnects
+      if (!client.isConnected) {
+        this.clients.delete(config.id);
+      }
+      throw error;
+    }
+  }
+
+  async disconnect(configId: string): Promise<void> {
+    const cached = this.clients.get(configId);
+    if (cached) {
+      this.clients.delete(configId);
+      await cached.client.close();
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    const ids = Array.from(this.clients.keys());
+    await Promise.all(ids.map((id) => this.disconnect(id).catch(() => {})));
+  }
+}
+
+export const mcpClientManager = new McpClientManager();
+
+// Only active client configurations of projects with the MCP client enabled are connected to
+export async function assertClientUsable(config: McpConfiguration): Promise<void> {
+  if (config.role !== 'client') {
+    throw new Error(`MCP configuration '${config.name}' is not a client configuration`);
+  }
+  if (!config.isActive) {
+    throw new Error(`MCP configuration '${config.name}' is inactive`);
+  }
+  if (!(await featureFlagService.isEnabled(FeatureFlags.MCP_CLIENT, config.projectId))) {
+    throw new Error("MCP client is not enabled for this project");
+  }
+}
+
+// Invoke the remote tool behind an 'mcp' project tool with the step's mapped inputs
+export async function invokeMcpTool(
+  spec: McpToolSpec,
+  toolName: string,
+  payload: Record<string, any>,
+  projectId?: string,
+  signal?: AbortSignal
+): Promise<any> {
+  if (!spec?.mcpConfigId) {
+    throw new Error(`MCP tool '${toolName}' has no mcpConfigId in its spec`);
+  }
+
+  const config = await storage.getMcpConfiguration(spec.mcpConfigId);
+  if (!config || (projectId && config.projectId !== projectId)) {
+    throw new Error(`MCP configuration ${spec.mcpConfigId} not found`);
+  }
+  await assertClientUsable(config);
+
+  const remoteName = spec.toolName || toolName;
+
+  // Use the synced tool list to pick arguments; sync on first use
+  let knownTools = await storage.getMcpTools(config.id);
+  let remoteTool = knownTools.find((t) => t.name === remoteName);
+  if (!remoteTool) {
+    knownTools = await mcpClientManager.syncTools(config);
+    remoteTool = knownTools.find((t) => t.name === remoteName);
+  }
+  if (!remoteTool) {
+    throw new Error(`MCP server '${config.name}' does not provide tool '${remoteName}'`);
+  }
+
+  const args = selectToolArguments(remoteTool.inputSchema as Record<string, any>, payload);
+  const result = await mcpClientManager.callTool(config, remoteName, args, signal);
+
+  if (result.isError) {
+    throw new Error(`MCP tool '${remoteName}' returned an error: ${contentToText(result)}`);
+  }
+
+  return toToolOutput(result);
+}
+
+// Only send properties the tool's input schema declares (the payload may be the whole run context)
+export function selectToolArguments(inputSchema: Record<string, any> | null, payload: Record<string, any>): Record<string, any> {
+  const properties = inputSchema?.properties;
+  if (!properties || typeof properties !== 'object') {
+    return payload;
+  }
+
+  const args: Record<string, any> = {};
+  for (const key of Object.keys(properties)) {
+    if (payload[key] !== undefined) {
+      args[key] = payload[key];
+    }
+  }
+  return args;
+}
+
+// Prefer structured content; fall back to text content (parsed as JSON when possible)
+function toToolOutput(result: McpCallToolResult): any {
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+
+  const text = contentToText(result);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { text, content: result.content };
+  }
+}
+
+function contentToText(result: McpCallToolResult): string {
+  return (result.content || [])
+    .filter((item) => item.type === 'text')
+    .map((item) => (item as { text: string }).text)
+    .join('\n');
+}
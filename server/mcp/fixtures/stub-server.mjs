@@ -0,0 +1,61 @@
+// Minimal stdio MCP server for tests: newline-delimited JSON-RPC on stdin/stdout.
+// Tools (listed over two pages to exercise cursors):
+//   echo  - returns its `text` argument as text and structured content
+//   env   - returns the STUB_GREETING environment variable
+//   fail  - returns a tool error (isError)
+// Unknown tools get a JSON-RPC invalid params error. Exits when stdin closes.
+import { createInterface } from "readline";
+
+const PAGES = [
+  [
+    { name: "echo", description: "Echo the text back", inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] } },
+    { name: "env", description: "Read STUB_GREETING", inputSchema: { type: "object" } },
+  ],
+  [
+    { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+  ],
+];
+
+function respond(id, result) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n");
+}
+
+function fail(id, code, message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, error: { code, message } }) + "\n");
+}
+
+function callTool(id, name, args) {
+  switch (name) {
+    case "echo":
+      return respond(id, { content: [{ type: "text", text: String(args.text) }], structuredContent: { text: args.text } });
+    case "env":
+      return respond(id, { content: [{ type: "text", text: process.env.STUB_GREETING || "" }] });
+    case "fail":
+      return respond(id, { content: [{ type: "text", text: "stub failure" }], isError: true });
+    default:
+      return fail(id, -32602, `Unknown tool: ${name}`);
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  if (!line.trim()) return;
+  const message = JSON.parse(line);
+  if (message.id === undefined) return; // Notifications need no answer
+
+  switch (message.method) {
+    case "initialize":
+      return respond(message.id, {
+        protocolVersion: message.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "stub", version: "1.0.0" },
+      });
+    case "tools/list": {
+      const page = Number(message.params?.cursor || 0);
+      return respond(message.id, { tools: PAGES[page], nextCursor: page + 1 < PAGES.length ? String(page + 1) : undefined });
+    }
+    case "tools/call":
+      return callTool(message.id, message.params.name, message.params.arguments || {});
+    default:
+      return fail(message.id, -32601, `Method not found: ${message.method}`);
+  }
+});
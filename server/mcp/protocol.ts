@@ -0,0 +1,92 @@
+// Model Context Protocol wire types (JSON-RPC 2.0 framing)
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+export const JSONRPC_VERSION = "2.0" as const;
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: typeof JSONRPC_VERSION;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JsonRpcId | null;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+// Standard JSON-RPC error codes
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export interface McpImplementationInfo {
+  name: string;
+  version: string;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: McpImplementationInfo;
+  instructions?: string;
+}
+
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+  annotations?: Record<string, any>;
+}
+
+export interface McpListToolsResult {
+  tools: McpToolInfo[];
+  nextCursor?: string;
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
+  | { type: "resource_link"; uri: string; name?: string; mimeType?: string };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+export function isJsonRpcResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return 'id' in message && !('method' in message);
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'id' in message && 'method' in message;
+}
@@ -0,0 +1,293 @@
+import { storage } from "../storage";
+import { runQueue } from "../engine/run-queue";
+import { jsonSchemaToZod } from "../engine/step-executor";
+import { envInt } from "../env";
+import {
+  JSONRPC_VERSION,
+  JsonRpcErrorCode,
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpToolInfo,
+} from "./protocol";
+import type { Flow, KnowledgeBase, McpConfiguration, Project, Run } from "@shared/schema";
+
+const KNOWLEDGE_BASE_URI_PREFIX = "vortic://knowledge-bases/";
+const MAX_RESOURCE_ITEMS = 500;
+
+// How long tools/call holds the request open for a flow run before answering "still running"
+const CALL_WAIT_MS = envInt('MCP_CALL_WAIT_MS', 60000, 0);
+
+// Built-in tool that reports on a run started by an earlier tools/call
+const RUN_STATUS_TOOL: McpToolInfo = {
+  name: 'vortic_run_status',
+  title: 'Flow run status',
+  description: 'Check a flow run that was still running or awaiting approval when its tool call returned, and get its output once it has finished',
+  inputSchema: {
+    type: 'object',
+    properties: { runId: { type: 'string', description: 'runId returned by the flow tool' } },
+    required: ['runId'],
+  },
+};
+
+// Optional allow-lists stored in mcpConfigurations.resources for a server configuration
+interface McpServerResources {
+  flowIds?: string[];
+  knowledgeBaseIds?: string[];
+}
+
+// Per-request view of what a project publishes over MCP
+export interface McpServerContext {
+  project: Project;
+  config: McpConfiguration;
+}
+
+class McpRequestError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+// Handle one JSON-RPC message (or batch); returns null when nothing needs to be sent back
+export async function handleMcpMessage(
+  ctx: McpServerContext,
+  payload: JsonRpcMessage | JsonRpcMessage[]
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (Array.isArray(payload)) {
+    const responses = (await Promise.all(payload.map((message) => handleSingleMessage(ctx, message))))
+      .filter((response): response is JsonRpcResponse => response !== null);
+    return responses.length > 0 ? responses : null;
+  }
+  return await handleSingleMessage(ctx, payload);
+}
+
+async function handleSingleMessage(ctx: McpServerContext, message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+  if (!message || message.jsonrpc !== JSONRPC_VERSION || !('method' in message) || typeof message.method !== 'string') {
+    // Responses from the client (we never send requests) and malformed input
+    if (message && 'id' in message && !('method' in message)) return null;
+    return errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, "Invalid JSON-RPC request");
+  }
+
+  // Notifications (e.g. notifications/initialized) need no reply
+  if (!('id' in message)) {
+    return null;
+  }
+
+  const { id, method, params = {} } = message;
+  try {
+    const result = await dispatchMethod(ctx, method, params);
+    return { jsonrpc: JSONRPC_VERSION, id, result };
+  } catch (error) {
+    if (error instanceof McpRequestError) {
+      return errorResponse(id, error.code, error.message);
+    }
+    console.error(`[MCP Server] ${method} failed:`, error);
+    return errorResponse(id, JsonRpcErrorCode.INTERNAL_ERROR, (error as Error).message);
+  }
+}
+
+async function dispatchMethod(ctx: McpServerContext, method: string, params: Record<string, any>): Promise<any> {
+  switch (method) {
+    case 'initialize':
+      return initialize(ctx, params);
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: [...(await listFlowTools(ctx)).map(({ tool }) => tool), RUN_STATUS_TOOL] };
+    case 'tools/call':
+      return params.name === RUN_STATUS_TOOL.name
+        ? await getRunStatus(ctx, params)
+        : await callFlowTool(ctx, params);
+    case 'resources/list':
+      return { resources: (await listKnowledgeBases(ctx)).map(toResource) };
+    case 'resources/read':
+      return await readKnowledgeBase(ctx, params);
+    default:
+      throw new McpRequestError(JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+function initialize(ctx: McpServerContext, params: Record<string, any>) {
+  const requested = params.protocolVersion;
+  return {
+    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+    capabilities: {
+      tools: { listChanged: false },
+      resources: { subscribe: false, listChanged: false },
+    },
+    serverInfo: { name: `vortic-${ctx.project.name}`, version: '1.0.0' },
+    instructions: ctx.config.description || ctx.project.description || undefined,
+  };
+}
+
+// Flows become MCP tools; names are slugs of the flow name, disambiguated by id prefix
+async function listFlowTools(ctx: McpServerContext): Promise<Array<{ flow: Flow; tool: McpToolInfo }>> {
+  const allowed = (ctx.config.resources as McpServerResources | null)?.flowIds;
+  const flows = (await storage.getFlows(ctx.project.id))
+    .filter((flow) => !allowed || allowed.includes(flow.id));
+
+  const usedNames = new Set<string>([RUN_STATUS_TOOL.name]);
+  return flows.map((flow) => {
+    let name = toToolName(flow.name);
+    if (usedNames.has(name)) {
+      name = `${name.slice(0, 55)}_${flow.id.slice(0, 8)}`;
+    }
+    usedNames.add(name);
+
+    return {
+      flow,
+      tool: {
+        name,
+        title: flow.name,
+        description: flow.description || `Run the "${flow.name}" flow`,
+        inputSchema: (flow.inputSchema as Record<string, any>) || { type: 'object', properties: {} },
+        ...(flow.outputSchema ? { outputSchema: flow.outputSchema as Record<string, any> } : {}),
+      },
+    };
+  });
+}
+
+function toToolName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+  return (slug || 'flow').slice(0, 64);
+}
+
+// Start a flow run and return its context as the tool result. Runs that take longer than
+// MCP_CALL_WAIT_MS or pause for an approval return their runId for vortic_run_status instead.
+async function callFlowTool(ctx: McpServerContext, params: Record<string, any>): Promise<McpCallToolResult> {
+  const tools = await listFlowTools(ctx);
+  const match = tools.find(({ tool }) => tool.name === params.name);
+  if (!match) {
+    throw new McpRequestError(JsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+  }
+
+  const args = params.arguments || {};
+  if (match.flow.inputSchema) {
+    const validation = jsonSchemaToZod(match.flow.inputSchema).safeParse(args);
+    if (!validation.success) {
+      return toolError(`Invalid arguments: ${validation.error.message}`);
+    }
+  }
+
+  const run = await storage.createRun({
+    flowId: match.flow.id,
+    sessionId: `mcp_${Date.now()}`,
+    status: 'queued',
+    input: args,
+    context: {},
+  });
+
+  runQueue.wake();
+  return await runResult(match.flow, await runQueue.waitForSettled(run.id, CALL_WAIT_MS));
+}
+
+async function getRunStatus(ctx: McpServerContext, params: Record<string, any>): Promise<McpCallToolResult> {
+  const runId = params.arguments?.runId;
+  if (typeof runId !== 'string' || !runId) {
+    return toolError('Invalid arguments: runId is required');
+  }
+
+  // Only runs of flows this server publishes
+  const run = await storage.getRun(runId);
+  const match = run && (await listFlowTools(ctx)).find(({ flow }) => flow.id === run.flowId);
+  if (!run || !match) {
+    return toolError(`Run ${runId} not found`);
+  }
+  return await runResult(match.flow, run);
+}
+
+// Tool result for a run: its output once it succeeded, its last error once it failed, otherwise
+// its status so the client can check again later
+async function runResult(flow: Flow, run: Run): Promise<McpCallToolResult> {
+  if (run.status === 'error') {
+    const logs = await storage.getLogs(run.id);
+    const lastError = [...logs].reverse().find((log) => log.level === 'error');
+    return toolError(`Flow run ${run.id} failed${lastError ? `: ${lastError.message}` : ''}`);
+  }
+
+  // Pending runs answer in text only: structuredContent must match the flow's outputSchema
+  if (run.status !== 'success') {
+    const pending = {
+      runId: run.id,
+      status: run.status,
+      message: run.status === 'awaiting_approval'
+        ? `The run is waiting for an approval; call ${RUN_STATUS_TOOL.name} with this runId once it has been decided`
+        : `The run is still in progress; call ${RUN_STATUS_TOOL.name} with this runId to get its result`,
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(pending, null, 2) }] };
+  }
+
+  const structuredContent = { runId: run.id, status: run.status, ...selectFlowOutput(flow, (run.context as Record<string, any>) || {}) };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }],
+    structuredContent,
+  };
+}
+
+// Declared output schema fields if present, otherwise the run context without engine internals
+function selectFlowOutput(flow: Flow, context: Record<string, any>): Record<string, any> {
+  const properties = (flow.outputSchema as any)?.properties;
+  if (properties && typeof properties === 'object') {
+    const output: Record<string, any> = {};
+    for (const key of Object.keys(properties)) {
+      if (context[key] !== undefined) output[key] = context[key];
+    }
+    return output;
+  }
+
+  const output: Record<string, any> = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (!key.startsWith('_') && key !== 'lastStepResult') output[key] = value;
+  }
+  return output;
+}
+
+function toolError(text: string): McpCallToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+async function listKnowledgeBases(ctx: McpServerContext): Promise<KnowledgeBase[]> {
+  const allowed = (ctx.config.resources as McpServerResources | null)?.knowledgeBaseIds;
+  const agents = await storage.getAgents(ctx.project.id);
+  const knowledgeBases = (await Promise.all(agents.map((agent) => storage.getKnowledgeBases(agent.id)))).flat();
+  return knowledgeBases.filter((kb) => !allowed || allowed.includes(kb.id));
+}
+
+function toResource(kb: KnowledgeBase) {
+  return {
+    uri: `${KNOWLEDGE_BASE_URI_PREFIX}${kb.id}`,
+    name: kb.name,
+    description: kb.description || undefined,
+    mimeType: 'text/plain',
+  };
+}
+
+async function readKnowledgeBase(ctx: McpServerContext, params: Record<string, any>) {
+  const uri = String(params.uri || '');
+  if (!uri.startsWith(KNOWLEDGE_BASE_URI_PREFIX)) {
+    throw new McpRequestError(JsonRpcErrorCode.INVALID_PARAMS, `Unsupported resource URI: ${uri}`);
+  }
+
+  const knowledgeBaseId = uri.slice(KNOWLEDGE_BASE_URI_PREFIX.length);
+  const knowledgeBase = (await listKnowledgeBases(ctx)).find((kb) => kb.id === knowledgeBaseId);
+  if (!knowledgeBase) {
+    // -32002 is the MCP "resource not found" code
+    throw new McpRequestError(-32002, `Resource not found: ${uri}`);
+  }
+
+  const items = (await storage.getKnowledgeItems(knowledgeBase.id)).slice(0, MAX_RESOURCE_ITEMS);
+  return {
+    contents: items.map((item) => ({
+      uri: `${uri}/items/${item.id}`,
+      mimeType: 'text/plain',
+      text: `# ${item.title}\n\n${item.content}`,
+    })),
+  };
+}
+
+function errorResponse(id: JsonRpcId | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: JSONRPC_VERSION, id, error: { code, message } };
+}
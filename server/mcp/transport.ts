@@ -0,0 +1,348 @@
+import { spawn, type ChildProcess } from "child_process";
+import {
+  JSONRPC_VERSION,
+  JsonRpcErrorCode,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from "./protocol";
+
+// A transport moves JSON-RPC messages to one MCP server and resolves request/response pairs
+export interface McpTransport {
+  start(): Promise<void>;
+  request(message: JsonRpcRequest, timeoutMs: number): Promise<JsonRpcResponse>;
+  notify(message: JsonRpcNotification): Promise<void>;
+  setProtocolVersion(version: string): void;
+  close(): Promise<void>;
+  readonly closed: boolean;
+}
+
+export interface StdioTransportOptions {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+interface PendingRequest {
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Spawns a local MCP server and exchanges newline-delimited JSON over stdin/stdout
+export class StdioTransport implements McpTransport {
+  private child: ChildProcess | null = null;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private buffer = '';
+  private isClosed = false;
+
+  constructor(private options: StdioTransportOptions) {}
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  async start(): Promise<void> {
+    const child = spawn(this.options.command, this.options.args, {
+      cwd: this.options.cwd,
+      env: { ...process.env, ...(this.options.env || {}) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => this.handleData(chunk));
+
+    // Writes to a server that already exited fail with EPIPE; the exit handler fails pending requests
+    child.stdin!.on('error', (error) => {
+      console.error(`[MCP:${this.options.command}] stdin error: ${error.message}`);
+    });
+
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      console.log(`[MCP:${this.options.command}] ${chunk.trimEnd()}`);
+    });
+
+    child.on('exit', (code, signal) => {
+      this.failAll(new Error(`MCP server process exited (code ${code ?? 'none'}, signal ${signal ?? 'none'})`));
+    });
+
+    // Surface spawn failures (e.g. command not found) instead of hanging on the first request
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', (error) => {
+        this.failAll(error);
+        reject(new Error(`Failed to start MCP server '${this.options.command}': ${error.message}`));
+      });
+    });
+  }
+
+  request(message: JsonRpcRequest, timeoutMs: number): Promise<JsonRpcResponse> {
+    if (this.isClosed || !this.child) {
+      return Promise.reject(new Error("MCP stdio transport is closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error(`MCP request '${message.method}' timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pending.set(message.id, { resolve, reject, timer });
+      this.write(message);
+    });
+  }
+
+  async notify(message: JsonRpcNotification): Promise<void> {
+    this.write(message);
+  }
+
+  setProtocolVersion(_version: string): void {
+    // Negotiated version only matters for HTTP headers
+  }
+
+  async close(): Promise<void> {
+    if (this.isClosed) return;
+    this.failAll(new Error("MCP stdio transport is closed"));
+    if (this.child && this.child.exitCode === null) {
+      this.child.stdin?.end();
+      this.child.kill('SIGTERM');
+    }
+  }
+
+  private write(message: JsonRpcMessage): void {
+    this.child?.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).trim();
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      if (!line) continue;
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        console.warn(`[MCP:${this.options.command}] Ignoring non-JSON output: ${line.slice(0, 200)}`);
+        continue;
+      }
+
+      this.handleMessage(message);
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcResponse(message)) {
+      const pending = message.id !== null ? this.pending.get(message.id) : undefined;
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(message.id!);
+        pending.resolve(message);
+      }
+      return;
+    }
+
+    if (isJsonRpcRequest(message)) {
+      this.write(answerServerRequest(message));
+    }
+    // Server notifications (logging, progress, list_changed) are ignored
+  }
+
+  private failAll(error: Error): void {
+    this.isClosed = true;
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+}
+
+export interface HttpTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// Streamable HTTP transport: every message is a POST; responses come back as JSON or an SSE stream
+export class StreamableHttpTransport implements McpTransport {
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private isClosed = false;
+
+  constructor(private options: HttpTransportOptions) {}
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  async start(): Promise<void> {
+    // Connection is established lazily by the initialize request
+  }
+
+  async request(message: JsonRpcRequest, timeoutMs: number): Promise<JsonRpcResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await this.post(message, controller.signal);
+
+      const sessionId = response.headers.get('mcp-session-id');
+      if (sessionId) {
+        this.sessionId = sessionId;
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`MCP HTTP request failed: ${response.status} ${response.statusText}${body ? ` - ${body.slice(0, 500)}` : ''}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (contentType.includes('text/event-stream')) {
+        return await this.readEventStream(response, message.id);
+      }
+
+      const payload = await response.json();
+      const messages: JsonRpcMessage[] = Array.isArray(payload) ? payload : [payload];
+      const match = messages.find((m) => isJsonRpcResponse(m) && m.id === message.id);
+      if (!match) {
+        throw new Error(`MCP server returned no response for request '${message.method}'`);
+      }
+      return match as JsonRpcResponse;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new Error(`MCP request '${message.method}' timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async notify(message: JsonRpcNotification): Promise<void> {
+    const response = await this.post(message);
+    if (!response.ok && response.status !== 202) {
+      throw new Error(`MCP notification '${message.method}' failed: ${response.status} ${response.statusText}`);
+    }
+    await response.body?.cancel();
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async close(): Promise<void> {
+    if (this.isClosed) return;
+    this.isClosed = true;
+
+    // Explicitly end the server-side session; servers may answer 405 if they don't support it
+    if (this.sessionId) {
+      try {
+        await fetch(this.options.url, { method: 'DELETE', headers: this.buildHeaders() });
+      } catch (error) {
+        console.warn(`[MCP] Failed to close session at ${this.options.url}:`, (error as Error).message);
+      }
+    }
+  }
+
+  private async post(message: JsonRpcMessage, signal?: AbortSignal): Promise<Response> {
+    if (this.isClosed) {
+      throw new Error("MCP HTTP transport is closed");
+    }
+
+    return await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        ...this.buildHeaders(),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...(this.options.headers || {}) };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  // Read SSE events until the response for our request id arrives
+  private async readEventStream(response: Response, requestId: JsonRpcId): Promise<JsonRpcResponse> {
+    if (!response.body) {
+      throw new Error("MCP server returned an empty event stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const data = rawEvent
+            .split('\n')
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).replace(/^ /, ''))
+            .join('\n');
+          if (!data) continue;
+
+          let message: JsonRpcMessage;
+          try {
+            message = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          if (isJsonRpcResponse(message) && message.id === requestId) {
+            return message;
+          }
+
+          if (isJsonRpcRequest(message)) {
+            const reply = await this.post(answerServerRequest(message));
+            await reply.body?.cancel();
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+
+    throw new Error("MCP event stream ended before a response was received");
+  }
+}
+
+// We advertise no client capabilities, so only ping is answered successfully
+function answerServerRequest(request: JsonRpcRequest): JsonRpcResponse {
+  if (request.method === 'ping') {
+    return { jsonrpc: JSONRPC_VERSION, id: request.id, result: {} };
+  }
+  return {
+    jsonrpc: JSONRPC_VERSION,
+    id: request.id,
+    error: { code: JsonRpcErrorCode.METHOD_NOT_FOUND, message: `Method not supported by client: ${request.method}` },
+  };
+}
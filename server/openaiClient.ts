@@ -1,18 +1,48 @@
-import OpenAI from "openai";
 import { storage } from "./storage";
-import { EmbeddingService } from "./embeddingService";
+import { searchKnowledgeBase } from "./retrieval/search";
+import { getReranker } from "./retrieval/rerankers";
+import { DEFAULT_EMBEDDING_MODEL, embeddingGateway } from "./embeddings/gateway";
+import { HashingEmbeddingProvider } from "./embeddings/hashing";
+import { DEFAULT_MODEL, llmGateway } from "./llm/gateway";
+import type { LlmMessage, LlmToolCall, LlmToolDefinition, LlmUsage } from "./llm/provider";
+import { agentKnowledgeConfigSchema, type KnowledgeCitation } from "@shared/schema";
+import type { KnowledgeSearchResult } from "./retrieval/search";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+// Chunks less similar than this to the user message are not added to the prompt
+const RAG_MIN_SIMILARITY = parseFloat(process.env.RAG_MIN_SIMILARITY || '') || 0.3;
+// Hashing embeddings (mock mode, no embedding provider configured) only score on shared words,
+// so knowledge bases embedded with them keep the old near-zero threshold
+const HASHING_RAG_MIN_SIMILARITY = 0.001;
+// Length of the chunk excerpt kept in a citation
+const CITATION_SNIPPET_CHARS = 300;
+
+// A chunk added to the prompt and the citation that traces it back to its knowledge item
+export interface RetrievedKnowledge {
+  text: string;
+  citation: KnowledgeCitation;
+}
+
+function defaultMinSimilarity(embeddingModel: string | null): number {
+  if (process.env.RAG_MIN_SIMILARITY) {
+    return RAG_MIN_SIMILARITY;
+  }
+  try {
+    const { provider } = embeddingGateway.resolve(embeddingModel || DEFAULT_EMBEDDING_MODEL);
+    return provider instanceof HashingEmbeddingProvider ? HASHING_RAG_MIN_SIMILARITY : RAG_MIN_SIMILARITY;
+  } catch {
+    return RAG_MIN_SIMILARITY;
+  }
+}
 
 /**
- * Retrieve relevant knowledge from agent's knowledge bases
+ * Retrieve relevant knowledge from agent's knowledge bases, searched as configured in
+ * agents.knowledgeBaseConfig (hybrid search without reranking by default)
  */
 async function retrieveRelevantKnowledge(
   agentId: string, 
   userMessage: string, 
   limit: number = 5
-): Promise<string[]> {
+): Promise<RetrievedKnowledge[]> {
   try {
     console.log(`🔍 Retrieving knowledge for agent ${agentId}`);
     
@@ -24,24 +54,36 @@ async function retrieveRelevantKnowledge(
       return [];
     }
     
-    const relevantChunks: string[] = [];
+    // An invalid config is ignored rather than breaking retrieval
+    const agent = await storage.getAgent(agentId);
+    const parsed = agentKnowledgeConfigSchema.safeParse(agent?.knowledgeBaseConfig ?? {});
+    if (!parsed.success) {
+      console.warn(`⚠️ Ignoring invalid knowledgeBaseConfig of agent ${agentId}`);
+    }
+    const config = parsed.success ? parsed.data : {};
+    limit = config.limit ?? limit;
+    if (config.reranker && !getReranker(config.reranker)) {
+      console.warn(`⚠️ Reranker ${config.reranker} is not available, retrieving without it`);
+      config.reranker = undefined;
+    }
+    
+    const relevantChunks: KnowledgeSearchResult[] = [];
     
     // Search each knowledge base for relevant content
     for (const kb of knowledgeBases) {
       try {
         console.log(`🔍 Searching knowledge base: ${kb.name}`);
         
-        const results = await EmbeddingService.searchSimilar(
-          kb.id,
-          userMessage,
-          Math.ceil(limit / knowledgeBases.length), // Distribute limit across knowledge bases
-          0.001 // Ultra-low threshold to work with mock embeddings
-        );
+        const results = await searchKnowledgeBase(kb.id, userMessage, {
+          mode: config.mode,
+          minSimilarity: config.minSimilarity ?? defaultMinSimilarity(kb.embeddingModel),
+          filters: config.filters,
+          reranker: config.reranker,
+          candidates: config.candidates,
+          limit: Math.ceil(limit / knowledgeBases.length), // Distribute limit across knowledge bases
+        });
         
-        // Add the chunk text to relevant chunks
-        for (const result of results) {
-          relevantChunks.push(result.chunkText);
-        }
+        relevantChunks.push(...results);
         
         console.log(`📊 Found ${results.length} relevant chunks in ${kb.name}`);
       } catch (error) {
@@ -51,7 +93,7 @@ async function retrieveRelevantKnowledge(
     }
     
     console.log(`✅ Retrieved ${relevantChunks.length} total knowledge chunks`);
-    return relevantChunks.slice(0, limit); // Respect the limit
+    return await withCitations(relevantChunks.slice(0, limit)); // Respect the limit
     
   } catch (error) {
     console.error("Error retrieving relevant knowledge:", error);
@@ -59,50 +101,103 @@ async function retrieveRelevantKnowledge(
   }
 }
 
+// Numbered in prompt order, so citation N is the chunk labelled [Knowledge N]
+async function withCitations(chunks: KnowledgeSearchResult[]): Promise<RetrievedKnowledge[]> {
+  const itemIds = Array.from(new Set(chunks.map((chunk) => chunk.knowledgeItemId)));
+  const items = new Map((await storage.getKnowledgeItemRefs(itemIds)).map((item) => [item.id, item]));
+
+  return chunks.map((chunk, index) => {
+    const item = items.get(chunk.knowledgeItemId);
+    const lineage = (chunk.metadata as Record<string, any> | null)?.lineage || {};
+    const citation: KnowledgeCitation = {
+      index: index + 1,
+      knowledgeItemId: chunk.knowledgeItemId,
+      knowledgeBaseId: chunk.knowledgeBaseId || item?.knowledgeBaseId || '',
+      title: item?.title || 'Untitled',
+      chunkIndex: chunk.chunkIndex,
+      similarity: chunk.similarity,
+      score: chunk.score,
+      url: item?.url || undefined,
+      filename: item?.filename || undefined,
+      page: lineage.page,
+      sectionPath: lineage.sectionPath,
+      snippet: chunk.chunkText.slice(0, CITATION_SNIPPET_CHARS),
+    };
+    return { text: chunk.chunkText, citation };
+  });
+}
+
+export interface AgentRequestOptions {
+  signal?: AbortSignal; // Aborts the completion request (step timeouts)
+  maxRetries?: number; // SDK-level retries; callers with their own retry policy pass 0
+  model?: string; // Model reference ("provider/model" or bare name); defaults to LLM_DEFAULT_MODEL
+  onCall?: (call: LlmCallInfo) => void; // Each completion (or failed completion request), for metrics
+  tools?: ToolLoopOptions; // Native function calling
+  onToken?: (delta: string, turn: number) => void; // Streams each turn's text as it is generated
+  onCitations?: (citations: KnowledgeCitation[]) => void; // Knowledge chunks added to the prompt
+}
+
+export interface LlmCallInfo {
+  turn: number; // Tool-use round trip the completion answered, from 1
+  latencyMs: number;
+  usage: LlmUsage | null;
+  error?: Error;
+}
+
+export interface ToolLoopOptions {
+  definitions: LlmToolDefinition[];
+  run: (calls: LlmToolCall[]) => Promise<string[]>; // Executes one turn's calls; results in call order
+  maxIterations: number; // Turns that may call tools; the next turn must answer in text
+}
+
 export async function generateAgentResponse(
   systemPrompt: string,
   userMessage: string,
   context?: Record<string, any>,
-  agentId?: string
+  agentId?: string,
+  options: AgentRequestOptions = {}
 ): Promise<string> {
+  const model = options.model || DEFAULT_MODEL;
   try {
-    const messages: any[] = [
+    const messages: LlmMessage[] = [
       { role: "system", content: systemPrompt }
     ];
 
     let augmentedUserMessage = userMessage;
-    let retrievedKnowledge: string[] = [];
+    let retrievedKnowledge: RetrievedKnowledge[] = [];
     
     // Add knowledge retrieval if agent ID is provided (works with both real and mock embeddings)
     if (agentId) {
       retrievedKnowledge = await retrieveRelevantKnowledge(agentId, userMessage);
+      options.onCitations?.(retrievedKnowledge.map((knowledge) => knowledge.citation));
       
       if (retrievedKnowledge.length > 0) {
         const knowledgeContext = retrievedKnowledge
-          .map((chunk, index) => `[Knowledge ${index + 1}]: ${chunk}`)
+          .map(({ text, citation }) => `[Knowledge ${citation.index}] (${citation.title}): ${text}`)
           .join('\n\n');
         
-        augmentedUserMessage = `Based on the following relevant knowledge from my knowledge base:\n\n${knowledgeContext}\n\n---\n\nUser Query: ${userMessage}`;
+        augmentedUserMessage = `Based on the following relevant knowledge from my knowledge base (cite what you use as [Knowledge N]):\n\n${knowledgeContext}\n\n---\n\nUser Query: ${userMessage}`;
         console.log(`🧠 Enhanced prompt with ${retrievedKnowledge.length} knowledge chunks`);
       }
     }
 
-    if (!openai) {
-      // If OpenAI isn't configured, return a mock response that includes retrieved knowledge
-      console.log("🔄 OpenAI API key not configured, returning mock response with RAG");
+    if (!llmGateway.isConfigured(model)) {
+      // If no provider serves this model, return a mock response that includes retrieved knowledge
+      console.log(`🔄 No LLM provider configured for ${model}, returning mock response with RAG`);
       
-      let mockResponse = `Mock agent response to: "${userMessage}"\n\nI would normally process this using my system prompt and OpenAI, but the API is not configured.`;
+      let mockResponse = `Mock agent response to: "${userMessage}"\n\nI would normally process this using my system prompt and ${model}, but no provider is configured for it.`;
       
       if (retrievedKnowledge.length > 0) {
         mockResponse += `\n\n🧠 Knowledge Retrieved (${retrievedKnowledge.length} chunks):\n`;
-        retrievedKnowledge.forEach((chunk, index) => {
-          mockResponse += `\n[${index + 1}] ${chunk.substring(0, 150)}...\n`;
+        retrievedKnowledge.forEach(({ text, citation }) => {
+          mockResponse += `\n[${citation.index}] ${citation.title}: ${text.substring(0, 150)}...\n`;
         });
         mockResponse += `\nThis knowledge would be included in my actual reasoning process.`;
       } else {
         mockResponse += `\n\n📝 No relevant knowledge found in my knowledge bases.`;
       }
       
+      options.onToken?.(mockResponse, 1);
       return mockResponse;
     }
 
@@ -115,16 +210,42 @@ export async function generateAgentResponse(
       messages.push({ role: "user", content: augmentedUserMessage });
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages,
-      // temperature: 0.7, // Disabled - not supported by this model
-    });
+    // Tool-use loop: feed every turn's tool results back until the model answers in text
+    const tools = options.tools?.definitions.length ? options.tools : undefined;
+    for (let iteration = 1; ; iteration++) {
+      const exhausted = !!tools && iteration > tools.maxIterations;
+      const startedAt = Date.now();
+      let response;
+      try {
+        response = await llmGateway.complete(model, {
+          messages,
+          tools: tools?.definitions,
+          toolChoice: exhausted ? 'none' : undefined,
+          signal: options.signal,
+          maxRetries: options.maxRetries,
+          onDelta: options.onToken ? (delta) => options.onToken!(delta, iteration) : undefined,
+        });
+      } catch (error) {
+        options.onCall?.({ turn: iteration, latencyMs: Date.now() - startedAt, usage: null, error: error as Error });
+        throw error;
+      }
+
+      options.onCall?.({ turn: iteration, latencyMs: Date.now() - startedAt, usage: response.usage });
 
-    return response.choices[0].message.content || "";
+      if (!tools || exhausted || response.toolCalls.length === 0) {
+        return response.text;
+      }
+
+      messages.push({ role: "assistant", content: response.text, toolCalls: response.toolCalls });
+      const results = await tools.run(response.toolCalls);
+      response.toolCalls.forEach((call, index) => {
+        messages.push({ role: "tool", toolCallId: call.id, content: results[index] ?? "" });
+      });
+    }
   } catch (error) {
-    console.error("OpenAI API error:", error);
-    throw new Error("Failed to generate response: " + (error as Error).message);
+    console.error(`LLM error (${model}):`, error);
+    // Keep the original error as cause so retry classification can see status codes
+    throw new Error("Failed to generate response: " + (error as Error).message, { cause: error });
   }
 }
 
@@ -134,12 +255,7 @@ export async function extractStructuredData(
   schema: Record<string, any>
 ): Promise<any> {
   try {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
-    }
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
+    const response = await llmGateway.complete(DEFAULT_MODEL, {
       messages: [
         {
           role: "system",
@@ -150,13 +266,12 @@ export async function extractStructuredData(
           content: data
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
     });
 
-    const content = response.choices[0].message.content;
-    return JSON.parse(content || "{}");
+    return JSON.parse(response.text || "{}");
   } catch (error) {
-    console.error("OpenAI structured extraction error:", error);
+    console.error("Structured extraction error:", error);
     throw new Error("Failed to extract structured data: " + (error as Error).message);
   }
 }
@@ -166,10 +281,6 @@ export async function generateFlowFromText(
   expectedInputs?: string
 ): Promise<any> {
   try {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
-    }
-    
     const prompt = `You are an AI agent workflow designer. Generate a complete agent flow based on the user's description.
     
 The flow should include:
@@ -213,18 +324,16 @@ Return the response as JSON with this structure:
 
     const userMessage = `Description: ${description}\n${expectedInputs ? `Expected inputs: ${expectedInputs}` : ''}`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
+    const response = await llmGateway.complete(DEFAULT_MODEL, {
       messages: [
         { role: "system", content: prompt },
         { role: "user", content: userMessage }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.3,
     });
 
-    const content = response.choices[0].message.content;
-    return JSON.parse(content || "{}");
+    return JSON.parse(response.text || "{}");
   } catch (error) {
     console.error("Flow generation error:", error);
     throw new Error("Failed to generate flow: " + (error as Error).message);
@@ -0,0 +1,99 @@
+import { DEFAULT_MODEL, llmGateway } from "../llm/gateway";
+
+// Second-stage ranking of retrieved chunks. A reranker scores every candidate against the
+// query (higher is better); search then reorders by that score. Registered rerankers:
+//   llm -> asks RERANK_LLM_MODEL (default LLM_DEFAULT_MODEL) to grade each passage 0-10
+//   api -> RERANK_API_URL (+ RERANK_API_KEY, RERANK_MODEL), a Cohere/Jina-style /rerank
+//          endpoint ({results: [{index, relevance_score}]}) or TEI ([{index, score}])
+
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]>; // One score per document
+}
+
+// Passages are cut to this length in rerank prompts and requests
+const MAX_DOCUMENT_CHARS = 2000;
+
+export class LlmReranker implements Reranker {
+  constructor(public readonly name: string, private model: string) {}
+
+  async rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    const passages = documents
+      .map((document, index) => `[${index}] ${document.slice(0, MAX_DOCUMENT_CHARS)}`)
+      .join('\n\n');
+    const response = await llmGateway.complete(this.model, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade how well passages answer a search query. Score each passage from 0 (irrelevant) to 10 (answers it directly). ' +
+            'Return JSON {"scores": [numbers]} with one score per passage, in passage order.',
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n\n${passages}` },
+      ],
+      responseFormat: 'json',
+      temperature: 0,
+      signal,
+    });
+
+    const scores = JSON.parse(response.text || '{}').scores;
+    if (!Array.isArray(scores) || scores.length !== documents.length) {
+      throw new Error(`Expected ${documents.length} scores from ${this.model}, got ${Array.isArray(scores) ? scores.length : 'none'}`);
+    }
+    return scores.map((score) => Number(score) || 0);
+  }
+}
+
+export class ApiReranker implements Reranker {
+  constructor(
+    public readonly name: string,
+    private options: { url: string; apiKey?: string; model?: string }
+  ) {}
+
+  async rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        ...(this.options.model ? { model: this.options.model } : {}),
+        query,
+        documents: documents.map((document) => document.slice(0, MAX_DOCUMENT_CHARS)),
+        texts: documents.map((document) => document.slice(0, MAX_DOCUMENT_CHARS)), // TEI
+        top_n: documents.length,
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Rerank API returned HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const results: Array<{ index: number; relevance_score?: number; score?: number }> = Array.isArray(data) ? data : data.results || [];
+    const scores = new Array<number>(documents.length).fill(Number.NEGATIVE_INFINITY);
+    for (const result of results) {
+      scores[result.index] = Number(result.relevance_score ?? result.score ?? 0);
+    }
+    return scores;
+  }
+}
+
+const rerankers = new Map<string, Reranker>();
+
+export function registerReranker(reranker: Reranker): void {
+  rerankers.set(reranker.name, reranker);
+}
+
+export function getReranker(name: string): Reranker | undefined {
+  return rerankers.get(name);
+}
+
+registerReranker(new LlmReranker('llm', process.env.RERANK_LLM_MODEL || DEFAULT_MODEL));
+if (process.env.RERANK_API_URL) {
+  registerReranker(new ApiReranker('api', {
+    url: process.env.RERANK_API_URL,
+    apiKey: process.env.RERANK_API_KEY,
+    model: process.env.RERANK_MODEL,
+  }));
+}
@@ -0,0 +1,84 @@
+import { storage, type EmbeddingMatch, type KeywordMatch } from "../storage";
+import { EmbeddingService } from "../embeddingService";
+import { getReranker } from "./rerankers";
+import type { KnowledgeSearchOptions } from "@shared/schema";
+
+// Knowledge base search in up to three stages:
+//   1. retrieve candidates by vector similarity, full-text keyword match, or both (hybrid)
+//   2. fuse the two rankings with reciprocal rank fusion (score = sum of 1 / (RRF_K + rank))
+//   3. optionally rerank the fused candidates with a registered reranker
+// Each hit keeps the scores it got along the way so callers can tell why it ranked where it did.
+
+// RRF damping constant; 60 is the value from the original paper and works well without tuning
+const RRF_K = 60;
+
+export type KnowledgeSearchResult = Omit<EmbeddingMatch, 'similarity'> & {
+  score: number; // What results are ordered by: rerank, fused or single-retriever score
+  similarity?: number; // Cosine similarity, when found by vector search
+  keywordRank?: number; // ts_rank_cd, when found by keyword search
+  rerankScore?: number;
+};
+
+export type KnowledgeSearchInput = Partial<KnowledgeSearchOptions>;
+
+export async function searchKnowledgeBase(
+  knowledgeBaseId: string,
+  query: string,
+  input: KnowledgeSearchInput = {}
+): Promise<KnowledgeSearchResult[]> {
+  const mode = input.mode || 'hybrid';
+  const limit = input.limit ?? 10;
+  const candidates = input.candidates ?? Math.max(limit * 4, 20);
+  const reranker = input.reranker ? getReranker(input.reranker) : undefined;
+  if (input.reranker && !reranker) {
+    throw new Error(`Unknown reranker: ${input.reranker}`);
+  }
+
+  // Without a reranker or fusion there is no reason to fetch more than we return
+  const fetch = reranker || mode === 'hybrid' ? candidates : limit;
+  const [vectorHits, keywordHits] = await Promise.all([
+    mode === 'keyword' ? [] : EmbeddingService.searchSimilar(knowledgeBaseId, query, fetch, input.minSimilarity ?? -1, input.filters),
+    mode === 'vector' ? [] : storage.searchEmbeddingsByText(query, fetch, { knowledgeBaseId, filters: input.filters }),
+  ]);
+
+  let results = mode === 'hybrid'
+    ? fuse(vectorHits, keywordHits)
+    : mode === 'vector'
+      ? vectorHits.map((hit) => ({ ...hit, score: hit.similarity }))
+      : keywordHits.map(({ rank, ...hit }) => ({ ...hit, score: rank, keywordRank: rank }));
+
+  if (reranker && results.length > 0) {
+    try {
+      const scores = await reranker.rerank(query, results.map((result) => result.chunkText));
+      results = results
+        .map((result, index) => ({ ...result, score: scores[index], rerankScore: scores[index] }))
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      // Retrieval still works without the reranker; keep the fused order
+      console.warn(`⚠️ Reranker ${reranker.name} failed, using retrieval order:`, (error as Error).message);
+    }
+  }
+
+  return results.slice(0, limit);
+}
+
+// Reciprocal rank fusion of the vector and keyword rankings (both already sorted best-first)
+function fuse(vectorHits: EmbeddingMatch[], keywordHits: KeywordMatch[]): KnowledgeSearchResult[] {
+  const fused = new Map<string, KnowledgeSearchResult>();
+
+  vectorHits.forEach(({ similarity, ...hit }, index) => {
+    fused.set(hit.id, { ...hit, similarity, score: 1 / (RRF_K + index + 1) });
+  });
+  keywordHits.forEach(({ rank, ...hit }, index) => {
+    const existing = fused.get(hit.id);
+    const score = 1 / (RRF_K + index + 1);
+    if (existing) {
+      existing.keywordRank = rank;
+      existing.score += score;
+    } else {
+      fused.set(hit.id, { ...hit, keywordRank: rank, score });
+    }
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
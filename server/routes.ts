@@ -1,20 +1,58 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./auth0";
 import { executionEngine } from "./executionEngine";
+import { runQueue } from "./engine/run-queue";
+import { resolveResumePoint } from "./engine/resume";
+import { approvalService } from "./engine/approvals";
+import { validateStepConfig, runAgentStep, type StepConfig } from "./engine/step-executor";
+import { validateForeachConfig } from "./engine/foreach";
+import { validatePolicyRule } from "./engine/policy";
 import { langGraphEngine } from "./langGraphEngine";
 import { EmbeddingService } from "./embeddingService";
+import { isSupportedDocument } from "./extraction";
+import { ingestionQueue } from "./ingestion/queue";
+import { crawlScheduler } from "./crawler/scheduler";
+import { checkPublicUrl } from "./crawler/fetch";
+import { searchKnowledgeBase } from "./retrieval/search";
+import { getReranker } from "./retrieval/rerankers";
 import { 
   insertProjectSchema, insertAgentSchema, insertToolSchema, insertFlowSchema, insertRunSchema, insertStepSchema, insertSecretSchema,
-  insertKnowledgeBaseSchema, insertKnowledgeItemSchema, insertEmbeddingSchema,
+  insertKnowledgeBaseSchema, insertKnowledgeSourceSchema, insertKnowledgeItemSchema, insertEmbeddingSchema,
   insertDataSourceSchema, insertDataConnectionSchema, insertAgentIntegrationSchema,
-  insertAutonomousTriggerSchema, insertTriggerEventSchema, insertUiComponentSchema, insertAgentUiSchema
+  insertAutonomousTriggerSchema, insertTriggerEventSchema, insertUiComponentSchema, insertAgentUiSchema,
+  insertMcpConfigurationSchema, insertPolicyRuleSchema, knowledgeSearchRequestSchema
 } from "@shared/schema";
+import { mcpClientManager, assertClientUsable, validateMcpEndpoint } from "./mcp/client";
+import { handleMcpMessage } from "./mcp/server";
+import { featureFlagService, FeatureFlags } from "./engine/feature-flags";
 import { seedAllTemplates } from "./seedTemplates";
 
+// Save-time validation of a step's config for its kind; returns an error message or null
+function validateStepKindConfig(kind: string, config: unknown): string | null {
+  if (kind === 'foreach') {
+    return validateForeachConfig(config as any);
+  }
+  return validateStepConfig(config as StepConfig | null);
+}
+
+// A flow step must call a different flow of the same project
+async function validateSubflowRef(flowId: string, refId: string | null): Promise<string | null> {
+  if (!refId) {
+    return "flow steps require a refId";
+  }
+  if (refId === flowId) {
+    return "A flow step cannot call its own flow";
+  }
+  const [flow, target] = await Promise.all([storage.getFlow(flowId), storage.getFlow(refId)]);
+  if (!target || target.projectId !== flow?.projectId) {
+    return "flow steps must reference a flow in the same project";
+  }
+  return null;
+}
+
 export async function registerRoutes(app: Express, server?: Server): Promise<Server> {
   // Configure multer for file uploads
   const upload = multer({
@@ -23,20 +61,8 @@ export async function registerRoutes(app: Express, server?: Server): Promise<Ser
       fileSize: 10 * 1024 * 1024, // 10MB limit
     },
     fileFilter: (req, file, cb) => {
-      // Allow text files, code files, and documents
-      const allowedTypes = [
-        'text/plain',
-        'text/markdown',
-        'text/csv',
-        'application/json',
-        'application/javascript',
-        'application/typescript',
-        'text/html',
-        'text/css',
-        'text/xml'
-      ];
-      
-      if (allowedTypes.includes(file.mimetype) || file.mimetype.startsWith('text/')) {
+      // Text, code, PDF, Word, spreadsheets, HTML, Markdown, and images when OCR is configured
+      if (isSupportedDocument(file.mimetype, file.originalname)) {
         cb(null, true);
       } else {
         cb(new Error(`File type ${file.mimetype} is not supported`), false);
@@ -2119,6 +2145,47 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
+  // Preview chat: one agent answer outside of any run, with the knowledge it cited
+  app.post('/api/agents/:agentId/execute', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { agentId } = req.params;
+      const { input = {}, context = {} } = req.body || {};
+
+      const agent = await storage.getAgent(agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      // Validate agent ownership through project
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Agent access denied" });
+      }
+
+      if (typeof input.message !== 'string' || !input.message.trim()) {
+        return res.status(400).json({ message: "input.message is required" });
+      }
+
+      // Agents without a user template answer the message as-is. Previews run outside any run,
+      // so without its policies, PII masking and metrics; the agent's tools are not offered.
+      const result = await runAgentStep(
+        { ...agent, userTemplate: agent.userTemplate || '{{message}}' },
+        { ...context, ...input },
+        { disableTools: true }
+      );
+      res.json({
+        response: result.response,
+        structured: result.structured,
+        model: result.model,
+        citations: result.citations,
+      });
+    } catch (error) {
+      console.error("Error executing agent:", error);
+      res.status(500).json({ message: "Failed to execute agent" });
+    }
+  });
+
   // Knowledge Base routes
   app.get('/api/agents/:agentId/knowledge-bases', isAuthenticated, async (req: any, res) => {
     try {
@@ -2195,7 +2262,12 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
       
       const updates = insertKnowledgeBaseSchema.partial().parse(req.body);
       const updatedKnowledgeBase = await storage.updateKnowledgeBase(knowledgeBaseId, updates);
-      res.json(updatedKnowledgeBase);
+
+      // Existing chunks were made with the old settings; re-chunk and re-embed everything
+      const indexSettings = ['chunkStrategy', 'chunkSize', 'chunkOverlap', 'embeddingModel', 'vectorDimensions'] as const;
+      const settingsChanged = indexSettings.some((key) => updates[key] !== undefined && updates[key] !== knowledgeBase[key]);
+      const reindexQueued = settingsChanged ? await ingestionQueue.reindexKnowledgeBase(knowledgeBaseId) : 0;
+      res.json({ ...updatedKnowledgeBase, reindexQueued });
     } catch (error) {
       console.error("Error updating knowledge base:", error);
       res.status(500).json({ message: "Failed to update knowledge base" });
@@ -2261,13 +2333,36 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
-  app.post('/api/knowledge-bases/:knowledgeBaseId/items', isAuthenticated, async (req, res) => {
+  app.post('/api/knowledge-bases/:knowledgeBaseId/items', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.id;
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(req.params.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
       const itemData = insertKnowledgeItemSchema.parse({
         ...req.body,
-        knowledgeBaseId: req.params.knowledgeBaseId
+        knowledgeBaseId: req.params.knowledgeBaseId,
+        // Text is embedded by the ingestion worker; URLs are stored as-is
+        ...(req.body.type === 'text' ? { processingStatus: 'queued' } : {})
       });
       const item = await storage.createKnowledgeItem(itemData);
+      if (item.processingStatus === 'queued') {
+        ingestionQueue.wake();
+      }
       res.json(item);
     } catch (error) {
       console.error("Error creating knowledge item:", error);
@@ -2296,6 +2391,239 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
+  // Re-queue a failed or cancelled item
+  app.post('/api/knowledge-items/:id/retry', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const item = await storage.getKnowledgeItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Knowledge item not found" });
+      }
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(item.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      if (!await ingestionQueue.retry(item.id)) {
+        return res.status(409).json({ message: `Cannot retry a ${item.processingStatus} item` });
+      }
+      res.json(await storage.getKnowledgeItem(item.id));
+    } catch (error) {
+      console.error("Error retrying knowledge item:", error);
+      res.status(500).json({ message: "Failed to retry knowledge item" });
+    }
+  });
+
+  app.post('/api/knowledge-items/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const item = await storage.getKnowledgeItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Knowledge item not found" });
+      }
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(item.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      if (!await ingestionQueue.cancel(item.id)) {
+        return res.status(409).json({ message: `Cannot cancel a ${item.processingStatus} item` });
+      }
+      res.json(await storage.getKnowledgeItem(item.id));
+    } catch (error) {
+      console.error("Error cancelling knowledge item:", error);
+      res.status(500).json({ message: "Failed to cancel knowledge item" });
+    }
+  });
+
+  // Re-chunk and re-embed every item of a knowledge base
+  app.post('/api/knowledge-bases/:id/reindex', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(req.params.id);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      const queued = await ingestionQueue.reindexKnowledgeBase(knowledgeBase.id);
+      res.status(202).json({ message: `Queued ${queued} items for re-indexing`, queued });
+    } catch (error) {
+      console.error("Error re-indexing knowledge base:", error);
+      res.status(500).json({ message: "Failed to re-index knowledge base" });
+    }
+  });
+
+  // Knowledge Source routes: URLs, sitemaps and sites crawled into a knowledge base
+  app.get('/api/knowledge-bases/:knowledgeBaseId/sources', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(req.params.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      const sources = await storage.getKnowledgeSources(knowledgeBase.id);
+      res.json(sources);
+    } catch (error) {
+      console.error("Error fetching knowledge sources:", error);
+      res.status(500).json({ message: "Failed to fetch knowledge sources" });
+    }
+  });
+
+  app.post('/api/knowledge-bases/:knowledgeBaseId/sources', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(req.params.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      const parsed = insertKnowledgeSourceSchema.safeParse({ ...req.body, knowledgeBaseId: knowledgeBase.id });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid knowledge source", errors: parsed.error.errors });
+      }
+      const urlError = await checkPublicUrl(parsed.data.url);
+      if (urlError) {
+        return res.status(400).json({ message: `Cannot crawl ${parsed.data.url}: ${urlError}` });
+      }
+
+      // Due right away; the crawl scheduler picks it up
+      const source = await storage.createKnowledgeSource({ ...parsed.data, nextCrawlAt: new Date() });
+      crawlScheduler.wake();
+      res.json(source);
+    } catch (error) {
+      console.error("Error creating knowledge source:", error);
+      res.status(500).json({ message: "Failed to create knowledge source" });
+    }
+  });
+
+  app.post('/api/knowledge-sources/:id/crawl', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const source = await storage.getKnowledgeSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Knowledge source not found" });
+      }
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(source.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      if (!await crawlScheduler.crawlNow(source.id)) {
+        return res.status(409).json({ message: "Source is already being crawled" });
+      }
+      res.status(202).json({ message: "Crawl scheduled" });
+    } catch (error) {
+      console.error("Error scheduling crawl:", error);
+      res.status(500).json({ message: "Failed to schedule crawl" });
+    }
+  });
+
+  // Deletes the source and every page crawled from it
+  app.delete('/api/knowledge-sources/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const source = await storage.getKnowledgeSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Knowledge source not found" });
+      }
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(source.knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
+      }
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      await storage.deleteKnowledgeSource(source.id);
+      res.json({ message: "Knowledge source deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting knowledge source:", error);
+      res.status(500).json({ message: "Failed to delete knowledge source" });
+    }
+  });
+
   // File upload and processing route
   app.post('/api/knowledge-bases/:knowledgeBaseId/upload', 
     isAuthenticated, 
@@ -2326,63 +2654,26 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
           return res.status(400).json({ message: "No file uploaded" });
         }
         
-        // Process the uploaded file with embeddings
+        // Extract the text now so unreadable files fail the request; chunking and embedding
+        // run in the ingestion worker, which reports progress over WebSocket
+        let item;
         try {
-          console.log(`🔄 Starting file processing for ${req.file.originalname}...`);
-          
-          const result = await EmbeddingService.processUploadedFile(
-            knowledgeBaseId,
-            req.file
-          );
-          
-          console.log(`✅ File processing completed: ${result.itemCount} items, ${result.embeddingsCount} embeddings`);
-          
-          res.json({
-            message: "File uploaded and processed successfully",
-            totalChunks: result.totalChunks,
-            embeddingsCount: result.embeddingsCount,
-            itemCount: result.itemCount,
-            filename: req.file.originalname,
-            size: req.file.size,
-            mimeType: req.file.mimetype
-          });
-        } catch (processingError) {
-          console.error("Error processing file:", processingError);
-          
-          // Create a basic knowledge item as fallback
-          const fallbackItemData = insertKnowledgeItemSchema.parse({
-            knowledgeBaseId,
-            type: 'file',
-            title: req.file.originalname,
-            content: EmbeddingService.extractTextFromFile(
-              req.file.buffer,
-              req.file.mimetype,
-              req.file.originalname
-            ),
-            metadata: {
-              mimeType: req.file.mimetype,
-              filename: req.file.originalname,
-              uploadedAt: new Date().toISOString(),
-              size: req.file.size,
-              processingError: processingError.message,
-              processingFailed: true
-            }
-          });
-          
-          const fallbackItem = await storage.createKnowledgeItem(fallbackItemData);
-          
-          res.json({
-            message: "File uploaded but processing failed - saved as basic item",
-            knowledgeItems: [fallbackItem],
-            embeddings: 0,
-            totalChunks: 0,
-            filename: req.file.originalname,
-            size: req.file.size,
-            mimeType: req.file.mimetype,
-            warning: "Embedding generation failed",
-            error: processingError.message
+          item = await EmbeddingService.createFileItem(knowledgeBaseId, req.file);
+        } catch (extractionError) {
+          console.error("Error extracting file:", extractionError);
+          return res.status(400).json({
+            message: `Could not extract text from ${req.file.originalname}: ${(extractionError as Error).message}`
           });
         }
+        ingestionQueue.wake();
+
+        res.status(202).json({
+          message: "File uploaded and queued for processing",
+          item,
+          filename: req.file.originalname,
+          size: req.file.size,
+          mimeType: req.file.mimetype
+        });
       } catch (error) {
         console.error("Error uploading file:", error);
         res.status(500).json({ 
@@ -2394,17 +2685,37 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
   );
 
   // Embedding search route
-  app.post('/api/knowledge-bases/:knowledgeBaseId/search', isAuthenticated, async (req, res) => {
+  app.post('/api/knowledge-bases/:knowledgeBaseId/search', isAuthenticated, async (req: any, res) => {
     try {
-      const { query, limit = 10 } = req.body;
-      
-      if (!query) {
-        return res.status(400).json({ message: "Search query is required" });
+      const userId = req.user.id;
+      const knowledgeBaseId = req.params.knowledgeBaseId;
+
+      // Validate knowledge base ownership through agent and project
+      const knowledgeBase = await storage.getKnowledgeBase(knowledgeBaseId);
+      if (!knowledgeBase) {
+        return res.status(404).json({ message: "Knowledge base not found" });
       }
-      
-      // TODO: Implement proper vector search
-      // For now, return empty results
-      const results = await storage.searchEmbeddings(query, limit);
+
+      const agent = await storage.getAgent(knowledgeBase.agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const project = await storage.getProject(agent.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Knowledge base access denied" });
+      }
+
+      const parsed = knowledgeSearchRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search request", errors: parsed.error.errors });
+      }
+      const { query, ...options } = parsed.data;
+      if (options.reranker && !getReranker(options.reranker)) {
+        return res.status(400).json({ message: `Unknown reranker: ${options.reranker}` });
+      }
+
+      const results = await searchKnowledgeBase(knowledgeBaseId, query, options);
       res.json(results);
     } catch (error) {
       console.error("Error searching knowledge base:", error);
@@ -2746,16 +3057,218 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
-  // Flow routes
-  app.get('/api/projects/:projectId/flows', isAuthenticated, async (req, res) => {
+  // MCP Configuration routes
+  app.get('/api/projects/:projectId/mcp-configurations', isAuthenticated, async (req: any, res) => {
     try {
-      const flows = await storage.getFlows(req.params.projectId);
-      res.json(flows);
-    } catch (error) {
-      console.error("Error fetching flows:", error);
-      res.status(500).json({ message: "Failed to fetch flows" });
-    }
-  });
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const configurations = await storage.getMcpConfigurations(projectId);
+      res.json(configurations);
+    } catch (error) {
+      console.error("Error fetching MCP configurations:", error);
+      res.status(500).json({ message: "Failed to fetch MCP configurations" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/mcp-configurations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const configData = insertMcpConfigurationSchema.parse({ 
+        ...req.body, 
+        projectId 
+      });
+      const endpointError = configData.role === 'client' ? validateMcpEndpoint(configData.endpoint, configData.authConfig) : null;
+      if (endpointError) {
+        return res.status(400).json({ message: endpointError });
+      }
+      const configuration = await storage.createMcpConfiguration(configData);
+      res.json(configuration);
+    } catch (error) {
+      console.error("Error creating MCP configuration:", error);
+      res.status(500).json({ message: "Failed to create MCP configuration" });
+    }
+  });
+
+  app.put('/api/mcp-configurations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const configId = req.params.id;
+      
+      // Validate configuration ownership through project
+      const configuration = await storage.getMcpConfiguration(configId);
+      if (!configuration) {
+        return res.status(404).json({ message: "MCP configuration not found" });
+      }
+      
+      const project = await storage.getProject(configuration.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "MCP configuration access denied" });
+      }
+      
+      const { projectId: _projectId, ...updates } = insertMcpConfigurationSchema.partial().parse(req.body);
+      const merged = { ...configuration, ...updates };
+      const endpointError = merged.role === 'client' ? validateMcpEndpoint(merged.endpoint, merged.authConfig) : null;
+      if (endpointError) {
+        return res.status(400).json({ message: endpointError });
+      }
+      const updatedConfiguration = await storage.updateMcpConfiguration(configId, updates);
+      
+      // Reconnect with the new settings on next use
+      await mcpClientManager.disconnect(configId);
+      res.json(updatedConfiguration);
+    } catch (error) {
+      console.error("Error updating MCP configuration:", error);
+      res.status(500).json({ message: "Failed to update MCP configuration" });
+    }
+  });
+
+  app.delete('/api/mcp-configurations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const configId = req.params.id;
+      
+      // Validate configuration ownership through project
+      const configuration = await storage.getMcpConfiguration(configId);
+      if (!configuration) {
+        return res.status(404).json({ message: "MCP configuration not found" });
+      }
+      
+      const project = await storage.getProject(configuration.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "MCP configuration access denied" });
+      }
+      
+      await mcpClientManager.disconnect(configId);
+      await storage.deleteMcpConfiguration(configId);
+      res.json({ message: "MCP configuration deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting MCP configuration:", error);
+      res.status(500).json({ message: "Failed to delete MCP configuration" });
+    }
+  });
+
+  app.get('/api/mcp-configurations/:id/tools', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const configId = req.params.id;
+      
+      // Validate configuration ownership through project
+      const configuration = await storage.getMcpConfiguration(configId);
+      if (!configuration) {
+        return res.status(404).json({ message: "MCP configuration not found" });
+      }
+      
+      const project = await storage.getProject(configuration.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "MCP configuration access denied" });
+      }
+      
+      const mcpTools = await storage.getMcpTools(configId);
+      res.json(mcpTools);
+    } catch (error) {
+      console.error("Error fetching MCP tools:", error);
+      res.status(500).json({ message: "Failed to fetch MCP tools" });
+    }
+  });
+
+  // Connect to the MCP server and refresh its tool list
+  app.post('/api/mcp-configurations/:id/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const configId = req.params.id;
+      
+      // Validate configuration ownership through project
+      const configuration = await storage.getMcpConfiguration(configId);
+      if (!configuration) {
+        return res.status(404).json({ message: "MCP configuration not found" });
+      }
+      
+      const project = await storage.getProject(configuration.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "MCP configuration access denied" });
+      }
+      
+      if (configuration.role !== 'client') {
+        return res.status(400).json({ message: "Only client configurations can be synced" });
+      }
+      try {
+        await assertClientUsable(configuration);
+      } catch (error) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
+      
+      const mcpTools = await mcpClientManager.syncTools(configuration);
+      res.json(mcpTools);
+    } catch (error) {
+      console.error("Error syncing MCP tools:", error);
+      res.status(502).json({ message: `Failed to sync MCP tools: ${(error as Error).message}` });
+    }
+  });
+
+  // MCP server endpoint: publishes the project's flows as tools and knowledge bases as resources
+  app.post('/api/projects/:projectId/mcp', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      if (!(await featureFlagService.isEnabled(FeatureFlags.MCP_SERVER, projectId))) {
+        return res.status(404).json({ message: "MCP server is not enabled for this project" });
+      }
+      
+      const configurations = await storage.getMcpConfigurations(projectId);
+      const config = configurations.find(c => c.role === 'server' && c.isActive);
+      if (!config) {
+        return res.status(404).json({ message: "No active MCP server configuration for this project" });
+      }
+      
+      const response = await handleMcpMessage({ project, config }, req.body);
+      if (!response) {
+        // Notifications and client responses are accepted without a body
+        return res.status(202).end();
+      }
+      res.json(response);
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      res.status(500).json({ message: "Failed to handle MCP request" });
+    }
+  });
+
+  // Server-initiated SSE streams are not supported; clients fall back to POST-only
+  app.get('/api/projects/:projectId/mcp', isAuthenticated, (req, res) => {
+    res.status(405).set('Allow', 'POST').json({ message: "Method not allowed" });
+  });
+
+  // Flow routes
+  app.get('/api/projects/:projectId/flows', isAuthenticated, async (req, res) => {
+    try {
+      const flows = await storage.getFlows(req.params.projectId);
+      res.json(flows);
+    } catch (error) {
+      console.error("Error fetching flows:", error);
+      res.status(500).json({ message: "Failed to fetch flows" });
+    }
+  });
 
   app.post('/api/projects/:projectId/flows', isAuthenticated, async (req, res) => {
     try {
@@ -2797,6 +3310,24 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
         ...req.body, 
         flowId: req.params.id 
       });
+      
+      // Approval and foreach steps run without an agent or tool of their own
+      if (stepData.kind !== 'approval' && stepData.kind !== 'foreach' && !stepData.refId) {
+        return res.status(400).json({ message: `${stepData.kind} steps require a refId` });
+      }
+
+      const configError = validateStepKindConfig(stepData.kind, stepData.config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      if (stepData.kind === 'flow') {
+        const refError = await validateSubflowRef(stepData.flowId, stepData.refId!);
+        if (refError) {
+          return res.status(400).json({ message: refError });
+        }
+      }
+      
       const step = await storage.createStep(stepData);
       res.json(step);
     } catch (error) {
@@ -2807,6 +3338,29 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
 
   app.put('/api/steps/:id', isAuthenticated, async (req, res) => {
     try {
+      if (req.body.config !== undefined || req.body.kind !== undefined || req.body.refId !== undefined) {
+        const existing = await storage.getStep(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Step not found" });
+        }
+
+        const kind = req.body.kind ?? existing.kind;
+        const configError = validateStepKindConfig(
+          kind,
+          req.body.config !== undefined ? req.body.config : existing.config
+        );
+        if (configError) {
+          return res.status(400).json({ message: configError });
+        }
+
+        if (kind === 'flow') {
+          const refError = await validateSubflowRef(existing.flowId, req.body.refId ?? existing.refId);
+          if (refError) {
+            return res.status(400).json({ message: refError });
+          }
+        }
+      }
+
       const step = await storage.updateStep(req.params.id, req.body);
       res.json(step);
     } catch (error) {
@@ -2838,10 +3392,8 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
       
       const run = await storage.createRun(runData);
       
-      // Start execution asynchronously
-      executionEngine.executeFlow(run.id).catch((error: unknown) => {
-        console.error("Flow execution error:", error);
-      });
+      // Queued runs are picked up by the run queue workers
+      runQueue.wake();
       
       res.json(run);
     } catch (error) {
@@ -2873,6 +3425,442 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
+  app.get('/api/projects/:projectId/runs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const runs = await storage.getProjectRuns(projectId);
+      
+      // Failed runs report the step a resume would start from
+      const runsWithResumePoint = await Promise.all(runs.map(async (run) => {
+        if (run.status !== 'error') {
+          return { ...run, failedStepIdx: null };
+        }
+        const checkpoints = await storage.getRunCheckpoints(run.id);
+        return { ...run, failedStepIdx: resolveResumePoint(checkpoints).stepIdx };
+      }));
+      
+      res.json(runsWithResumePoint);
+    } catch (error) {
+      console.error("Error fetching project runs:", error);
+      res.status(500).json({ message: "Failed to fetch runs" });
+    }
+  });
+
+  app.get('/api/runs/:id/checkpoints', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const checkpoints = await storage.getRunCheckpoints(run.id);
+      res.json(checkpoints);
+    } catch (error) {
+      console.error("Error fetching run checkpoints:", error);
+      res.status(500).json({ message: "Failed to fetch run checkpoints" });
+    }
+  });
+
+  app.get('/api/runs/:id/children', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const children = await storage.getChildRuns(run.id);
+      res.json(children);
+    } catch (error) {
+      console.error("Error fetching sub-flow runs:", error);
+      res.status(500).json({ message: "Failed to fetch sub-flow runs" });
+    }
+  });
+
+  // Cost and tokens of a run, rolled up over its sub-flow runs
+  app.get('/api/runs/:id/cost', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const cost = await storage.getRunCost(run.id);
+      res.json({ runId: run.id, ...cost });
+    } catch (error) {
+      console.error("Error fetching run cost:", error);
+      res.status(500).json({ message: "Failed to fetch run cost" });
+    }
+  });
+
+  // Per-call metrics (LLM and tool calls) of a single run
+  app.get('/api/runs/:id/metrics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const metrics = await storage.getRunMetrics(run.id);
+      res.json(metrics);
+    } catch (error) {
+      console.error("Error fetching run metrics:", error);
+      res.status(500).json({ message: "Failed to fetch run metrics" });
+    }
+  });
+
+  // Project spend over the last day, week or month, broken down by flow, agent and model
+  app.get('/api/projects/:projectId/costs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const rangeDays: Record<string, number> = { day: 1, week: 7, month: 30 };
+      const range = (req.query.range as string) || 'week';
+      if (!rangeDays[range]) {
+        return res.status(400).json({ message: "range must be one of: day, week, month" });
+      }
+      
+      const since = new Date(Date.now() - rangeDays[range] * 24 * 60 * 60 * 1000);
+      const costs = await storage.getProjectCosts(projectId, since);
+      res.json({ projectId, range, since: since.toISOString(), ...costs });
+    } catch (error) {
+      console.error("Error fetching project costs:", error);
+      res.status(500).json({ message: "Failed to fetch project costs" });
+    }
+  });
+
+  // Re-queue a failed run from its last checkpoint (or an explicit step), optionally overriding context
+  app.post('/api/runs/:id/resume', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!flow || !project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      if (run.status !== 'error') {
+        return res.status(409).json({ message: `Only failed runs can be resumed (run is ${run.status})` });
+      }
+      if (run.parentRunId) {
+        return res.status(409).json({ message: "Sub-flow runs are resumed through their parent run" });
+      }
+      
+      const { stepIdx, context: contextOverrides } = req.body || {};
+      if (stepIdx !== undefined && (!Number.isInteger(stepIdx) || stepIdx < 0)) {
+        return res.status(400).json({ message: "stepIdx must be a non-negative integer" });
+      }
+      if (contextOverrides !== undefined && (typeof contextOverrides !== 'object' || contextOverrides === null || Array.isArray(contextOverrides))) {
+        return res.status(400).json({ message: "context must be an object" });
+      }
+      
+      const steps = await storage.getSteps(flow.id);
+      if (stepIdx !== undefined && !steps.some((step) => step.idx === stepIdx)) {
+        return res.status(400).json({ message: `Flow has no step ${stepIdx}` });
+      }
+      
+      const checkpoints = await storage.getRunCheckpoints(run.id);
+      const resumePoint = resolveResumePoint(checkpoints, stepIdx);
+      const context = {
+        ...(resumePoint.context ?? (run.input as Record<string, any>) ?? {}),
+        ...(contextOverrides || {}),
+      };
+      
+      const requeued = await runQueue.requeue(run.id, resumePoint.stepIdx, context);
+      if (!requeued) {
+        return res.status(409).json({ message: "Run is no longer in a resumable state" });
+      }
+      
+      await storage.createLog({
+        runId: run.id,
+        level: 'info',
+        tags: { resume: true },
+        message: `Run resumed from step ${resumePoint.stepIdx}${contextOverrides ? ' with context overrides' : ''}`,
+      });
+      
+      const resumedRun = await storage.getRun(run.id);
+      res.json(resumedRun);
+    } catch (error) {
+      console.error("Error resuming run:", error);
+      res.status(500).json({ message: "Failed to resume run" });
+    }
+  });
+
+  // Approval routes
+  app.get('/api/projects/:projectId/approvals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const approvals = await storage.getProjectApprovals(projectId, status);
+      res.json(approvals);
+    } catch (error) {
+      console.error("Error fetching approvals:", error);
+      res.status(500).json({ message: "Failed to fetch approvals" });
+    }
+  });
+
+  app.get('/api/runs/:id/approvals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const approvals = await storage.getRunApprovals(run.id);
+      res.json(approvals);
+    } catch (error) {
+      console.error("Error fetching run approvals:", error);
+      res.status(500).json({ message: "Failed to fetch run approvals" });
+    }
+  });
+
+  // Approve or reject a pending approval; approving may carry context edits for the rest of the run
+  app.post('/api/approvals/:id/:decision(approve|reject)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const decision = req.params.decision as 'approve' | 'reject';
+      
+      const approval = await storage.getRunApproval(req.params.id);
+      if (!approval) {
+        return res.status(404).json({ message: "Approval not found" });
+      }
+      
+      // Validate the user may decide: project owner or a listed approver
+      const run = await storage.getRun(approval.runId);
+      const flow = run ? await storage.getFlow(run.flowId) : undefined;
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || !approvalService.canDecide(approval, project, userId)) {
+        return res.status(403).json({ message: "Approval access denied" });
+      }
+      
+      const { comment, context } = req.body || {};
+      if (comment !== undefined && typeof comment !== 'string') {
+        return res.status(400).json({ message: "comment must be a string" });
+      }
+      if (context !== undefined && (typeof context !== 'object' || context === null || Array.isArray(context))) {
+        return res.status(400).json({ message: "context must be an object" });
+      }
+      if (decision === 'reject' && context !== undefined) {
+        return res.status(400).json({ message: "Context edits can only be supplied when approving" });
+      }
+      
+      const decided = decision === 'approve'
+        ? await approvalService.approve(approval.id, userId, { comment, context })
+        : await approvalService.reject(approval.id, userId, { comment });
+      
+      if (!decided) {
+        return res.status(409).json({ message: `Approval is already ${approval.status === 'pending' ? 'decided' : approval.status}` });
+      }
+      
+      res.json(decided);
+    } catch (error) {
+      console.error("Error deciding approval:", error);
+      res.status(500).json({ message: "Failed to record approval decision" });
+    }
+  });
+
+  // Policy routes
+  app.get('/api/projects/:projectId/policies', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const rules = await storage.getPolicyRules(projectId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching policies:", error);
+      res.status(500).json({ message: "Failed to fetch policies" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/policies', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = req.params.projectId;
+      
+      // Validate project ownership
+      const project = await storage.getProject(projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Project access denied" });
+      }
+      
+      const parsed = insertPolicyRuleSchema.safeParse({ constraints: {}, ...req.body, projectId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid policy", errors: parsed.error.errors });
+      }
+      const policyError = validatePolicyRule(parsed.data);
+      if (policyError) {
+        return res.status(400).json({ message: policyError });
+      }
+      
+      const rule = await storage.createPolicyRule(parsed.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating policy:", error);
+      res.status(500).json({ message: "Failed to create policy" });
+    }
+  });
+
+  app.put('/api/policies/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate policy ownership through project
+      const rule = await storage.getPolicyRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      
+      const project = await storage.getProject(rule.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Policy access denied" });
+      }
+      
+      const parsed = insertPolicyRuleSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid policy", errors: parsed.error.errors });
+      }
+      const { projectId: _projectId, ...updates } = parsed.data;
+      const policyError = validatePolicyRule(updates);
+      if (policyError) {
+        return res.status(400).json({ message: policyError });
+      }
+      
+      const updatedRule = await storage.updatePolicyRule(rule.id, updates);
+      res.json(updatedRule);
+    } catch (error) {
+      console.error("Error updating policy:", error);
+      res.status(500).json({ message: "Failed to update policy" });
+    }
+  });
+
+  app.delete('/api/policies/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate policy ownership through project
+      const rule = await storage.getPolicyRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      
+      const project = await storage.getProject(rule.projectId);
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Policy access denied" });
+      }
+      
+      await storage.deletePolicyRule(rule.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting policy:", error);
+      res.status(500).json({ message: "Failed to delete policy" });
+    }
+  });
+
+  app.get('/api/runs/:id/policy-evaluations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      
+      // Validate run ownership through flow and project
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const flow = await storage.getFlow(run.flowId);
+      const project = flow ? await storage.getProject(flow.projectId) : undefined;
+      if (!project || project.userId !== userId) {
+        return res.status(403).json({ message: "Run access denied" });
+      }
+      
+      const evaluations = await storage.getPolicyEvaluations(run.id);
+      res.json(evaluations);
+    } catch (error) {
+      console.error("Error fetching policy evaluations:", error);
+      res.status(500).json({ message: "Failed to fetch policy evaluations" });
+    }
+  });
+
   // LangGraph execution routes
   app.post('/api/langgraph/test/meeting-actions', async (req, res) => {
     try {
@@ -3654,86 +4642,5 @@ Sitemap: https://vortic.replit.app/sitemap.xml`);
     }
   });
 
-  // Setup WebSocket server for real-time logs
-  const httpServer = server || createServer(app);
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-
-  wss.on('connection', (ws: WebSocket, req) => {
-    console.log('WebSocket connection established');
-    
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        if (message.type === 'subscribe_run' && message.runId) {
-          // Store runId on the WebSocket connection
-          (ws as any).runId = message.runId;
-          
-          // Verify the run exists
-          const run = await storage.getRun(message.runId);
-          if (!run) {
-            ws.send(JSON.stringify({
-              type: 'error',
-              message: 'Run not found'
-            }));
-            return;
-          }
-          
-          // Send current run status
-          ws.send(JSON.stringify({
-            type: 'run_status',
-            data: {
-              status: run.status,
-              sessionId: run.sessionId,
-              createdAt: run.createdAt,
-              completedAt: run.completedAt
-            }
-          }));
-          
-          // Send existing logs for this run
-          const logs = await storage.getLogs(message.runId);
-          logs.forEach(log => {
-            ws.send(JSON.stringify({
-              type: 'log',
-              data: {
-                id: log.id,
-                timestamp: log.ts,
-                level: log.level,
-                tags: log.tags,
-                message: log.message,
-                payload: log.payload
-              }
-            }));
-          });
-          
-          ws.send(JSON.stringify({
-            type: 'subscribed',
-            runId: message.runId
-          }));
-          
-          console.log(`Client subscribed to run ${message.runId}`);
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-        ws.send(JSON.stringify({
-          type: 'error',
-          message: 'Invalid message format'
-        }));
-      }
-    });
-
-    ws.on('close', () => {
-      console.log('WebSocket connection closed');
-    });
-    
-    ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-    });
-  });
-
-  // Store WebSocket server for execution engine to broadcast logs
-  (httpServer as any).wss = wss;
-  executionEngine.setWebSocketServer(wss);
-
-  return httpServer;
+  return server || createServer(app);
 }
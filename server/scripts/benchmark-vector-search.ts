@@ -0,0 +1,161 @@
+import { eq, sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { storage } from "../storage";
+import { agents, knowledgeBases, knowledgeItems, projects, users } from "@shared/schema";
+
+// Measures storage.searchEmbeddings on a synthetic knowledge base. Loads --chunks random unit
+// vectors into a throwaway user's knowledge base, then times --queries searches through the
+// HNSW index and the same searches as exact scans, reporting latency percentiles and recall@k.
+// Everything it creates is deleted at the end unless --keep is given.
+//
+//   npm run bench:vectors -- --chunks 100000 --dimensions 1536 --queries 50 --k 10
+
+function argInt(name: string, fallback: number): number {
+  const index = process.argv.indexOf(name);
+  const value = index >= 0 ? parseInt(process.argv[index + 1], 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const CHUNKS = argInt('--chunks', 100000);
+const DIMENSIONS = argInt('--dimensions', 1536);
+const QUERIES = argInt('--queries', 50);
+const K = argInt('--k', 10);
+const INSERT_BATCH = 500;
+const MODEL = 'bench/random';
+
+function randomUnitVector(): number[] {
+  const vector = Array.from({ length: DIMENSIONS }, () => Math.random() * 2 - 1);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map((value) => value / norm);
+}
+
+// A stored vector nudged a little, so every query has real near neighbours
+function nearbyQuery(vector: number[]): number[] {
+  const noisy = vector.map((value) => value + (Math.random() * 2 - 1) * 0.02);
+  const norm = Math.sqrt(noisy.reduce((sum, value) => sum + value * value, 0));
+  return noisy.map((value) => value / norm);
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function summarize(label: string, timings: number[]) {
+  const sorted = [...timings].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  console.log(
+    `${label.padEnd(8)} mean ${mean.toFixed(1)}ms  p50 ${percentile(sorted, 50).toFixed(1)}ms  ` +
+    `p95 ${percentile(sorted, 95).toFixed(1)}ms  p99 ${percentile(sorted, 99).toFixed(1)}ms`
+  );
+}
+
+async function benchmark() {
+  const userId = `bench|${Date.now()}`;
+  await db.insert(users).values({ id: userId });
+  try {
+    const [project] = await db.insert(projects).values({ userId, name: 'Vector benchmark', slug: `vector-bench-${Date.now()}` }).returning();
+    const [agent] = await db.insert(agents).values({ projectId: project.id, name: 'bench', systemPrompt: 'bench' }).returning();
+    const [knowledgeBase] = await db.insert(knowledgeBases).values({
+      agentId: agent.id,
+      name: 'Vector benchmark',
+      embeddingModel: MODEL,
+      vectorDimensions: DIMENSIONS,
+    }).returning();
+
+    console.log(`📥 Loading ${CHUNKS} chunks of ${DIMENSIONS} dimensions...`);
+    const samples: number[][] = [];
+    const loadStart = Date.now();
+    for (let start = 0; start < CHUNKS; start += INSERT_BATCH) {
+      const count = Math.min(INSERT_BATCH, CHUNKS - start);
+      const [item] = await db.insert(knowledgeItems).values({
+        knowledgeBaseId: knowledgeBase.id,
+        type: 'chunk',
+        title: `bench ${start}`,
+        content: '',
+      }).returning();
+
+      const rows = Array.from({ length: count }, (_, i) => {
+        const embedding = randomUnitVector();
+        // Keep a spread of stored vectors to derive queries from
+        if (samples.length < QUERIES && Math.random() < QUERIES / CHUNKS * 2) samples.push(embedding);
+        return {
+          knowledgeItemId: item.id,
+          knowledgeBaseId: knowledgeBase.id,
+          chunkIndex: start + i,
+          chunkText: `chunk ${start + i}`,
+          embedding,
+          dimensions: DIMENSIONS,
+          metadata: { model: MODEL },
+        };
+      });
+      await storage.createEmbeddings(rows);
+
+      if ((start / INSERT_BATCH) % 20 === 0) {
+        console.log(`   ${start + count}/${CHUNKS} (${((Date.now() - loadStart) / 1000).toFixed(0)}s)`);
+      }
+    }
+    await db.execute(sql`ANALYZE embeddings`);
+    while (samples.length < QUERIES) samples.push(randomUnitVector());
+
+    const queries = samples.map(nearbyQuery);
+    const options = { knowledgeBaseId: knowledgeBase.id, model: MODEL };
+
+    // Warm-up so the first timed query doesn't pay for loading the index
+    await storage.searchEmbeddings(queries[0], K, options);
+
+    const annTimings: number[] = [];
+    const annResults: string[][] = [];
+    for (const query of queries) {
+      const started = performance.now();
+      const matches = await storage.searchEmbeddings(query, K, options);
+      annTimings.push(performance.now() - started);
+      annResults.push(matches.map((match) => match.id));
+    }
+
+    // Ground truth: the same query with index scans disabled
+    const exactTimings: number[] = [];
+    let found = 0;
+    for (let index = 0; index < queries.length; index++) {
+      const query = queries[index];
+      const literal = `[${query.join(',')}]`;
+      const size = sql.raw(String(DIMENSIONS));
+      const started = performance.now();
+      const exact = await db.transaction(async (tx) => {
+        await tx.execute(sql`SET LOCAL enable_indexscan = off`);
+        const result = await tx.execute(sql`
+          SELECT id FROM embeddings
+          WHERE knowledge_base_id = ${knowledgeBase.id} AND dimensions = ${DIMENSIONS}
+          ORDER BY (embedding::vector(${size})) <=> (${literal}::vector(${size}))
+          LIMIT ${K}
+        `);
+        return result.rows.map((row: any) => row.id as string);
+      });
+      exactTimings.push(performance.now() - started);
+      found += exact.filter((id) => annResults[index].includes(id)).length;
+    }
+
+    console.log(`\n📊 ${QUERIES} queries, top ${K}, ${CHUNKS} chunks x ${DIMENSIONS} dimensions`);
+    summarize('hnsw', annTimings);
+    summarize('exact', exactTimings);
+    console.log(`recall@${K}: ${(found / (QUERIES * K)).toFixed(3)}`);
+
+    const [{ size }] = (await db.execute(sql`
+      SELECT pg_size_pretty(pg_relation_size(${`"IDX_embeddings_hnsw_${DIMENSIONS}"`}::regclass)) AS size
+    `).catch(() => ({ rows: [{ size: `no index for ${DIMENSIONS} dimensions` }] }))).rows as Array<{ size: string }>;
+    console.log(`index size: ${size}`);
+  } finally {
+    if (process.argv.includes('--keep')) {
+      console.log(`Kept benchmark data under user ${userId}`);
+    } else {
+      console.log('🧹 Removing benchmark data...');
+      await db.delete(users).where(eq(users.id, userId));
+    }
+  }
+}
+
+benchmark()
+  .catch((error) => {
+    console.error('❌ Benchmark failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,90 @@
+import { sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { INDEXED_VECTOR_DIMENSIONS } from "@shared/schema";
+
+// Moves embeddings from JSON text to the pgvector column. Safe to re-run: every step is
+// idempotent and the backfill resumes where it stopped. Run it before `npm run db:push`
+// on an existing database (push cannot create the extension).
+//
+//   npm run db:migrate-vectors [-- --batch-size 2000] [-- --clear-json]
+//
+// --clear-json drops the JSON copy of each migrated vector to reclaim space.
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const BATCH_SIZE = parseInt(argValue('--batch-size') || '', 10) || 1000;
+const CLEAR_JSON = process.argv.includes('--clear-json');
+
+async function migrate() {
+  console.log('🔧 Enabling pgvector and adding columns...');
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+  await db.execute(sql`
+    ALTER TABLE embeddings
+      ADD COLUMN IF NOT EXISTS knowledge_base_id uuid,
+      ADD COLUMN IF NOT EXISTS embedding vector,
+      ADD COLUMN IF NOT EXISTS dimensions integer,
+      ALTER COLUMN vector DROP NOT NULL
+  `);
+  // Same constraint name drizzle-kit generates, so a later push sees no difference
+  await db.execute(sql`
+    DO $$ BEGIN
+      ALTER TABLE embeddings ADD CONSTRAINT embeddings_knowledge_base_id_knowledge_bases_id_fk
+        FOREIGN KEY (knowledge_base_id) REFERENCES knowledge_bases(id) ON DELETE cascade ON UPDATE no action;
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$
+  `);
+
+  console.log(`📦 Backfilling vectors in batches of ${BATCH_SIZE}...`);
+  let migrated = 0;
+  while (true) {
+    const result = await db.execute(sql`
+      WITH batch AS (
+        SELECT id FROM embeddings
+        WHERE (embedding IS NULL AND vector IS NOT NULL) OR knowledge_base_id IS NULL
+        LIMIT ${BATCH_SIZE}
+      )
+      UPDATE embeddings e SET
+        embedding = coalesce(e.embedding, e.vector::vector),
+        dimensions = vector_dims(coalesce(e.embedding, e.vector::vector)),
+        knowledge_base_id = ki.knowledge_base_id
+      FROM batch, knowledge_items ki
+      WHERE e.id = batch.id AND ki.id = e.knowledge_item_id
+    `);
+    const count = result.rowCount ?? 0;
+    if (count === 0) break;
+    migrated += count;
+    console.log(`   ${migrated} rows migrated`);
+  }
+
+  if (CLEAR_JSON) {
+    const cleared = await db.execute(sql`UPDATE embeddings SET vector = NULL WHERE embedding IS NOT NULL AND vector IS NOT NULL`);
+    console.log(`🧹 Cleared ${cleared.rowCount ?? 0} JSON vectors`);
+  }
+
+  // Built after the backfill: bulk-building an HNSW index is much faster than inserting into one
+  console.log('🗂️ Creating indexes...');
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_embeddings_kb_dimensions" ON embeddings (knowledge_base_id, dimensions)`);
+  for (const dimensions of INDEXED_VECTOR_DIMENSIONS) {
+    const size = sql.raw(String(dimensions));
+    console.log(`   hnsw for ${dimensions} dimensions`);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS ${sql.identifier(`IDX_embeddings_hnsw_${dimensions}`)}
+      ON embeddings USING hnsw ((embedding::vector(${size})) vector_cosine_ops)
+      WHERE dimensions = ${size}
+    `);
+  }
+  await db.execute(sql`ANALYZE embeddings`);
+
+  const [remaining] = (await db.execute(sql`SELECT count(*)::int AS count FROM embeddings WHERE embedding IS NULL`)).rows;
+  console.log(`✅ Done: ${migrated} rows migrated, ${remaining?.count ?? 0} rows without a vector`);
+}
+
+migrate()
+  .catch((error) => {
+    console.error('❌ pgvector migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
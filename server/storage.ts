@@ -1,15 +1,18 @@
 import {
   users, projects, agents, tools, flows, steps, runs, logs, secrets, templates,
-  knowledgeBases, knowledgeItems, embeddings, dataSources, dataConnections,
+  knowledgeBases, knowledgeSources, knowledgeItems, embeddings, dataSources, dataConnections,
   agentIntegrations, autonomousTriggers, triggerEvents, uiComponents, agentUis,
+  mcpConfigurations, mcpTools, runCheckpoints, runApprovals, runMetrics,
+  policyRules, policyEvaluations,
   type User, type UpsertUser, type Project, type InsertProject,
   type Agent, type InsertAgent, type Tool, type InsertTool,
   type Flow, type InsertFlow, type Step, type InsertStep,
   type Run, type InsertRun, type Log, type InsertLog,
   type Secret, type InsertSecret, type Template, type InsertTemplate,
   type KnowledgeBase, type InsertKnowledgeBase,
+  type KnowledgeSource, type InsertKnowledgeSource,
   type KnowledgeItem, type InsertKnowledgeItem,
-  type Embedding, type InsertEmbedding,
+  type Embedding, type InsertEmbedding, type KnowledgeFilters,
   type DataSource, type InsertDataSource,
   type DataConnection, type InsertDataConnection,
   type AgentIntegration, type InsertAgentIntegration,
@@ -17,9 +20,106 @@ import {
   type TriggerEvent, type InsertTriggerEvent,
   type UiComponent, type InsertUiComponent,
   type AgentUi, type InsertAgentUi,
+  type McpConfiguration, type InsertMcpConfiguration,
+  type McpTool, type InsertMcpTool,
+  type RunCheckpoint, type InsertRunCheckpoint,
+  type RunApproval, type InsertRunApproval,
+  type PolicyRule, type InsertPolicyRule,
+  type PolicyEvaluation, type InsertPolicyEvaluation,
+  type RunMetric, type InsertRunMetric,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { piiService } from "./engine/pii";
+import { eq, and, desc, gte, inArray, isNotNull, sql, getTableColumns } from "drizzle-orm";
+import { envInt } from "./env";
+
+// HNSW candidate list size per search; higher is more accurate and slower (pgvector default 40)
+const VECTOR_EF_SEARCH = envInt('VECTOR_EF_SEARCH', 100);
+// pgvector 0.8+: keep scanning the index when the knowledge base filter drops candidates
+// ('relaxed_order' by default or 'strict_order'; 'off' for older pgvector versions)
+const VECTOR_ITERATIVE_SCAN = process.env.VECTOR_ITERATIVE_SCAN || 'relaxed_order';
+
+// A search hit; vectors themselves are not returned
+export type EmbeddingMatch = Omit<Embedding, 'vector' | 'embedding'> & { similarity: number };
+export type KeywordMatch = Omit<Embedding, 'vector' | 'embedding'> & { rank: number };
+
+// What a citation needs to name its knowledge item, without loading the item's content
+export type KnowledgeItemRef = Pick<KnowledgeItem, 'id' | 'knowledgeBaseId' | 'type' | 'title'> & {
+  url: string | null;
+  filename: string | null;
+};
+
+export interface EmbeddingSearchOptions {
+  knowledgeBaseId?: string;
+  model?: string; // Only vectors produced by this model ("provider/model") are comparable
+  filters?: KnowledgeFilters;
+}
+
+// Selected columns of a search, without the vectors
+const { vector: _vector, embedding: _embedding, ...embeddingMatchColumns } = getTableColumns(embeddings);
+
+// Each filter key must match the chunk's metadata or, failing that, its knowledge item's
+function metadataFilter(filters: KnowledgeFilters) {
+  const merged = sql`(coalesce(${knowledgeItems.metadata}, '{}'::jsonb) || coalesce(${embeddings.metadata}, '{}'::jsonb))`;
+  const keys = Object.keys(filters).map((key) => {
+    const values = ([] as Array<string | number | boolean>).concat(filters[key]);
+    return sql`(${sql.join(values.map((value) => sql`${merged} @> ${JSON.stringify({ [key]: value })}::jsonb`), sql` or `)})`;
+  });
+  return sql`exists (select 1 from ${knowledgeItems} where ${knowledgeItems.id} = ${embeddings.knowledgeItemId} and ${and(...keys)})`;
+}
+
+// Words of a free-text query OR-ed into a tsquery, so chunks matching any term are found and
+// ranking rewards those matching more. Operators are stripped; hyphenated codes stay whole.
+function keywordQuery(text: string): string {
+  const terms = text.match(/[A-Za-z0-9\u00c0-\uffff][A-Za-z0-9\u00c0-\uffff_.\/-]*/g) || [];
+  return Array.from(new Set(terms.map((term) => term.replace(/[.\/-]+$/, '')).filter(Boolean)))
+    .map((term) => `'${term}'`)
+    .join(' | ');
+}
+
+// Spend and usage summed over run_metrics rows
+export interface CostTotals {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  llmCalls: number;
+  toolCalls: number;
+  repairs: number; // LLM calls re-prompting an agent whose output failed its schema
+  escalations: number; // Of those, calls made on the escalation model
+}
+
+export interface ProjectCosts {
+  totals: CostTotals;
+  byFlow: Array<CostTotals & { flowId: string; flowName: string }>;
+  byAgent: Array<CostTotals & { agentId: string | null; agentName: string }>; // null: agent since deleted
+  byModel: Array<CostTotals & { model: string }>;
+}
+
+const costTotalsColumns = {
+  costUsd: sql<string>`coalesce(sum(${runMetrics.costUsd}::numeric), 0)`,
+  promptTokens: sql<string>`coalesce(sum((${runMetrics.tokens}->>'prompt')::integer), 0)`,
+  completionTokens: sql<string>`coalesce(sum((${runMetrics.tokens}->>'completion')::integer), 0)`,
+  totalTokens: sql<string>`coalesce(sum((${runMetrics.tokens}->>'total')::integer), 0)`,
+  llmCalls: sql<string>`count(*) filter (where ${runMetrics.kind} = 'agent')`,
+  toolCalls: sql<string>`count(*) filter (where ${runMetrics.kind} = 'tool')`,
+  repairs: sql<string>`count(*) filter (where ${runMetrics.metadata}->>'purpose' in ('repair', 'escalation'))`,
+  escalations: sql<string>`count(*) filter (where ${runMetrics.metadata}->>'purpose' = 'escalation')`,
+};
+
+// Postgres returns sums and counts as strings
+function toCostTotals<T extends Record<keyof CostTotals, string | number>>(row: T | undefined): CostTotals {
+  return {
+    costUsd: Number(row?.costUsd ?? 0),
+    promptTokens: Number(row?.promptTokens ?? 0),
+    completionTokens: Number(row?.completionTokens ?? 0),
+    totalTokens: Number(row?.totalTokens ?? 0),
+    llmCalls: Number(row?.llmCalls ?? 0),
+    toolCalls: Number(row?.toolCalls ?? 0),
+    repairs: Number(row?.repairs ?? 0),
+    escalations: Number(row?.escalations ?? 0),
+  };
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -58,18 +158,48 @@ export interface IStorage {
   
   // Step operations
   getSteps(flowId: string): Promise<Step[]>;
+  getStep(id: string): Promise<Step | undefined>;
   createStep(step: InsertStep): Promise<Step>;
   updateStep(id: string, updates: Partial<InsertStep>): Promise<Step>;
   deleteStep(id: string): Promise<void>;
   
   // Run operations
   getRuns(flowId: string): Promise<Run[]>;
+  getProjectRuns(projectId: string, limit?: number): Promise<Array<Run & { flowName: string }>>;
   getRun(id: string): Promise<Run | undefined>;
   createRun(run: InsertRun): Promise<Run>;
   updateRun(id: string, updates: Partial<InsertRun>): Promise<Run>;
+  getChildRuns(parentRunId: string): Promise<Run[]>;
+  getRunTreeIds(runId: string): Promise<string[]>;
+  getRootRunId(runId: string): Promise<string>;
+  getRunCost(runId: string): Promise<CostTotals & { runCount: number }>;
+  
+  // Metrics operations
+  getRunMetrics(runId: string): Promise<RunMetric[]>;
+  createRunMetric(metric: InsertRunMetric): Promise<RunMetric>;
+  getProjectCosts(projectId: string, since: Date): Promise<ProjectCosts>;
+  
+  // Checkpoint operations
+  getRunCheckpoints(runId: string): Promise<RunCheckpoint[]>;
+  createRunCheckpoint(checkpoint: InsertRunCheckpoint): Promise<RunCheckpoint>;
+  
+  // Approval operations
+  getRunApprovals(runId: string): Promise<RunApproval[]>;
+  getProjectApprovals(projectId: string, status?: string): Promise<Array<RunApproval & { flowId: string; flowName: string }>>;
+  getRunApproval(id: string): Promise<RunApproval | undefined>;
+  createRunApproval(approval: InsertRunApproval): Promise<RunApproval>;
+  
+  // Policy operations
+  getPolicyRules(projectId: string): Promise<PolicyRule[]>;
+  getPolicyRule(id: string): Promise<PolicyRule | undefined>;
+  createPolicyRule(rule: InsertPolicyRule): Promise<PolicyRule>;
+  updatePolicyRule(id: string, updates: Partial<InsertPolicyRule>): Promise<PolicyRule>;
+  deletePolicyRule(id: string): Promise<void>;
+  getPolicyEvaluations(runId: string): Promise<PolicyEvaluation[]>;
+  createPolicyEvaluation(evaluation: InsertPolicyEvaluation): Promise<PolicyEvaluation>;
   
   // Log operations
-  getLogs(runId: string): Promise<Log[]>;
+  getLogs(runId: string): Promise<Log[]>; // includes logs of the run's sub-flow runs
   createLog(log: InsertLog): Promise<Log>;
   
   // Secret operations
@@ -91,8 +221,18 @@ export interface IStorage {
   updateKnowledgeBase(id: string, updates: Partial<InsertKnowledgeBase>): Promise<KnowledgeBase>;
   deleteKnowledgeBase(id: string): Promise<void>;
 
+  // Knowledge Source operations
+  getKnowledgeSources(knowledgeBaseId: string): Promise<KnowledgeSource[]>;
+  getKnowledgeSource(id: string): Promise<KnowledgeSource | undefined>;
+  createKnowledgeSource(knowledgeSource: InsertKnowledgeSource & { nextCrawlAt?: Date | null }): Promise<KnowledgeSource>;
+  updateKnowledgeSource(id: string, updates: Partial<KnowledgeSource>): Promise<KnowledgeSource>;
+  deleteKnowledgeSource(id: string): Promise<void>;
+
   // Knowledge Item operations
   getKnowledgeItems(knowledgeBaseId: string): Promise<KnowledgeItem[]>;
+  getKnowledgeItemsBySource(sourceId: string): Promise<KnowledgeItem[]>;
+  findKnowledgeItemByHash(knowledgeBaseId: string, contentHash: string): Promise<KnowledgeItem | undefined>;
+  getKnowledgeItemRefs(ids: string[]): Promise<KnowledgeItemRef[]>;
   getKnowledgeItem(id: string): Promise<KnowledgeItem | undefined>;
   createKnowledgeItem(knowledgeItem: InsertKnowledgeItem): Promise<KnowledgeItem>;
   updateKnowledgeItem(id: string, updates: Partial<InsertKnowledgeItem>): Promise<KnowledgeItem>;
@@ -101,7 +241,10 @@ export interface IStorage {
   // Embedding operations
   getEmbeddings(knowledgeItemId: string): Promise<Embedding[]>;
   createEmbedding(embedding: InsertEmbedding): Promise<Embedding>;
-  searchEmbeddings(queryEmbedding: number[], limit: number, knowledgeBaseId?: string): Promise<Array<Embedding & { similarity: number }>>;
+  createEmbeddings(embeddings: InsertEmbedding[]): Promise<void>;
+  deleteEmbeddings(knowledgeItemId: string): Promise<void>;
+  searchEmbeddings(queryEmbedding: number[], limit: number, options?: EmbeddingSearchOptions): Promise<EmbeddingMatch[]>;
+  searchEmbeddingsByText(query: string, limit: number, options?: EmbeddingSearchOptions): Promise<KeywordMatch[]>;
 
   // Data Source operations
   getDataSources(projectId: string): Promise<DataSource[]>;
@@ -149,6 +292,17 @@ export interface IStorage {
   createAgentUi(agentUi: InsertAgentUi): Promise<AgentUi>;
   updateAgentUi(id: string, updates: Partial<InsertAgentUi>): Promise<AgentUi>;
   deleteAgentUi(id: string): Promise<void>;
+
+  // MCP Configuration operations
+  getMcpConfigurations(projectId: string): Promise<McpConfiguration[]>;
+  getMcpConfiguration(id: string): Promise<McpConfiguration | undefined>;
+  createMcpConfiguration(config: InsertMcpConfiguration): Promise<McpConfiguration>;
+  updateMcpConfiguration(id: string, updates: Partial<InsertMcpConfiguration>): Promise<McpConfiguration>;
+  deleteMcpConfiguration(id: string): Promise<void>;
+
+  // MCP Tool operations
+  getMcpTools(mcpConfigId: string): Promise<McpTool[]>;
+  replaceMcpTools(mcpConfigId: string, tools: InsertMcpTool[]): Promise<McpTool[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -344,6 +498,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(steps).where(eq(steps.flowId, flowId)).orderBy(steps.idx);
   }
 
+  async getStep(id: string): Promise<Step | undefined> {
+    const [step] = await db.select().from(steps).where(eq(steps.id, id));
+    return step;
+  }
+
   async createStep(step: InsertStep): Promise<Step> {
     const [newStep] = await db.insert(steps).values(step).returning();
     return newStep;
@@ -367,6 +526,17 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(runs).where(eq(runs.flowId, flowId)).orderBy(desc(runs.createdAt));
   }
 
+  async getProjectRuns(projectId: string, limit = 50): Promise<Array<Run & { flowName: string }>> {
+    const rows = await db
+      .select({ run: runs, flowName: flows.name })
+      .from(runs)
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(eq(flows.projectId, projectId))
+      .orderBy(desc(runs.createdAt))
+      .limit(limit);
+    return rows.map(({ run, flowName }) => ({ ...run, flowName }));
+  }
+
   async getRun(id: string): Promise<Run | undefined> {
     const [run] = await db.select().from(runs).where(eq(runs.id, id));
     return run;
@@ -386,13 +556,200 @@ export class DatabaseStorage implements IStorage {
     return updatedRun;
   }
 
+  async getChildRuns(parentRunId: string): Promise<Run[]> {
+    return await db.select().from(runs).where(eq(runs.parentRunId, parentRunId)).orderBy(runs.createdAt);
+  }
+
+  // The run plus every sub-flow run below it
+  async getRunTreeIds(runId: string): Promise<string[]> {
+    const result = await db.execute(sql`
+      WITH RECURSIVE tree AS (
+        SELECT id FROM runs WHERE id = ${runId}
+        UNION ALL
+        SELECT child.id FROM runs child JOIN tree ON child.parent_run_id = tree.id
+      )
+      SELECT id FROM tree
+    `);
+    return (result.rows as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  // Top-level run a sub-flow run belongs to (the run itself when it has no parent)
+  async getRootRunId(runId: string): Promise<string> {
+    const result = await db.execute(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_run_id FROM runs WHERE id = ${runId}
+        UNION ALL
+        SELECT parent.id, parent.parent_run_id
+        FROM runs parent JOIN ancestors ON parent.id = ancestors.parent_run_id
+      )
+      SELECT id FROM ancestors WHERE parent_run_id IS NULL LIMIT 1
+    `);
+    return (result.rows[0] as { id: string } | undefined)?.id ?? runId;
+  }
+
+  // Cost and tokens of the run and its sub-flow runs
+  async getRunCost(runId: string): Promise<CostTotals & { runCount: number }> {
+    const runIds = await this.getRunTreeIds(runId);
+    if (runIds.length === 0) {
+      return { runCount: 0, ...toCostTotals(undefined) };
+    }
+
+    const [totals] = await db
+      .select(costTotalsColumns)
+      .from(runMetrics)
+      .where(inArray(runMetrics.runId, runIds));
+
+    return { runCount: runIds.length, ...toCostTotals(totals) };
+  }
+
+  // Metrics operations
+  async getRunMetrics(runId: string): Promise<RunMetric[]> {
+    return await db.select().from(runMetrics).where(eq(runMetrics.runId, runId)).orderBy(runMetrics.createdAt);
+  }
+
+  async createRunMetric(metric: InsertRunMetric): Promise<RunMetric> {
+    const [newMetric] = await db.insert(runMetrics).values(metric).returning();
+    return newMetric;
+  }
+
+  // Spend of the project's runs (sub-flow runs count towards their own flow) since a point in time
+  async getProjectCosts(projectId: string, since: Date): Promise<ProjectCosts> {
+    const scope = and(eq(flows.projectId, projectId), gte(runMetrics.createdAt, since));
+
+    const [totals] = await db
+      .select(costTotalsColumns)
+      .from(runMetrics)
+      .innerJoin(runs, eq(runMetrics.runId, runs.id))
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(scope);
+
+    const flowRows = await db
+      .select({ flowId: flows.id, flowName: flows.name, ...costTotalsColumns })
+      .from(runMetrics)
+      .innerJoin(runs, eq(runMetrics.runId, runs.id))
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(scope)
+      .groupBy(flows.id, flows.name);
+
+    const agentRows = await db
+      .select({
+        agentId: runMetrics.agentId,
+        agentName: sql<string>`coalesce(${agents.name}, max(${runMetrics.stepName}))`,
+        ...costTotalsColumns,
+      })
+      .from(runMetrics)
+      .innerJoin(runs, eq(runMetrics.runId, runs.id))
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .leftJoin(agents, eq(runMetrics.agentId, agents.id))
+      .where(and(scope, eq(runMetrics.kind, 'agent')))
+      .groupBy(runMetrics.agentId, agents.name);
+
+    const modelRows = await db
+      .select({ model: runMetrics.model, ...costTotalsColumns })
+      .from(runMetrics)
+      .innerJoin(runs, eq(runMetrics.runId, runs.id))
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(and(scope, isNotNull(runMetrics.model)))
+      .groupBy(runMetrics.model);
+
+    const byCost = (a: CostTotals, b: CostTotals) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens;
+    return {
+      totals: toCostTotals(totals),
+      byFlow: flowRows.map((row) => ({ flowId: row.flowId, flowName: row.flowName, ...toCostTotals(row) })).sort(byCost),
+      byAgent: agentRows.map((row) => ({ agentId: row.agentId, agentName: row.agentName, ...toCostTotals(row) })).sort(byCost),
+      byModel: modelRows.map((row) => ({ model: row.model!, ...toCostTotals(row) })).sort(byCost),
+    };
+  }
+
+  // Checkpoint operations
+  async getRunCheckpoints(runId: string): Promise<RunCheckpoint[]> {
+    return await db.select().from(runCheckpoints).where(eq(runCheckpoints.runId, runId)).orderBy(runCheckpoints.createdAt);
+  }
+
+  async createRunCheckpoint(checkpoint: InsertRunCheckpoint): Promise<RunCheckpoint> {
+    const [newCheckpoint] = await db.insert(runCheckpoints).values(checkpoint).returning();
+    return newCheckpoint;
+  }
+
+  // Approval operations
+  async getRunApprovals(runId: string): Promise<RunApproval[]> {
+    return await db.select().from(runApprovals).where(eq(runApprovals.runId, runId)).orderBy(runApprovals.createdAt);
+  }
+
+  async getProjectApprovals(projectId: string, status?: string): Promise<Array<RunApproval & { flowId: string; flowName: string }>> {
+    const conditions = [eq(flows.projectId, projectId)];
+    if (status) {
+      conditions.push(eq(runApprovals.status, status));
+    }
+    const rows = await db
+      .select({ approval: runApprovals, flowId: flows.id, flowName: flows.name })
+      .from(runApprovals)
+      .innerJoin(runs, eq(runApprovals.runId, runs.id))
+      .innerJoin(flows, eq(runs.flowId, flows.id))
+      .where(and(...conditions))
+      .orderBy(desc(runApprovals.createdAt));
+    return rows.map(({ approval, flowId, flowName }) => ({ ...approval, flowId, flowName }));
+  }
+
+  async getRunApproval(id: string): Promise<RunApproval | undefined> {
+    const [approval] = await db.select().from(runApprovals).where(eq(runApprovals.id, id));
+    return approval;
+  }
+
+  async createRunApproval(approval: InsertRunApproval): Promise<RunApproval> {
+    const [newApproval] = await db.insert(runApprovals).values(approval).returning();
+    return newApproval;
+  }
+
+  // Policy operations
+  async getPolicyRules(projectId: string): Promise<PolicyRule[]> {
+    return await db.select().from(policyRules).where(eq(policyRules.projectId, projectId)).orderBy(policyRules.createdAt);
+  }
+
+  async getPolicyRule(id: string): Promise<PolicyRule | undefined> {
+    const [rule] = await db.select().from(policyRules).where(eq(policyRules.id, id));
+    return rule;
+  }
+
+  async createPolicyRule(rule: InsertPolicyRule): Promise<PolicyRule> {
+    const [newRule] = await db.insert(policyRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updatePolicyRule(id: string, updates: Partial<InsertPolicyRule>): Promise<PolicyRule> {
+    const [updatedRule] = await db
+      .update(policyRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(policyRules.id, id))
+      .returning();
+    return updatedRule;
+  }
+
+  async deletePolicyRule(id: string): Promise<void> {
+    await db.delete(policyRules).where(eq(policyRules.id, id));
+  }
+
+  async getPolicyEvaluations(runId: string): Promise<PolicyEvaluation[]> {
+    return await db.select().from(policyEvaluations).where(eq(policyEvaluations.runId, runId)).orderBy(policyEvaluations.createdAt);
+  }
+
+  async createPolicyEvaluation(evaluation: InsertPolicyEvaluation): Promise<PolicyEvaluation> {
+    const [newEvaluation] = await db.insert(policyEvaluations).values(evaluation).returning();
+    return newEvaluation;
+  }
+
   // Log operations
   async getLogs(runId: string): Promise<Log[]> {
-    return await db.select().from(logs).where(eq(logs.runId, runId)).orderBy(logs.ts);
+    const runIds = await this.getRunTreeIds(runId);
+    if (runIds.length <= 1) {
+      return await db.select().from(logs).where(eq(logs.runId, runId)).orderBy(logs.ts);
+    }
+    return await db.select().from(logs).where(inArray(logs.runId, runIds)).orderBy(logs.ts);
   }
 
   async createLog(log: InsertLog): Promise<Log> {
-    const [newLog] = await db.insert(logs).values(log).returning();
+    // Projects masking PII never get raw values into their logs
+    const [newLog] = await db.insert(logs).values(await piiService.redactLog(log)).returning();
     return newLog;
   }
 
@@ -468,11 +825,67 @@ export class DatabaseStorage implements IStorage {
     await db.delete(knowledgeBases).where(eq(knowledgeBases.id, id));
   }
 
+  // Knowledge Source operations
+  async getKnowledgeSources(knowledgeBaseId: string): Promise<KnowledgeSource[]> {
+    return await db.select().from(knowledgeSources).where(eq(knowledgeSources.knowledgeBaseId, knowledgeBaseId)).orderBy(desc(knowledgeSources.createdAt));
+  }
+
+  async getKnowledgeSource(id: string): Promise<KnowledgeSource | undefined> {
+    const [knowledgeSource] = await db.select().from(knowledgeSources).where(eq(knowledgeSources.id, id));
+    return knowledgeSource;
+  }
+
+  async createKnowledgeSource(knowledgeSource: InsertKnowledgeSource & { nextCrawlAt?: Date | null }): Promise<KnowledgeSource> {
+    const [newKnowledgeSource] = await db.insert(knowledgeSources).values(knowledgeSource).returning();
+    return newKnowledgeSource;
+  }
+
+  async updateKnowledgeSource(id: string, updates: Partial<KnowledgeSource>): Promise<KnowledgeSource> {
+    const [updatedKnowledgeSource] = await db
+      .update(knowledgeSources)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(knowledgeSources.id, id))
+      .returning();
+    return updatedKnowledgeSource;
+  }
+
+  async deleteKnowledgeSource(id: string): Promise<void> {
+    await db.delete(knowledgeSources).where(eq(knowledgeSources.id, id));
+  }
+
   // Knowledge Item operations
   async getKnowledgeItems(knowledgeBaseId: string): Promise<KnowledgeItem[]> {
     return await db.select().from(knowledgeItems).where(eq(knowledgeItems.knowledgeBaseId, knowledgeBaseId)).orderBy(desc(knowledgeItems.createdAt));
   }
 
+  async getKnowledgeItemsBySource(sourceId: string): Promise<KnowledgeItem[]> {
+    return await db.select().from(knowledgeItems).where(eq(knowledgeItems.sourceId, sourceId));
+  }
+
+  async findKnowledgeItemByHash(knowledgeBaseId: string, contentHash: string): Promise<KnowledgeItem | undefined> {
+    const [knowledgeItem] = await db
+      .select()
+      .from(knowledgeItems)
+      .where(and(eq(knowledgeItems.knowledgeBaseId, knowledgeBaseId), eq(knowledgeItems.contentHash, contentHash)))
+      .limit(1);
+    return knowledgeItem;
+  }
+
+  async getKnowledgeItemRefs(ids: string[]): Promise<KnowledgeItemRef[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select({
+        id: knowledgeItems.id,
+        knowledgeBaseId: knowledgeItems.knowledgeBaseId,
+        type: knowledgeItems.type,
+        title: knowledgeItems.title,
+        url: sql<string | null>`coalesce(${knowledgeItems.metadata}->>'url', ${knowledgeItems.metadata}->>'originalUrl')`,
+        filename: sql<string | null>`${knowledgeItems.metadata}->>'filename'`,
+      })
+      .from(knowledgeItems)
+      .where(inArray(knowledgeItems.id, ids));
+  }
+
   async getKnowledgeItem(id: string): Promise<KnowledgeItem | undefined> {
     const [knowledgeItem] = await db.select().from(knowledgeItems).where(eq(knowledgeItems.id, id));
     return knowledgeItem;
@@ -506,33 +919,85 @@ export class DatabaseStorage implements IStorage {
     return newEmbedding;
   }
 
-  async searchEmbeddings(queryEmbedding: number[], limit: number = 10, knowledgeBaseId?: string): Promise<Array<Embedding & { similarity: number }>> {
-    // This is a basic implementation - in production you'd use vector similarity search
-    // For now, we'll return embeddings with a mock similarity score
-    let query = db.select().from(embeddings);
-    
-    if (knowledgeBaseId) {
-      // Join with knowledgeItems to filter by knowledgeBaseId
-      query = db.select({
-        id: embeddings.id,
-        knowledgeItemId: embeddings.knowledgeItemId,
-        chunkIndex: embeddings.chunkIndex,
-        chunkText: embeddings.chunkText,
-        vector: embeddings.vector,
-        metadata: embeddings.metadata,
-        createdAt: embeddings.createdAt,
-      }).from(embeddings)
-        .innerJoin(knowledgeItems, eq(embeddings.knowledgeItemId, knowledgeItems.id))
-        .where(eq(knowledgeItems.knowledgeBaseId, knowledgeBaseId));
+  async createEmbeddings(rows: InsertEmbedding[]): Promise<void> {
+    if (rows.length > 0) {
+      await db.insert(embeddings).values(rows);
     }
-    
-    const results = await query.limit(limit);
-    
-    // Add mock similarity scores - in production this would be calculated using vector similarity
-    return results.map((embedding, index) => ({
-      ...embedding,
-      similarity: Math.max(0.5, 1 - (index * 0.1)) // Mock decreasing similarity
-    }));
+  }
+
+  async deleteEmbeddings(knowledgeItemId: string): Promise<void> {
+    await db.delete(embeddings).where(eq(embeddings.knowledgeItemId, knowledgeItemId));
+  }
+
+  // Top-k by cosine similarity in SQL. The query vector's size picks the partial HNSW index
+  // (exact scan for sizes without one); vectors of other sizes never match.
+  async searchEmbeddings(queryEmbedding: number[], limit: number = 10, options: EmbeddingSearchOptions = {}): Promise<EmbeddingMatch[]> {
+    const dimensions = sql.raw(String(Math.trunc(queryEmbedding.length)));
+    const distance = sql<number>`(${embeddings.embedding}::vector(${dimensions})) <=> (${`[${queryEmbedding.join(',')}]`}::vector(${dimensions}))`;
+
+    // Inlined rather than bound so the planner can match the partial index predicate
+    const conditions = [sql`${embeddings.dimensions} = ${dimensions}`];
+    if (options.knowledgeBaseId) {
+      conditions.push(eq(embeddings.knowledgeBaseId, options.knowledgeBaseId));
+    }
+    if (options.model) {
+      conditions.push(sql`${embeddings.metadata}->>'model' = ${options.model}`);
+    }
+    if (options.filters && Object.keys(options.filters).length > 0) {
+      conditions.push(metadataFilter(options.filters));
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SET LOCAL hnsw.ef_search = ${sql.raw(String(Math.max(VECTOR_EF_SEARCH, limit)))}`);
+      if (VECTOR_ITERATIVE_SCAN === 'relaxed_order' || VECTOR_ITERATIVE_SCAN === 'strict_order') {
+        await tx.execute(sql`SET LOCAL hnsw.iterative_scan = ${sql.raw(VECTOR_ITERATIVE_SCAN)}`);
+      }
+
+      const search = () => tx
+        .select({ ...embeddingMatchColumns, distance })
+        .from(embeddings)
+        .where(and(...conditions))
+        .orderBy(distance)
+        .limit(limit);
+
+      // The filters apply after the shared index scan, so a small knowledge base in a large table
+      // can come back short; search it exactly instead
+      let rows = await search();
+      if (rows.length < limit && conditions.length > 1) {
+        await tx.execute(sql`SET LOCAL enable_indexscan = off`);
+        rows = await search();
+      }
+      return rows.map(({ distance, ...row }) => ({ ...row, similarity: 1 - Number(distance) }));
+    });
+  }
+
+  // Postgres full-text search over chunk text (english configuration, GIN index), ranked by
+  // ts_rank_cd normalised to 0..1
+  async searchEmbeddingsByText(query: string, limit: number = 10, options: EmbeddingSearchOptions = {}): Promise<KeywordMatch[]> {
+    const terms = keywordQuery(query);
+    if (!terms) {
+      return [];
+    }
+
+    const document = sql`to_tsvector('english', ${embeddings.chunkText})`;
+    const tsquery = sql`to_tsquery('english', ${terms})`;
+    const rank = sql<number>`ts_rank_cd(${document}, ${tsquery}, 32)`;
+
+    const conditions = [sql`${document} @@ ${tsquery}`];
+    if (options.knowledgeBaseId) {
+      conditions.push(eq(embeddings.knowledgeBaseId, options.knowledgeBaseId));
+    }
+    if (options.filters && Object.keys(options.filters).length > 0) {
+      conditions.push(metadataFilter(options.filters));
+    }
+
+    const rows = await db
+      .select({ ...embeddingMatchColumns, rank })
+      .from(embeddings)
+      .where(and(...conditions))
+      .orderBy(desc(rank))
+      .limit(limit);
+    return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
   }
 
   // Data Source operations
@@ -721,6 +1186,49 @@ export class DatabaseStorage implements IStorage {
   async deleteAgentUi(id: string): Promise<void> {
     await db.delete(agentUis).where(eq(agentUis.id, id));
   }
+
+  // MCP Configuration operations
+  async getMcpConfigurations(projectId: string): Promise<McpConfiguration[]> {
+    return await db.select().from(mcpConfigurations).where(eq(mcpConfigurations.projectId, projectId)).orderBy(desc(mcpConfigurations.updatedAt));
+  }
+
+  async getMcpConfiguration(id: string): Promise<McpConfiguration | undefined> {
+    const [config] = await db.select().from(mcpConfigurations).where(eq(mcpConfigurations.id, id));
+    return config;
+  }
+
+  async createMcpConfiguration(config: InsertMcpConfiguration): Promise<McpConfiguration> {
+    const [newConfig] = await db.insert(mcpConfigurations).values(config).returning();
+    return newConfig;
+  }
+
+  async updateMcpConfiguration(id: string, updates: Partial<InsertMcpConfiguration>): Promise<McpConfiguration> {
+    const [updatedConfig] = await db
+      .update(mcpConfigurations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(mcpConfigurations.id, id))
+      .returning();
+    return updatedConfig;
+  }
+
+  async deleteMcpConfiguration(id: string): Promise<void> {
+    await db.delete(mcpConfigurations).where(eq(mcpConfigurations.id, id));
+  }
+
+  // MCP Tool operations
+  async getMcpTools(mcpConfigId: string): Promise<McpTool[]> {
+    return await db.select().from(mcpTools).where(eq(mcpTools.mcpConfigId, mcpConfigId)).orderBy(mcpTools.name);
+  }
+
+  async replaceMcpTools(mcpConfigId: string, toolList: InsertMcpTool[]): Promise<McpTool[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(mcpTools).where(eq(mcpTools.mcpConfigId, mcpConfigId));
+      if (toolList.length === 0) {
+        return [];
+      }
+      return await tx.insert(mcpTools).values(toolList).returning();
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,4 +1,5 @@
 import { createNotionTasks } from "../notionClient";
+import { invokeMcpTool, type McpToolSpec } from "../mcp/client";
 import type { ToolDef, Context } from "../engine/types";
 import type { ExecutionLogger } from "../engine/log";
 
@@ -100,13 +101,12 @@ async function executeMcpTool(
   });
 
   try {
-    // MCP implementation would go here
-    // For now, return placeholder
-    const result = {
-      success: true,
-      message: `MCP tool ${toolDef.name} executed (placeholder)`,
-      inputs
-    };
+    const result = await invokeMcpTool(
+      toolDef.spec as McpToolSpec,
+      toolDef.name,
+      inputs,
+      context.projectId
+    );
 
     logger.mcpComplete(toolDef.name, {
       session: context.sessionId
@@ -1,9 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
 import { storage } from './storage';
+import { userIdForToken } from './auth0';
+import type { AgentToken } from './engine/step-executor';
 
 export interface WSMessage {
-  type: 'log' | 'status_update' | 'run_complete' | 'error';
+  type: 'log' | 'status_update' | 'run_complete' | 'token' | 'approval_required' | 'approval_escalated' | 'approval_resolved' | 'error';
   runId: string;
   data: any;
 }
@@ -11,6 +13,8 @@ export interface WSMessage {
 export class WebSocketManager {
   private wss: WebSocketServer;
   private clients: Map<string, Set<WebSocket>> = new Map();
+  private projectClients: Map<string, Set<WebSocket>> = new Map();
+  private knowledgeBaseClients: Map<string, Set<WebSocket>> = new Map();
 
   constructor(server: Server) {
     this.wss = new WebSocketServer({ 
@@ -23,15 +27,20 @@ export class WebSocketManager {
 
   private handleConnection(ws: WebSocket, request: any) {
     console.log('WebSocket connection established');
+    const userId = this.authenticate(request);
 
     ws.on('message', async (message) => {
       try {
         const data = JSON.parse(message.toString());
         
         if (data.type === 'subscribe_run' && data.runId) {
-          await this.subscribeToRun(ws, data.runId);
+          await this.subscribeToRun(ws, data.runId, await userId);
         } else if (data.type === 'unsubscribe_run' && data.runId) {
           this.unsubscribeFromRun(ws, data.runId);
+        } else if (data.type === 'subscribe_project' && data.projectId) {
+          await this.subscribeToProject(ws, data.projectId, await userId);
+        } else if (data.type === 'subscribe_knowledge_base' && data.knowledgeBaseId) {
+          await this.subscribeToKnowledgeBase(ws, data.knowledgeBaseId, await userId);
         }
       } catch (error) {
         console.error('WebSocket message parsing error:', error);
@@ -52,11 +61,79 @@ export class WebSocketManager {
     });
   }
 
-  private async subscribeToRun(ws: WebSocket, runId: string) {
+  // Bearer token from the Authorization header or, for browsers, the token query parameter
+  private async authenticate(request: any): Promise<string | null> {
     try {
-      // Verify the run exists
+      const header: string | undefined = request.headers?.authorization;
+      const token = header?.startsWith('Bearer ')
+        ? header.substring(7)
+        : new URL(request.url || '/', 'http://localhost').searchParams.get('token') || undefined;
+      return await userIdForToken(token);
+    } catch (error) {
+      console.error('WebSocket authentication error:', error);
+      return null;
+    }
+  }
+
+  // Project subscribers receive approval_required / approval_resolved events (with the step
+  // context) for all of the project's runs, so only the project's owner may subscribe
+  private async subscribeToProject(ws: WebSocket, projectId: string, userId: string | null) {
+    try {
+      if (!(await this.ownsProject(projectId, userId))) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          message: 'Project not found'
+        }));
+        return;
+      }
+
+      this.addClient(this.projectClients, projectId, ws);
+      ws.send(JSON.stringify({ type: 'subscribed', projectId }));
+    } catch (error) {
+      console.error('Error subscribing to project:', error);
+      ws.send(JSON.stringify({
+        type: 'error',
+        message: 'Failed to subscribe to project'
+      }));
+    }
+  }
+
+  // Ingestion progress of the knowledge base's items and crawls of its sources; only for the
+  // owner of the project the knowledge base's agent belongs to
+  private async subscribeToKnowledgeBase(ws: WebSocket, knowledgeBaseId: string, userId: string | null) {
+    try {
+      const knowledgeBase = await storage.getKnowledgeBase(knowledgeBaseId);
+      const agent = knowledgeBase ? await storage.getAgent(knowledgeBase.agentId) : undefined;
+      if (!agent || !(await this.ownsProject(agent.projectId, userId))) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          message: 'Knowledge base not found'
+        }));
+        return;
+      }
+
+      this.addClient(this.knowledgeBaseClients, knowledgeBaseId, ws);
+      ws.send(JSON.stringify({ type: 'subscribed', knowledgeBaseId }));
+    } catch (error) {
+      console.error('Error subscribing to knowledge base:', error);
+      ws.send(JSON.stringify({
+        type: 'error',
+        message: 'Failed to subscribe to knowledge base'
+      }));
+    }
+  }
+
+  private async ownsProject(projectId: string, userId: string | null): Promise<boolean> {
+    const project = await storage.getProject(projectId);
+    return !!project && !!userId && project.userId === userId;
+  }
+
+  private async subscribeToRun(ws: WebSocket, runId: string, userId: string | null) {
+    try {
+      // Run events carry step output and approval messages, so only the project's owner may subscribe
       const run = await storage.getRun(runId);
-      if (!run) {
+      const flow = run ? await storage.getFlow(run.flowId) : undefined;
+      if (!run || !flow || !(await this.ownsProject(flow.projectId, userId))) {
         ws.send(JSON.stringify({
           type: 'error',
           message: 'Run not found'
@@ -65,10 +142,7 @@ export class WebSocketManager {
       }
 
       // Add client to subscribers for this run
-      if (!this.clients.has(runId)) {
-        this.clients.set(runId, new Set());
-      }
-      this.clients.get(runId)!.add(ws);
+      this.addClient(this.clients, runId, ws);
 
       // Send current run status
       ws.send(JSON.stringify({
@@ -99,6 +173,7 @@ export class WebSocketManager {
         }));
       });
 
+      ws.send(JSON.stringify({ type: 'subscribed', runId }));
       console.log(`Client subscribed to run ${runId}`);
     } catch (error) {
       console.error('Error subscribing to run:', error);
@@ -120,16 +195,60 @@ export class WebSocketManager {
     console.log(`Client unsubscribed from run ${runId}`);
   }
 
+  private addClient(subscriptions: Map<string, Set<WebSocket>>, key: string, ws: WebSocket) {
+    if (!subscriptions.has(key)) {
+      subscriptions.set(key, new Set());
+    }
+    subscriptions.get(key)!.add(ws);
+  }
+
   private cleanupConnection(ws: WebSocket) {
     // Remove this connection from all subscriptions
-    this.clients.forEach((clients, runId) => {
-      clients.delete(ws);
-      if (clients.size === 0) {
-        this.clients.delete(runId);
+    for (const subscriptions of [this.clients, this.projectClients, this.knowledgeBaseClients]) {
+      subscriptions.forEach((clients, key) => {
+        clients.delete(ws);
+        if (clients.size === 0) {
+          subscriptions.delete(key);
+        }
+      });
+    }
+  }
+
+  // Sends a message to the run's subscribers and, when projectId is given, to the project's
+  // subscribers too (each client once)
+  broadcastToRun(runId: string, message: Omit<WSMessage, 'runId'>, projectId?: string) {
+    const recipients = new Set<WebSocket>(this.clients.get(runId));
+    if (projectId) {
+      this.projectClients.get(projectId)?.forEach(client => recipients.add(client));
+    }
+    if (recipients.size === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({ ...message, runId });
+    recipients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload);
       }
     });
   }
 
+  broadcastToKnowledgeBase(knowledgeBaseId: string, message: { type: 'ingestion_progress' | 'crawl_progress'; data: any }) {
+    const payload = JSON.stringify({ ...message, knowledgeBaseId });
+    this.knowledgeBaseClients.get(knowledgeBaseId)?.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
+    });
+  }
+
+  // Partial agent output while a step's LLM call is still running; not persisted, the
+  // step's final text arrives in its completion log as before. Only run subscribers get it,
+  // and subscribeToRun admits only the project's owner
+  broadcastToken(runId: string, stepIdx: number, token: AgentToken) {
+    this.broadcastToRun(runId, { type: 'token', data: { stepIdx, ...token } });
+  }
+
   // Called by ExecutionEngine to broadcast logs
   broadcastLog(runId: string, log: any) {
     const clients = this.clients.get(runId);
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -9,6 +10,8 @@ import {
   integer,
   boolean,
   uuid,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -46,10 +49,56 @@ export const projects = pgTable("projects", {
   name: text("name").notNull(),
   slug: text("slug").notNull().unique(),
   description: text("description"),
+  maxConcurrentRuns: integer("max_concurrent_runs"), // null = worker default
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Tools an agent may call natively: project tools by id, MCP tools by configuration and remote
+// name (synced mcp_tools rows are replaced on every sync, so their ids are not stable)
+export const agentToolRefSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("tool"), id: z.string().uuid() }),
+  z.object({ kind: z.literal("mcp"), mcpConfigId: z.string().uuid(), name: z.string().min(1) }),
+]);
+
+// Metadata filters for knowledge search: a value must equal the chunk's or its item's
+// metadata field, an array matches any of its values
+const metadataValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+export const knowledgeFiltersSchema = z.record(z.union([metadataValueSchema, z.array(metadataValueSchema).min(1)]));
+
+// How to search a knowledge base: POST /api/knowledge-bases/:id/search and agent retrieval
+export const knowledgeSearchOptionsSchema = z.object({
+  mode: z.enum(["vector", "keyword", "hybrid"]).default("hybrid"),
+  limit: z.number().int().min(1).max(50).default(10),
+  minSimilarity: z.number().min(-1).max(1).optional(), // Vector hits below this are dropped
+  filters: knowledgeFiltersSchema.optional(),
+  reranker: z.string().optional(), // Registered reranker name (llm, api); none by default
+  candidates: z.number().int().min(1).max(200).optional(), // Hits per retriever before fusion and reranking
+});
+export const knowledgeSearchRequestSchema = knowledgeSearchOptionsSchema.extend({
+  query: z.string().trim().min(1),
+});
+
+// agents.knowledgeBaseConfig: retrieval settings for the agent's knowledge bases; other keys are kept as they are
+export const agentKnowledgeConfigSchema = knowledgeSearchOptionsSchema.partial().passthrough();
+
+// A knowledge chunk an agent answer drew on; index is its [Knowledge N] label in the prompt.
+// Returned in agent step output (citations) and stored in the run log payload.
+export const knowledgeCitationSchema = z.object({
+  index: z.number().int(),
+  knowledgeItemId: z.string(),
+  knowledgeBaseId: z.string(),
+  title: z.string(),
+  chunkIndex: z.number().int(),
+  similarity: z.number().optional(), // Cosine similarity, when found by vector search
+  score: z.number(), // Retrieval score the chunk was ranked by
+  url: z.string().optional(), // Crawled pages
+  filename: z.string().optional(), // Uploaded files
+  page: z.number().optional(),
+  sectionPath: z.string().optional(),
+  snippet: z.string(), // Start of the chunk text
+});
+
 export const agents = pgTable("agents", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
@@ -60,9 +109,11 @@ export const agents = pgTable("agents", {
   fewShots: text("few_shots"),
   inputSchema: jsonb("input_schema"),
   outputSchema: jsonb("output_schema"),
+  model: text("model"), // "provider/model" or bare model name; null uses the project/default routing
+  allowedTools: jsonb("allowed_tools").$type<AgentToolRef[]>(), // offered to the model as functions
   // Enhanced capabilities
   capabilities: jsonb("capabilities"), // frontend, knowledge, triggers, etc.
-  knowledgeBaseConfig: jsonb("knowledge_base_config"), // embedding settings, context injection rules
+  knowledgeBaseConfig: jsonb("knowledge_base_config").$type<AgentKnowledgeConfig>(), // retrieval settings, context injection rules
   frontendConfig: jsonb("frontend_config"), // UI configuration, forms, dashboards
   triggerConfig: jsonb("trigger_config"), // autonomous trigger settings
   dataFabricConfig: jsonb("data_fabric_config"), // data source connections
@@ -95,8 +146,8 @@ export const steps = pgTable("steps", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   flowId: uuid("flow_id").notNull().references(() => flows.id, { onDelete: 'cascade' }),
   idx: integer("idx").notNull(), // order
-  kind: text("kind").notNull(), // agent|tool
-  refId: uuid("ref_id").notNull(), // agents.id or tools.id
+  kind: text("kind").notNull(), // agent|tool|approval|foreach|flow
+  refId: uuid("ref_id"), // agents.id, tools.id or flows.id for flow steps (null for approval and foreach steps)
   config: jsonb("config"), // per-step overrides
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -105,13 +156,23 @@ export const runs = pgTable("runs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   flowId: uuid("flow_id").notNull().references(() => flows.id, { onDelete: 'cascade' }),
   sessionId: text("session_id").notNull(),
-  status: text("status").notNull(), // queued|running|success|error
+  status: text("status").notNull(), // queued|running|awaiting_approval|success|error
   input: jsonb("input"),
   output: jsonb("output"),
   context: jsonb("context"), // shared context between steps
+  resumeStepIdx: integer("resume_step_idx"), // set when a failed run is resumed from a checkpoint
+  parentRunId: uuid("parent_run_id").references((): AnyPgColumn => runs.id, { onDelete: 'set null' }), // set for sub-flow runs
+  parentStepIdx: integer("parent_step_idx"), // step of the parent run that started this sub-flow run
+  attempts: integer("attempts").default(0), // times a worker has claimed this run
+  leaseOwner: text("lease_owner"), // worker currently executing the run
+  leaseExpiresAt: timestamp("lease_expires_at"), // run is re-queued if the lease lapses
   createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
-});
+}, (table) => [
+  index("IDX_runs_status_created").on(table.status, table.createdAt),
+  index("IDX_runs_parent_run").on(table.parentRunId),
+]);
 
 export const logs = pgTable("logs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -142,6 +203,9 @@ export const templates = pgTable("templates", {
 });
 
 // Knowledge Management Tables
+// How uploaded documents are split into chunks, see server/chunking
+export const CHUNK_STRATEGIES = ["recursive", "token", "markdown", "code", "fixed"] as const;
+
 export const knowledgeBases = pgTable("knowledge_bases", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   agentId: uuid("agent_id").notNull().references(() => agents.id, { onDelete: 'cascade' }),
@@ -149,12 +213,46 @@ export const knowledgeBases = pgTable("knowledge_bases", {
   description: text("description"),
   embeddingModel: text("embedding_model").default("text-embedding-ada-002"),
   vectorDimensions: integer("vector_dimensions").default(1536),
-  chunkSize: integer("chunk_size").default(1000),
+  chunkStrategy: text("chunk_strategy").$type<ChunkStrategy>().default("recursive"),
+  chunkSize: integer("chunk_size").default(1000), // Tokens for the token strategy, characters otherwise
   chunkOverlap: integer("chunk_overlap").default(200),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Web content crawled into a knowledge base, see server/crawler:
+//   url     -> the page, plus same-site links up to maxDepth (default 0)
+//   sitemap -> every page listed in the sitemap (sitemap indexes are followed)
+//   domain  -> the whole site reachable from the URL, up to maxDepth (default 3)
+export const KNOWLEDGE_SOURCE_TYPES = ["url", "sitemap", "domain"] as const;
+
+export const crawlConfigSchema = z.object({
+  maxDepth: z.number().int().min(0).max(10).optional(), // Link hops from the start page
+  maxPages: z.number().int().min(1).max(5000).optional(),
+  includePaths: z.array(z.string().min(1)).optional(), // Path prefixes, * matches anything
+  excludePaths: z.array(z.string().min(1)).optional(),
+});
+
+export const knowledgeSources = pgTable("knowledge_sources", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  knowledgeBaseId: uuid("knowledge_base_id").notNull().references(() => knowledgeBases.id, { onDelete: 'cascade' }),
+  type: text("type").$type<KnowledgeSourceType>().notNull(),
+  url: text("url").notNull(),
+  config: jsonb("config").$type<CrawlConfig>(),
+  recrawlIntervalHours: integer("recrawl_interval_hours"), // null = crawl only on demand
+  status: text("status").default("idle"), // idle|crawling|error
+  lastError: text("last_error"),
+  pagesCrawled: integer("pages_crawled").default(0), // pages stored by the last crawl
+  lastCrawledAt: timestamp("last_crawled_at"),
+  nextCrawlAt: timestamp("next_crawl_at"), // due for a crawl once passed; null = not scheduled
+  leaseOwner: text("lease_owner"), // worker currently crawling the source
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_knowledge_sources_next_crawl").on(table.nextCrawlAt),
+]);
+
 export const knowledgeItems = pgTable("knowledge_items", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   knowledgeBaseId: uuid("knowledge_base_id").notNull().references(() => knowledgeBases.id, { onDelete: 'cascade' }),
@@ -162,21 +260,59 @@ export const knowledgeItems = pgTable("knowledge_items", {
   title: text("title").notNull(),
   content: text("content").notNull(),
   metadata: jsonb("metadata"), // file info, url, source, etc.
+  sourceId: uuid("source_id").references(() => knowledgeSources.id, { onDelete: 'cascade' }), // crawled pages
+  contentHash: text("content_hash"), // sha256 of content; crawled pages are deduplicated and re-embedded by it
   isProcessed: boolean("is_processed").default(false),
-  processingStatus: text("processing_status").default("pending"), // pending|processing|completed|error
+  // queued|processing|completed|error|cancelled, driven by the ingestion worker; pending = never queued
+  processingStatus: text("processing_status").default("pending"),
+  chunksTotal: integer("chunks_total"), // set once the item is chunked
+  chunksDone: integer("chunks_done").default(0), // chunks embedded so far
+  processingError: text("processing_error"),
+  attempts: integer("attempts").default(0), // times a worker has claimed this item
+  leaseOwner: text("lease_owner"), // worker currently processing the item
+  leaseExpiresAt: timestamp("lease_expires_at"), // item is re-queued if the lease lapses
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_knowledge_items_status_created").on(table.processingStatus, table.createdAt),
+  index("IDX_knowledge_items_kb_hash").on(table.knowledgeBaseId, table.contentHash),
+  index("IDX_knowledge_items_source").on(table.sourceId),
+]);
+
+// pgvector column without a fixed size, so knowledge bases can use models of different sizes.
+// Requires CREATE EXTENSION vector (see server/scripts/migrate-pgvector.ts).
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => 'vector',
+  toDriver: (value) => `[${value.join(',')}]`,
+  fromDriver: (value) => JSON.parse(value),
 });
 
+// Vector sizes with an HNSW index (one partial index each); other sizes are searched exactly.
+// hnsw indexes vectors of at most 2000 dimensions.
+export const INDEXED_VECTOR_DIMENSIONS = [384, 768, 1024, 1536] as const;
+
 export const embeddings = pgTable("embeddings", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   knowledgeItemId: uuid("knowledge_item_id").notNull().references(() => knowledgeItems.id, { onDelete: 'cascade' }),
+  // Copied from the knowledge item so search can filter without a join; null only on rows the migration hasn't reached
+  knowledgeBaseId: uuid("knowledge_base_id").references(() => knowledgeBases.id, { onDelete: 'cascade' }),
   chunkIndex: integer("chunk_index").notNull(),
   chunkText: text("chunk_text").notNull(),
-  vector: text("vector").notNull(), // JSON encoded vector
+  vector: text("vector"), // Legacy JSON encoded vector, copied to embedding by the pgvector migration
+  embedding: vector("embedding"),
+  dimensions: integer("dimensions"), // Length of embedding; selects the matching HNSW index
   metadata: jsonb("metadata"), // chunk metadata, page numbers, etc.
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_embeddings_kb_dimensions").on(table.knowledgeBaseId, table.dimensions),
+  // Keyword search; queries must use the same text search configuration to hit it
+  index("IDX_embeddings_fts").using('gin', sql`to_tsvector('english', ${table.chunkText})`),
+  ...INDEXED_VECTOR_DIMENSIONS.map((dimensions) =>
+    index(`IDX_embeddings_hnsw_${dimensions}`)
+      .using('hnsw', sql`(${table.embedding}::vector(${sql.raw(String(dimensions))})) vector_cosine_ops`)
+      .where(sql`${table.dimensions} = ${sql.raw(String(dimensions))}`)
+  ),
+]);
 
 // Data Fabric Tables
 export const dataSources = pgTable("data_sources", {
@@ -271,6 +407,30 @@ export const runCheckpoints = pgTable("run_checkpoints", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Human-in-the-loop approvals requested by approval steps
+export const runApprovals = pgTable("run_approvals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: uuid("run_id").notNull().references(() => runs.id, { onDelete: 'cascade' }),
+  stepId: uuid("step_id").references(() => steps.id, { onDelete: 'set null' }),
+  stepIdx: integer("step_idx").notNull(),
+  checkpointId: uuid("checkpoint_id").references(() => runCheckpoints.id, { onDelete: 'set null' }), // context the run resumes with
+  status: text("status").notNull().default('pending'), // pending|approved|rejected|expired
+  title: text("title").notNull(),
+  message: text("message"),
+  approvers: jsonb("approvers"), // user ids allowed to decide besides the project owner
+  onTimeout: text("on_timeout").notNull().default('reject'), // reject|escalate
+  escalateTo: jsonb("escalate_to"), // user ids that take over when escalated
+  escalationLevel: integer("escalation_level").default(0),
+  timeoutAt: timestamp("timeout_at"),
+  decidedBy: varchar("decided_by"), // user id, or null when decided by timeout
+  comment: text("comment"),
+  contextEdits: jsonb("context_edits"), // context overrides supplied with the approval
+  createdAt: timestamp("created_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  index("IDX_run_approvals_status_timeout").on(table.status, table.timeoutAt),
+]);
+
 export const memory = pgTable("memory", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: text("session_id").notNull(),
@@ -324,7 +484,7 @@ export const policyRules = pgTable("policy_rules", {
   name: text("name").notNull(),
   description: text("description"),
   objective: text("objective"), // what the policy aims to achieve
-  constraints: jsonb("constraints").notNull(), // max_latency_ms, max_cost_usd, pii_masking, etc.
+  constraints: jsonb("constraints").notNull(), // max_latency_ms, max_cost_usd, pii_masking (mode, types, dictionaries), etc.
   slo: jsonb("slo"), // service level objectives (action_recall, hallucination_rate, etc.)
   fallbacks: jsonb("fallbacks"), // fallback strategies on policy violation
   guards: jsonb("guards"), // disallowed tools, required approvals, etc.
@@ -348,6 +508,18 @@ export const policyEvaluations = pgTable("policy_evaluations", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Vault of tokenized PII values, shared by a top-level run and its sub-flow runs
+export const piiTokens = pgTable("pii_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: uuid("run_id").notNull().references(() => runs.id, { onDelete: 'cascade' }), // top-level run of the tree
+  token: text("token").notNull(), // e.g. [[pii:email:3f9a1c0b7d2e]]
+  piiType: text("pii_type").notNull(), // email|phone|card|iban|ssn|<dictionary name>
+  value: text("value").notNull(), // original value, restored for tools that opt in
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_pii_tokens_run_token").on(table.runId, table.token),
+]);
+
 // Telemetry & Learning Tables
 export const runMetrics = pgTable("run_metrics", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -355,6 +527,7 @@ export const runMetrics = pgTable("run_metrics", {
   stepIdx: integer("step_idx"),
   stepName: text("step_name"),
   kind: text("kind"), // agent|tool
+  agentId: uuid("agent_id").references(() => agents.id, { onDelete: 'set null' }), // agent calls only
   model: text("model"), // which LLM model was used
   tokens: jsonb("tokens"), // {prompt, completion, total}
   costUsd: text("cost_usd"), // decimal as text for precision
@@ -363,7 +536,10 @@ export const runMetrics = pgTable("run_metrics", {
   qualityScore: text("quality_score"), // decimal 0-1
   metadata: jsonb("metadata"), // additional metrics (recall, precision, hallucination, etc.)
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_run_metrics_run").on(table.runId),
+  index("IDX_run_metrics_created").on(table.createdAt),
+]);
 
 // Skills Registry Tables
 export const skills = pgTable("skills", {
@@ -510,7 +686,14 @@ export const runsRelations = relations(runs, ({ one, many }) => ({
     fields: [runs.flowId],
     references: [flows.id],
   }),
+  parentRun: one(runs, {
+    fields: [runs.parentRunId],
+    references: [runs.id],
+    relationName: 'subflowRuns',
+  }),
+  childRuns: many(runs, { relationName: 'subflowRuns' }),
   logs: many(logs),
+  approvals: many(runApprovals),
 }));
 
 export const logsRelations = relations(logs, ({ one }) => ({
@@ -534,6 +717,15 @@ export const knowledgeBasesRelations = relations(knowledgeBases, ({ one, many })
     references: [agents.id],
   }),
   knowledgeItems: many(knowledgeItems),
+  knowledgeSources: many(knowledgeSources),
+}));
+
+export const knowledgeSourcesRelations = relations(knowledgeSources, ({ one, many }) => ({
+  knowledgeBase: one(knowledgeBases, {
+    fields: [knowledgeSources.knowledgeBaseId],
+    references: [knowledgeBases.id],
+  }),
+  knowledgeItems: many(knowledgeItems),
 }));
 
 export const knowledgeItemsRelations = relations(knowledgeItems, ({ one, many }) => ({
@@ -541,6 +733,10 @@ export const knowledgeItemsRelations = relations(knowledgeItems, ({ one, many })
     fields: [knowledgeItems.knowledgeBaseId],
     references: [knowledgeBases.id],
   }),
+  source: one(knowledgeSources, {
+    fields: [knowledgeItems.sourceId],
+    references: [knowledgeSources.id],
+  }),
   embeddings: many(embeddings),
 }));
 
@@ -655,6 +851,10 @@ export const runMetricsRelations = relations(runMetrics, ({ one }) => ({
     fields: [runMetrics.runId],
     references: [runs.id],
   }),
+  agent: one(agents, {
+    fields: [runMetrics.agentId],
+    references: [agents.id],
+  }),
 }));
 
 // Skills Registry relations
@@ -709,6 +909,17 @@ export const runCheckpointsRelations = relations(runCheckpoints, ({ one }) => ({
   }),
 }));
 
+export const runApprovalsRelations = relations(runApprovals, ({ one }) => ({
+  run: one(runs, {
+    fields: [runApprovals.runId],
+    references: [runs.id],
+  }),
+  step: one(steps, {
+    fields: [runApprovals.stepId],
+    references: [steps.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -727,7 +938,10 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   updatedAt: true,
 });
 
-export const insertAgentSchema = createInsertSchema(agents).omit({
+export const insertAgentSchema = createInsertSchema(agents, {
+  allowedTools: z.array(agentToolRefSchema).nullish(),
+  knowledgeBaseConfig: agentKnowledgeConfigSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -753,6 +967,10 @@ export const insertRunSchema = createInsertSchema(runs).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  attempts: true,
+  leaseOwner: true,
+  leaseExpiresAt: true,
+  startedAt: true,
 });
 
 export const insertLogSchema = createInsertSchema(logs).omit({
@@ -771,19 +989,46 @@ export const insertTemplateSchema = createInsertSchema(templates).omit({
 });
 
 // New table insert schemas
-export const insertKnowledgeBaseSchema = createInsertSchema(knowledgeBases).omit({
+export const insertKnowledgeBaseSchema = createInsertSchema(knowledgeBases, {
+  chunkStrategy: z.enum(CHUNK_STRATEGIES).nullish(),
+  chunkSize: z.number().int().min(50).max(20000).nullish(),
+  chunkOverlap: z.number().int().min(0).max(10000).nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertKnowledgeSourceSchema = createInsertSchema(knowledgeSources, {
+  type: z.enum(KNOWLEDGE_SOURCE_TYPES),
+  url: z.string().url().refine((url) => /^https?:/i.test(url), "Only http and https URLs can be crawled"),
+  config: crawlConfigSchema.nullish(),
+  recrawlIntervalHours: z.number().int().min(1).max(8760).nullish(),
+}).omit({
+  id: true,
+  status: true,
+  lastError: true,
+  pagesCrawled: true,
+  lastCrawledAt: true,
+  nextCrawlAt: true,
+  leaseOwner: true,
+  leaseExpiresAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertKnowledgeItemSchema = createInsertSchema(knowledgeItems).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  attempts: true,
+  leaseOwner: true,
+  leaseExpiresAt: true,
 });
 
-export const insertEmbeddingSchema = createInsertSchema(embeddings).omit({
+export const insertEmbeddingSchema = createInsertSchema(embeddings, {
+  embedding: z.array(z.number()).nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -850,6 +1095,12 @@ export const insertRunCheckpointSchema = createInsertSchema(runCheckpoints).omit
   createdAt: true,
 });
 
+export const insertRunApprovalSchema = createInsertSchema(runApprovals).omit({
+  id: true,
+  createdAt: true,
+  decidedAt: true,
+});
+
 export const insertMemorySchema = createInsertSchema(memory).omit({
   id: true,
   updatedAt: true,
@@ -867,6 +1118,11 @@ export const insertPolicyEvaluationSchema = createInsertSchema(policyEvaluations
   createdAt: true,
 });
 
+export const insertPiiTokenSchema = createInsertSchema(piiTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Telemetry insert schemas
 export const insertRunMetricSchema = createInsertSchema(runMetrics).omit({
   id: true,
@@ -917,6 +1173,11 @@ export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertAgent = z.infer<typeof insertAgentSchema>;
 export type Agent = typeof agents.$inferSelect;
+export type AgentToolRef = z.infer<typeof agentToolRefSchema>;
+export type KnowledgeFilters = z.infer<typeof knowledgeFiltersSchema>;
+export type KnowledgeSearchOptions = z.infer<typeof knowledgeSearchOptionsSchema>;
+export type AgentKnowledgeConfig = z.infer<typeof agentKnowledgeConfigSchema>;
+export type KnowledgeCitation = z.infer<typeof knowledgeCitationSchema>;
 export type InsertTool = z.infer<typeof insertToolSchema>;
 export type Tool = typeof tools.$inferSelect;
 export type InsertFlow = z.infer<typeof insertFlowSchema>;
@@ -935,6 +1196,11 @@ export type Template = typeof templates.$inferSelect;
 // New table types
 export type InsertKnowledgeBase = z.infer<typeof insertKnowledgeBaseSchema>;
 export type KnowledgeBase = typeof knowledgeBases.$inferSelect;
+export type ChunkStrategy = typeof CHUNK_STRATEGIES[number];
+export type KnowledgeSourceType = typeof KNOWLEDGE_SOURCE_TYPES[number];
+export type CrawlConfig = z.infer<typeof crawlConfigSchema>;
+export type InsertKnowledgeSource = z.infer<typeof insertKnowledgeSourceSchema>;
+export type KnowledgeSource = typeof knowledgeSources.$inferSelect;
 export type InsertKnowledgeItem = z.infer<typeof insertKnowledgeItemSchema>;
 export type KnowledgeItem = typeof knowledgeItems.$inferSelect;
 export type InsertEmbedding = z.infer<typeof insertEmbeddingSchema>;
@@ -963,6 +1229,8 @@ export type FormDefinition = typeof formDefinitions.$inferSelect;
 // LangGraph types
 export type InsertRunCheckpoint = z.infer<typeof insertRunCheckpointSchema>;
 export type RunCheckpoint = typeof runCheckpoints.$inferSelect;
+export type InsertRunApproval = z.infer<typeof insertRunApprovalSchema>;
+export type RunApproval = typeof runApprovals.$inferSelect;
 export type InsertMemory = z.infer<typeof insertMemorySchema>;
 export type Memory = typeof memory.$inferSelect;
 
@@ -971,6 +1239,8 @@ export type InsertPolicyRule = z.infer<typeof insertPolicyRuleSchema>;
 export type PolicyRule = typeof policyRules.$inferSelect;
 export type InsertPolicyEvaluation = z.infer<typeof insertPolicyEvaluationSchema>;
 export type PolicyEvaluation = typeof policyEvaluations.$inferSelect;
+export type InsertPiiToken = z.infer<typeof insertPiiTokenSchema>;
+export type PiiToken = typeof piiTokens.$inferSelect;
 
 // Telemetry types
 export type InsertRunMetric = z.infer<typeof insertRunMetricSchema>;